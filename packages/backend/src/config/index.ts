@@ -37,6 +37,15 @@ const ConfigSchema = z.object({
 
   // Gemini CLI
   GEMINI_CLI_PATH: z.string().optional(),
+  // Gemini CLI data directory to import history from (defaults to ~/.gemini)
+  GEMINI_HOME: z.string().optional(),
+
+  // Gemini API, used for speech from TTS models (the CLI only returns text)
+  GEMINI_API_KEY: z.string().optional(),
+  GEMINI_API_BASE_URL: z.string().url().default('https://generativelanguage.googleapis.com/v1beta'),
+
+  // Comma-separated usernames that have the admin role (re-applied at startup)
+  ADMIN_USERNAMES: z.string().default(''),
 
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -74,3 +83,7 @@ export const isTest = config.NODE_ENV === 'test';
 export const allowedOrigins = config.ALLOWED_ORIGINS.split(',').map((origin) =>
   origin.trim()
 );
+
+export const adminUsernames = config.ADMIN_USERNAMES.split(',')
+  .map((username) => username.trim())
+  .filter(Boolean);
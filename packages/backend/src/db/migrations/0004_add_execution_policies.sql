@@ -0,0 +1,23 @@
+-- Migration: Add execution policies table
+-- Date: 2026-10-19
+
+-- Per-project and per-session approval mode, read-only flag and allow/deny lists
+CREATE TABLE IF NOT EXISTS execution_policies (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  project_id TEXT UNIQUE,
+  session_id TEXT UNIQUE,
+  approval_mode TEXT NOT NULL DEFAULT 'default',
+  read_only INTEGER NOT NULL DEFAULT 0,
+  allowed_commands TEXT NOT NULL DEFAULT '[]',
+  denied_commands TEXT NOT NULL DEFAULT '[]',
+  allowed_paths TEXT NOT NULL DEFAULT '[]',
+  denied_paths TEXT NOT NULL DEFAULT '[]',
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_policies_user ON execution_policies(user_id);
@@ -0,0 +1,27 @@
+-- Migration: Add conversation branches to chat messages
+-- Date: 2026-10-19
+
+-- Each message points at the message it follows; edits and regenerations add siblings
+ALTER TABLE chat_messages ADD COLUMN parent_id TEXT;
+
+-- The leaf of the branch the session currently shows
+ALTER TABLE sessions ADD COLUMN active_leaf_id TEXT;
+
+-- Existing conversations become a single branch in creation order
+UPDATE chat_messages SET parent_id = (
+  SELECT previous.id FROM chat_messages AS previous
+  WHERE previous.session_id = chat_messages.session_id
+    AND (previous.created_at < chat_messages.created_at
+      OR (previous.created_at = chat_messages.created_at AND previous.rowid < chat_messages.rowid))
+  ORDER BY previous.created_at DESC, previous.rowid DESC
+  LIMIT 1
+);
+
+UPDATE sessions SET active_leaf_id = (
+  SELECT id FROM chat_messages
+  WHERE chat_messages.session_id = sessions.id
+  ORDER BY created_at DESC, rowid DESC
+  LIMIT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_parent ON chat_messages(parent_id);
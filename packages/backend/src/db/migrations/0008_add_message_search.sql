@@ -0,0 +1,29 @@
+-- Migration: Add full-text search over chat messages
+-- Date: 2026-10-19
+
+-- External-content FTS5 index: stores only the index, reads text from chat_messages
+CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+  content,
+  content = 'chat_messages',
+  content_rowid = 'rowid',
+  tokenize = 'porter unicode61'
+);
+
+-- Keep the index in sync with inserts, deletes (including session cascades) and edits
+CREATE TRIGGER IF NOT EXISTS chat_messages_fts_insert AFTER INSERT ON chat_messages BEGIN
+  INSERT INTO chat_messages_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS chat_messages_fts_delete AFTER DELETE ON chat_messages BEGIN
+  INSERT INTO chat_messages_fts(chat_messages_fts, rowid, content)
+    VALUES ('delete', old.rowid, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS chat_messages_fts_update AFTER UPDATE OF content ON chat_messages BEGIN
+  INSERT INTO chat_messages_fts(chat_messages_fts, rowid, content)
+    VALUES ('delete', old.rowid, old.content);
+  INSERT INTO chat_messages_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+-- Index existing history
+INSERT INTO chat_messages_fts(chat_messages_fts) VALUES ('rebuild');
@@ -0,0 +1,23 @@
+-- Migration: Add titles, pinning, archiving and tags to sessions
+-- Date: 2026-10-19
+
+ALTER TABLE sessions ADD COLUMN title TEXT;
+ALTER TABLE sessions ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sessions ADD COLUMN archived INTEGER NOT NULL DEFAULT 0;
+-- JSON array of strings
+ALTER TABLE sessions ADD COLUMN tags TEXT;
+
+-- Existing sessions are titled after their first prompt (first line, up to 60 characters)
+UPDATE sessions SET title = (
+  SELECT substr(trim(CASE WHEN instr(content, char(10)) > 0
+    THEN substr(content, 1, instr(content, char(10)) - 1)
+    ELSE content END), 1, 60)
+  FROM chat_messages
+  WHERE chat_messages.session_id = sessions.id AND chat_messages.role = 'user'
+  ORDER BY created_at, rowid
+  LIMIT 1
+);
+
+-- Session lists filter by owner and archive state, newest first
+CREATE INDEX IF NOT EXISTS idx_sessions_user_archived
+  ON sessions(user_id, archived, last_accessed_at);
@@ -0,0 +1,20 @@
+-- Migration: Add prompt templates
+-- Date: 2026-10-19
+
+-- Reusable prompts with {{variables}}; project_id is NULL for templates available everywhere
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  project_id TEXT,
+  name TEXT NOT NULL,
+  description TEXT,
+  body TEXT NOT NULL,
+  -- JSON array of project-relative paths
+  files TEXT NOT NULL DEFAULT '[]',
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_user ON prompt_templates(user_id, project_id);
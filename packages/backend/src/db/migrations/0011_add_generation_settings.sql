@@ -0,0 +1,5 @@
+-- Migration: Add per-session generation settings
+-- Date: 2026-10-19
+
+-- JSON object (temperature, topP, maxOutputTokens, thinkingBudget, systemInstruction)
+ALTER TABLE sessions ADD COLUMN generation_settings TEXT;
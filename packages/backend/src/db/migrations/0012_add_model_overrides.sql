@@ -0,0 +1,12 @@
+-- Migration: Add model registry overrides
+-- Date: 2026-10-19
+
+-- Admin changes merged over the built-in model list, keyed by model id.
+-- Ids that are not built in add a model; is_default marks the team default model.
+CREATE TABLE IF NOT EXISTS model_overrides (
+  model_id TEXT PRIMARY KEY,
+  -- JSON object with the overridden GeminiModel fields
+  override TEXT NOT NULL DEFAULT '{}',
+  is_default INTEGER NOT NULL DEFAULT 0,
+  updated_at INTEGER NOT NULL
+);
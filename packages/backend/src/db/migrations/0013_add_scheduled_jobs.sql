@@ -0,0 +1,41 @@
+-- Migration: Add scheduled jobs
+-- Date: 2026-10-19
+
+-- Prompts run headlessly against a project on a cron schedule
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  -- Five-field cron expression or macro, in server time
+  schedule TEXT NOT NULL,
+  model TEXT,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  -- JSON execution policy applied to every run's session
+  policy TEXT NOT NULL,
+  next_run_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(enabled, next_run_at);
+
+-- One row per run; session_id points at the conversation the run produced
+CREATE TABLE IF NOT EXISTS job_runs (
+  id TEXT PRIMARY KEY,
+  job_id TEXT NOT NULL,
+  session_id TEXT,
+  status TEXT NOT NULL DEFAULT 'running',
+  manual INTEGER NOT NULL DEFAULT 0,
+  output TEXT,
+  error TEXT,
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER,
+  FOREIGN KEY (job_id) REFERENCES scheduled_jobs(id) ON DELETE CASCADE,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job ON job_runs(job_id, started_at);
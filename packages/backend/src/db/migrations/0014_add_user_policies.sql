@@ -0,0 +1,6 @@
+-- Migration: Add execution policies enforced on users
+-- Date: 2026-10-19
+
+-- JSON execution policy an admin applies to every session of the user (NULL means none);
+-- the user's own project and session policies can only add restrictions to it
+ALTER TABLE users ADD COLUMN execution_policy TEXT;
@@ -0,0 +1,6 @@
+-- Migration: Add tools approved for a whole session
+-- Date: 2026-10-19
+
+-- JSON list of tool names the user chose to always approve in the session; only the server
+-- writes it, so a client cannot pre-approve tools through the session metadata
+ALTER TABLE sessions ADD COLUMN approved_tools TEXT;
@@ -1,5 +1,11 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
 import { createId } from '@paralleldrive/cuid2';
+import type {
+  ExecutionPolicy,
+  GenerationSettings,
+  JobRunStatus,
+  ModelOverride,
+} from '@gemini-ui/shared';
 
 /**
  * Users table
@@ -10,6 +16,10 @@ export const users = sqliteTable('users', {
     .$defaultFn(() => createId()),
   username: text('username').notNull().unique(),
   passwordHash: text('password_hash').notNull(),
+  role: text('role', { enum: ['user', 'admin'] }).notNull().default('user'),
+  monthlyBudgetUsd: real('monthly_budget_usd'),
+  /** Policy an admin enforces on every session of the user */
+  executionPolicy: text('execution_policy', { mode: 'json' }).$type<ExecutionPolicy>(),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
@@ -33,6 +43,16 @@ export const sessions = sqliteTable('sessions', {
   geminiSessionId: text('gemini_session_id'),
   model: text('model').notNull().default('gemini-2.5-flash'),
   metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
+  // Leaf of the conversation branch currently shown
+  activeLeafId: text('active_leaf_id'),
+  // Generated from the first prompt unless the user renames the session
+  title: text('title'),
+  pinned: integer('pinned', { mode: 'boolean' }).notNull().default(false),
+  archived: integer('archived', { mode: 'boolean' }).notNull().default(false),
+  tags: text('tags', { mode: 'json' }).$type<string[]>(),
+  generationSettings: text('generation_settings', { mode: 'json' }).$type<GenerationSettings>(),
+  // Tools the user approved for every turn; only written by the server
+  approvedTools: text('approved_tools', { mode: 'json' }).$type<string[]>(),
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .$defaultFn(() => new Date()),
@@ -84,8 +104,88 @@ export const projects = sqliteTable('projects', {
     .$defaultFn(() => new Date()),
 });
 
+/**
+ * Execution policies table
+ * One row per project or per session; session policies can only tighten the project's
+ */
+export const executionPolicies = sqliteTable('execution_policies', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  projectId: text('project_id')
+    .unique()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  sessionId: text('session_id')
+    .unique()
+    .references(() => sessions.id, { onDelete: 'cascade' }),
+  approvalMode: text('approval_mode', { enum: ['default', 'auto_edit', 'yolo'] })
+    .notNull()
+    .default('default'),
+  readOnly: integer('read_only', { mode: 'boolean' }).notNull().default(false),
+  allowedCommands: text('allowed_commands', { mode: 'json' }).$type<string[]>().notNull(),
+  deniedCommands: text('denied_commands', { mode: 'json' }).$type<string[]>().notNull(),
+  allowedPaths: text('allowed_paths', { mode: 'json' }).$type<string[]>().notNull(),
+  deniedPaths: text('denied_paths', { mode: 'json' }).$type<string[]>().notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/**
+ * Usage records table
+ * Ledger of estimated spend per turn, kept when the session is deleted
+ */
+export const usageRecords = sqliteTable('usage_records', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  sessionId: text('session_id').references(() => sessions.id, { onDelete: 'set null' }),
+  projectPath: text('project_path').notNull(),
+  model: text('model').notNull(),
+  promptTokens: integer('prompt_tokens').notNull().default(0),
+  responseTokens: integer('response_tokens').notNull().default(0),
+  cachedTokens: integer('cached_tokens').notNull().default(0),
+  costUsd: real('cost_usd').notNull().default(0),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/**
+ * Attachments table
+ * Files uploaded to a session; stored under UPLOAD_DIR/<sessionId>/
+ */
+export const attachments = sqliteTable('attachments', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  sessionId: text('session_id')
+    .notNull()
+    .references(() => sessions.id, { onDelete: 'cascade' }),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  filename: text('filename').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(),
+  storagePath: text('storage_path').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
 /**
  * Chat messages table
+ * Content is full-text indexed by the chat_messages_fts virtual table (migration 0008)
  */
 export const chatMessages = sqliteTable('chat_messages', {
   id: text('id')
@@ -94,6 +194,8 @@ export const chatMessages = sqliteTable('chat_messages', {
   sessionId: text('session_id')
     .notNull()
     .references(() => sessions.id, { onDelete: 'cascade' }),
+  // Message this one follows; siblings are alternative branches (edits, regenerations)
+  parentId: text('parent_id'),
   role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
   content: text('content').notNull(),
   metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
@@ -102,6 +204,98 @@ export const chatMessages = sqliteTable('chat_messages', {
     .$defaultFn(() => new Date()),
 });
 
+/**
+ * Prompt templates table
+ * Templates without a project are available in every project of the user
+ */
+export const promptTemplates = sqliteTable('prompt_templates', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  body: text('body').notNull(),
+  files: text('files', { mode: 'json' }).$type<string[]>().notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/**
+ * Model overrides table
+ * Admin changes merged over the built-in model list; one row marks the team default
+ */
+export const modelOverrides = sqliteTable('model_overrides', {
+  modelId: text('model_id').primaryKey(),
+  override: text('override', { mode: 'json' }).$type<ModelOverride>().notNull(),
+  isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/**
+ * Scheduled jobs table
+ * Prompts run against a project on a cron schedule
+ */
+export const scheduledJobs = sqliteTable('scheduled_jobs', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  prompt: text('prompt').notNull(),
+  schedule: text('schedule').notNull(),
+  model: text('model'),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  policy: text('policy', { mode: 'json' }).$type<ExecutionPolicy>().notNull(),
+  // Null while the job is disabled
+  nextRunAt: integer('next_run_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/**
+ * Job runs table
+ * One row per run; the conversation itself lives in the run's session
+ */
+export const jobRuns = sqliteTable('job_runs', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  jobId: text('job_id')
+    .notNull()
+    .references(() => scheduledJobs.id, { onDelete: 'cascade' }),
+  sessionId: text('session_id').references(() => sessions.id, { onDelete: 'set null' }),
+  status: text('status', { enum: ['running', 'succeeded', 'failed'] })
+    .$type<JobRunStatus>()
+    .notNull()
+    .default('running'),
+  manual: integer('manual', { mode: 'boolean' }).notNull().default(false),
+  output: text('output'),
+  error: text('error'),
+  startedAt: integer('started_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  finishedAt: integer('finished_at', { mode: 'timestamp' }),
+});
+
 /**
  * TypeScript types inferred from schema
  */
@@ -117,5 +311,26 @@ export type NewRefreshToken = typeof refreshTokens.$inferInsert;
 export type Project = typeof projects.$inferSelect;
 export type NewProject = typeof projects.$inferInsert;
 
+export type ExecutionPolicyRow = typeof executionPolicies.$inferSelect;
+export type NewExecutionPolicyRow = typeof executionPolicies.$inferInsert;
+
+export type UsageRecord = typeof usageRecords.$inferSelect;
+export type NewUsageRecord = typeof usageRecords.$inferInsert;
+
+export type AttachmentRow = typeof attachments.$inferSelect;
+export type NewAttachment = typeof attachments.$inferInsert;
+
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type NewChatMessage = typeof chatMessages.$inferInsert;
+
+export type PromptTemplateRow = typeof promptTemplates.$inferSelect;
+export type NewPromptTemplate = typeof promptTemplates.$inferInsert;
+
+export type ModelOverrideRow = typeof modelOverrides.$inferSelect;
+export type NewModelOverride = typeof modelOverrides.$inferInsert;
+
+export type ScheduledJobRow = typeof scheduledJobs.$inferSelect;
+export type NewScheduledJob = typeof scheduledJobs.$inferInsert;
+
+export type JobRunRow = typeof jobRuns.$inferSelect;
+export type NewJobRun = typeof jobRuns.$inferInsert;
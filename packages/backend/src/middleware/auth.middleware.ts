@@ -2,6 +2,9 @@ import type { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../security/jwt.js';
 import type { TokenPayload } from '@gemini-ui/shared';
 import { AppError } from './error-handler.js';
+import { db } from '../db/index.js';
+import { users } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
 
 /**
  * Extend Express Request with user information
@@ -90,3 +93,32 @@ export function optionalAuth(
     next();
   }
 }
+
+/**
+ * Admin middleware
+ * Must run after requireAuth; the role is read from the database so demotions apply immediately
+ */
+export async function requireAdmin(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) {
+  try {
+    const authUser = (req as AuthRequest).user;
+    if (!authUser) {
+      throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, authUser.id),
+    });
+
+    if (user?.role !== 'admin') {
+      throw new AppError(403, 'Admin access required', 'ADMIN_REQUIRED');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
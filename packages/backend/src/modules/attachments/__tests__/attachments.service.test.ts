@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AttachmentsService, detectMimeType } from '../attachments.service.js';
+import { parseMultipart } from '../multipart.js';
+import { SessionsService } from '../../sessions/sessions.service.js';
+import { db } from '../../../db/index.js';
+import { users } from '../../../db/schema.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x01]);
+const PDF = Buffer.from('%PDF-1.7\n%test');
+
+describe('detectMimeType', () => {
+  it('should recognise images and PDFs by their leading bytes', () => {
+    expect(detectMimeType(PNG)).toBe('image/png');
+    expect(detectMimeType(PDF)).toBe('application/pdf');
+    expect(detectMimeType(Buffer.from('<svg></svg>'))).toBeUndefined();
+  });
+});
+
+describe('parseMultipart', () => {
+  it('should extract file parts with their binary content', () => {
+    const body = Buffer.concat([
+      Buffer.from(
+        '--xyz\r\nContent-Disposition: form-data; name="note"\r\n\r\nhello\r\n' +
+          '--xyz\r\nContent-Disposition: form-data; name="file"; filename="shot.png"\r\n' +
+          'Content-Type: image/png\r\n\r\n'
+      ),
+      PNG,
+      Buffer.from('\r\n--xyz--\r\n'),
+    ]);
+
+    const files = parseMultipart(body, 'xyz');
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ field: 'file', filename: 'shot.png', mimeType: 'image/png' });
+    expect(files[0].data.equals(PNG)).toBe(true);
+  });
+});
+
+describe('AttachmentsService', () => {
+  let attachmentsService: AttachmentsService;
+  let sessionsService: SessionsService;
+  let uploadDir: string;
+  let testUserId: string;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    uploadDir = path.join(os.tmpdir(), `test-uploads-${Date.now()}`);
+    attachmentsService = new AttachmentsService(uploadDir);
+    sessionsService = new SessionsService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'uploader', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+    sessionId = (await sessionsService.create(testUserId, { projectPath: '/tmp' })).id;
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should store files per session with a sanitized name', async () => {
+    const attachment = await attachmentsService.create(testUserId, sessionId, {
+      filename: 'my shot?.png',
+      mimeType: 'image/png',
+      data: PNG,
+    });
+
+    expect(attachment).toMatchObject({ filename: 'my shot_.png', mimeType: 'image/png', size: 10 });
+    const { filePath } = await attachmentsService.getFile(testUserId, sessionId, attachment.id);
+    expect(path.dirname(filePath)).toBe(path.join(uploadDir, sessionId));
+    expect((await fs.readFile(filePath)).equals(PNG)).toBe(true);
+  });
+
+  it('should trust the file contents over the declared type', async () => {
+    await expect(
+      attachmentsService.create(testUserId, sessionId, {
+        filename: 'page.png',
+        mimeType: 'image/png',
+        data: Buffer.from('<html></html>'),
+      })
+    ).rejects.toThrow('Unsupported file type');
+
+    const pdf = await attachmentsService.create(testUserId, sessionId, {
+      filename: 'doc.bin',
+      mimeType: 'application/octet-stream',
+      data: PDF,
+    });
+    expect(pdf.mimeType).toBe('application/pdf');
+  });
+
+  it('should only resolve attachments of the same session', async () => {
+    const other = await sessionsService.create(testUserId, { projectPath: '/tmp' });
+    const attachment = await attachmentsService.create(testUserId, other.id, {
+      filename: 'a.pdf',
+      mimeType: 'application/pdf',
+      data: PDF,
+    });
+
+    await expect(
+      attachmentsService.resolve(testUserId, sessionId, [attachment.id])
+    ).rejects.toThrow('Attachment not found');
+  });
+
+  it('should reject uploads to sessions of other users', async () => {
+    await expect(
+      attachmentsService.create('someone-else', sessionId, {
+        filename: 'a.pdf',
+        mimeType: 'application/pdf',
+        data: PDF,
+      })
+    ).rejects.toThrow('Session not found');
+  });
+});
@@ -0,0 +1,124 @@
+import type { Response, NextFunction } from 'express';
+import { AttachmentsService } from './attachments.service.js';
+import { readUploadedFile } from './multipart.js';
+import type { ApiResponse } from '@gemini-ui/shared';
+import { config } from '../../config/index.js';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * Map attachment service errors to API errors
+ */
+function toAppError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  switch (error.message) {
+    case 'Session not found':
+      return new AppError(404, error.message, 'SESSION_NOT_FOUND');
+    case 'Attachment not found':
+      return new AppError(404, error.message, 'ATTACHMENT_NOT_FOUND');
+    case 'Invalid upload':
+      return new AppError(400, 'Expected a multipart upload with a "file" field', 'INVALID_UPLOAD');
+    case 'File too large':
+      return new AppError(413, error.message, 'FILE_TOO_LARGE');
+    case 'Unsupported file type':
+      return new AppError(
+        415,
+        'Only PNG, JPEG, WebP, GIF and PDF files are supported',
+        'UNSUPPORTED_FILE_TYPE'
+      );
+    case 'Model does not support attachments':
+      return new AppError(400, error.message, 'VISION_NOT_SUPPORTED');
+    default:
+      return error;
+  }
+}
+
+/**
+ * Attachments controller
+ */
+export class AttachmentsController {
+  private attachmentsService = new AttachmentsService();
+
+  /**
+   * Upload a file to a session
+   * POST /api/sessions/:sessionId/attachments (multipart/form-data, field "file")
+   */
+  upload = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId;
+      const file = await readUploadedFile(req, 'file', config.MAX_FILE_SIZE);
+      const attachment = await this.attachmentsService.create(req.user.id, sessionId, file);
+
+      res.status(201).json({
+        success: true,
+        data: attachment,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * List a session's attachments
+   * GET /api/sessions/:sessionId/attachments
+   */
+  list = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId;
+      const list = await this.attachmentsService.list(req.user.id, sessionId);
+
+      res.json({
+        success: true,
+        data: list,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Download an attachment
+   * GET /api/sessions/:sessionId/attachments/:attachmentId
+   */
+  download = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId;
+      const attachmentId = Array.isArray(req.params.attachmentId)
+        ? req.params.attachmentId[0]
+        : req.params.attachmentId;
+      const { attachment, filePath } = await this.attachmentsService.getFile(
+        req.user.id,
+        sessionId,
+        attachmentId
+      );
+
+      res.setHeader('Content-Type', attachment.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${attachment.filename}"`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.sendFile(filePath, (error) => {
+        if (error && !res.headersSent) next(error);
+      });
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+}
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { AttachmentsController } from './attachments.controller.js';
+import { requireAuth } from '../../middleware/auth.middleware.js';
+import { uploadLimiter } from '../../middleware/rate-limiter.js';
+
+// Mounted under /api/sessions/:sessionId/attachments
+const router = Router({ mergeParams: true });
+const attachmentsController = new AttachmentsController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * POST /api/sessions/:sessionId/attachments
+ * Upload an image or PDF to the session
+ */
+router.post('/', uploadLimiter, attachmentsController.upload);
+
+/**
+ * GET /api/sessions/:sessionId/attachments
+ * List the session's attachments
+ */
+router.get('/', attachmentsController.list);
+
+/**
+ * GET /api/sessions/:sessionId/attachments/:attachmentId
+ * Download an attachment
+ */
+router.get('/:attachmentId', attachmentsController.download);
+
+export default router;
@@ -0,0 +1,301 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createId } from '@paralleldrive/cuid2';
+import { db } from '../../db/index.js';
+import { attachments, sessions, type AttachmentRow } from '../../db/schema.js';
+import { and, eq, inArray } from 'drizzle-orm';
+import {
+  ATTACHMENT_MIME_TYPES,
+  FileUploadSchema,
+  type Attachment,
+  type AttachmentMimeType,
+  type UploadMimeType,
+} from '@gemini-ui/shared';
+import { config } from '../../config/index.js';
+import { FilenameSchema } from '../../security/validators.js';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+
+/**
+ * File extension used on disk for each accepted type
+ */
+const EXTENSIONS: Record<AttachmentMimeType, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'application/pdf': '.pdf',
+  'audio/wav': '.wav',
+};
+
+/**
+ * Detect an accepted file type from its leading bytes
+ * The declared MIME type is not trusted
+ */
+export function detectMimeType(data: Buffer): UploadMimeType | undefined {
+  const startsWith = (bytes: number[], offset = 0) =>
+    bytes.every((byte, index) => data[offset + index] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';
+  return undefined;
+}
+
+/**
+ * Whether a model accepts image and document input
+ */
+export function supportsAttachments(modelId: string): boolean {
+  return modelRegistry.get(modelId)?.capabilities.includes('vision') ?? false;
+}
+
+/**
+ * Convert a database row to an Attachment
+ */
+function toAttachment(row: AttachmentRow): Attachment {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    filename: row.filename,
+    mimeType: row.mimeType as AttachmentMimeType,
+    size: row.size,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Attachments service layer
+ * Stores uploaded files per session for Gemini turns to reference
+ */
+export class AttachmentsService {
+  constructor(private uploadDir: string = config.UPLOAD_DIR) {}
+
+  /**
+   * Directory holding a session's files
+   */
+  sessionDir(sessionId: string): string {
+    return path.resolve(this.uploadDir, sessionId);
+  }
+
+  /**
+   * Store an uploaded file
+   * @throws Error if the session is missing, its model lacks vision, or the file is too large or unsupported
+   */
+  async create(
+    userId: string,
+    sessionId: string,
+    file: { filename: string; mimeType: string; data: Buffer }
+  ): Promise<Attachment> {
+    const session = await this.findSession(userId, sessionId);
+
+    if (file.data.length > config.MAX_FILE_SIZE) {
+      throw new Error('File too large');
+    }
+    const upload = FileUploadSchema.safeParse({
+      filename: file.filename,
+      mimeType: file.mimeType,
+      size: file.data.length,
+    });
+    if (!upload.success) {
+      throw new Error('Invalid upload');
+    }
+
+    const mimeType = detectMimeType(file.data);
+    if (!mimeType || !ATTACHMENT_MIME_TYPES.includes(mimeType)) {
+      throw new Error('Unsupported file type');
+    }
+    if (!supportsAttachments(session.model)) {
+      throw new Error('Model does not support attachments');
+    }
+
+    return this.save(userId, sessionId, {
+      filename: FilenameSchema.parse(upload.data.filename),
+      mimeType,
+      data: file.data,
+    });
+  }
+
+  /**
+   * Store a file the server produced for a session (e.g. generated speech)
+   * @throws Error if the session does not belong to the user
+   */
+  async createGenerated(
+    userId: string,
+    sessionId: string,
+    file: { filename: string; mimeType: AttachmentMimeType; data: Buffer }
+  ): Promise<Attachment> {
+    await this.findSession(userId, sessionId);
+    return this.save(userId, sessionId, file);
+  }
+
+  /**
+   * List a session's attachments
+   * @throws Error if the session does not belong to the user
+   */
+  async list(userId: string, sessionId: string): Promise<Attachment[]> {
+    await this.findSession(userId, sessionId);
+
+    const rows = await db.query.attachments.findMany({
+      where: eq(attachments.sessionId, sessionId),
+      orderBy: [attachments.createdAt],
+    });
+    return rows.map(toAttachment);
+  }
+
+  /**
+   * List a session's attachments together with their file contents
+   * @throws Error if the session does not belong to the user
+   */
+  async listWithData(
+    userId: string,
+    sessionId: string
+  ): Promise<Array<Attachment & { data: Buffer }>> {
+    await this.findSession(userId, sessionId);
+
+    const rows = await db.query.attachments.findMany({
+      where: eq(attachments.sessionId, sessionId),
+      orderBy: [attachments.createdAt],
+    });
+    return Promise.all(
+      rows.map(async (row) => ({ ...toAttachment(row), data: await fs.readFile(row.storagePath) }))
+    );
+  }
+
+  /**
+   * Resolve attachments for a turn, in the order given
+   * @throws Error if the session is missing or any attachment is not part of it
+   */
+  async resolve(
+    userId: string,
+    sessionId: string,
+    attachmentIds: string[]
+  ): Promise<Array<Attachment & { storagePath: string }>> {
+    if (attachmentIds.length === 0) {
+      return [];
+    }
+    await this.findSession(userId, sessionId);
+
+    const rows = await db.query.attachments.findMany({
+      where: and(eq(attachments.sessionId, sessionId), inArray(attachments.id, attachmentIds)),
+    });
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    return attachmentIds.map((id) => {
+      const row = byId.get(id);
+      if (!row) {
+        throw new Error('Attachment not found');
+      }
+      return { ...toAttachment(row), storagePath: row.storagePath };
+    });
+  }
+
+  /**
+   * Get an attachment and the path of its file
+   * @throws Error if the session or attachment is missing
+   */
+  async getFile(
+    userId: string,
+    sessionId: string,
+    attachmentId: string
+  ): Promise<{ attachment: Attachment; filePath: string }> {
+    const [{ storagePath, ...attachment }] = await this.resolve(userId, sessionId, [attachmentId]);
+    return { attachment, filePath: storagePath };
+  }
+
+  /**
+   * Copy attachments (files included) from one of the user's sessions to another
+   * @returns The copies, keyed by the id of the original
+   * @throws Error if either session is missing or an attachment is not part of the source
+   */
+  async copyToSession(
+    userId: string,
+    fromSessionId: string,
+    toSessionId: string,
+    attachmentIds: string[]
+  ): Promise<Map<string, Attachment>> {
+    const copies = new Map<string, Attachment>();
+    const originals = await this.resolve(userId, fromSessionId, attachmentIds);
+    if (originals.length === 0) {
+      return copies;
+    }
+    await this.findSession(userId, toSessionId);
+    await fs.mkdir(this.sessionDir(toSessionId), { recursive: true });
+
+    for (const original of originals) {
+      if (copies.has(original.id)) continue;
+
+      const id = createId();
+      const storagePath = path.join(
+        this.sessionDir(toSessionId),
+        `${id}${EXTENSIONS[original.mimeType]}`
+      );
+      await fs.copyFile(original.storagePath, storagePath);
+
+      const [row] = await db
+        .insert(attachments)
+        .values({
+          id,
+          sessionId: toSessionId,
+          userId,
+          filename: original.filename,
+          mimeType: original.mimeType,
+          size: original.size,
+          storagePath,
+        })
+        .returning();
+      copies.set(original.id, toAttachment(row));
+    }
+
+    return copies;
+  }
+
+  /**
+   * Remove a deleted session's files from disk
+   */
+  async removeSessionFiles(sessionId: string): Promise<void> {
+    await fs.rm(this.sessionDir(sessionId), { recursive: true, force: true });
+  }
+
+  private async save(
+    userId: string,
+    sessionId: string,
+    file: { filename: string; mimeType: AttachmentMimeType; data: Buffer }
+  ): Promise<Attachment> {
+    const id = createId();
+    const storagePath = path.join(this.sessionDir(sessionId), `${id}${EXTENSIONS[file.mimeType]}`);
+    await fs.mkdir(this.sessionDir(sessionId), { recursive: true });
+    await fs.writeFile(storagePath, file.data);
+
+    const [row] = await db
+      .insert(attachments)
+      .values({
+        id,
+        sessionId,
+        userId,
+        filename: file.filename,
+        mimeType: file.mimeType,
+        size: file.data.length,
+        storagePath,
+      })
+      .returning();
+
+    return toAttachment(row);
+  }
+
+  /**
+   * Find a session owned by the user
+   * @throws Error if the session does not belong to the user
+   */
+  private async findSession(userId: string, sessionId: string) {
+    const session = await db.query.sessions.findFirst({
+      where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
+    });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    return session;
+  }
+}
@@ -0,0 +1,132 @@
+import type { Request } from 'express';
+
+/**
+ * Minimal multipart/form-data reader for single-file uploads
+ * The body is buffered, so callers must pass a size limit
+ */
+
+// Room for the boundaries and part headers around the file
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * A file read from a multipart request
+ */
+export interface UploadedFile {
+  /** Form field the file was sent in */
+  field: string;
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+/**
+ * Read the body of a request, refusing bodies over the limit
+ * @throws Error if the body is too large
+ */
+function readBody(req: Request, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new Error('File too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse part headers ("Name: value" lines) into a lower-cased map
+ */
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  for (const line of block.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Read a parameter (e.g. name="file") from a header value
+ */
+function headerParam(value: string, param: string): string | undefined {
+  const match = value.match(new RegExp(`(?:^|;)\\s*${param}="([^"]*)"`, 'i'));
+  return match?.[1];
+}
+
+/**
+ * Split a multipart body into its files
+ */
+export function parseMultipart(body: Buffer, boundary: string): UploadedFile[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const files: UploadedFile[] = [];
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const partStart = start + delimiter.length;
+    // "--" after the delimiter closes the body
+    if (body.subarray(partStart, partStart + 2).toString() === '--') break;
+
+    const end = body.indexOf(delimiter, partStart);
+    if (end === -1) break;
+
+    // Each part is "\r\n<headers>\r\n\r\n<data>\r\n"
+    const part = body.subarray(partStart + 2, end - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = parseHeaders(part.subarray(0, headerEnd).toString('utf-8'));
+      const disposition = headers.get('content-disposition') ?? '';
+      const filename = headerParam(disposition, 'filename');
+      if (filename !== undefined) {
+        files.push({
+          field: headerParam(disposition, 'name') ?? '',
+          filename,
+          mimeType: headers.get('content-type') ?? 'application/octet-stream',
+          data: Buffer.from(part.subarray(headerEnd + 4)),
+        });
+      }
+    }
+
+    start = end;
+  }
+
+  return files;
+}
+
+/**
+ * Read the file sent in a form field of a multipart/form-data request
+ * @throws Error if the request is not multipart, has no such file or is too large
+ */
+export async function readUploadedFile(
+  req: Request,
+  field: string,
+  maxFileSize: number
+): Promise<UploadedFile> {
+  const contentType = req.headers['content-type'] ?? '';
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!contentType.startsWith('multipart/form-data') || !boundary) {
+    throw new Error('Invalid upload');
+  }
+
+  const body = await readBody(req, maxFileSize + MULTIPART_OVERHEAD);
+  const file = parseMultipart(body, boundary[1] ?? boundary[2]).find((f) => f.field === field);
+  if (!file) {
+    throw new Error('Invalid upload');
+  }
+  if (file.data.length > maxFileSize) {
+    throw new Error('File too large');
+  }
+
+  return file;
+}
@@ -23,6 +23,7 @@ describe('AuthService', () => {
 
       expect(result.success).toBe(true);
       expect(result.user.username).toBe('testuser');
+      expect(result.user.role).toBe('user');
       expect(result.accessToken).toBeDefined();
       expect(result.refreshToken).toBeDefined();
 
@@ -242,4 +243,20 @@ describe('AuthService', () => {
       );
     });
   });
+
+  describe('syncAdminRoles', () => {
+    it('should follow changes to the admin list', async () => {
+      const password = 'SecurePassword123!';
+      const before = new AuthService(['formeradmin']);
+      await before.register({ username: 'formeradmin', password });
+      await before.register({ username: 'newadmin', password });
+
+      const after = new AuthService(['newadmin']);
+      expect(await after.syncAdminRoles()).toBe(2);
+      expect(await after.syncAdminRoles()).toBe(0);
+
+      expect((await after.login({ username: 'newadmin', password })).user.role).toBe('admin');
+      expect((await after.login({ username: 'formeradmin', password })).user.role).toBe('user');
+    });
+  });
 });
@@ -3,6 +3,7 @@ import { db } from '../../db/index.js';
 import { users, refreshTokens } from '../../db/schema.js';
 import { generateTokenPair, verifyToken } from '../../security/jwt.js';
 import { eq } from 'drizzle-orm';
+import { adminUsernames } from '../../config/index.js';
 import { LoginSchema, RegisterSchema } from '@gemini-ui/shared';
 import type { LoginInput, RegisterInput, AuthResponse } from '@gemini-ui/shared';
 
@@ -13,6 +14,8 @@ const REFRESH_TOKEN_LIFETIME_DAYS = 30;
  * Authentication service layer
  */
 export class AuthService {
+  constructor(private readonly admins: string[] = adminUsernames) {}
+
   /**
    * Register a new user
    */
@@ -38,6 +41,7 @@ export class AuthService {
       .values({
         username: validatedInput.username,
         passwordHash,
+        role: this.roleOf(validatedInput.username),
       })
       .returning();
 
@@ -54,6 +58,7 @@ export class AuthService {
       user: {
         id: newUser.id,
         username: newUser.username,
+        role: newUser.role,
       },
     };
   }
@@ -99,6 +104,7 @@ export class AuthService {
       user: {
         id: user.id,
         username: user.username,
+        role: user.role,
       },
     };
   }
@@ -155,10 +161,37 @@ export class AuthService {
       user: {
         id: user.id,
         username: user.username,
+        role: user.role,
       },
     };
   }
 
+  /**
+   * Give the users in ADMIN_USERNAMES the admin role and take it from everyone else
+   * Run at startup, since the list only changes with the server configuration
+   * @returns Number of users whose role changed
+   */
+  async syncAdminRoles(): Promise<number> {
+    let changed = 0;
+
+    for (const user of await db.query.users.findMany()) {
+      const role = this.roleOf(user.username);
+      if (user.role !== role) {
+        await db.update(users).set({ role, updatedAt: new Date() }).where(eq(users.id, user.id));
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Role a username gets from ADMIN_USERNAMES
+   */
+  private roleOf(username: string): 'admin' | 'user' {
+    return this.admins.includes(username) ? 'admin' : 'user';
+  }
+
   /**
    * Store refresh token in database
    */
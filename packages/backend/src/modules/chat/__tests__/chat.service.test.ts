@@ -0,0 +1,473 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChatService, buildTranscriptPrompt, type ChatTurn } from '../chat.service.js';
+import { GeminiRunner } from '../../gemini/gemini-runner.js';
+import { SessionsService } from '../../sessions/sessions.service.js';
+import { CreateSessionSchema, type GeminiStreamEvent } from '@gemini-ui/shared';
+import { db } from '../../../db/index.js';
+import { users, projects } from '../../../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { PolicyService } from '../../policy/policy.service.js';
+import { CostsService } from '../../costs/costs.service.js';
+import { AttachmentsService } from '../../attachments/attachments.service.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Fake CLI that logs its arguments, refuses to resume 'stale-id'
+ * and replies with the prompt it was given
+ */
+const FAKE_CLI = `#!/usr/bin/env node
+import fs from 'fs';
+const args = process.argv.slice(2);
+fs.appendFileSync('calls.log', JSON.stringify(args) + '\\n');
+const resume = args.includes('--resume') ? args[args.indexOf('--resume') + 1] : null;
+if (resume === 'stale-id') {
+  console.error('No session found with id stale-id');
+  process.exit(1);
+}
+const prompt = args[args.indexOf('--prompt') + 1];
+console.log(JSON.stringify({ type: 'init', session_id: resume ?? 'cli-' + Date.now() }));
+console.log(JSON.stringify({ type: 'message', role: 'assistant', content: 'echo: ' + prompt, delta: true }));
+console.log(JSON.stringify({ type: 'result', status: 'success', stats: { input_tokens: 40, output_tokens: 8, cached: 12, duration_ms: 5 } }));
+`;
+
+/**
+ * Fake CLI that writes notes.txt if its settings allow write_file, and is refused otherwise
+ */
+const APPROVAL_CLI = `#!/usr/bin/env node
+import fs from 'fs';
+const args = process.argv.slice(2);
+const resume = args.includes('--resume') ? args[args.indexOf('--resume') + 1] : undefined;
+const settingsPath = process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+const settings = settingsPath ? JSON.parse(fs.readFileSync(settingsPath, 'utf-8')) : {};
+const call = { tool_name: 'write_file', tool_id: 'w' + Date.now(), parameters: { file_path: 'notes.txt', content: 'new' } };
+console.log(JSON.stringify({ type: 'init', session_id: resume ?? 'cli-approval' }));
+console.log(JSON.stringify({ type: 'tool_use', ...call }));
+if (settings.tools?.allowed?.includes('write_file')) {
+  fs.writeFileSync('notes.txt', 'new');
+  console.log(JSON.stringify({ type: 'tool_result', tool_id: call.tool_id, status: 'success', output: 'Wrote notes.txt' }));
+} else {
+  console.log(JSON.stringify({ type: 'tool_result', tool_id: call.tool_id, status: 'error', error: { type: 'execution_denied', message: 'needs approval' } }));
+}
+console.log(JSON.stringify({ type: 'result', status: 'success', stats: { input_tokens: 10, output_tokens: 2 } }));
+`;
+
+/**
+ * Fake CLI that starts a reply and never finishes it
+ */
+const RUNAWAY_CLI = `#!/usr/bin/env node
+console.log(JSON.stringify({ type: 'init', session_id: 'cli-runaway' }));
+console.log(JSON.stringify({ type: 'message', role: 'assistant', content: 'Working on it', delta: true }));
+setInterval(() => {}, 1000);
+`;
+
+describe('ChatService', () => {
+  let chatService: ChatService;
+  let sessionsService: SessionsService;
+  let testDir: string;
+  let testUserId: string;
+  let testProjectId: string;
+
+  const readCalls = async (): Promise<string[][]> => {
+    const log = await fs.readFile(path.join(testDir, 'calls.log'), 'utf-8');
+    return log.trim().split('\n').map((line) => JSON.parse(line));
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `test-chat-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    const cliPath = path.join(testDir, 'fake-gemini.mjs');
+    await fs.writeFile(cliPath, FAKE_CLI, { mode: 0o755 });
+
+    chatService = new ChatService(new GeminiRunner(cliPath));
+    sessionsService = new SessionsService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'chatuser', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+    const [project] = await db
+      .insert(projects)
+      .values({ userId: testUserId, name: 'Chat', path: testDir })
+      .returning();
+    testProjectId = project.id;
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should store both sides of a turn and record the CLI session id', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+
+    const reply = await chatService.sendMessage(testUserId, session.id, { content: 'Hello' });
+
+    expect(reply.content).toBe('echo: Hello');
+    expect(reply.metadata?.usage).toEqual({
+      promptTokens: 40,
+      responseTokens: 8,
+      cachedTokens: 12,
+      totalTokens: 48,
+    });
+    expect(reply.metadata?.costUsd).toBeGreaterThan(0);
+    const stored = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(stored?.messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+    expect(stored?.geminiSessionId).toMatch(/^cli-/);
+  });
+
+  it('should resume the stored CLI session on the next turn', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    await chatService.sendMessage(testUserId, session.id, { content: 'First' });
+    const { geminiSessionId } = (await sessionsService.findById(testUserId, session.id))!;
+
+    // A fresh service (as after a restart) only has the database to go on
+    const restarted = new ChatService(new GeminiRunner(path.join(testDir, 'fake-gemini.mjs')));
+    const reply = await restarted.sendMessage(testUserId, session.id, { content: 'Second' });
+
+    const calls = await readCalls();
+    expect(calls[1]).toContain('--resume');
+    expect(calls[1]).toContain(geminiSessionId);
+    expect(reply.content).toBe('echo: Second');
+  });
+
+  it('should replay the transcript when the CLI session cannot be resumed', async () => {
+    const session = await sessionsService.create(testUserId, {
+      projectPath: testDir,
+      geminiSessionId: 'stale-id',
+    });
+    await sessionsService.addMessage(testUserId, session.id, { role: 'user', content: 'Earlier' });
+    await sessionsService.addMessage(testUserId, session.id, { role: 'assistant', content: 'Reply' });
+
+    const reply = await chatService.sendMessage(testUserId, session.id, { content: 'Again' });
+
+    const calls = await readCalls();
+    expect(calls).toHaveLength(2);
+    expect(calls[1]).not.toContain('--resume');
+    expect(reply.metadata?.error).toBeUndefined();
+    expect(reply.content).toContain('User: Earlier\n\nAssistant: Reply');
+    expect(reply.content).not.toContain('User: Again');
+
+    const updated = await sessionsService.findById(testUserId, session.id);
+    expect(updated?.geminiSessionId).toMatch(/^cli-/);
+  });
+
+  it('should branch an edited message off the stored transcript', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    await chatService.sendMessage(testUserId, session.id, { content: 'First' });
+    await chatService.sendMessage(testUserId, session.id, { content: 'Second' });
+    const before = await sessionsService.findWithMessages(testUserId, session.id);
+    const second = before!.messages[2];
+
+    const reply = await chatService.sendMessage(testUserId, session.id, {
+      content: 'Second, edited',
+      parentId: second.parentId,
+    });
+
+    const calls = await readCalls();
+    expect(calls[2]).not.toContain('--resume');
+    expect(reply.content).toContain('User: First\n\nAssistant: echo: First');
+    expect(reply.content).not.toContain('User: Second\n');
+    const after = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(after?.messages.map((m) => m.content)).toEqual([
+      'First',
+      'echo: First',
+      'Second, edited',
+      reply.content,
+    ]);
+    expect(after?.messages[2].siblingIds).toEqual([second.id, after?.messages[2].id]);
+  });
+
+  it('should regenerate a reply as a sibling and keep the original', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    const original = await chatService.sendMessage(testUserId, session.id, { content: 'Hello' });
+
+    const turn = await chatService.regenerate(testUserId, session.id, original.id!);
+    const regenerated = await turn.completion;
+
+    expect(regenerated.parentId).toBe(original.parentId);
+    const stored = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(stored?.messages).toHaveLength(2);
+    expect(stored?.messages[1].siblingIds).toEqual([original.id, regenerated.id]);
+
+    await expect(
+      chatService.regenerate(testUserId, session.id, original.parentId!)
+    ).rejects.toThrow('Message not found');
+  });
+
+  it('should pass attachments to the CLI as file references', async () => {
+    const uploads = new AttachmentsService(path.join(testDir, 'uploads'));
+    const withFiles = new ChatService(
+      new GeminiRunner(path.join(testDir, 'fake-gemini.mjs')),
+      uploads
+    );
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    const attachment = await uploads.create(testUserId, session.id, {
+      filename: 'spec.pdf',
+      mimeType: 'application/pdf',
+      data: Buffer.from('%PDF-1.7\n'),
+    });
+
+    await withFiles.sendMessage(testUserId, session.id, {
+      content: 'Summarise',
+      attachmentIds: [attachment.id],
+    });
+
+    const [args] = await readCalls();
+    const sessionDir = uploads.sessionDir(session.id);
+    expect(args[args.indexOf('--include-directories') + 1]).toBe(sessionDir);
+    expect(args[args.indexOf('--prompt') + 1]).toBe(
+      `Summarise\n\nAttached files: @${path.join(sessionDir, `${attachment.id}.pdf`)}`
+    );
+    const stored = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(stored?.messages[0].metadata?.attachments).toMatchObject([{ filename: 'spec.pdf' }]);
+  });
+
+  it('should pass @-mentioned project files to the CLI and record them', async () => {
+    await fs.mkdir(path.join(testDir, 'src'));
+    await fs.writeFile(path.join(testDir, 'README.md'), '# Readme');
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'export const a = 1;');
+    await fs.writeFile(path.join(testDir, 'src', 'b.ts'), 'export const b = 2;');
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+
+    await chatService.sendMessage(testUserId, session.id, {
+      content: 'Explain',
+      mentions: ['README.md', 'src'],
+    });
+
+    const [args] = await readCalls();
+    expect(args[args.indexOf('--prompt') + 1]).toBe(
+      'Explain\n\nContext files: @README.md @src/a.ts @src/b.ts'
+    );
+    const stored = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(stored?.messages[0].metadata?.mentions).toEqual([
+      { path: 'README.md', type: 'file', files: ['README.md'], truncated: false },
+      { path: 'src', type: 'directory', files: ['src/a.ts', 'src/b.ts'], truncated: false },
+    ]);
+
+    await expect(
+      chatService.sendMessage(testUserId, session.id, { content: 'Hi', mentions: ['../etc'] })
+    ).rejects.toThrow('Access denied');
+  });
+
+  it('should run the turns of comparison sessions in the sandbox', async () => {
+    const session = await sessionsService.create(testUserId, {
+      projectPath: testDir,
+      metadata: { sandbox: true },
+    });
+
+    await chatService.sendMessage(testUserId, session.id, { content: 'Hello' });
+
+    const [args] = await readCalls();
+    expect(args).toContain('--sandbox');
+  });
+
+  it('should retry refused tool calls once approved and remember them', async () => {
+    const cliPath = path.join(testDir, 'approval-gemini.mjs');
+    await fs.writeFile(cliPath, APPROVAL_CLI, { mode: 0o755 });
+    await fs.writeFile(path.join(testDir, 'notes.txt'), 'old');
+    const approvals = new ChatService(new GeminiRunner(cliPath));
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    const events: GeminiStreamEvent[] = [];
+
+    const reply = await approvals.sendMessage(testUserId, session.id, { content: 'Write' }, (event) => {
+      events.push(event);
+      if (event.type === 'approval-request') {
+        approvals
+          .decide(testUserId, session.id, {
+            toolCallId: event.toolCall.id,
+            decision: 'approve-always',
+          })
+          .catch(() => {});
+      }
+    });
+
+    const request = events.find((event) => event.type === 'approval-request');
+    expect(request).toMatchObject({
+      preview: { kind: 'diff', path: 'notes.txt', before: 'old', after: 'new' },
+    });
+    expect(reply.metadata?.toolCalls).toMatchObject([
+      { name: 'write_file', status: 'success', approval: 'approve-always' },
+    ]);
+    // Both runs of the turn are billed
+    expect(reply.metadata?.usage).toMatchObject({ promptTokens: 20, responseTokens: 4 });
+    expect(await fs.readFile(path.join(testDir, 'notes.txt'), 'utf-8')).toBe('new');
+    const updated = await sessionsService.findById(testUserId, session.id);
+    expect(updated?.approvedTools).toEqual(['write_file']);
+
+    // The next turn runs the same tool without asking
+    events.length = 0;
+    const second = await approvals.sendMessage(testUserId, session.id, { content: 'Again' }, (event) =>
+      events.push(event)
+    );
+    expect(events.some((event) => event.type === 'approval-request')).toBe(false);
+    expect(second.metadata?.toolCalls).toMatchObject([{ status: 'success' }]);
+  });
+
+  it('should not take approved tools from the session metadata', async () => {
+    const cliPath = path.join(testDir, 'approval-gemini.mjs');
+    await fs.writeFile(cliPath, APPROVAL_CLI, { mode: 0o755 });
+    const metadata = { approvedTools: ['write_file'] };
+    expect(CreateSessionSchema.safeParse({ projectPath: testDir, metadata }).success).toBe(false);
+    const session = await sessionsService.create(testUserId, { projectPath: testDir, metadata });
+
+    const turn = await new ChatService(new GeminiRunner(cliPath)).startTurn(
+      testUserId,
+      session.id,
+      { content: 'Write' },
+      undefined,
+      { unattended: true }
+    );
+    const reply = await turn.completion;
+
+    expect(reply.metadata?.toolCalls).toMatchObject([
+      { name: 'write_file', status: 'error', approval: 'deny' },
+    ]);
+    await expect(fs.access(path.join(testDir, 'notes.txt'))).rejects.toThrow();
+  });
+
+  it('should deny tool calls that break the project policy without asking', async () => {
+    const cliPath = path.join(testDir, 'approval-gemini.mjs');
+    await fs.writeFile(cliPath, APPROVAL_CLI, { mode: 0o755 });
+    await new PolicyService().setProjectPolicy(testUserId, testProjectId, { readOnly: true });
+    const locked = new ChatService(new GeminiRunner(cliPath));
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    const events: GeminiStreamEvent[] = [];
+
+    const reply = await locked.sendMessage(testUserId, session.id, { content: 'Write' }, (event) =>
+      events.push(event)
+    );
+
+    expect(events.some((event) => event.type === 'approval-request')).toBe(false);
+    expect(reply.metadata?.toolCalls).toMatchObject([
+      {
+        status: 'error',
+        approval: 'deny',
+        approvalReason: 'write_file is not allowed in read-only mode',
+      },
+    ]);
+  });
+
+  it('should keep the partial reply of an interrupted turn and stay resumable', async () => {
+    const cliPath = path.join(testDir, 'runaway-gemini.mjs');
+    await fs.writeFile(cliPath, RUNAWAY_CLI, { mode: 0o755 });
+    const runaway = new ChatService(new GeminiRunner(cliPath));
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    const events: GeminiStreamEvent[] = [];
+
+    const reply = await runaway.sendMessage(testUserId, session.id, { content: 'Go' }, (event) => {
+      events.push(event);
+      if (event.type === 'delta') {
+        runaway.interrupt(testUserId, session.id).catch(() => {});
+      }
+    });
+
+    expect(reply.content).toBe('Working on it');
+    expect(reply.metadata?.interrupted).toBe(true);
+    expect(reply.metadata?.error).toBeUndefined();
+    expect(events).toContainEqual({ type: 'status', status: 'interrupted' });
+    const updated = await sessionsService.findById(testUserId, session.id);
+    expect(updated?.geminiSessionId).toBe('cli-runaway');
+  });
+
+  it('should report a turn whose reply cannot be stored as failed', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    const events: GeminiStreamEvent[] = [];
+
+    const turn = await chatService.startTurn(
+      testUserId,
+      session.id,
+      { content: 'Hello' },
+      (event) => events.push(event)
+    );
+    const addMessage = vi
+      .spyOn(SessionsService.prototype, 'addMessage')
+      .mockRejectedValueOnce(new Error('Database is locked'));
+
+    try {
+      await expect(turn.completion).rejects.toThrow('Database is locked');
+    } finally {
+      addMessage.mockRestore();
+    }
+    expect(events.slice(-2)).toEqual([
+      { type: 'error', error: 'Database is locked' },
+      { type: 'status', status: 'failed' },
+    ]);
+    // The session is free for the next turn
+    const reply = await chatService.sendMessage(testUserId, session.id, { content: 'Again' });
+    expect(reply.content).toBe('echo: Again');
+  });
+
+  it('should reject interrupts when no turn is running', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+
+    await expect(chatService.interrupt(testUserId, session.id)).rejects.toThrow('Turn not running');
+  });
+
+  it('should reject decisions for tool calls that are not waiting', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+
+    await expect(
+      chatService.decide(testUserId, session.id, { toolCallId: 'nope', decision: 'deny' })
+    ).rejects.toThrow('Approval not found');
+  });
+
+  it('should refuse new turns once the monthly budget is spent', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    await new CostsService().setBudget(testUserId, 0.00001);
+    await chatService.sendMessage(testUserId, session.id, { content: 'Hello' });
+
+    await expect(
+      chatService.sendMessage(testUserId, session.id, { content: 'Again' })
+    ).rejects.toThrow('Monthly budget exceeded');
+    const stored = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(stored?.messages).toHaveLength(2);
+  });
+
+  it('should refuse a concurrent turn before storing its message', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+
+    const [first, second] = await Promise.allSettled([
+      chatService.startTurn(testUserId, session.id, { content: 'One' }),
+      chatService.startTurn(testUserId, session.id, { content: 'Two' }),
+    ]);
+
+    expect(second).toMatchObject({
+      status: 'rejected',
+      reason: new Error('Turn already in progress'),
+    });
+    await (first as PromiseFulfilledResult<ChatTurn>).value.completion;
+    const stored = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(stored?.messages.map((m) => m.content)).toEqual(['One', 'echo: One']);
+  });
+
+  it('should only run turns in projects the user still has', async () => {
+    const session = await sessionsService.create(testUserId, { projectPath: testDir });
+    await db.delete(projects).where(eq(projects.id, testProjectId));
+
+    await expect(
+      chatService.sendMessage(testUserId, session.id, { content: 'Hello' })
+    ).rejects.toThrow('Project not found');
+    // The session can start a turn once the project is back
+    await db.insert(projects).values({ userId: testUserId, name: 'Chat', path: testDir });
+    const reply = await chatService.sendMessage(testUserId, session.id, { content: 'Hello' });
+    expect(reply.content).toBe('echo: Hello');
+  });
+
+  it('should reject unknown sessions', async () => {
+    await expect(
+      chatService.sendMessage(testUserId, 'missing', { content: 'Hello' })
+    ).rejects.toThrow('Session not found');
+  });
+});
+
+describe('buildTranscriptPrompt', () => {
+  it('should return the prompt unchanged without history', () => {
+    expect(buildTranscriptPrompt([], 'Hi')).toBe('Hi');
+  });
+});
@@ -0,0 +1,197 @@
+import type { Response, NextFunction } from 'express';
+import { ChatService, type ChatEventListener, type ChatTurn } from './chat.service.js';
+import {
+  SendMessageSchema,
+  ToolDecisionSchema,
+  type ApiResponse,
+  type GeminiStreamEvent,
+} from '@gemini-ui/shared';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * Chat controller
+ */
+export class ChatController {
+  private chatService = new ChatService();
+
+  /**
+   * Send message to Gemini
+   * POST /api/chat/:sessionId/messages
+   *
+   * With `Accept: text/event-stream` the reply is streamed as server-sent events.
+   * Otherwise the turn runs in the background, the response is 202 and events
+   * arrive on the `session:<id>` WebSocket channel.
+   */
+  send = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    await this.respondWithTurn(req, res, next, (userId, sessionId, onEvent) => {
+      const input = SendMessageSchema.parse(req.body);
+      return this.chatService.startTurn(userId, sessionId, input, onEvent);
+    });
+  };
+
+  /**
+   * Generate another reply to the user message before an assistant message
+   * POST /api/chat/:sessionId/messages/:messageId/regenerate
+   *
+   * Streams like `send`; the new reply becomes a sibling of the given message.
+   */
+  regenerate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    await this.respondWithTurn(req, res, next, (userId, sessionId, onEvent) => {
+      const messageId = Array.isArray(req.params.messageId)
+        ? req.params.messageId[0]
+        : req.params.messageId;
+      return this.chatService.regenerate(userId, sessionId, messageId, onEvent);
+    });
+  };
+
+  /**
+   * Interrupt the running turn
+   * POST /api/chat/:sessionId/interrupt
+   *
+   * Responds once the signal is sent; the partial reply arrives as the usual `done` event.
+   */
+  interrupt = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId;
+
+      await this.chatService.interrupt(req.user.id, sessionId);
+
+      res.status(202).json({
+        success: true,
+        data: { sessionId, status: 'interrupting' },
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Turn not running') {
+        return next(new AppError(409, error.message, 'TURN_NOT_RUNNING'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Approve or deny a tool call the running turn is waiting on
+   * POST /api/chat/:sessionId/approvals
+   */
+  decide = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = ToolDecisionSchema.parse(req.body);
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId;
+
+      const toolCall = await this.chatService.decide(req.user.id, sessionId, input);
+
+      res.json({
+        success: true,
+        data: toolCall,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Approval not found') {
+        return next(new AppError(404, error.message, 'APPROVAL_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Start a turn and stream it as server-sent events, or answer 202 and let
+   * the events arrive over the WebSocket
+   */
+  private async respondWithTurn(
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+    start: (userId: string, sessionId: string, onEvent?: ChatEventListener) => Promise<ChatTurn>
+  ) {
+    const writeEvent = (event: GeminiStreamEvent) => {
+      // Headers are sent lazily so validation errors still produce JSON responses
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+      }
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId;
+
+      if (req.headers.accept?.includes('text/event-stream')) {
+        const turn = await start(req.user.id, sessionId, writeEvent);
+        await turn.completion;
+        return res.end();
+      }
+
+      const turn = await start(req.user.id, sessionId);
+      turn.completion.catch((error) => {
+        console.error('Chat turn failed:', error);
+      });
+
+      res.status(202).json({
+        success: true,
+        data: { sessionId, status: 'running' },
+      } as ApiResponse);
+    } catch (error) {
+      // Once streaming, the turn has already reported its failure as events
+      if (res.headersSent) {
+        return res.end();
+      }
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Message not found') {
+        return next(new AppError(404, error.message, 'MESSAGE_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Project not found') {
+        return next(new AppError(404, error.message, 'PROJECT_NOT_FOUND'));
+      }
+      if (
+        error instanceof Error &&
+        ['Turn already in progress', 'Gemini run already in progress'].includes(error.message)
+      ) {
+        return next(new AppError(409, 'Turn already in progress', 'TURN_IN_PROGRESS'));
+      }
+      if (error instanceof Error && error.message === 'Monthly budget exceeded') {
+        return next(new AppError(402, error.message, 'BUDGET_EXCEEDED'));
+      }
+      if (error instanceof Error && error.message === 'Model does not support attachments') {
+        return next(new AppError(400, error.message, 'VISION_NOT_SUPPORTED'));
+      }
+      if (error instanceof Error && error.message === 'Attachment not found') {
+        return next(new AppError(400, error.message, 'ATTACHMENT_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message.startsWith('Mentioned file not found')) {
+        return next(new AppError(400, error.message, 'INVALID_MENTION'));
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return next(new AppError(403, 'Access denied', 'ACCESS_DENIED'));
+      }
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { ChatController } from './chat.controller.js';
+import { requireAuth } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+const chatController = new ChatController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * POST /api/chat/:sessionId/messages
+ * Send message and stream the Gemini reply
+ */
+router.post('/:sessionId/messages', chatController.send);
+
+/**
+ * POST /api/chat/:sessionId/messages/:messageId/regenerate
+ * Generate another reply as a new branch
+ */
+router.post('/:sessionId/messages/:messageId/regenerate', chatController.regenerate);
+
+/**
+ * POST /api/chat/:sessionId/interrupt
+ * Stop the running Gemini turn
+ */
+router.post('/:sessionId/interrupt', chatController.interrupt);
+
+/**
+ * POST /api/chat/:sessionId/approvals
+ * Approve or deny a pending tool call
+ */
+router.post('/:sessionId/approvals', chatController.decide);
+
+export default router;
@@ -0,0 +1,823 @@
+import { SessionsService } from '../sessions/sessions.service.js';
+import { pathTo, resumableCliSession } from '../sessions/message-tree.js';
+import {
+  geminiRunner,
+  type GeminiRunner,
+  type GeminiRunOptions,
+  type GeminiRunResult,
+} from '../gemini/gemini-runner.js';
+import type { GeminiRunStats } from '../gemini/stream-parser.js';
+import { buildToolPreview } from '../gemini/tool-preview.js';
+import { PolicyService } from '../policy/policy.service.js';
+import { CostsService } from '../costs/costs.service.js';
+import { AttachmentsService, supportsAttachments } from '../attachments/attachments.service.js';
+import { FilesService } from '../files/files.service.js';
+import {
+  evaluateToolCall,
+  launchApprovalMode,
+  launchToolSettings,
+  requiresApproval,
+  splitShellCommand,
+  type ToolSettings,
+} from '../policy/policy-engine.js';
+import { eventBus } from '../../websocket/event-bus.js';
+import { db } from '../../db/index.js';
+import { projects, type ChatMessage as ChatMessageRow } from '../../db/schema.js';
+import { and, eq } from 'drizzle-orm';
+import type {
+  ChatMessage,
+  GeminiStreamEvent,
+  GeminiToolCall,
+  MessageMention,
+  SendMessageInput,
+  Session,
+  TokenUsage,
+  ToolApprovalDecision,
+  ToolDecisionInput,
+} from '@gemini-ui/shared';
+
+/**
+ * Listener for events produced during a chat turn
+ */
+export type ChatEventListener = (event: GeminiStreamEvent) => void;
+
+/**
+ * A started chat turn
+ */
+export interface ChatTurn {
+  /** Resolves with the stored assistant message once the CLI exits */
+  completion: Promise<ChatMessage>;
+}
+
+/**
+ * Options for a turn
+ */
+export interface TurnOptions {
+  /** Nobody is watching (scheduled jobs): tool calls the policy leaves to the user are denied */
+  unattended?: boolean;
+}
+
+// Reason recorded on tool calls denied because nobody could approve them
+const UNATTENDED_DENIAL = 'Needs approval, but nobody is present in unattended runs';
+
+// Runs a turn may add to retry tool calls approved after the CLI refused them
+const MAX_APPROVAL_ROUNDS = 10;
+
+/**
+ * The user message a turn answers
+ */
+interface TurnPrompt {
+  id: string;
+  parentId: string | null;
+  content: string;
+  attachmentIds: string[];
+  /** Project-relative files from @-mentions */
+  mentionedFiles: string[];
+}
+
+interface AttemptOutcome {
+  result: GeminiRunResult;
+  resumeFailed: boolean;
+}
+
+/**
+ * Decision taken on a refused tool call; null if the turn was interrupted first
+ */
+type ApprovalOutcome = { decision: ToolApprovalDecision; reason?: string } | null;
+
+/**
+ * A running turn, from its first CLI run to the last one retrying approved tool calls
+ */
+interface ActiveTurn {
+  interrupted: boolean;
+  /** Refused tool calls waiting for the user, by tool call id */
+  approvals: Map<string, { toolCall: GeminiToolCall; decide: (outcome: ApprovalOutcome) => void }>;
+}
+
+// Turns by session id; shared by every ChatService, like the runner, so that
+// decisions and interrupts reach the turn whichever instance started it
+const activeTurns = new Map<string, ActiveTurn>();
+
+/**
+ * Convert CLI run statistics to the token usage stored with a message
+ */
+function toTokenUsage(stats: GeminiRunStats): TokenUsage {
+  const promptTokens = stats.inputTokens ?? 0;
+  const responseTokens = stats.outputTokens ?? 0;
+  return {
+    promptTokens,
+    responseTokens,
+    cachedTokens: stats.cachedTokens ?? 0,
+    totalTokens: stats.totalTokens ?? promptTokens + responseTokens,
+  };
+}
+
+/**
+ * Add up the statistics of the runs of a turn
+ */
+function addStats(
+  total: GeminiRunStats | undefined,
+  stats: GeminiRunStats | undefined
+): GeminiRunStats | undefined {
+  if (!total || !stats) {
+    return total ?? stats;
+  }
+  const add = (a?: number, b?: number) =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  return {
+    totalTokens: add(total.totalTokens, stats.totalTokens),
+    inputTokens: add(total.inputTokens, stats.inputTokens),
+    outputTokens: add(total.outputTokens, stats.outputTokens),
+    cachedTokens: add(total.cachedTokens, stats.cachedTokens),
+    durationMs: add(total.durationMs, stats.durationMs),
+    toolCalls: add(total.toolCalls, stats.toolCalls),
+  };
+}
+
+/**
+ * Settings entries that let the CLI run an approved tool call
+ * Commands are allowed one by one, as the CLI checks each command of a shell line.
+ */
+function grantsFor(toolCall: GeminiToolCall): string[] {
+  const command = toolCall.args.command;
+  if (toolCall.name === 'run_shell_command' && typeof command === 'string') {
+    return splitShellCommand(command).map((segment) => `run_shell_command(${segment})`);
+  }
+  return [toolCall.name];
+}
+
+const sameCall = (a: GeminiToolCall, b: GeminiToolCall) =>
+  a.name === b.name && JSON.stringify(a.args) === JSON.stringify(b.args);
+
+/**
+ * Prompt for the run that retries tool calls the user approved
+ */
+export function buildApprovalPrompt(decided: GeminiToolCall[]): string {
+  const lines = decided.map((toolCall) => {
+    const outcome =
+      toolCall.approval === 'deny'
+        ? `denied${toolCall.approvalReason ? ` (${toolCall.approvalReason})` : ''}`
+        : 'approved';
+    return `- ${toolCall.name} ${JSON.stringify(toolCall.args)}: ${outcome}`;
+  });
+  return [
+    'The user has reviewed the tool calls that needed approval:',
+    ...lines,
+    'Run the approved calls again, exactly as before, and continue. Do not retry denied calls.',
+  ].join('\n');
+}
+
+/**
+ * Combine a turn's runs so far with the run that retried approved tool calls
+ * A retried call takes the place of the refused one and keeps its approval.
+ */
+function mergeRuns(
+  combined: GeminiRunResult,
+  retry: GeminiRunResult,
+  approved: GeminiToolCall[]
+): GeminiRunResult {
+  const toolCalls = [...combined.toolCalls];
+  const unmatched = [...approved];
+
+  for (const toolCall of retry.toolCalls) {
+    const match = unmatched.findIndex((refused) => sameCall(refused, toolCall));
+    if (match === -1) {
+      toolCalls.push(toolCall);
+      continue;
+    }
+    const [refused] = unmatched.splice(match, 1);
+    toolCalls[toolCalls.findIndex((call) => call.id === refused.id)] = {
+      ...toolCall,
+      approval: refused.approval,
+      ...(refused.approvalReason && { approvalReason: refused.approvalReason }),
+    };
+  }
+
+  return {
+    text: [combined.text, retry.text].filter(Boolean).join('\n\n'),
+    toolCalls,
+    geminiSessionId: retry.geminiSessionId ?? combined.geminiSessionId,
+    stats: addStats(combined.stats, retry.stats),
+    exitCode: retry.exitCode,
+    error: retry.error,
+    ...((combined.interrupted || retry.interrupted) && { interrupted: true }),
+  };
+}
+
+/**
+ * Ids of the attachments stored with a user message
+ */
+function attachmentIdsOf(metadata: Record<string, unknown> | null | undefined): string[] {
+  const stored = metadata?.attachments;
+  return Array.isArray(stored)
+    ? stored
+        .map((attachment) => (attachment as { id?: unknown })?.id)
+        .filter((id): id is string => typeof id === 'string')
+    : [];
+}
+
+/**
+ * Files the @-mentions of a user message expanded to
+ */
+function mentionedFilesOf(metadata: Record<string, unknown> | null | undefined): string[] {
+  const stored = metadata?.mentions;
+  return Array.isArray(stored)
+    ? (stored as MessageMention[]).flatMap((mention) => mention.files)
+    : [];
+}
+
+function appendReferences(prompt: string, label: string, filePaths: string[]): string {
+  if (filePaths.length === 0) {
+    return prompt;
+  }
+
+  const references = filePaths.map((filePath) => `@${filePath.replace(/ /g, '\\ ')}`).join(' ');
+  return `${prompt}\n\n${label}: ${references}`;
+}
+
+/**
+ * Append @-references so the CLI reads the attached files with the prompt
+ */
+export function withAttachmentReferences(prompt: string, filePaths: string[]): string {
+  return appendReferences(prompt, 'Attached files', filePaths);
+}
+
+/**
+ * Append @-references to the project files the user mentioned (paths relative to the project)
+ */
+export function withMentionReferences(prompt: string, filePaths: string[]): string {
+  return appendReferences(prompt, 'Context files', filePaths);
+}
+
+/**
+ * Build a prompt that replays earlier messages for a CLI run that cannot resume
+ */
+export function buildTranscriptPrompt(
+  history: Array<Pick<ChatMessage, 'role' | 'content'>>,
+  prompt: string
+): string {
+  const transcript = history
+    .filter((message) => message.role !== 'system' && message.content)
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  if (!transcript) {
+    return prompt;
+  }
+
+  return `Continue the following conversation.\n\n<conversation>\n${transcript}\n</conversation>\n\n${prompt}`;
+}
+
+/**
+ * Chat service layer
+ * Runs one Gemini CLI turn per user message and persists both sides
+ */
+export class ChatService {
+  private sessionsService = new SessionsService();
+  private policyService = new PolicyService();
+  private costsService = new CostsService();
+
+  constructor(
+    private runner: GeminiRunner = geminiRunner,
+    private attachmentsService: AttachmentsService = new AttachmentsService()
+  ) {}
+
+  /**
+   * Store the user message and spawn the Gemini CLI
+   * With a parentId the message starts a new branch (e.g. an edit of an earlier message)
+   * Every event is published on the session's realtime channel and passed to onEvent
+   * @throws Error if the session or parent is missing, a turn is already running or the budget is spent
+   */
+  async startTurn(
+    userId: string,
+    sessionId: string,
+    input: SendMessageInput,
+    onEvent: ChatEventListener = () => {},
+    options: TurnOptions = {}
+  ): Promise<ChatTurn> {
+    // Reserved before the user message is stored, so a concurrent send leaves nothing behind
+    const { session, release } = await this.reserveTurn(userId, sessionId);
+
+    try {
+      const messages = await this.sessionsService.listMessages(userId, sessionId);
+
+      const attachmentIds = input.attachmentIds ?? [];
+      if (attachmentIds.length > 0 && !supportsAttachments(session.model)) {
+        throw new Error('Model does not support attachments');
+      }
+      const files = await this.attachmentsService.resolve(userId, sessionId, attachmentIds);
+      const mentions = input.mentions?.length
+        ? await new FilesService([session.projectPath]).expandMentions(
+            session.projectPath,
+            input.mentions
+          )
+        : [];
+
+      const metadata = {
+        ...(files.length > 0 && {
+          attachments: files.map(({ storagePath, ...attachment }) => attachment),
+        }),
+        // Recorded so the transcript shows which files the model saw
+        ...(mentions.length > 0 && { mentions }),
+      };
+      const userMessage = await this.sessionsService.addMessage(userId, sessionId, {
+        role: 'user',
+        content: input.content,
+        ...(input.parentId !== undefined && { parentId: input.parentId }),
+        ...(Object.keys(metadata).length > 0 && { metadata }),
+      });
+
+      return await this.runTurn(
+        userId,
+        session,
+        release,
+        messages,
+        {
+          id: userMessage.id!,
+          parentId: userMessage.parentId ?? null,
+          content: input.content,
+          attachmentIds,
+          mentionedFiles: mentions.flatMap((mention) => mention.files),
+        },
+        onEvent,
+        options
+      );
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * Answer a user message again, adding the reply as a sibling of the given assistant message
+   * @throws Error if the session or message is missing, a turn is already running or the budget is spent
+   */
+  async regenerate(
+    userId: string,
+    sessionId: string,
+    messageId: string,
+    onEvent: ChatEventListener = () => {}
+  ): Promise<ChatTurn> {
+    const { session, release } = await this.reserveTurn(userId, sessionId);
+
+    try {
+      const messages = await this.sessionsService.listMessages(userId, sessionId);
+
+      const reply = messages.find((message) => message.id === messageId);
+      const prompt = reply?.parentId
+        ? messages.find((message) => message.id === reply.parentId)
+        : undefined;
+      if (!reply || reply.role !== 'assistant' || prompt?.role !== 'user') {
+        throw new Error('Message not found');
+      }
+
+      return await this.runTurn(
+        userId,
+        session,
+        release,
+        messages,
+        {
+          id: prompt.id,
+          parentId: prompt.parentId,
+          content: prompt.content,
+          attachmentIds: attachmentIdsOf(prompt.metadata),
+          mentionedFiles: mentionedFilesOf(prompt.metadata),
+        },
+        onEvent
+      );
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * Send a user message and wait for the assistant reply
+   * @returns The stored assistant message
+   */
+  async sendMessage(
+    userId: string,
+    sessionId: string,
+    input: SendMessageInput,
+    onEvent?: ChatEventListener
+  ): Promise<ChatMessage> {
+    const turn = await this.startTurn(userId, sessionId, input, onEvent);
+    return turn.completion;
+  }
+
+  /**
+   * Stop the running turn; the partial reply is stored when the CLI exits
+   * @throws Error if the session is missing or no turn is running
+   */
+  async interrupt(userId: string, sessionId: string): Promise<void> {
+    const session = await this.sessionsService.findById(userId, sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const turn = activeTurns.get(sessionId);
+    if (!turn) {
+      throw new Error('Turn not running');
+    }
+
+    turn.interrupted = true;
+    this.runner.getRun(sessionId)?.interrupt();
+    for (const approval of turn.approvals.values()) {
+      approval.decide(null);
+    }
+  }
+
+  /**
+   * Decide on a tool call the CLI refused to run without approval
+   * @throws Error if the session is missing or no such approval is pending
+   */
+  async decide(userId: string, sessionId: string, input: ToolDecisionInput): Promise<GeminiToolCall> {
+    const session = await this.sessionsService.findById(userId, sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const turn = activeTurns.get(sessionId);
+    const approval = turn?.approvals.get(input.toolCallId);
+    if (!turn || !approval) {
+      throw new Error('Approval not found');
+    }
+
+    // The policy may have been tightened while the card was open
+    let outcome: NonNullable<ApprovalOutcome> = { decision: input.decision };
+    if (input.decision !== 'deny') {
+      const policies = await this.policyService.resolveForSession(userId, session);
+      const verdict = evaluateToolCall(policies, approval.toolCall, session.projectPath);
+      if (verdict.decision === 'deny') {
+        outcome = { decision: 'deny', reason: verdict.reason };
+      }
+    }
+
+    if (outcome.decision === 'approve-always') {
+      await this.sessionsService.addApprovedTool(userId, sessionId, approval.toolCall.name);
+    }
+
+    // Decided, or interrupted, by someone else in the meantime
+    if (turn.approvals.get(input.toolCallId) !== approval) {
+      throw new Error('Approval not found');
+    }
+    approval.decide(outcome);
+
+    return {
+      ...approval.toolCall,
+      approval: outcome.decision,
+      ...(outcome.reason && { approvalReason: outcome.reason }),
+    };
+  }
+
+  /**
+   * Spawn the Gemini CLI for a stored user message and store its reply as a child
+   * `messages` is the conversation before the turn, in creation order
+   * `release` gives up the session's run once the reply is stored
+   */
+  private async runTurn(
+    userId: string,
+    session: Session,
+    release: () => void,
+    messages: ChatMessageRow[],
+    prompt: TurnPrompt,
+    onEvent: ChatEventListener,
+    turnOptions: TurnOptions = {}
+  ): Promise<ChatTurn> {
+    const sessionId = session.id;
+    const emit = (event: GeminiStreamEvent) => {
+      onEvent(event);
+      eventBus.publish(`session:${sessionId}`, event);
+    };
+
+    // Branches that leave the CLI's own history are replayed from the stored transcript
+    const history = pathTo(messages, prompt.parentId);
+    const resume = resumableCliSession(messages, prompt.parentId, session.geminiSessionId);
+
+    const files = await this.attachmentsService.resolve(userId, sessionId, prompt.attachmentIds);
+    const content = withAttachmentReferences(
+      withMentionReferences(prompt.content, prompt.mentionedFiles),
+      files.map((file) => file.storagePath)
+    );
+
+    const policies = await this.policyService.resolveForSession(userId, session);
+    const baseOptions = {
+      projectPath: session.projectPath,
+      model: session.model,
+      approvalMode: launchApprovalMode(policies),
+      tools: launchToolSettings(policies, session.approvedTools),
+      ...(files.length > 0 && {
+        includeDirectories: [this.attachmentsService.sessionDir(sessionId)],
+      }),
+      // Comparison sessions run side by side in the same project
+      ...(session.metadata?.sandbox === true && { sandbox: true }),
+      ...(session.generationSettings && { generation: session.generationSettings }),
+    };
+
+    // Resume the CLI's own conversation when it matches the branch; otherwise replay the transcript
+    const firstAttempt = resume
+      ? this.attempt(sessionId, { ...baseOptions, prompt: content, resume }, emit)
+      : this.attempt(
+          sessionId,
+          { ...baseOptions, prompt: buildTranscriptPrompt(history, content) },
+          emit
+        );
+    const turn: ActiveTurn = { interrupted: false, approvals: new Map() };
+    activeTurns.set(sessionId, turn);
+    emit({ type: 'status', status: 'running' });
+
+    const completion = (async () => {
+      try {
+        let { result, resumeFailed } = await firstAttempt;
+
+        if (resumeFailed) {
+          console.warn(`Could not resume Gemini CLI session ${resume}, replaying transcript`);
+          ({ result } = await this.attempt(
+            sessionId,
+            { ...baseOptions, prompt: buildTranscriptPrompt(history, content) },
+            emit
+          ));
+        }
+
+        result = await this.retryApproved(
+          userId,
+          sessionId,
+          turn,
+          result,
+          baseOptions,
+          emit,
+          turnOptions
+        );
+
+        if (result.geminiSessionId && result.geminiSessionId !== session.geminiSessionId) {
+          await this.sessionsService.updateGeminiSessionId(
+            userId,
+            sessionId,
+            result.geminiSessionId
+          );
+        } else if (resumeFailed && !result.geminiSessionId) {
+          await this.sessionsService.updateGeminiSessionId(userId, sessionId, null);
+        }
+
+        const usage = result.stats && toTokenUsage(result.stats);
+        const costUsd = usage && (await this.costsService.recordUsage(userId, session, usage));
+
+        const message = await this.sessionsService.addMessage(userId, sessionId, {
+          parentId: prompt.id,
+          role: 'assistant',
+          content: result.text,
+          metadata: {
+            model: session.model,
+            toolCalls: result.toolCalls,
+            ...(result.geminiSessionId && { geminiSessionId: result.geminiSessionId }),
+            ...(result.stats?.durationMs !== undefined && {
+              durationMs: result.stats.durationMs,
+            }),
+            ...(usage && { usage, costUsd }),
+            ...(result.interrupted && { interrupted: true }),
+            ...(result.error && { error: result.error }),
+          },
+        });
+
+        emit({
+          type: 'status',
+          status: result.interrupted ? 'interrupted' : result.error ? 'failed' : 'completed',
+        });
+        emit({ type: 'done', message });
+
+        return message;
+      } catch (error) {
+        // Realtime clients only learn that the turn ended from its events
+        emit({ type: 'error', error: error instanceof Error ? error.message : 'Chat turn failed' });
+        emit({ type: 'status', status: 'failed' });
+        throw error;
+      } finally {
+        activeTurns.delete(sessionId);
+        release();
+      }
+    })();
+
+    return { completion };
+  }
+
+  /**
+   * Ask about the tool calls the CLI refused to run without approval, then run the CLI again
+   * in the same CLI session with the approved calls allowed, for as long as calls are approved
+   * A granted tool runs without approval for the whole retry, so the prompt asks for the
+   * approved calls only.
+   * @returns The runs of the turn combined
+   */
+  private async retryApproved(
+    userId: string,
+    sessionId: string,
+    turn: ActiveTurn,
+    first: GeminiRunResult,
+    options: Omit<GeminiRunOptions, 'prompt'> & { tools: ToolSettings },
+    emit: ChatEventListener,
+    turnOptions: TurnOptions
+  ): Promise<GeminiRunResult> {
+    let combined = first;
+    let last = first;
+    let tools = options.tools;
+
+    for (let round = 0; round < MAX_APPROVAL_ROUNDS; round++) {
+      const refused = last.toolCalls.filter(
+        (toolCall) =>
+          toolCall.status === 'error' &&
+          requiresApproval(toolCall, options.approvalMode ?? 'default', tools)
+      );
+      if (refused.length === 0 || last.interrupted || turn.interrupted) {
+        break;
+      }
+
+      const decided = await Promise.all(
+        refused.map((toolCall) =>
+          this.requestApproval(
+            userId,
+            sessionId,
+            turn,
+            toolCall,
+            options.projectPath,
+            emit,
+            turnOptions
+          )
+        )
+      );
+      combined = {
+        ...combined,
+        toolCalls: combined.toolCalls.map(
+          (toolCall) => decided.find((call) => call.id === toolCall.id) ?? toolCall
+        ),
+      };
+
+      const approved = decided.filter((call) => call.approval && call.approval !== 'deny');
+      if (turn.interrupted) {
+        return { ...combined, interrupted: true };
+      }
+      if (approved.length === 0 || !last.geminiSessionId) {
+        break;
+      }
+
+      // Keep the retry's text apart from what the CLI said before
+      let separated = !combined.text;
+      const emitRetry = (event: GeminiStreamEvent) => {
+        if (event.type === 'delta' && !separated) {
+          separated = true;
+          emit({ type: 'delta', text: '\n\n' });
+        }
+        emit(event);
+      };
+
+      tools = { ...tools, allowed: [...tools.allowed, ...approved.flatMap(grantsFor)] };
+      ({ result: last } = await this.attempt(
+        sessionId,
+        {
+          ...options,
+          tools,
+          resume: last.geminiSessionId,
+          prompt: buildApprovalPrompt(decided),
+        },
+        emitRetry
+      ));
+      combined = mergeRuns(combined, last, approved);
+    }
+
+    return combined;
+  }
+
+  /**
+   * Check that a new turn may start in the session and hold its run until the CLI is spawned
+   * @returns The session, and a function that gives the run up if the turn does not start
+   * @throws Error if the session or its project is missing, a turn is already running or the
+   * budget is spent
+   */
+  private async reserveTurn(
+    userId: string,
+    sessionId: string
+  ): Promise<{ session: Session; release: () => void }> {
+    const session = await this.sessionsService.findById(userId, sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    if (this.runner.isRunning(sessionId)) {
+      throw new Error('Turn already in progress');
+    }
+    const release = this.runner.reserve(sessionId);
+
+    try {
+      // The CLI runs in the project directory, which the user may have removed since
+      const project = await db.query.projects.findFirst({
+        where: and(eq(projects.userId, userId), eq(projects.path, session.projectPath)),
+      });
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      await this.costsService.assertWithinBudget(userId);
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    return { session, release };
+  }
+
+  /**
+   * Spawn one CLI run (synchronously) and forward its events
+   * Errors from a resume attempt are held back until we know it did not simply fail to resume
+   */
+  private attempt(
+    sessionId: string,
+    options: GeminiRunOptions,
+    emit: ChatEventListener
+  ): Promise<AttemptOutcome> {
+    const run = this.runner.start(sessionId, options);
+    const heldErrors: GeminiStreamEvent[] = [];
+
+    const unsubscribe = run.subscribe((event) => {
+      if (options.resume && event.type === 'error') {
+        heldErrors.push(event);
+      } else {
+        emit(event);
+      }
+    });
+
+    return run.result.then((result) => {
+      unsubscribe();
+
+      const resumeFailed = Boolean(
+        options.resume &&
+          result.error &&
+          !result.interrupted &&
+          !result.text &&
+          result.toolCalls.length === 0
+      );
+      if (!resumeFailed) {
+        heldErrors.forEach(emit);
+      }
+
+      return { result, resumeFailed };
+    });
+  }
+
+  /**
+   * Decide on a refused tool call: apply the execution policy, then tools approved for the
+   * session, otherwise ask the user with a preview (or deny when nobody is watching)
+   * @returns The tool call with the decision, or unchanged if the turn was interrupted
+   */
+  private async requestApproval(
+    userId: string,
+    sessionId: string,
+    turn: ActiveTurn,
+    toolCall: GeminiToolCall,
+    projectPath: string,
+    emit: ChatEventListener,
+    turnOptions: TurnOptions
+  ): Promise<GeminiToolCall> {
+    const decided = (decision: ToolApprovalDecision, reason?: string): GeminiToolCall => {
+      const call = { ...toolCall, approval: decision, ...(reason && { approvalReason: reason }) };
+      emit({ type: 'approval-decision', toolCall: call });
+      return call;
+    };
+
+    const session = await this.sessionsService.findById(userId, sessionId);
+    if (!session) {
+      return decided('deny', 'Session not found');
+    }
+
+    const policies = await this.policyService.resolveForSession(userId, session);
+    const verdict = evaluateToolCall(policies, toolCall, projectPath);
+    if (verdict.decision === 'deny') {
+      return decided('deny', verdict.reason);
+    }
+    if (verdict.decision === 'allow') {
+      return decided('approve-once', verdict.reason);
+    }
+
+    if (session.approvedTools.includes(toolCall.name)) {
+      return decided('approve-always');
+    }
+
+    if (turnOptions.unattended) {
+      return decided('deny', UNATTENDED_DENIAL);
+    }
+
+    const preview = await buildToolPreview(toolCall, projectPath);
+    if (turn.interrupted) {
+      return toolCall;
+    }
+    const outcome = await new Promise<ApprovalOutcome>((resolve) => {
+      turn.approvals.set(toolCall.id, {
+        toolCall,
+        decide: (decision) => {
+          turn.approvals.delete(toolCall.id);
+          resolve(decision);
+        },
+      });
+      emit({ type: 'approval-request', toolCall, ...(preview && { preview }) });
+    });
+
+    return outcome ? decided(outcome.decision, outcome.reason) : toolCall;
+  }
+}
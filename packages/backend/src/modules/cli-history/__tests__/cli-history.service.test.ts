@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CliHistoryService } from '../cli-history.service.js';
+import { projectHash, readProjectHistory } from '../history-reader.js';
+import { SessionsService } from '../../sessions/sessions.service.js';
+import { db } from '../../../db/index.js';
+import { users, projects } from '../../../db/schema.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const PROJECT_PATH = '/work/cli-project';
+
+function conversationRecord(messages: unknown[]) {
+  return {
+    sessionId: 'cli-session-1',
+    projectHash: projectHash(PROJECT_PATH),
+    startTime: '2026-01-05T10:00:00.000Z',
+    lastUpdated: '2026-01-05T10:05:00.000Z',
+    messages,
+  };
+}
+
+function logEntry(sessionId: string, message: string) {
+  return { sessionId, messageId: 0, timestamp: '2026-01-05T10:00:00.000Z', type: 'user', message };
+}
+
+const QUESTION = {
+  id: 'm1',
+  timestamp: '2026-01-05T10:00:00.000Z',
+  type: 'user',
+  content: [{ text: 'List the files' }],
+};
+const ANSWER = {
+  id: 'm2',
+  timestamp: '2026-01-05T10:00:05.000Z',
+  type: 'gemini',
+  content: 'There are two files.',
+  model: 'gemini-2.5-pro',
+  tokens: { input: 100, output: 20, cached: 0, total: 120 },
+  toolCalls: [
+    {
+      id: 'ls-1',
+      name: 'list_directory',
+      args: { path: '.' },
+      status: 'success',
+      resultDisplay: 'a.ts\nb.ts',
+      timestamp: '2026-01-05T10:00:03.000Z',
+    },
+  ],
+};
+
+describe('readProjectHistory', () => {
+  let historyDir: string;
+
+  beforeEach(async () => {
+    historyDir = path.join(os.tmpdir(), `test-cli-history-${Date.now()}`);
+    await fs.mkdir(historyDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(historyDir, { recursive: true, force: true });
+  });
+
+  it('should merge tool turns of a checkpoint into one assistant message', async () => {
+    await fs.writeFile(
+      path.join(historyDir, 'checkpoint-review.json'),
+      JSON.stringify([
+        { role: 'user', parts: [{ text: 'Read a.ts' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'read_file', args: { path: 'a.ts' } } }] },
+        {
+          role: 'user',
+          parts: [{ functionResponse: { name: 'read_file', response: { output: 'export {}' } } }],
+        },
+        { role: 'model', parts: [{ text: 'It is empty.' }] },
+      ])
+    );
+
+    const { conversations } = await readProjectHistory(historyDir);
+
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0]).toMatchObject({ key: 'checkpoint:review', source: 'checkpoint' });
+    expect(conversations[0].geminiSessionId).toBeUndefined();
+    expect(conversations[0].messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+    expect(conversations[0].messages[1].content).toBe('It is empty.');
+    expect(conversations[0].messages[1].toolCalls).toEqual([
+      {
+        id: '1-0',
+        name: 'read_file',
+        args: { path: 'a.ts' },
+        status: 'success',
+        output: 'export {}',
+      },
+    ]);
+  });
+
+  it('should only use prompt logs for sessions without a conversation record', async () => {
+    await fs.mkdir(path.join(historyDir, 'chats'));
+    await fs.writeFile(
+      path.join(historyDir, 'chats', 'session-2026-01-05T10-00-cli1.json'),
+      JSON.stringify(conversationRecord([QUESTION, ANSWER]))
+    );
+    await fs.writeFile(
+      path.join(historyDir, 'logs.json'),
+      JSON.stringify([
+        logEntry('cli-session-1', 'List the files'),
+        logEntry('cli-session-2', 'Only logged'),
+      ])
+    );
+    await fs.writeFile(path.join(historyDir, 'checkpoint-broken.json'), '{not json');
+
+    const { conversations, filesSkipped } = await readProjectHistory(historyDir);
+
+    expect(filesSkipped).toBe(1);
+    expect(conversations.map((conversation) => [conversation.source, conversation.key])).toEqual([
+      ['chat', 'cli-session-1'],
+      ['log', 'cli-session-2'],
+    ]);
+  });
+});
+
+describe('CliHistoryService', () => {
+  let geminiHome: string;
+  let chatsDir: string;
+  let cliHistoryService: CliHistoryService;
+  let sessionsService: SessionsService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    geminiHome = path.join(os.tmpdir(), `test-gemini-home-${Date.now()}`);
+    chatsDir = path.join(geminiHome, 'tmp', projectHash(PROJECT_PATH), 'chats');
+    await fs.mkdir(chatsDir, { recursive: true });
+    await fs.mkdir(path.join(geminiHome, 'tmp', projectHash('/elsewhere')), { recursive: true });
+    cliHistoryService = new CliHistoryService(geminiHome);
+    sessionsService = new SessionsService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'cliuser', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+    await db.insert(projects).values({ userId: testUserId, name: 'CLI', path: PROJECT_PATH });
+  });
+
+  afterEach(async () => {
+    await fs.rm(geminiHome, { recursive: true, force: true });
+  });
+
+  const writeRecord = (messages: unknown[]) =>
+    fs.writeFile(
+      path.join(chatsDir, 'session-2026-01-05T10-00-cli1.json'),
+      JSON.stringify(conversationRecord(messages))
+    );
+
+  it('should create resumable sessions for CLI conversations', async () => {
+    await writeRecord([QUESTION, ANSWER]);
+
+    const result = await cliHistoryService.import(testUserId);
+
+    expect(result).toEqual({
+      sessionsCreated: 1,
+      sessionsUpdated: 0,
+      messagesImported: 2,
+      filesSkipped: 0,
+      unmatchedDirectories: 1,
+    });
+    const {
+      items: [session],
+    } = await sessionsService.findByProject(testUserId, PROJECT_PATH);
+    expect(session.geminiSessionId).toBe('cli-session-1');
+    expect(session.title).toBe('List the files');
+    expect(session.model).toBe('gemini-2.5-pro');
+
+    const withMessages = await sessionsService.findWithMessages(testUserId, session.id);
+    expect(withMessages!.messages.map((message) => message.content)).toEqual([
+      'List the files',
+      'There are two files.',
+    ]);
+    expect(withMessages!.messages[0].timestamp).toEqual(new Date(QUESTION.timestamp));
+    expect(withMessages!.messages[1].metadata).toMatchObject({
+      usage: { promptTokens: 100, responseTokens: 20, cachedTokens: 0, totalTokens: 120 },
+      toolCalls: [{ id: 'ls-1', name: 'list_directory', status: 'success', output: 'a.ts\nb.ts' }],
+    });
+  });
+
+  it('should be idempotent and append messages added since the last import', async () => {
+    await writeRecord([QUESTION]);
+    await cliHistoryService.import(testUserId);
+
+    expect((await cliHistoryService.import(testUserId)).messagesImported).toBe(0);
+
+    await writeRecord([QUESTION, ANSWER]);
+    const result = await cliHistoryService.import(testUserId);
+
+    expect(result).toMatchObject({ sessionsCreated: 0, sessionsUpdated: 1, messagesImported: 1 });
+    const { items: sessions } = await sessionsService.findByProject(testUserId, PROJECT_PATH);
+    expect(sessions).toHaveLength(1);
+    const withMessages = await sessionsService.findWithMessages(testUserId, sessions[0].id);
+    expect(withMessages!.messages).toHaveLength(2);
+    expect(withMessages!.messages[1].parentId).toBe(withMessages!.messages[0].id);
+  });
+
+  it('should leave sessions alone once they were continued in the UI', async () => {
+    await writeRecord([QUESTION]);
+    await cliHistoryService.import(testUserId);
+    const {
+      items: [session],
+    } = await sessionsService.findByProject(testUserId, PROJECT_PATH);
+    await sessionsService.addMessage(testUserId, session.id, {
+      role: 'assistant',
+      content: 'From the UI',
+    });
+
+    await writeRecord([QUESTION, ANSWER]);
+    const result = await cliHistoryService.import(testUserId);
+
+    expect(result.messagesImported).toBe(0);
+  });
+
+  it('should skip conversations the UI ran itself', async () => {
+    await writeRecord([QUESTION, ANSWER]);
+    await fs.writeFile(
+      path.join(chatsDir, 'session-2026-01-05T11-00-cli2.json'),
+      JSON.stringify({ ...conversationRecord([QUESTION, ANSWER]), sessionId: 'cli-session-2' })
+    );
+    await sessionsService.create(testUserId, {
+      projectPath: PROJECT_PATH,
+      geminiSessionId: 'cli-session-1',
+    });
+    // Moved to a new CLI session after resuming its first one failed
+    const moved = await sessionsService.create(testUserId, {
+      projectPath: PROJECT_PATH,
+      geminiSessionId: 'cli-session-3',
+    });
+    await sessionsService.addMessage(testUserId, moved.id, {
+      role: 'assistant',
+      content: 'There are two files.',
+      metadata: { geminiSessionId: 'cli-session-2' },
+    });
+
+    const result = await cliHistoryService.import(testUserId);
+
+    expect(result).toMatchObject({ sessionsCreated: 0, messagesImported: 0 });
+    const { total } = await sessionsService.findByProject(testUserId, PROJECT_PATH);
+    expect(total).toBe(2);
+  });
+
+  it('should do nothing without a CLI history directory', async () => {
+    const result = await new CliHistoryService(path.join(geminiHome, 'missing')).import(testUserId);
+
+    expect(result.sessionsCreated).toBe(0);
+  });
+});
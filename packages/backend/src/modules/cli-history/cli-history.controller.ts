@@ -0,0 +1,33 @@
+import type { Response, NextFunction } from 'express';
+import { CliHistoryService } from './cli-history.service.js';
+import type { ApiResponse } from '@gemini-ui/shared';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * CLI history controller
+ */
+export class CliHistoryController {
+  private cliHistoryService = new CliHistoryService();
+
+  /**
+   * Import Gemini CLI conversations into sessions
+   * POST /api/cli-history/import
+   */
+  import = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const result = await this.cliHistoryService.import(req.user.id);
+
+      res.json({
+        success: true,
+        data: result,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { CliHistoryController } from './cli-history.controller.js';
+import { requireAuth } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+const cliHistoryController = new CliHistoryController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * POST /api/cli-history/import
+ * Import Gemini CLI history into sessions of matching projects
+ */
+router.post('/import', cliHistoryController.import);
+
+export default router;
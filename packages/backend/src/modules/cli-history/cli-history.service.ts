@@ -0,0 +1,203 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { db } from '../../db/index.js';
+import { chatMessages, projects, sessions, type Session as SessionRow } from '../../db/schema.js';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import type { CliHistoryImportResult } from '@gemini-ui/shared';
+import { config } from '../../config/index.js';
+import { titleFromPrompt } from '../sessions/sessions.service.js';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+import { projectHash, readProjectHistory, type CliConversation } from './history-reader.js';
+
+/**
+ * Marker stored in the metadata of imported sessions
+ */
+interface CliImportMarker {
+  source: CliConversation['source'];
+  key: string;
+}
+
+function importMarkerOf(session: SessionRow): CliImportMarker | undefined {
+  return session.metadata?.cliImport as CliImportMarker | undefined;
+}
+
+/**
+ * CLI history import service
+ * Turns conversations run directly in the Gemini CLI into sessions of the matching project
+ */
+export class CliHistoryService {
+  constructor(
+    private geminiHome: string = config.GEMINI_HOME || path.join(os.homedir(), '.gemini')
+  ) {}
+
+  /**
+   * Import the CLI history of every project the user has
+   * Safe to re-run: known conversations only receive messages added since the last import.
+   * Conversations the UI ran itself (the CLI records those too) are not imported again.
+   */
+  async import(userId: string): Promise<CliHistoryImportResult> {
+    const result: CliHistoryImportResult = {
+      sessionsCreated: 0,
+      sessionsUpdated: 0,
+      messagesImported: 0,
+      filesSkipped: 0,
+      unmatchedDirectories: 0,
+    };
+
+    const tmpDir = path.join(this.geminiHome, 'tmp');
+    let directories: string[];
+    try {
+      const entries = await fs.readdir(tmpDir, { withFileTypes: true });
+      directories = entries
+        .filter((entry) => entry.isDirectory() && /^[0-9a-f]{64}$/.test(entry.name))
+        .map((entry) => entry.name);
+    } catch {
+      return result;
+    }
+
+    const userProjects = await db.query.projects.findMany({
+      where: eq(projects.userId, userId),
+    });
+    const projectsByHash = new Map(
+      userProjects.map((project) => [projectHash(project.path), project])
+    );
+
+    for (const directory of directories) {
+      const project = projectsByHash.get(directory);
+      if (!project) {
+        result.unmatchedDirectories += 1;
+        continue;
+      }
+
+      const { conversations, filesSkipped } = await readProjectHistory(
+        path.join(tmpDir, directory)
+      );
+      result.filesSkipped += filesSkipped;
+
+      const existing = await db.query.sessions.findMany({
+        where: and(eq(sessions.userId, userId), eq(sessions.projectPath, project.path)),
+      });
+      const known = await this.knownCliSessionIds(existing);
+      for (const conversation of conversations) {
+        const imported = existing.find(
+          (session) => importMarkerOf(session)?.key === conversation.key
+        );
+        if (!imported && conversation.geminiSessionId && known.has(conversation.geminiSessionId)) {
+          continue;
+        }
+        await this.importConversation(userId, project.path, conversation, imported, result);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * CLI session ids the sessions have run turns in
+   * A session moves to a new CLI session when resuming fails, so its replies are checked
+   * as well as its current id.
+   */
+  private async knownCliSessionIds(existing: SessionRow[]): Promise<Set<string>> {
+    const known = new Set(
+      existing.flatMap((session) => (session.geminiSessionId ? [session.geminiSessionId] : []))
+    );
+    if (existing.length === 0) {
+      return known;
+    }
+
+    const geminiSessionId = sql<
+      string | null
+    >`json_extract(${chatMessages.metadata}, '$.geminiSessionId')`;
+    const rows = await db
+      .select({ geminiSessionId })
+      .from(chatMessages)
+      .where(inArray(chatMessages.sessionId, existing.map((session) => session.id)));
+    for (const { geminiSessionId } of rows) {
+      if (geminiSessionId) known.add(geminiSessionId);
+    }
+
+    return known;
+  }
+
+  /**
+   * Create a session for a conversation, or append its new messages to an earlier import
+   */
+  private async importConversation(
+    userId: string,
+    projectPath: string,
+    conversation: CliConversation,
+    imported: SessionRow | undefined,
+    result: CliHistoryImportResult
+  ): Promise<void> {
+    const known = new Set<string>();
+    let parentId: string | null = null;
+
+    if (imported) {
+      const messages = await db.query.chatMessages.findMany({
+        where: eq(chatMessages.sessionId, imported.id),
+        orderBy: [chatMessages.createdAt, sql`rowid`],
+      });
+      // Turns taken in the UI resume the same CLI session and land in its record too;
+      // once a session has them, re-importing would duplicate them
+      if (messages.some((message) => typeof message.metadata?.cliMessageKey !== 'string')) {
+        return;
+      }
+      messages.forEach((message) => known.add(message.metadata!.cliMessageKey as string));
+      parentId = messages[messages.length - 1]?.id ?? null;
+    }
+
+    const fresh = conversation.messages.filter((message) => !known.has(message.key));
+    if (fresh.length === 0) {
+      return;
+    }
+
+    let sessionId: string;
+    if (imported) {
+      sessionId = imported.id;
+      result.sessionsUpdated += 1;
+    } else {
+      const marker: CliImportMarker = { source: conversation.source, key: conversation.key };
+      const prompt = conversation.messages.find((message) => message.role === 'user');
+      const [session] = await db
+        .insert(sessions)
+        .values({
+          userId,
+          projectPath,
+          model: conversation.model ?? modelRegistry.defaultModel(),
+          geminiSessionId: conversation.geminiSessionId ?? null,
+          metadata: { cliImport: marker },
+          title: prompt ? titleFromPrompt(prompt.content) : null,
+          createdAt: conversation.startedAt,
+        })
+        .returning();
+      sessionId = session.id;
+      result.sessionsCreated += 1;
+    }
+
+    for (const message of fresh) {
+      const [row] = await db
+        .insert(chatMessages)
+        .values({
+          sessionId,
+          parentId,
+          role: message.role,
+          content: message.content,
+          metadata: {
+            cliMessageKey: message.key,
+            ...(message.toolCalls && { toolCalls: message.toolCalls }),
+            ...(message.usage && { usage: message.usage }),
+          },
+          createdAt: message.timestamp,
+        })
+        .returning();
+      parentId = row.id;
+    }
+
+    await db
+      .update(sessions)
+      .set({ activeLeafId: parentId, lastAccessedAt: fresh[fresh.length - 1].timestamp })
+      .where(eq(sessions.id, sessionId));
+    result.messagesImported += fresh.length;
+  }
+}
@@ -0,0 +1,359 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { z } from 'zod';
+import type { GeminiToolCall, TokenUsage } from '@gemini-ui/shared';
+
+/**
+ * Gemini CLI keeps per-project history under ~/.gemini/tmp/<sha256 of the project root>:
+ * - chats/session-*.json   full conversation records, resumable by their session id
+ * - checkpoint-<tag>.json  conversations saved with `/chat save <tag>`
+ * - logs.json              the user prompts of every session
+ */
+
+/**
+ * One message read from CLI history
+ */
+export interface CliHistoryMessage {
+  /** Stable within the conversation, so re-imports can skip known messages */
+  key: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  toolCalls?: GeminiToolCall[];
+  usage?: TokenUsage;
+}
+
+/**
+ * One conversation read from CLI history
+ */
+export interface CliConversation {
+  /** Identifies the conversation across imports */
+  key: string;
+  source: 'chat' | 'checkpoint' | 'log';
+  /** CLI session id for --resume (checkpoints have none) */
+  geminiSessionId?: string;
+  model?: string;
+  startedAt: Date;
+  messages: CliHistoryMessage[];
+}
+
+const PartSchema = z
+  .object({
+    text: z.string().optional(),
+    functionCall: z
+      .object({
+        id: z.string().optional(),
+        name: z.string(),
+        args: z.record(z.unknown()).optional(),
+      })
+      .optional(),
+    functionResponse: z
+      .object({ id: z.string().optional(), name: z.string(), response: z.unknown().optional() })
+      .optional(),
+  })
+  .passthrough();
+
+const ConversationRecordSchema = z.object({
+  sessionId: z.string().min(1),
+  startTime: z.coerce.date(),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      timestamp: z.coerce.date(),
+      type: z.string(),
+      content: z.unknown(),
+      model: z.string().optional(),
+      toolCalls: z
+        .array(
+          z.object({
+            id: z.string(),
+            name: z.string(),
+            args: z.record(z.unknown()).default({}),
+            status: z.string(),
+            resultDisplay: z.unknown().optional(),
+          })
+        )
+        .optional(),
+      tokens: z
+        .object({
+          input: z.number(),
+          output: z.number(),
+          cached: z.number().default(0),
+          total: z.number(),
+        })
+        .nullish(),
+    })
+  ),
+});
+
+const CheckpointSchema = z.array(
+  z.object({
+    role: z.string(),
+    parts: z.array(PartSchema).default([]),
+  })
+);
+
+const LogsSchema = z.array(
+  z.object({
+    sessionId: z.string().min(1),
+    messageId: z.number(),
+    timestamp: z.coerce.date(),
+    type: z.string(),
+    message: z.string(),
+  })
+);
+
+/**
+ * Name of the CLI's history directory for a project
+ */
+export function projectHash(projectPath: string): string {
+  return crypto.createHash('sha256').update(projectPath).digest('hex');
+}
+
+/**
+ * Flatten CLI message content (a string, a part or a list of either) to text
+ */
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.map(textOf).join('');
+  if (content && typeof content === 'object' && 'text' in content) {
+    return typeof content.text === 'string' ? content.text : '';
+  }
+  return '';
+}
+
+/**
+ * Tool output as shown to the user
+ */
+function outputOf(response: unknown): string | undefined {
+  if (response === undefined) return undefined;
+  if (response && typeof response === 'object' && 'output' in response) {
+    return typeof response.output === 'string' ? response.output : JSON.stringify(response.output);
+  }
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+/**
+ * Read and validate a JSON file
+ * @returns undefined if the file is missing, null if it cannot be parsed
+ */
+async function readJson<T>(file: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const parsed = schema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List file names in a directory, or none if it does not exist
+ */
+async function listFiles(dir: string, pattern: RegExp): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && pattern.test(entry.name))
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+function fromConversationRecord(
+  record: z.infer<typeof ConversationRecordSchema>
+): CliConversation {
+  const messages: CliHistoryMessage[] = [];
+  let model: string | undefined;
+
+  for (const message of record.messages) {
+    // info/error/warning entries are CLI notices, not part of the conversation
+    if (message.type !== 'user' && message.type !== 'gemini') continue;
+
+    const toolCalls = message.toolCalls?.map(
+      (call): GeminiToolCall => ({
+        id: call.id,
+        name: call.name,
+        args: call.args,
+        status: call.status === 'success' ? 'success' : 'error',
+        ...(typeof call.resultDisplay === 'string' && { output: call.resultDisplay }),
+      })
+    );
+    model = message.model ?? model;
+
+    messages.push({
+      key: message.id,
+      role: message.type === 'user' ? 'user' : 'assistant',
+      content: textOf(message.content),
+      timestamp: message.timestamp,
+      ...(toolCalls && toolCalls.length > 0 && { toolCalls }),
+      ...(message.tokens && {
+        usage: {
+          promptTokens: message.tokens.input,
+          responseTokens: message.tokens.output,
+          cachedTokens: message.tokens.cached,
+          totalTokens: message.tokens.total,
+        },
+      }),
+    });
+  }
+
+  return {
+    key: record.sessionId,
+    source: 'chat',
+    geminiSessionId: record.sessionId,
+    model,
+    startedAt: record.startTime,
+    messages,
+  };
+}
+
+/**
+ * Convert a saved checkpoint (raw model contents) into chat messages
+ * Consecutive model turns, split only by tool responses, become one assistant message
+ */
+function fromCheckpoint(
+  contents: z.infer<typeof CheckpointSchema>,
+  tag: string,
+  savedAt: Date
+): CliConversation {
+  const messages: CliHistoryMessage[] = [];
+
+  contents.forEach((content, index) => {
+    const text = content.parts.map((part) => part.text ?? '').join('');
+    const last = messages[messages.length - 1];
+
+    if (content.role === 'model') {
+      const toolCalls = content.parts.flatMap((part, partIndex): GeminiToolCall[] =>
+        part.functionCall
+          ? [
+              {
+                id: part.functionCall.id ?? `${index}-${partIndex}`,
+                name: part.functionCall.name,
+                args: part.functionCall.args ?? {},
+                status: 'success',
+              },
+            ]
+          : []
+      );
+
+      if (last?.role === 'assistant') {
+        last.content += text;
+        if (toolCalls.length > 0) last.toolCalls = [...(last.toolCalls ?? []), ...toolCalls];
+      } else {
+        messages.push({
+          key: `checkpoint:${index}`,
+          role: 'assistant',
+          content: text,
+          timestamp: savedAt,
+          ...(toolCalls.length > 0 && { toolCalls }),
+        });
+      }
+      return;
+    }
+
+    // Tool results travel back to the model as user turns
+    for (const part of content.parts) {
+      const response = part.functionResponse;
+      if (!response) continue;
+      const call = last?.toolCalls?.find((toolCall) =>
+        response.id
+          ? toolCall.id === response.id
+          : toolCall.name === response.name && !toolCall.output
+      );
+      if (call) call.output = outputOf(response.response);
+    }
+    if (text) {
+      messages.push({
+        key: `checkpoint:${index}`,
+        role: 'user',
+        content: text,
+        timestamp: savedAt,
+      });
+    }
+  });
+
+  return { key: `checkpoint:${tag}`, source: 'checkpoint', startedAt: savedAt, messages };
+}
+
+function fromLogs(entries: z.infer<typeof LogsSchema>): CliConversation[] {
+  const bySession = new Map<string, CliConversation>();
+
+  for (const entry of entries) {
+    if (entry.type !== 'user') continue;
+
+    let conversation = bySession.get(entry.sessionId);
+    if (!conversation) {
+      conversation = {
+        key: entry.sessionId,
+        source: 'log',
+        geminiSessionId: entry.sessionId,
+        startedAt: entry.timestamp,
+        messages: [],
+      };
+      bySession.set(entry.sessionId, conversation);
+    }
+    conversation.messages.push({
+      key: `log:${entry.messageId}`,
+      role: 'user',
+      content: entry.message,
+      timestamp: entry.timestamp,
+    });
+  }
+
+  return [...bySession.values()];
+}
+
+/**
+ * Read every conversation stored in one project's CLI history directory
+ * Prompt logs are only used for sessions without a full conversation record
+ */
+export async function readProjectHistory(
+  dir: string
+): Promise<{ conversations: CliConversation[]; filesSkipped: number }> {
+  const conversations: CliConversation[] = [];
+  let filesSkipped = 0;
+
+  const chatsDir = path.join(dir, 'chats');
+  for (const name of await listFiles(chatsDir, /^session-.*\.json$/)) {
+    const record = await readJson(path.join(chatsDir, name), ConversationRecordSchema);
+    if (record) conversations.push(fromConversationRecord(record));
+    else filesSkipped += 1;
+  }
+
+  for (const name of await listFiles(dir, /^checkpoint(-.+)?\.json$/)) {
+    const file = path.join(dir, name);
+    const contents = await readJson(file, CheckpointSchema);
+    if (!contents) {
+      filesSkipped += 1;
+      continue;
+    }
+    const tag = name.replace(/^checkpoint-?/, '').replace(/\.json$/, '');
+    const { mtime } = await fs.stat(file);
+    conversations.push(fromCheckpoint(contents, tag || 'default', mtime));
+  }
+
+  const logs = await readJson(path.join(dir, 'logs.json'), LogsSchema);
+  if (logs === null) {
+    filesSkipped += 1;
+  } else if (logs) {
+    const recorded = new Set(conversations.map((conversation) => conversation.geminiSessionId));
+    conversations.push(
+      ...fromLogs(logs).filter((conversation) => !recorded.has(conversation.geminiSessionId))
+    );
+  }
+
+  return {
+    conversations: conversations.filter((conversation) => conversation.messages.length > 0),
+    filesSkipped,
+  };
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CostsService } from '../costs.service.js';
+import { modelRegistry } from '../../gemini/model-registry.service.js';
+import { SessionsService } from '../../sessions/sessions.service.js';
+import { db } from '../../../db/index.js';
+import { users, projects, usageRecords } from '../../../db/schema.js';
+import { calculateCost } from '@gemini-ui/shared';
+
+const usage = (promptTokens: number, responseTokens: number, cachedTokens = 0) => ({
+  promptTokens,
+  responseTokens,
+  cachedTokens,
+  totalTokens: promptTokens + responseTokens,
+});
+
+describe('calculateCost', () => {
+  it('should bill cached prompt tokens at the cached rate', () => {
+    const full = calculateCost(usage(1_000_000, 0), 'gemini-2.5-flash');
+    const cached = calculateCost(usage(1_000_000, 0, 1_000_000), 'gemini-2.5-flash');
+
+    expect(full).toBeGreaterThan(0);
+    expect(cached).toBeLessThan(full);
+  });
+});
+
+describe('CostsService', () => {
+  let costsService: CostsService;
+  let sessionsService: SessionsService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    costsService = new CostsService();
+    sessionsService = new SessionsService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'costuser', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+  });
+
+  describe('getUserSummary', () => {
+    it('should roll spend up per session and project', async () => {
+      await db.insert(projects).values({ userId: testUserId, name: 'Alpha', path: '/work/alpha' });
+      const first = await sessionsService.create(testUserId, { projectPath: '/work/alpha' });
+      const second = await sessionsService.create(testUserId, { projectPath: '/work/alpha' });
+      const third = await sessionsService.create(testUserId, { projectPath: '/work/beta' });
+
+      const a = await costsService.recordUsage(testUserId, first, usage(10_000, 1_000));
+      const b = await costsService.recordUsage(testUserId, first, usage(20_000, 2_000));
+      const c = await costsService.recordUsage(testUserId, second, usage(5_000, 500));
+      const d = await costsService.recordUsage(testUserId, third, usage(1_000, 100));
+
+      const summary = await costsService.getUserSummary(testUserId);
+
+      expect(summary.costUsd).toBeCloseTo(a + b + c + d, 6);
+      expect(summary.sessions).toHaveLength(3);
+      expect(summary.sessions[0]).toMatchObject({ sessionId: first.id, turns: 2 });
+      expect(summary.projects).toMatchObject([
+        { projectPath: '/work/alpha', projectName: 'Alpha', turns: 3 },
+        { projectPath: '/work/beta', turns: 1 },
+      ]);
+      expect(summary.monthlyBudgetUsd).toBeNull();
+    });
+
+    it('should keep spend after the session is deleted', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: '/work/alpha' });
+      const cost = await costsService.recordUsage(testUserId, session, usage(10_000, 1_000));
+
+      await sessionsService.delete(testUserId, session.id);
+      const summary = await costsService.getUserSummary(testUserId);
+
+      expect(summary.costUsd).toBeCloseTo(cost, 6);
+      expect(summary.sessions).toMatchObject([{ sessionId: null }]);
+    });
+
+    it('should only count the requested month', async () => {
+      await db.insert(usageRecords).values({
+        userId: testUserId,
+        projectPath: '/work/alpha',
+        model: 'gemini-2.5-pro',
+        costUsd: 1.5,
+        createdAt: new Date(Date.UTC(2025, 0, 31, 23, 59)),
+      });
+
+      expect((await costsService.getUserSummary(testUserId, '2025-01')).costUsd).toBe(1.5);
+      expect((await costsService.getUserSummary(testUserId, '2025-02')).costUsd).toBe(0);
+    });
+  });
+
+  describe('budgets', () => {
+    it('should refuse once spend reaches the cap', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: '/work/alpha' });
+      await costsService.setBudget(testUserId, 0.01);
+
+      await expect(costsService.assertWithinBudget(testUserId)).resolves.toBeUndefined();
+
+      await costsService.recordUsage(testUserId, session, usage(1_000_000, 100_000));
+      await expect(costsService.assertWithinBudget(testUserId)).rejects.toThrow(
+        'Monthly budget exceeded'
+      );
+
+      await costsService.setBudget(testUserId, null);
+      await expect(costsService.assertWithinBudget(testUserId)).resolves.toBeUndefined();
+    });
+
+    it('should count added models at their registry price', async () => {
+      await modelRegistry.setOverride('gemini-tuned', {
+        name: 'Gemini Tuned',
+        family: 'gemini-2.5',
+        variant: 'flash',
+        capabilities: ['vision'],
+        contextWindow: 500000,
+        pricing: { inputPerMillion: 1, outputPerMillion: 10, cachedPerMillion: 0.1 },
+      });
+      const session = await sessionsService.create(testUserId, {
+        projectPath: '/work/alpha',
+        model: 'gemini-tuned',
+      });
+      await costsService.setBudget(testUserId, 1);
+
+      const cost = await costsService.recordUsage(testUserId, session, usage(500_000, 100_000));
+
+      expect(cost).toBe(1.5);
+      await expect(costsService.assertWithinBudget(testUserId)).rejects.toThrow(
+        'Monthly budget exceeded'
+      );
+      // The registry is shared; drop the added model for the other tests
+      await modelRegistry.load();
+    });
+
+    it('should reject budgets for unknown users', async () => {
+      await expect(costsService.setBudget('missing', 10)).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('getAllUserSpend', () => {
+    it('should list every user with their spend and cap', async () => {
+      const [other] = await db
+        .insert(users)
+        .values({ username: 'idleuser', passwordHash: 'hashedpassword' })
+        .returning();
+      await costsService.setBudget(other.id, 25);
+      const session = await sessionsService.create(testUserId, { projectPath: '/work/alpha' });
+      const cost = await costsService.recordUsage(testUserId, session, usage(10_000, 1_000));
+
+      const report = await costsService.getAllUserSpend();
+
+      expect(report).toEqual([
+        {
+          userId: testUserId,
+          username: 'costuser',
+          costUsd: expect.closeTo(cost, 6),
+          turns: 1,
+          monthlyBudgetUsd: null,
+        },
+        { userId: other.id, username: 'idleuser', costUsd: 0, turns: 0, monthlyBudgetUsd: 25 },
+      ]);
+    });
+  });
+});
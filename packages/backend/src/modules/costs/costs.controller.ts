@@ -0,0 +1,74 @@
+import type { Response, NextFunction } from 'express';
+import { CostsService } from './costs.service.js';
+import { MonthSchema, SetBudgetSchema, type ApiResponse } from '@gemini-ui/shared';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * Costs controller
+ */
+export class CostsController {
+  private costsService = new CostsService();
+
+  /**
+   * Get the current user's spend for a month
+   * GET /api/costs?month=YYYY-MM
+   */
+  getSummary = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const month = MonthSchema.optional().parse(req.query.month);
+      const summary = await this.costsService.getUserSummary(req.user.id, month);
+
+      res.json({
+        success: true,
+        data: summary,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get every user's spend for a month
+   * GET /api/costs/users?month=YYYY-MM
+   */
+  getUserSpend = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const month = MonthSchema.optional().parse(req.query.month);
+      const spend = await this.costsService.getAllUserSpend(month);
+
+      res.json({
+        success: true,
+        data: spend,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Set or clear a user's monthly budget cap
+   * PUT /api/costs/users/:id/budget
+   */
+  setBudget = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const input = SetBudgetSchema.parse(req.body);
+      const spend = await this.costsService.setBudget(userId, input.monthlyBudgetUsd);
+
+      res.json({
+        success: true,
+        data: spend,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        return next(new AppError(404, error.message, 'USER_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { CostsController } from './costs.controller.js';
+import { requireAdmin, requireAuth } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+const costsController = new CostsController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/costs
+ * Get the current user's monthly spend
+ */
+router.get('/', costsController.getSummary);
+
+/**
+ * GET /api/costs/users
+ * Get every user's monthly spend (admin only)
+ */
+router.get('/users', requireAdmin, costsController.getUserSpend);
+
+/**
+ * PUT /api/costs/users/:id/budget
+ * Set a user's monthly budget cap (admin only)
+ */
+router.put('/users/:id/budget', requireAdmin, costsController.setBudget);
+
+export default router;
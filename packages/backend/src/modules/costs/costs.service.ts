@@ -0,0 +1,204 @@
+import { db } from '../../db/index.js';
+import { projects, usageRecords, users } from '../../db/schema.js';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+import { and, eq, gte, lt, sql, type SQL } from 'drizzle-orm';
+import {
+  calculateCost,
+  type ProjectCost,
+  type SessionCost,
+  type TokenUsage,
+  type UserCostSummary,
+  type UserSpend,
+} from '@gemini-ui/shared';
+
+interface MonthRange {
+  month: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Resolve a YYYY-MM month (default: the current UTC month) to its date range
+ */
+function monthRange(month?: string): MonthRange {
+  const now = new Date();
+  const [year, monthIndex] = month
+    ? [Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1]
+    : [now.getUTCFullYear(), now.getUTCMonth()];
+
+  const start = new Date(Date.UTC(year, monthIndex, 1));
+  const end = new Date(Date.UTC(year, monthIndex + 1, 1));
+  return { month: start.toISOString().slice(0, 7), start, end };
+}
+
+/**
+ * Round to a millionth of a dollar so sums do not show float noise
+ */
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+const costSum = sql<number>`coalesce(sum(${usageRecords.costUsd}), 0)`;
+const turnCount = sql<number>`count(*)`;
+
+/**
+ * Cost service layer
+ * Keeps a ledger of estimated spend per turn and rolls it up per session, project and user
+ */
+export class CostsService {
+  /**
+   * Record the estimated cost of one turn
+   * @returns The estimated cost in USD
+   */
+  async recordUsage(
+    userId: string,
+    session: { id: string; projectPath: string; model: string },
+    usage: TokenUsage
+  ): Promise<number> {
+    const costUsd = calculateCost(usage, session.model, modelRegistry.list());
+
+    await db.insert(usageRecords).values({
+      userId,
+      sessionId: session.id,
+      projectPath: session.projectPath,
+      model: session.model,
+      promptTokens: usage.promptTokens,
+      responseTokens: usage.responseTokens,
+      cachedTokens: usage.cachedTokens,
+      costUsd,
+    });
+
+    return costUsd;
+  }
+
+  /**
+   * Get a user's spend for a month, per project and per session
+   */
+  async getUserSummary(userId: string, month?: string): Promise<UserCostSummary> {
+    const range = monthRange(month);
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+
+    const sessionRows = await db
+      .select({
+        sessionId: usageRecords.sessionId,
+        projectPath: usageRecords.projectPath,
+        costUsd: costSum,
+        turns: turnCount,
+      })
+      .from(usageRecords)
+      .where(this.inMonth(range, eq(usageRecords.userId, userId)))
+      .groupBy(usageRecords.sessionId, usageRecords.projectPath);
+
+    const sessions: SessionCost[] = sessionRows
+      .map((row) => ({ ...row, costUsd: roundUsd(row.costUsd) }))
+      .sort((a, b) => b.costUsd - a.costUsd);
+
+    const projectNames = new Map(
+      (await db.query.projects.findMany({ where: eq(projects.userId, userId) })).map((project) => [
+        project.path,
+        project.name,
+      ])
+    );
+    const byProject = new Map<string, ProjectCost>();
+    for (const row of sessions) {
+      const entry = byProject.get(row.projectPath) ?? {
+        projectPath: row.projectPath,
+        ...(projectNames.has(row.projectPath) && { projectName: projectNames.get(row.projectPath) }),
+        costUsd: 0,
+        turns: 0,
+      };
+      entry.costUsd = roundUsd(entry.costUsd + row.costUsd);
+      entry.turns += row.turns;
+      byProject.set(row.projectPath, entry);
+    }
+
+    return {
+      month: range.month,
+      costUsd: roundUsd(sessions.reduce((total, row) => total + row.costUsd, 0)),
+      monthlyBudgetUsd: user?.monthlyBudgetUsd ?? null,
+      projects: [...byProject.values()].sort((a, b) => b.costUsd - a.costUsd),
+      sessions,
+    };
+  }
+
+  /**
+   * Get every user's spend for a month (admin report)
+   */
+  async getAllUserSpend(month?: string): Promise<UserSpend[]> {
+    const range = monthRange(month);
+
+    const spendRows = await db
+      .select({ userId: usageRecords.userId, costUsd: costSum, turns: turnCount })
+      .from(usageRecords)
+      .where(this.inMonth(range))
+      .groupBy(usageRecords.userId);
+    const spend = new Map(spendRows.map((row) => [row.userId, row]));
+
+    const allUsers = await db.query.users.findMany();
+    return allUsers
+      .map((user) => ({
+        userId: user.id,
+        username: user.username,
+        costUsd: roundUsd(spend.get(user.id)?.costUsd ?? 0),
+        turns: spend.get(user.id)?.turns ?? 0,
+        monthlyBudgetUsd: user.monthlyBudgetUsd ?? null,
+      }))
+      .sort((a, b) => b.costUsd - a.costUsd || a.username.localeCompare(b.username));
+  }
+
+  /**
+   * Set or clear a user's monthly budget cap
+   * @throws Error if the user does not exist
+   */
+  async setBudget(userId: string, monthlyBudgetUsd: number | null): Promise<UserSpend> {
+    const [user] = await db
+      .update(users)
+      .set({ monthlyBudgetUsd, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const summary = await this.getUserSummary(userId);
+    return {
+      userId: user.id,
+      username: user.username,
+      costUsd: summary.costUsd,
+      turns: summary.sessions.reduce((total, row) => total + row.turns, 0),
+      monthlyBudgetUsd,
+    };
+  }
+
+  /**
+   * Refuse new turns once the user's spend this month reaches their cap
+   * @throws Error if the monthly budget is exhausted
+   */
+  async assertWithinBudget(userId: string): Promise<void> {
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+    if (user?.monthlyBudgetUsd === null || user?.monthlyBudgetUsd === undefined) {
+      return;
+    }
+
+    const [row] = await db
+      .select({ costUsd: costSum })
+      .from(usageRecords)
+      .where(this.inMonth(monthRange(), eq(usageRecords.userId, userId)));
+
+    if ((row?.costUsd ?? 0) >= user.monthlyBudgetUsd) {
+      throw new Error('Monthly budget exceeded');
+    }
+  }
+
+  /**
+   * Restrict ledger rows to a month, plus any extra conditions
+   */
+  private inMonth(range: MonthRange, ...conditions: SQL[]) {
+    return and(
+      gte(usageRecords.createdAt, range.start),
+      lt(usageRecords.createdAt, range.end),
+      ...conditions
+    );
+  }
+}
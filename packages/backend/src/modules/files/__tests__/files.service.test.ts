@@ -313,6 +313,57 @@ describe('FilesService', () => {
     });
   });
 
+  describe('complete', () => {
+    it('should fuzzy-match files and folders, best first', async () => {
+      const completions = await filesService.complete(testDir, 'nest');
+
+      expect(completions[0]).toEqual({ path: 'subdir/nested.txt', type: 'file' });
+    });
+
+    it('should skip dependency folders', async () => {
+      await fs.mkdir(path.join(testDir, 'node_modules', 'pkg'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'node_modules', 'pkg', 'nested.js'), '');
+
+      const completions = await filesService.complete(testDir, 'nested');
+
+      expect(completions.map((c) => c.path)).toEqual(['subdir/nested.txt']);
+    });
+  });
+
+  describe('expandMentions', () => {
+    it('should expand folders to their files', async () => {
+      const mentions = await filesService.expandMentions(testDir, ['test.txt', 'subdir']);
+
+      expect(mentions).toEqual([
+        { path: 'test.txt', type: 'file', files: ['test.txt'], truncated: false },
+        { path: 'subdir', type: 'directory', files: ['subdir/nested.txt'], truncated: false },
+      ]);
+    });
+
+    it('should stop expanding once the size budget is spent', async () => {
+      await fs.writeFile(path.join(testDir, 'subdir', 'other.txt'), 'x'.repeat(100));
+
+      // test.txt (13 bytes) and nested.txt (14 bytes) fit, other.txt does not
+      const mentions = await filesService.expandMentions(testDir, ['test.txt', 'subdir'], 40);
+
+      expect(mentions[1]).toEqual({
+        path: 'subdir',
+        type: 'directory',
+        files: ['subdir/nested.txt'],
+        truncated: true,
+      });
+    });
+
+    it('should reject mentions outside the project or missing', async () => {
+      await expect(filesService.expandMentions(testDir, ['../outside'])).rejects.toThrow(
+        'Access denied'
+      );
+      await expect(filesService.expandMentions(testDir, ['missing.txt'])).rejects.toThrow(
+        'Mentioned file not found: missing.txt'
+      );
+    });
+  });
+
   describe('deleteFile', () => {
     it('should delete file', async () => {
       const input = {
@@ -1,11 +1,17 @@
 import type { Response, NextFunction } from 'express';
 import { FilesService } from './files.service.js';
-import { ReadFileSchema, WriteFileSchema, type ApiResponse } from '@gemini-ui/shared';
+import {
+  ReadFileSchema,
+  WriteFileSchema,
+  FileCompletionQuerySchema,
+  type ApiResponse,
+} from '@gemini-ui/shared';
 import { AppError } from '../../middleware/error-handler.js';
 import type { AuthRequest } from '../../middleware/auth.middleware.js';
 import { db } from '../../db/index.js';
 import { projects } from '../../db/schema.js';
 import { eq } from 'drizzle-orm';
+import { eventBus } from '../../websocket/event-bus.js';
 
 /**
  * Files controller
@@ -65,6 +71,11 @@ export class FilesController {
       const filesService = new FilesService(allowedRoots);
 
       await filesService.writeFile(input);
+      eventBus.publish(`files:${req.user.id}`, {
+        type: 'file-changed',
+        path: input.path,
+        change: 'write',
+      });
 
       res.json({
         success: true,
@@ -162,6 +173,11 @@ export class FilesController {
       const filesService = new FilesService(allowedRoots);
 
       await filesService.delete(filePath, recursive);
+      eventBus.publish(`files:${req.user.id}`, {
+        type: 'file-changed',
+        path: filePath,
+        change: 'delete',
+      });
 
       res.json({
         success: true,
@@ -175,6 +191,34 @@ export class FilesController {
     }
   };
 
+  /**
+   * Fuzzy-complete files and folders of a project (for @-mentions)
+   * GET /api/files/complete?root=/path&q=query
+   */
+  complete = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const { root, q, limit } = FileCompletionQuerySchema.parse(req.query);
+      const allowedRoots = await this.getAllowedRoots(req.user.id);
+      const filesService = new FilesService(allowedRoots);
+
+      const completions = await filesService.complete(root, q, limit);
+
+      res.json({
+        success: true,
+        data: completions,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return next(new AppError(403, 'Access denied', 'ACCESS_DENIED'));
+      }
+      next(error);
+    }
+  };
+
   /**
    * Search files
    * GET /api/files/search?root=/path&pattern=regex
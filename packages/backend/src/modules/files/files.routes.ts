@@ -38,6 +38,12 @@ router.get('/metadata', filesController.metadata);
  */
 router.get('/search', filesController.search);
 
+/**
+ * GET /api/files/complete
+ * Fuzzy-complete files and folders for @-mentions
+ */
+router.get('/complete', filesController.complete);
+
 /**
  * DELETE /api/files
  * Delete file or directory
@@ -1,7 +1,76 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { validateAndResolvePath } from '../../security/validators.js';
-import type { ReadFileInput, WriteFileInput, FileMetadata, DirectoryListing } from '@gemini-ui/shared';
+import {
+  MENTION_SIZE_BUDGET,
+  type ReadFileInput,
+  type WriteFileInput,
+  type FileMetadata,
+  type DirectoryListing,
+  type FileCompletion,
+  type MessageMention,
+} from '@gemini-ui/shared';
+
+/**
+ * Directories never walked for completions, mentions or context files
+ * (hidden directories are skipped as well)
+ */
+export const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'coverage', 'vendor']);
+
+/**
+ * Most entries a completion visits, so large projects stay responsive
+ */
+const MAX_COMPLETION_ENTRIES = 5000;
+
+/**
+ * Files and folders below a directory, breadth first and by name, relative to it
+ */
+async function* walk(root: string): AsyncGenerator<FileCompletion> {
+  const queue = [''];
+  while (queue.length > 0) {
+    const dir = queue.shift()!;
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relative = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) continue;
+        queue.push(relative);
+        yield { path: relative, type: 'directory' };
+      } else if (entry.isFile()) {
+        yield { path: relative, type: 'file' };
+      }
+    }
+  }
+}
+
+/**
+ * Fuzzy match score of a path for a query, or null when the query is not a subsequence
+ * Consecutive characters, word starts and matches in the file name rank higher.
+ */
+export function fuzzyScore(candidate: string, query: string): number | null {
+  const text = candidate.toLowerCase();
+  const needle = query.toLowerCase();
+  let score = 0;
+  let last = -1;
+
+  for (const char of needle) {
+    const index = text.indexOf(char, last + 1);
+    if (index === -1) return null;
+    score += index === last + 1 ? 3 : 1;
+    if (index === 0 || '/._-'.includes(text[index - 1])) score += 2;
+    last = index;
+  }
+  if (needle && path.basename(text).includes(needle)) score += 10;
+
+  // Prefer shorter paths among equal matches
+  return score - text.length / 100;
+}
 
 /**
  * Files service layer
@@ -209,4 +278,79 @@ export class FilesService {
     await searchRecursive(validPath);
     return results;
   }
+
+  /**
+   * Files and folders of a project that fuzzy-match a query, best first (for @-mentions)
+   */
+  async complete(rootPath: string, query: string, limit = 20): Promise<FileCompletion[]> {
+    const validPath = await validateAndResolvePath(rootPath, this.allowedRoots);
+    const matches: Array<FileCompletion & { score: number }> = [];
+
+    let visited = 0;
+    for await (const entry of walk(validPath)) {
+      if (++visited > MAX_COMPLETION_ENTRIES) break;
+      const score = fuzzyScore(entry.path, query);
+      if (score !== null) matches.push({ ...entry, score });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, limit)
+      .map(({ score: _score, ...entry }) => entry);
+  }
+
+  /**
+   * Resolve @-mentioned files and folders of a project to the files to pass along
+   * Folders expand to the files below them until the size budget, shared by every
+   * mention of the message, runs out.
+   * @throws Error if a mention is missing or outside the project
+   */
+  async expandMentions(
+    rootPath: string,
+    mentionPaths: string[],
+    budget = MENTION_SIZE_BUDGET
+  ): Promise<MessageMention[]> {
+    const root = await validateAndResolvePath(rootPath, this.allowedRoots);
+    const mentions: MessageMention[] = [];
+    let remaining = budget;
+
+    for (const mentionPath of mentionPaths) {
+      const target = await validateAndResolvePath(path.resolve(root, mentionPath), [root]);
+      const relative = path.relative(root, target) || '.';
+      let stats;
+      try {
+        stats = await fs.stat(target);
+      } catch {
+        throw new Error(`Mentioned file not found: ${mentionPath}`);
+      }
+
+      if (!stats.isDirectory()) {
+        const fits = stats.size <= remaining;
+        if (fits) remaining -= stats.size;
+        mentions.push({
+          path: relative,
+          type: 'file',
+          files: fits ? [relative] : [],
+          truncated: !fits,
+        });
+        continue;
+      }
+
+      const files: string[] = [];
+      let truncated = false;
+      for await (const entry of walk(target)) {
+        if (entry.type !== 'file') continue;
+        const { size } = await fs.stat(path.join(target, entry.path));
+        if (size > remaining) {
+          truncated = true;
+          break;
+        }
+        remaining -= size;
+        files.push(path.join(relative, entry.path));
+      }
+      mentions.push({ path: relative, type: 'directory', files, truncated });
+    }
+
+    return mentions;
+  }
 }
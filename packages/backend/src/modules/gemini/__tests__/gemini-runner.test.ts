@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GeminiRunner, buildGeminiArgs } from '../gemini-runner.js';
+import { buildRunSettings } from '../run-settings.js';
+import { parseStreamLine } from '../stream-parser.js';
+import type { GeminiStreamEvent } from '@gemini-ui/shared';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Write an executable stand-in for the Gemini CLI
+ */
+async function writeFakeCli(dir: string, body: string): Promise<string> {
+  const cliPath = path.join(dir, 'fake-gemini.mjs');
+  await fs.writeFile(cliPath, `#!/usr/bin/env node\n${body}\n`, { mode: 0o755 });
+  return cliPath;
+}
+
+describe('parseStreamLine', () => {
+  it('should turn assistant messages into deltas', () => {
+    const result = parseStreamLine(
+      JSON.stringify({ type: 'message', role: 'assistant', content: 'Hello', delta: true })
+    );
+
+    expect(result.events).toEqual([{ type: 'delta', text: 'Hello' }]);
+  });
+
+  it('should ignore echoed user messages', () => {
+    const result = parseStreamLine(
+      JSON.stringify({ type: 'message', role: 'user', content: 'Hi' })
+    );
+
+    expect(result.events).toHaveLength(0);
+  });
+
+  it('should capture the CLI session id from init events', () => {
+    const result = parseStreamLine(
+      JSON.stringify({ type: 'init', session_id: 'cli-123', model: 'gemini-2.5-pro' })
+    );
+
+    expect(result.geminiSessionId).toBe('cli-123');
+  });
+
+  it('should map tool_use events to tool calls', () => {
+    const result = parseStreamLine(
+      JSON.stringify({
+        type: 'tool_use',
+        tool_name: 'run_shell_command',
+        tool_id: 'tool-1',
+        parameters: { command: 'ls' },
+      })
+    );
+
+    expect(result.events[0]).toEqual({
+      type: 'tool-call',
+      toolCall: {
+        id: 'tool-1',
+        name: 'run_shell_command',
+        args: { command: 'ls' },
+        status: 'pending',
+      },
+    });
+  });
+
+  it('should read token stats from result events', () => {
+    const result = parseStreamLine(
+      JSON.stringify({
+        type: 'result',
+        status: 'success',
+        stats: { total_tokens: 30, input_tokens: 20, output_tokens: 10, duration_ms: 500 },
+      })
+    );
+
+    expect(result.stats).toEqual({
+      totalTokens: 30,
+      inputTokens: 20,
+      outputTokens: 10,
+      cachedTokens: undefined,
+      durationMs: 500,
+      toolCalls: undefined,
+    });
+  });
+
+  it('should forward non-JSON lines as text', () => {
+    const result = parseStreamLine('plain output');
+
+    expect(result.events).toEqual([{ type: 'delta', text: 'plain output\n' }]);
+  });
+});
+
+describe('buildGeminiArgs', () => {
+  it('should pass model, output format and prompt', () => {
+    const args = buildGeminiArgs({
+      prompt: 'Explain this repo',
+      projectPath: '/tmp',
+      model: 'gemini-2.5-pro',
+    });
+
+    expect(args).toEqual([
+      '--model',
+      'gemini-2.5-pro',
+      '--output-format',
+      'stream-json',
+      '--prompt',
+      'Explain this repo',
+    ]);
+  });
+
+  it('should resume a stored CLI session', () => {
+    const args = buildGeminiArgs({
+      prompt: 'Continue',
+      projectPath: '/tmp',
+      model: 'gemini-2.5-flash',
+      resume: 'cli-abc',
+    });
+
+    expect(args.slice(4)).toEqual(['--resume', 'cli-abc', '--prompt', 'Continue']);
+  });
+
+  it('should run tools in the sandbox when asked', () => {
+    const args = buildGeminiArgs({
+      prompt: 'Hi',
+      projectPath: '/tmp',
+      model: 'gemini-2.5-flash',
+      sandbox: true,
+    });
+
+    expect(args.slice(4)).toEqual(['--sandbox', '--prompt', 'Hi']);
+  });
+
+  it('should only pass flags the CLI has', () => {
+    const cliFlags = [
+      '--model',
+      '--output-format',
+      '--approval-mode',
+      '--include-directories',
+      '--sandbox',
+      '--resume',
+      '--prompt',
+    ];
+    const args = buildGeminiArgs({
+      prompt: 'Hi',
+      projectPath: '/tmp',
+      model: 'gemini-2.5-pro',
+      resume: 'cli-abc',
+      approvalMode: 'auto_edit',
+      includeDirectories: ['/uploads'],
+      sandbox: true,
+      generation: {
+        temperature: 0.2,
+        topP: 0.9,
+        maxOutputTokens: 2048,
+        thinkingBudget: 1024,
+        systemInstruction: 'Answer in French.',
+      },
+    });
+
+    const flags = args.filter((arg) => arg.startsWith('--'));
+    expect(flags.filter((flag) => !cliFlags.includes(flag))).toEqual([]);
+    expect(args).not.toContain('Answer in French.');
+  });
+
+  it('should fall back to the default model for unknown ids', () => {
+    const args = buildGeminiArgs({ prompt: 'Hi', projectPath: '/tmp', model: 'not-a-model' });
+
+    expect(args[1]).toBe('gemini-2.5-flash');
+  });
+});
+
+describe('buildRunSettings', () => {
+  it('should override the generation config of the run model', () => {
+    const settings = buildRunSettings('gemini-2.5-pro', {
+      temperature: 0.2,
+      maxOutputTokens: 2048,
+      thinkingBudget: 1024,
+      systemInstruction: 'Answer in French.',
+    });
+
+    expect(settings).toEqual({
+      modelConfigs: {
+        overrides: [
+          {
+            match: { model: 'gemini-2.5-pro' },
+            modelConfig: {
+              generateContentConfig: {
+                temperature: 0.2,
+                maxOutputTokens: 2048,
+                thinkingConfig: { thinkingBudget: 1024 },
+              },
+            },
+          },
+        ],
+      },
+    });
+    expect(buildRunSettings('gemini-2.5-pro', { systemInstruction: 'Be brief.' })).toBeUndefined();
+  });
+
+  it('should pass the tools the CLI may and may not run', () => {
+    const tools = { allowed: ['write_file', 'run_shell_command(git status)'], exclude: [] };
+
+    expect(buildRunSettings('gemini-2.5-pro', {}, tools)).toEqual({
+      tools: { allowed: ['write_file', 'run_shell_command(git status)'] },
+    });
+    expect(buildRunSettings('gemini-2.5-pro', {}, { allowed: [], exclude: [] })).toBeUndefined();
+  });
+});
+
+describe('GeminiRunner', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `test-gemini-runner-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should stream output and collect the result', async () => {
+    const cliPath = await writeFakeCli(
+      testDir,
+      `
+      const lines = [
+        { type: 'init', session_id: 'cli-abc' },
+        { type: 'message', role: 'assistant', content: 'Hello ', delta: true },
+        { type: 'message', role: 'assistant', content: 'from ' + process.cwd(), delta: true },
+        { type: 'result', status: 'success', stats: { input_tokens: 5, output_tokens: 3 } },
+      ];
+      for (const line of lines) console.log(JSON.stringify(line));
+      `
+    );
+    const runner = new GeminiRunner(cliPath);
+    const events: GeminiStreamEvent[] = [];
+
+    const run = runner.start('session-1', {
+      prompt: 'Hi',
+      projectPath: testDir,
+      model: 'gemini-2.5-flash',
+    });
+    run.subscribe((event) => events.push(event));
+    const result = await run.result;
+
+    const realDir = await fs.realpath(testDir);
+    expect(result.exitCode).toBe(0);
+    expect(result.text).toBe(`Hello from ${realDir}`);
+    expect(result.geminiSessionId).toBe('cli-abc');
+    expect(result.stats?.inputTokens).toBe(5);
+    expect(events.filter((e) => e.type === 'delta')).toHaveLength(2);
+  });
+
+  it('should hand generation settings to the CLI in per-run files', async () => {
+    const cliPath = await writeFakeCli(
+      testDir,
+      `
+      import fs from 'fs';
+      const settingsPath = process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+      const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+      const { generateContentConfig } = settings.modelConfigs.overrides[0].modelConfig;
+      const systemPrompt = fs.readFileSync(process.env.GEMINI_SYSTEM_MD, 'utf8');
+      const text = JSON.stringify({ generateContentConfig, systemPrompt, settingsPath });
+      console.log(JSON.stringify({ type: 'message', role: 'assistant', content: text }));
+      `
+    );
+    const runner = new GeminiRunner(cliPath);
+
+    const result = await runner.start('session-1', {
+      prompt: 'Hi',
+      projectPath: testDir,
+      model: 'gemini-2.5-pro',
+      generation: { temperature: 0.2, thinkingBudget: 1024, systemInstruction: 'Be brief.' },
+    }).result;
+
+    const received = JSON.parse(result.text);
+    expect(received).toMatchObject({
+      generateContentConfig: { temperature: 0.2, thinkingConfig: { thinkingBudget: 1024 } },
+      systemPrompt: 'Be brief.',
+    });
+    // The files only live as long as the run
+    await expect(fs.access(received.settingsPath)).rejects.toThrow();
+  });
+
+  it('should track one active run per key', async () => {
+    const cliPath = await writeFakeCli(testDir, 'setTimeout(() => {}, 200);');
+    const runner = new GeminiRunner(cliPath);
+
+    const run = runner.start('session-1', {
+      prompt: 'Hi',
+      projectPath: testDir,
+      model: 'gemini-2.5-flash',
+    });
+
+    expect(runner.isRunning('session-1')).toBe(true);
+    expect(() =>
+      runner.start('session-1', { prompt: 'Again', projectPath: testDir, model: 'gemini-2.5-flash' })
+    ).toThrow('Gemini run already in progress');
+
+    await run.result;
+    expect(runner.isRunning('session-1')).toBe(false);
+  });
+
+  it('should keep partial output and kill a CLI that ignores SIGINT', async () => {
+    const cliPath = await writeFakeCli(
+      testDir,
+      `
+      process.on('SIGINT', () => {});
+      console.log(JSON.stringify({ type: 'message', role: 'assistant', content: 'Partial', delta: true }));
+      setInterval(() => {}, 1000);
+      `
+    );
+    const runner = new GeminiRunner(cliPath);
+
+    const run = runner.start('session-1', {
+      prompt: 'Loop forever',
+      projectPath: testDir,
+      model: 'gemini-2.5-flash',
+    });
+    run.subscribe((event) => {
+      if (event.type === 'delta') run.interrupt(100);
+    });
+    const result = await run.result;
+
+    expect(result.interrupted).toBe(true);
+    expect(result.text).toBe('Partial');
+    expect(result.error).toBeUndefined();
+    expect(runner.isRunning('session-1')).toBe(false);
+  });
+
+  it('should report stderr when the CLI fails', async () => {
+    const cliPath = await writeFakeCli(
+      testDir,
+      `console.error('API key not configured'); process.exit(1);`
+    );
+    const runner = new GeminiRunner(cliPath);
+
+    const result = await runner.start('session-1', {
+      prompt: 'Hi',
+      projectPath: testDir,
+      model: 'gemini-2.5-flash',
+    }).result;
+
+    expect(result.exitCode).toBe(1);
+    expect(result.error).toBe('API key not configured');
+  });
+
+  it('should report a missing CLI binary', async () => {
+    const runner = new GeminiRunner(path.join(testDir, 'does-not-exist'));
+
+    const result = await runner.start('session-1', {
+      prompt: 'Hi',
+      projectPath: testDir,
+      model: 'gemini-2.5-flash',
+    }).result;
+
+    expect(result.error).toContain('Gemini CLI not found');
+  });
+});
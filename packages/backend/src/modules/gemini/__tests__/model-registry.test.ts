@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { modelRegistry } from '../model-registry.service.js';
+import { buildGeminiArgs } from '../gemini-runner.js';
+import { SessionsService } from '../../sessions/sessions.service.js';
+import { db } from '../../../db/index.js';
+import { users } from '../../../db/schema.js';
+
+const CUSTOM_MODEL = {
+  name: 'Gemini Tuned',
+  family: 'gemini-2.5',
+  variant: 'flash',
+  capabilities: ['vision', 'thinking'],
+  contextWindow: 500000,
+  pricing: { inputPerMillion: 0.4, outputPerMillion: 3.0, cachedPerMillion: 0.04 },
+} as const;
+
+describe('ModelRegistryService', () => {
+  let sessionsService: SessionsService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    // The registry is shared; start every test from the built-in list
+    await modelRegistry.load();
+    sessionsService = new SessionsService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'registrar', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+  });
+
+  it('should merge overrides and added models over the built-in list', async () => {
+    await modelRegistry.setOverride('gemini-2.5-pro', { name: 'Pro (team)', hidden: true });
+    await modelRegistry.setOverride('gemini-tuned', { ...CUSTOM_MODEL });
+
+    expect(modelRegistry.get('gemini-2.5-pro')).toMatchObject({
+      name: 'Pro (team)',
+      hidden: true,
+      capabilities: ['vision', 'audio', 'thinking'],
+    });
+    expect(modelRegistry.get('gemini-tuned')).toMatchObject({
+      id: 'gemini-tuned',
+      ...CUSTOM_MODEL,
+    });
+
+    const available = modelRegistry.available().map((model) => model.id);
+    expect(available).toContain('gemini-tuned');
+    expect(available).not.toContain('gemini-2.5-pro');
+    // Past its deprecation date
+    expect(available).not.toContain('gemini-2.0-flash');
+
+    const { entries } = await modelRegistry.getRegistry();
+    expect(entries.find((entry) => entry.model.id === 'gemini-tuned')).toMatchObject({
+      builtIn: false,
+      override: CUSTOM_MODEL,
+    });
+    const untouched = entries.find((entry) => entry.model.id === 'gemini-2.5-flash');
+    expect(untouched?.override).toBeUndefined();
+
+    // Settings are checked against the added model's capabilities
+    const session = await sessionsService.create(testUserId, {
+      projectPath: '/tmp',
+      model: 'gemini-tuned',
+      generationSettings: { thinkingBudget: 1024 },
+    });
+    expect(session.model).toBe('gemini-tuned');
+
+    await modelRegistry.removeOverride('gemini-2.5-pro');
+    expect(modelRegistry.get('gemini-2.5-pro')?.name).toBe('Gemini 2.5 Pro');
+  });
+
+  it('should reject incomplete models and unknown successors', async () => {
+    await expect(modelRegistry.setOverride('gemini-new', { name: 'New' })).rejects.toThrow(
+      'Added models need a name, family, variant, capabilities, context window and pricing'
+    );
+    await expect(
+      modelRegistry.setOverride('gemini-2.5-pro', { successor: 'gemini-9' })
+    ).rejects.toThrow('Unknown successor model');
+    await expect(modelRegistry.removeOverride('gemini-2.5-pro')).rejects.toThrow(
+      'Override not found'
+    );
+    expect(modelRegistry.get('gemini-new')).toBeUndefined();
+  });
+
+  it('should use the team default for new sessions and the runner', async () => {
+    await modelRegistry.setDefault('gemini-2.5-pro');
+
+    const session = await sessionsService.create(testUserId, { projectPath: '/tmp' });
+    expect(session.model).toBe('gemini-2.5-pro');
+    const args = buildGeminiArgs({ prompt: 'Hi', projectPath: '/tmp', model: 'not-a-model' });
+    expect(args[1]).toBe('gemini-2.5-pro');
+
+    await expect(
+      modelRegistry.setOverride('gemini-2.5-pro', { hidden: true })
+    ).rejects.toThrow('The default model cannot be hidden');
+    await expect(modelRegistry.setDefault('gemini-2.0-flash')).rejects.toThrow(
+      'Hidden or retired models cannot be the default'
+    );
+
+    // Dropping the override of the default model keeps it the default
+    await modelRegistry.setOverride('gemini-2.5-pro', { name: 'Pro (team)' });
+    await modelRegistry.removeOverride('gemini-2.5-pro');
+    expect(modelRegistry.defaultModel()).toBe('gemini-2.5-pro');
+  });
+
+  it('should move sessions off retired models to the first live successor', async () => {
+    const retired = await sessionsService.create(testUserId, {
+      projectPath: '/tmp',
+      model: 'gemini-2.0-flash',
+      metadata: { sandbox: true },
+    });
+    const current = await sessionsService.create(testUserId, {
+      projectPath: '/tmp',
+      model: 'gemini-3-pro-preview',
+      generationSettings: { temperature: 0.5, thinkingBudget: 2048 },
+    });
+
+    // Before the deprecation date nothing moves
+    expect(await modelRegistry.migrateRetired(new Date('2026-03-30T12:00:00Z'))).toEqual([]);
+
+    // gemini-2.0-flash hands over to gemini-2.5-flash, which is itself retired
+    await modelRegistry.setOverride('gemini-2.5-flash', {
+      deprecated: true,
+      deprecationDate: '2026-06-30',
+      successor: 'gemini-2.5-pro',
+    });
+    await modelRegistry.setOverride('gemini-3-pro-preview', {
+      deprecationDate: '2026-06-30',
+      successor: 'gemini-2.5-flash-lite',
+    });
+    const now = new Date('2026-07-01T00:00:00Z');
+    const results = await modelRegistry.migrateRetired(now);
+
+    expect(results).toEqual([
+      { from: 'gemini-3-pro-preview', to: 'gemini-2.5-flash-lite', sessions: 1 },
+      { from: 'gemini-2.0-flash', to: 'gemini-2.5-pro', sessions: 1 },
+    ]);
+    const moved = await sessionsService.findById(testUserId, retired.id);
+    expect(moved?.model).toBe('gemini-2.5-pro');
+    expect(moved?.metadata).toEqual({
+      sandbox: true,
+      modelMigration: {
+        from: 'gemini-2.0-flash',
+        to: 'gemini-2.5-pro',
+        migratedAt: now.toISOString(),
+      },
+    });
+    // gemini-2.5-flash-lite does not think
+    const pruned = await sessionsService.findById(testUserId, current.id);
+    expect(pruned?.generationSettings).toEqual({ temperature: 0.5 });
+
+    expect(await modelRegistry.migrateRetired(now)).toEqual([]);
+  });
+});
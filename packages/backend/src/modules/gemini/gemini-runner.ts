@@ -0,0 +1,323 @@
+import { spawn, type ChildProcess } from 'child_process';
+import readline from 'readline';
+import { pruneGenerationSettings } from '@gemini-ui/shared';
+import type {
+  ApprovalMode,
+  GenerationSettings,
+  GeminiStreamEvent,
+  GeminiToolCall,
+} from '@gemini-ui/shared';
+import { config } from '../../config/index.js';
+import { parseStreamLine, type GeminiRunStats } from './stream-parser.js';
+import { modelRegistry } from './model-registry.service.js';
+import { writeRunFiles } from './run-settings.js';
+import type { ToolSettings } from '../policy/policy-engine.js';
+
+/**
+ * Gemini runner spawns the Gemini CLI for a single chat turn and
+ * streams its parsed output to subscribers
+ */
+
+// Keep at most this much stderr for error reporting
+const MAX_STDERR_LENGTH = 64 * 1024;
+
+// How long an interrupted CLI gets to exit after SIGINT before it is killed
+const INTERRUPT_GRACE_MS = 5000;
+
+/**
+ * Options for a single Gemini CLI run
+ */
+export interface GeminiRunOptions {
+  prompt: string;
+  projectPath: string;
+  model: string;
+  /** CLI session id to resume */
+  resume?: string;
+  /** CLI approval mode; unless yolo, tools that need approval only run if `tools` allows them */
+  approvalMode?: ApprovalMode;
+  /** Tools the CLI may run without approval, and tools it must never run */
+  tools?: ToolSettings;
+  /** Directories outside the project the CLI may read (e.g. uploaded attachments) */
+  includeDirectories?: string[];
+  /** Run tools in the CLI's sandbox */
+  sandbox?: boolean;
+  /** Sampling parameters and system instruction override */
+  generation?: GenerationSettings;
+}
+
+/**
+ * Outcome of a finished Gemini CLI run
+ */
+export interface GeminiRunResult {
+  text: string;
+  toolCalls: GeminiToolCall[];
+  geminiSessionId?: string;
+  stats?: GeminiRunStats;
+  exitCode: number | null;
+  error?: string;
+  /** The run was stopped with GeminiRun.interrupt */
+  interrupted?: boolean;
+}
+
+type GeminiRunListener = (event: GeminiStreamEvent) => void;
+
+/**
+ * Resolve the model a run uses; unknown ids fall back to the default model
+ */
+function resolveModel(modelId: string): string {
+  return modelRegistry.get(modelId)?.id ?? modelRegistry.defaultModel();
+}
+
+/**
+ * Generation settings a run passes to the CLI
+ * Settings the model does not accept would make the CLI reject the run
+ */
+function runGeneration(options: GeminiRunOptions, model: string): GenerationSettings {
+  return pruneGenerationSettings(options.generation ?? {}, model, modelRegistry.list());
+}
+
+/**
+ * Build Gemini CLI arguments for a run
+ * Generation settings are not flags; see writeRunFiles
+ */
+export function buildGeminiArgs(options: GeminiRunOptions): string[] {
+  const known = modelRegistry.get(options.model);
+  const model = resolveModel(options.model);
+
+  if (known?.deprecated) {
+    const sunset = known.deprecationDate ? ` and will sunset on ${known.deprecationDate}` : '';
+    console.warn(`⚠️  Warning: ${model} is deprecated${sunset}`);
+  }
+
+  const args = ['--model', model, '--output-format', 'stream-json'];
+  if (options.approvalMode) {
+    args.push('--approval-mode', options.approvalMode);
+  }
+  if (options.includeDirectories?.length) {
+    args.push('--include-directories', options.includeDirectories.join(','));
+  }
+  if (options.sandbox) {
+    args.push('--sandbox');
+  }
+  if (options.resume) {
+    args.push('--resume', options.resume);
+  }
+  args.push('--prompt', options.prompt);
+
+  return args;
+}
+
+/**
+ * A running Gemini CLI process
+ */
+export class GeminiRun {
+  readonly result: Promise<GeminiRunResult>;
+  private listeners = new Set<GeminiRunListener>();
+  private toolCalls = new Map<string, GeminiToolCall>();
+  private interrupted = false;
+  private exited = false;
+
+  constructor(
+    private child: ChildProcess,
+    cliPath: string
+  ) {
+    this.result = new Promise((resolve) => {
+      let text = '';
+      let stderr = '';
+      let geminiSessionId: string | undefined;
+      let stats: GeminiRunStats | undefined;
+      let error: string | undefined;
+      let settled = false;
+      const toolCalls = this.toolCalls;
+
+      const finish = (exitCode: number | null) => {
+        if (settled) return;
+        settled = true;
+        this.exited = true;
+        resolve({
+          text,
+          toolCalls: Array.from(toolCalls.values()),
+          geminiSessionId,
+          stats,
+          exitCode,
+          error,
+          ...(this.interrupted && { interrupted: true }),
+        });
+      };
+
+      const fail = (message: string) => {
+        error = message;
+        this.emit({ type: 'error', error: message });
+      };
+
+      const lines = readline.createInterface({ input: child.stdout! });
+      lines.on('line', (line) => {
+        const parsed = parseStreamLine(line);
+        if (parsed.geminiSessionId) {
+          geminiSessionId = parsed.geminiSessionId;
+        }
+        if (parsed.stats) {
+          stats = parsed.stats;
+        }
+
+        for (const event of parsed.events) {
+          if (event.type === 'delta') {
+            text += event.text;
+          } else if (event.type === 'tool-call') {
+            toolCalls.set(event.toolCall.id, event.toolCall);
+          } else if (event.type === 'tool-result') {
+            // Results only carry the id; merge them into the original request
+            const existing = toolCalls.get(event.toolCall.id);
+            const merged = existing
+              ? { ...existing, status: event.toolCall.status, output: event.toolCall.output }
+              : event.toolCall;
+            toolCalls.set(merged.id, merged);
+            this.emit({ type: 'tool-result', toolCall: merged });
+            continue;
+          } else if (event.type === 'error') {
+            error = event.error;
+          }
+          this.emit(event);
+        }
+      });
+
+      child.stderr?.on('data', (chunk: Buffer) => {
+        if (stderr.length < MAX_STDERR_LENGTH) {
+          stderr += chunk.toString();
+        }
+      });
+
+      child.on('error', (err: NodeJS.ErrnoException) => {
+        fail(err.code === 'ENOENT' ? `Gemini CLI not found at '${cliPath}'` : err.message);
+        finish(null);
+      });
+
+      child.on('close', (code: number | null) => {
+        // An interrupted CLI exits non-zero by design; that is not a failure
+        if (code !== 0 && !error && !this.interrupted) {
+          fail(stderr.trim() || `Gemini CLI exited with code ${code}`);
+        }
+        finish(code);
+      });
+    });
+  }
+
+  /**
+   * Process ID of the CLI process
+   */
+  get pid(): number | undefined {
+    return this.child.pid;
+  }
+
+  /**
+   * Stop the CLI with SIGINT, escalating to SIGKILL if it has not exited after the grace period
+   * Output received so far is kept in the result
+   */
+  interrupt(graceMs: number = INTERRUPT_GRACE_MS): void {
+    if (this.exited || this.interrupted) {
+      return;
+    }
+
+    this.interrupted = true;
+    this.child.kill('SIGINT');
+
+    const killTimer = setTimeout(() => {
+      if (!this.exited) {
+        this.child.kill('SIGKILL');
+      }
+    }, graceMs);
+    killTimer.unref();
+    this.result.finally(() => clearTimeout(killTimer));
+  }
+
+  /**
+   * Subscribe to stream events, returns an unsubscribe function
+   */
+  subscribe(listener: GeminiRunListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: GeminiStreamEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+/**
+ * Gemini runner tracks one active run per key (chat session id)
+ */
+export class GeminiRunner {
+  private activeRuns = new Map<string, GeminiRun>();
+  private reserved = new Set<string>();
+
+  constructor(private cliPath?: string) {}
+
+  /**
+   * Check whether a run is in progress, or being prepared, for a key
+   */
+  isRunning(key: string): boolean {
+    return this.activeRuns.has(key) || this.reserved.has(key);
+  }
+
+  /**
+   * Hold a key for a caller that prepares, and may chain, runs, so no one else can start one
+   * Runs can be started while the key is held; it stays held until released.
+   * @returns Releases the key
+   * @throws Error if a run is in progress or the key is held
+   */
+  reserve(key: string): () => void {
+    if (this.isRunning(key)) {
+      throw new Error('Gemini run already in progress');
+    }
+
+    this.reserved.add(key);
+    return () => {
+      this.reserved.delete(key);
+    };
+  }
+
+  /**
+   * Get the active run for a key
+   */
+  getRun(key: string): GeminiRun | undefined {
+    return this.activeRuns.get(key);
+  }
+
+  /**
+   * Spawn the Gemini CLI in the project directory
+   * @throws Error if a run is already in progress for this key
+   */
+  start(key: string, options: GeminiRunOptions): GeminiRun {
+    if (this.activeRuns.has(key)) {
+      throw new Error('Gemini run already in progress');
+    }
+
+    const cliPath = this.cliPath ?? config.GEMINI_CLI_PATH ?? 'gemini';
+    const model = resolveModel(options.model);
+    const files = writeRunFiles(model, runGeneration(options, model), options.tools);
+    // The prompt is passed as an argument; the CLI would add anything read from stdin to it
+    const child = spawn(cliPath, buildGeminiArgs(options), {
+      cwd: options.projectPath,
+      env: { ...process.env, ...files.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const run = new GeminiRun(child, cliPath);
+    this.activeRuns.set(key, run);
+    run.result.finally(() => {
+      this.activeRuns.delete(key);
+      files.remove();
+    });
+
+    return run;
+  }
+}
+
+/**
+ * Shared runner instance used by the chat module
+ */
+export const geminiRunner = new GeminiRunner();
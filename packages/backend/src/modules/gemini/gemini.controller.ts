@@ -1,24 +1,26 @@
-import type { Request, Response } from 'express';
+import type { Request, Response, NextFunction } from 'express';
 import {
-  GEMINI_MODELS,
-  DEFAULT_MODEL,
-  getModelById,
+  ModelOverrideSchema,
+  SetDefaultModelSchema,
+  type ApiResponse,
 } from '@gemini-ui/shared';
+import { modelRegistry } from './model-registry.service.js';
+import { AppError } from '../../middleware/error-handler.js';
 
 /**
  * Gemini controller handles Gemini model-related operations
  */
 
 /**
- * Get all available Gemini models
+ * Get the models offered for new sessions and the team default
  */
 export async function getModels(_req: Request, res: Response): Promise<void> {
   try {
     res.json({
       success: true,
       data: {
-        models: GEMINI_MODELS,
-        defaultModel: DEFAULT_MODEL,
+        models: modelRegistry.available(),
+        defaultModel: modelRegistry.defaultModel(),
       },
     });
   } catch (error) {
@@ -37,7 +39,7 @@ export async function getModel(req: Request, res: Response): Promise<void> {
     const modelId = Array.isArray(req.params.modelId)
       ? req.params.modelId[0]
       : req.params.modelId;
-    const model = getModelById(modelId);
+    const model = modelRegistry.get(modelId);
 
     if (!model) {
       res.status(404).json({
@@ -58,3 +60,106 @@ export async function getModel(req: Request, res: Response): Promise<void> {
     });
   }
 }
+
+/**
+ * Map registry errors to HTTP errors
+ */
+function toAppError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  switch (error.message) {
+    case 'Model not found':
+      return new AppError(404, error.message, 'MODEL_NOT_FOUND');
+    case 'Override not found':
+      return new AppError(404, error.message, 'OVERRIDE_NOT_FOUND');
+    case 'Unknown successor model':
+    case 'The default model cannot be hidden':
+    case 'The default model cannot be removed':
+    case 'Hidden or retired models cannot be the default':
+      return new AppError(400, error.message, 'INVALID_MODEL_OVERRIDE');
+  }
+  if (error.message.startsWith('Added models need')) {
+    return new AppError(400, error.message, 'INVALID_MODEL_OVERRIDE');
+  }
+  return error;
+}
+
+/**
+ * Get every model with its admin override
+ * GET /api/gemini/registry
+ */
+export async function getRegistry(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const registry = await modelRegistry.getRegistry();
+
+    res.json({
+      success: true,
+      data: registry,
+    } as ApiResponse);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Override a built-in model or add a model, then migrate sessions off retired models
+ * PUT /api/gemini/registry/:modelId
+ */
+export async function setOverride(req: Request, res: Response, next: NextFunction) {
+  try {
+    const modelId = Array.isArray(req.params.modelId)
+      ? req.params.modelId[0]
+      : req.params.modelId;
+    const input = ModelOverrideSchema.parse(req.body);
+
+    const entry = await modelRegistry.setOverride(modelId, input);
+    await modelRegistry.migrateRetired();
+
+    res.json({
+      success: true,
+      data: entry,
+    } as ApiResponse);
+  } catch (error) {
+    next(toAppError(error));
+  }
+}
+
+/**
+ * Restore a built-in model or remove an added one
+ * DELETE /api/gemini/registry/:modelId
+ */
+export async function removeOverride(req: Request, res: Response, next: NextFunction) {
+  try {
+    const modelId = Array.isArray(req.params.modelId)
+      ? req.params.modelId[0]
+      : req.params.modelId;
+
+    await modelRegistry.removeOverride(modelId);
+
+    res.json({
+      success: true,
+      message: 'Override removed',
+    } as ApiResponse);
+  } catch (error) {
+    next(toAppError(error));
+  }
+}
+
+/**
+ * Set the default model for the team
+ * PUT /api/gemini/registry/default
+ */
+export async function setDefaultModel(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { modelId } = SetDefaultModelSchema.parse(req.body);
+
+    await modelRegistry.setDefault(modelId);
+
+    res.json({
+      success: true,
+      data: { defaultModel: modelRegistry.defaultModel() },
+    } as ApiResponse);
+  } catch (error) {
+    next(toAppError(error));
+  }
+}
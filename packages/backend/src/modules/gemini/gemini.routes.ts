@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import * as controller from './gemini.controller.js';
+import { requireAdmin, requireAuth } from '../../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -15,4 +16,28 @@ router.get('/models', controller.getModels);
  */
 router.get('/models/:modelId', controller.getModel);
 
+/**
+ * GET /api/gemini/registry
+ * List every model with its override (admin only)
+ */
+router.get('/registry', requireAuth, requireAdmin, controller.getRegistry);
+
+/**
+ * PUT /api/gemini/registry/default
+ * Set the team default model (admin only)
+ */
+router.put('/registry/default', requireAuth, requireAdmin, controller.setDefaultModel);
+
+/**
+ * PUT /api/gemini/registry/:modelId
+ * Override a built-in model or add a model (admin only)
+ */
+router.put('/registry/:modelId', requireAuth, requireAdmin, controller.setOverride);
+
+/**
+ * DELETE /api/gemini/registry/:modelId
+ * Remove a model override (admin only)
+ */
+router.delete('/registry/:modelId', requireAuth, requireAdmin, controller.removeOverride);
+
 export default router;
@@ -0,0 +1,252 @@
+import { db } from '../../db/index.js';
+import { modelOverrides, sessions, type ModelOverrideRow } from '../../db/schema.js';
+import { eq, ne } from 'drizzle-orm';
+import {
+  DEFAULT_MODEL,
+  GEMINI_MODELS,
+  ModelOverrideSchema,
+  getModelById,
+  isModelRetired,
+  mergeModels,
+  pruneGenerationSettings,
+  type GeminiModel,
+  type ModelMigration,
+  type ModelMigrationResult,
+  type ModelOverride,
+  type ModelRegistry,
+  type ModelRegistryEntry,
+} from '@gemini-ui/shared';
+
+/**
+ * Overrides by model id
+ */
+function overridesOf(rows: ModelOverrideRow[]): Record<string, ModelOverride> {
+  return Object.fromEntries(rows.map((row) => [row.modelId, row.override]));
+}
+
+/**
+ * Model registry service
+ *
+ * The built-in model list merged with the overrides admins keep in the database.
+ * The merged list is cached in memory so the CLI runner and other services can
+ * look models up synchronously; every change reloads it.
+ */
+export class ModelRegistryService {
+  private models: GeminiModel[] = GEMINI_MODELS;
+  private defaultModelId = DEFAULT_MODEL;
+
+  /**
+   * Reload the overrides from the database
+   */
+  async load(): Promise<void> {
+    this.apply(await db.select().from(modelOverrides));
+  }
+
+  /**
+   * Every model, including hidden and retired ones
+   */
+  list(): GeminiModel[] {
+    return this.models;
+  }
+
+  /**
+   * Models offered for new sessions: not hidden and not past their deprecation date
+   */
+  available(now = new Date()): GeminiModel[] {
+    return this.models.filter((model) => !model.hidden && !isModelRetired(model, now));
+  }
+
+  /**
+   * Get a model by ID
+   */
+  get(modelId: string): GeminiModel | undefined {
+    return getModelById(modelId, this.models);
+  }
+
+  /**
+   * Model for sessions that do not name one: the team default, else the built-in default
+   */
+  defaultModel(): string {
+    return this.defaultModelId;
+  }
+
+  /**
+   * Every model with its override, for the admin editor
+   */
+  async getRegistry(): Promise<ModelRegistry> {
+    const rows = await db.select().from(modelOverrides);
+    this.apply(rows);
+
+    return {
+      entries: this.models.map((model) => this.entryOf(model, rows)),
+      defaultModel: this.defaultModelId,
+    };
+  }
+
+  /**
+   * Replace a model's override; an id that is not built in adds a model
+   * @throws Error if the result is not a complete model or names an unknown successor
+   */
+  async setOverride(modelId: string, input: ModelOverride): Promise<ModelRegistryEntry> {
+    const override = ModelOverrideSchema.parse(input);
+    const rows = await db.select().from(modelOverrides);
+    const merged = mergeModels({ ...overridesOf(rows), [modelId]: override });
+
+    const model = getModelById(modelId, merged);
+    if (!model) {
+      throw new Error(
+        'Added models need a name, family, variant, capabilities, context window and pricing'
+      );
+    }
+    const successor = model.successor && getModelById(model.successor, merged);
+    if (model.successor && (!successor || successor.id === modelId)) {
+      throw new Error('Unknown successor model');
+    }
+    if (model.hidden && modelId === this.defaultModelId) {
+      throw new Error('The default model cannot be hidden');
+    }
+
+    await db
+      .insert(modelOverrides)
+      .values({ modelId, override })
+      .onConflictDoUpdate({
+        target: modelOverrides.modelId,
+        set: { override, updatedAt: new Date() },
+      });
+    await this.load();
+
+    return this.entryOf(this.get(modelId)!, await db.select().from(modelOverrides));
+  }
+
+  /**
+   * Drop a model's override: built-in models get their original definition back,
+   * added models are removed
+   * @throws Error if the model has no override, or it is the added default model
+   */
+  async removeOverride(modelId: string): Promise<void> {
+    const row = await db.query.modelOverrides.findFirst({
+      where: eq(modelOverrides.modelId, modelId),
+    });
+    if (!row || Object.keys(row.override).length === 0) {
+      throw new Error('Override not found');
+    }
+
+    if (!row.isDefault) {
+      await db.delete(modelOverrides).where(eq(modelOverrides.modelId, modelId));
+    } else if (GEMINI_MODELS.some((model) => model.id === modelId)) {
+      // Keep the row so the model stays the default
+      await db
+        .update(modelOverrides)
+        .set({ override: {}, updatedAt: new Date() })
+        .where(eq(modelOverrides.modelId, modelId));
+    } else {
+      throw new Error('The default model cannot be removed');
+    }
+    await this.load();
+  }
+
+  /**
+   * Make a model the default for new sessions of every user
+   * @throws Error if the model does not exist or is not offered for new sessions
+   */
+  async setDefault(modelId: string): Promise<void> {
+    const model = this.get(modelId);
+    if (!model) {
+      throw new Error('Model not found');
+    }
+    if (!this.available().includes(model)) {
+      throw new Error('Hidden or retired models cannot be the default');
+    }
+
+    await db
+      .update(modelOverrides)
+      .set({ isDefault: false })
+      .where(ne(modelOverrides.modelId, modelId));
+    await db
+      .insert(modelOverrides)
+      .values({ modelId, override: {}, isDefault: true })
+      .onConflictDoUpdate({
+        target: modelOverrides.modelId,
+        set: { isDefault: true, updatedAt: new Date() },
+      });
+    await this.load();
+  }
+
+  /**
+   * Move sessions on models past their deprecation date to the configured successor
+   *
+   * Each moved session records the move in `metadata.modelMigration` so the chat can
+   * explain it, and drops generation settings the successor does not accept.
+   * Retired models without a successor are left alone.
+   */
+  async migrateRetired(now = new Date()): Promise<ModelMigrationResult[]> {
+    const results: ModelMigrationResult[] = [];
+
+    for (const model of this.models) {
+      if (!isModelRetired(model, now)) continue;
+      const successor = this.successorOf(model, now);
+      if (!successor) continue;
+
+      const rows = await db.select().from(sessions).where(eq(sessions.model, model.id));
+      if (rows.length === 0) continue;
+
+      const migration: ModelMigration = {
+        from: model.id,
+        to: successor,
+        migratedAt: now.toISOString(),
+      };
+      for (const row of rows) {
+        await db
+          .update(sessions)
+          .set({
+            model: successor,
+            metadata: { ...row.metadata, modelMigration: migration },
+            generationSettings:
+              row.generationSettings &&
+              pruneGenerationSettings(row.generationSettings, successor, this.models),
+          })
+          .where(eq(sessions.id, row.id));
+      }
+      results.push({ from: model.id, to: successor, sessions: rows.length });
+    }
+
+    return results;
+  }
+
+  /**
+   * Follow the successor chain to the first model that is not retired
+   */
+  private successorOf(model: GeminiModel, now: Date): string | undefined {
+    const seen = new Set([model.id]);
+    let next = model.successor ? this.get(model.successor) : undefined;
+    while (next && isModelRetired(next, now)) {
+      if (seen.has(next.id)) return undefined;
+      seen.add(next.id);
+      next = next.successor ? this.get(next.successor) : undefined;
+    }
+    return next?.id;
+  }
+
+  private apply(rows: ModelOverrideRow[]): void {
+    this.models = mergeModels(overridesOf(rows));
+
+    // A default that has since been hidden or removed falls back to the built-in one
+    const chosen = rows.find((row) => row.isDefault)?.modelId;
+    const model = chosen ? this.get(chosen) : undefined;
+    this.defaultModelId = model && !model.hidden ? model.id : DEFAULT_MODEL;
+  }
+
+  private entryOf(model: GeminiModel, rows: ModelOverrideRow[]): ModelRegistryEntry {
+    const override = rows.find((row) => row.modelId === model.id)?.override;
+    return {
+      model,
+      builtIn: GEMINI_MODELS.some((builtIn) => builtIn.id === model.id),
+      ...(override && Object.keys(override).length > 0 && { override }),
+    };
+  }
+}
+
+/**
+ * Shared registry used by the CLI runner and the API
+ */
+export const modelRegistry = new ModelRegistryService();
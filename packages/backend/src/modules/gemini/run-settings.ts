@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { GenerationSettings } from '@gemini-ui/shared';
+import type { ToolSettings } from '../policy/policy-engine.js';
+
+/**
+ * Per-run Gemini CLI configuration
+ * The CLI has no flags for sampling parameters, tool permissions or the system prompt; they are
+ * read from a settings file named by GEMINI_CLI_SYSTEM_SETTINGS_PATH and a file named by
+ * GEMINI_SYSTEM_MD
+ */
+
+/**
+ * Where the CLI looks for system settings when GEMINI_CLI_SYSTEM_SETTINGS_PATH is not set
+ */
+function defaultSystemSettingsPath(): string {
+  switch (process.platform) {
+    case 'darwin':
+      return '/Library/Application Support/GeminiCli/settings.json';
+    case 'win32':
+      return 'C:\\ProgramData\\gemini-cli\\settings.json';
+    default:
+      return '/etc/gemini-cli/settings.json';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read the system settings the CLI would use, so a run file extends rather than replaces them
+ */
+function readSystemSettings(): Record<string, unknown> {
+  const settingsPath = process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH || defaultSystemSettingsPath();
+  try {
+    const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+    return isObject(settings) ? settings : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Merge run settings into the system settings; objects are merged and lists are joined
+ */
+function mergeSettings(
+  base: Record<string, unknown>,
+  extra: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(extra)) {
+    const existing = merged[key];
+    if (isObject(existing) && isObject(value)) {
+      merged[key] = mergeSettings(existing, value);
+    } else if (Array.isArray(existing) && Array.isArray(value)) {
+      merged[key] = [...existing, ...value];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the settings a run needs on top of the system settings
+ * @returns undefined if the run uses the CLI defaults
+ */
+export function buildRunSettings(
+  model: string,
+  generation: GenerationSettings,
+  tools?: ToolSettings
+): Record<string, unknown> | undefined {
+  const settings: Record<string, unknown> = {};
+
+  const generateContentConfig = {
+    ...(generation.temperature !== undefined && { temperature: generation.temperature }),
+    ...(generation.topP !== undefined && { topP: generation.topP }),
+    ...(generation.maxOutputTokens !== undefined && {
+      maxOutputTokens: generation.maxOutputTokens,
+    }),
+    ...(generation.thinkingBudget !== undefined && {
+      thinkingConfig: { thinkingBudget: generation.thinkingBudget },
+    }),
+  };
+  if (Object.keys(generateContentConfig).length > 0) {
+    settings.modelConfigs = {
+      overrides: [{ match: { model }, modelConfig: { generateContentConfig } }],
+    };
+  }
+
+  if (tools?.allowed.length || tools?.exclude.length) {
+    settings.tools = {
+      ...(tools.allowed.length > 0 && { allowed: tools.allowed }),
+      ...(tools.exclude.length > 0 && { exclude: tools.exclude }),
+    };
+  }
+
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Files written for a single run and the environment that points the CLI at them
+ */
+export interface RunFiles {
+  env: Record<string, string>;
+  /** Delete the files once the run has finished */
+  remove: () => void;
+}
+
+/**
+ * Write the settings file and system prompt of a run to a private temporary directory
+ */
+export function writeRunFiles(
+  model: string,
+  generation: GenerationSettings,
+  tools?: ToolSettings
+): RunFiles {
+  const settings = buildRunSettings(model, generation, tools);
+  if (!settings && !generation.systemInstruction) {
+    return { env: {}, remove: () => {} };
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-run-'));
+  const env: Record<string, string> = {};
+
+  if (settings) {
+    const settingsPath = path.join(dir, 'settings.json');
+    fs.writeFileSync(settingsPath, JSON.stringify(mergeSettings(readSystemSettings(), settings)), {
+      mode: 0o600,
+    });
+    env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = settingsPath;
+  }
+
+  if (generation.systemInstruction) {
+    const systemPromptPath = path.join(dir, 'system.md');
+    fs.writeFileSync(systemPromptPath, generation.systemInstruction, { mode: 0o600 });
+    env.GEMINI_SYSTEM_MD = systemPromptPath;
+  }
+
+  return { env, remove: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
@@ -0,0 +1,167 @@
+import type { GeminiStreamEvent } from '@gemini-ui/shared';
+
+/**
+ * Stream parser for Gemini CLI `--output-format stream-json` output
+ *
+ * Each stdout line is one JSON event. Lines that are not JSON (older CLI
+ * versions, banners, plain text mode) are forwarded as text deltas.
+ *
+ * A tool call the CLI refuses to run without approval is reported like any
+ * other failed call: a `tool_use` event followed by an error `tool_result`.
+ */
+
+/**
+ * Token statistics reported by the CLI in its final `result` event
+ */
+export interface GeminiRunStats {
+  totalTokens?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number;
+  durationMs?: number;
+  toolCalls?: number;
+}
+
+/**
+ * Parsed output of a single stdout line
+ */
+export interface ParsedLine {
+  /** Events to forward to the browser */
+  events: GeminiStreamEvent[];
+  /** CLI session id announced by the `init` event */
+  geminiSessionId?: string;
+  /** Final statistics announced by the `result` event */
+  stats?: GeminiRunStats;
+}
+
+/**
+ * Raw event shape emitted by Gemini CLI in stream-json mode
+ */
+interface GeminiCliEvent {
+  type: string;
+  session_id?: string;
+  role?: string;
+  content?: string;
+  tool_name?: string;
+  tool_id?: string;
+  parameters?: Record<string, unknown>;
+  status?: string;
+  output?: string;
+  message?: string;
+  severity?: string;
+  error?: { message?: string } | string;
+  stats?: {
+    total_tokens?: number;
+    input_tokens?: number;
+    output_tokens?: number;
+    cached?: number;
+    cached_tokens?: number;
+    duration_ms?: number;
+    tool_calls?: number;
+  };
+}
+
+/**
+ * Parse a single line of CLI stdout
+ */
+export function parseStreamLine(line: string): ParsedLine {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return { events: [] };
+  }
+
+  let event: GeminiCliEvent;
+  try {
+    event = JSON.parse(trimmed);
+  } catch {
+    return { events: [{ type: 'delta', text: `${line}\n` }] };
+  }
+
+  if (!event || typeof event !== 'object' || typeof event.type !== 'string') {
+    return { events: [{ type: 'delta', text: `${line}\n` }] };
+  }
+
+  switch (event.type) {
+    case 'init':
+      return { events: [], geminiSessionId: event.session_id };
+
+    case 'message':
+      // The CLI echoes the user prompt back; only assistant output is streamed
+      if (event.role !== 'assistant' || !event.content) {
+        return { events: [] };
+      }
+      return { events: [{ type: 'delta', text: event.content }] };
+
+    case 'tool_use':
+      return {
+        events: [
+          {
+            type: 'tool-call',
+            toolCall: {
+              id: event.tool_id ?? '',
+              name: event.tool_name ?? 'unknown',
+              args: event.parameters ?? {},
+              status: 'pending',
+            },
+          },
+        ],
+      };
+
+    case 'tool_result':
+      return {
+        events: [
+          {
+            type: 'tool-result',
+            toolCall: {
+              id: event.tool_id ?? '',
+              name: event.tool_name ?? 'unknown',
+              args: {},
+              status: event.status === 'success' ? 'success' : 'error',
+              output: event.output ?? errorMessage(event.error),
+            },
+          },
+        ],
+      };
+
+    case 'error':
+      // Warnings are informational and do not fail the turn
+      if (event.severity === 'warning') {
+        return { events: [] };
+      }
+      return {
+        events: [{ type: 'error', error: event.message ?? 'Gemini CLI error' }],
+      };
+
+    case 'result': {
+      const stats: GeminiRunStats | undefined = event.stats && {
+        totalTokens: event.stats.total_tokens,
+        inputTokens: event.stats.input_tokens,
+        outputTokens: event.stats.output_tokens,
+        cachedTokens: event.stats.cached ?? event.stats.cached_tokens,
+        durationMs: event.stats.duration_ms,
+        toolCalls: event.stats.tool_calls,
+      };
+
+      if (event.status === 'error') {
+        return {
+          events: [{ type: 'error', error: errorMessage(event.error) ?? 'Gemini CLI run failed' }],
+          stats,
+        };
+      }
+      return { events: [], stats };
+    }
+
+    default:
+      return { events: [] };
+  }
+}
+
+/**
+ * Extract a message from the CLI's error field
+ */
+function errorMessage(error: GeminiCliEvent['error']): string | undefined {
+  if (!error) {
+    return undefined;
+  }
+  return typeof error === 'string' ? error : error.message;
+}
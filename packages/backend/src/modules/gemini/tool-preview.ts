@@ -0,0 +1,76 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { GeminiToolCall, ToolCallPreview } from '@gemini-ui/shared';
+import { validateAndResolvePath } from '../../security/validators.js';
+
+/**
+ * Tool previews describe what a Gemini CLI tool call is about to do so the
+ * user can review it before approving
+ */
+
+// Files larger than this are not loaded for a diff preview
+const MAX_PREVIEW_FILE_SIZE = 512 * 1024;
+
+/**
+ * Build a preview for the built-in shell and file editing tools
+ * Returns undefined for tools (e.g. MCP tools) whose arguments speak for themselves
+ */
+export async function buildToolPreview(
+  toolCall: GeminiToolCall,
+  projectPath: string
+): Promise<ToolCallPreview | undefined> {
+  const args = toolCall.args;
+
+  switch (toolCall.name) {
+    case 'run_shell_command':
+      if (typeof args.command !== 'string') return undefined;
+      return {
+        kind: 'command',
+        command: args.command,
+        ...(typeof args.directory === 'string' && { directory: args.directory }),
+      };
+
+    case 'write_file': {
+      if (typeof args.file_path !== 'string' || typeof args.content !== 'string') return undefined;
+      const before = await readProjectFile(args.file_path, projectPath);
+      return { kind: 'diff', path: args.file_path, before, after: args.content };
+    }
+
+    case 'replace': {
+      if (
+        typeof args.file_path !== 'string' ||
+        typeof args.old_string !== 'string' ||
+        typeof args.new_string !== 'string'
+      ) {
+        return undefined;
+      }
+      const before = await readProjectFile(args.file_path, projectPath);
+      const after = args.old_string
+        ? before.split(args.old_string).join(args.new_string)
+        : args.new_string;
+      return { kind: 'diff', path: args.file_path, before, after };
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read the current contents of a file inside the project
+ * Missing, oversized or out-of-project files preview as empty
+ */
+async function readProjectFile(filePath: string, projectPath: string): Promise<string> {
+  try {
+    const resolved = await validateAndResolvePath(path.resolve(projectPath, filePath), [
+      projectPath,
+    ]);
+    const stats = await fs.stat(resolved);
+    if (!stats.isFile() || stats.size > MAX_PREVIEW_FILE_SIZE) {
+      return '';
+    }
+    return await fs.readFile(resolved, 'utf-8');
+  } catch {
+    return '';
+  }
+}
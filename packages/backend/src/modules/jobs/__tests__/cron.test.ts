@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { nextCronRun, parseCron } from '../cron.js';
+
+/**
+ * Next run as a local `YYYY-MM-DD HH:mm` string
+ */
+function next(expression: string, after: string): string | null {
+  const run = nextCronRun(parseCron(expression), new Date(after));
+  if (!run) return null;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${run.getFullYear()}-${pad(run.getMonth() + 1)}-${pad(run.getDate())} ` +
+    `${pad(run.getHours())}:${pad(run.getMinutes())}`
+  );
+}
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand lists, ranges, steps and names', () => {
+      const schedule = parseCron('*/20 9-17/4 1,15 jan-mar MON-fri');
+
+      expect([...schedule.minutes]).toEqual([0, 20, 40]);
+      expect([...schedule.hours]).toEqual([9, 13, 17]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect([...schedule.months]).toEqual([1, 2, 3]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should accept macros and 7 for Sunday', () => {
+      expect(parseCron('@daily')).toMatchObject({ minutes: new Set([0]), hours: new Set([0]) });
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+      expect([...parseCron('30 5/6 * * *').hours]).toEqual([5, 11, 17, 23]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow('Invalid schedule');
+      expect(() => parseCron('60 * * * *')).toThrow("'60' is not a valid minute");
+      expect(() => parseCron('* * * foo *')).toThrow("'foo' is not a valid month");
+      expect(() => parseCron('*/0 * * * *')).toThrow('invalid step');
+      expect(() => parseCron('* 5-1 * * *')).toThrow("'5-1' is not a valid range");
+      expect(() => parseCron('@sometimes')).toThrow('Invalid schedule');
+    });
+  });
+
+  describe('nextCronRun', () => {
+    it('should find the next matching minute strictly after the given time', () => {
+      expect(next('0 9 * * *', '2026-10-19T08:59:30')).toBe('2026-10-19 09:00');
+      expect(next('0 9 * * *', '2026-10-19T09:00:00')).toBe('2026-10-20 09:00');
+      expect(next('*/15 * * * *', '2026-10-19T23:50:00')).toBe('2026-10-20 00:00');
+      expect(next('@monthly', '2026-12-15T12:00:00')).toBe('2027-01-01 00:00');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 2026-10-19 is a Monday; the 1st of November is a Sunday
+      expect(next('0 0 1 * 5', '2026-10-19T12:00:00')).toBe('2026-10-23 00:00');
+      expect(next('0 0 1 * 5', '2026-10-31T12:00:00')).toBe('2026-11-01 00:00');
+      expect(next('0 9 * * 1-5', '2026-10-23T10:00:00')).toBe('2026-10-26 09:00');
+    });
+
+    it('should handle leap days and give up on dates that never come', () => {
+      expect(next('0 0 29 2 *', '2026-10-19T00:00:00')).toBe('2028-02-29 00:00');
+      expect(next('0 0 30 2 *', '2026-10-19T00:00:00')).toBeNull();
+    });
+  });
+});
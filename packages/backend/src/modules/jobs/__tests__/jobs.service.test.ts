@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JobsService } from '../jobs.service.js';
+import { ChatService } from '../../chat/chat.service.js';
+import { GeminiRunner } from '../../gemini/gemini-runner.js';
+import { SessionsService } from '../../sessions/sessions.service.js';
+import { PolicyService } from '../../policy/policy.service.js';
+import type { JobRun } from '@gemini-ui/shared';
+import { db } from '../../../db/index.js';
+import { users, projects, scheduledJobs } from '../../../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const FAKE_CLI = fileURLToPath(new URL('../../../test/fake-gemini-cli.mjs', import.meta.url));
+
+const WRITE_NOTES = {
+  toolCall: { name: 'write_file', id: 'write-1', parameters: { file_path: 'notes.txt' } },
+  output: 'Wrote notes.txt',
+};
+
+describe('JobsService', () => {
+  let runner: GeminiRunner;
+  let jobsService: JobsService;
+  let sessionsService: SessionsService;
+  let testDir: string;
+  let testUserId: string;
+  let testProjectId: string;
+
+  /**
+   * Script the fake CLI (see src/test/fake-gemini-cli.mjs) for the following runs
+   */
+  const useScript = async (turns: Array<{ match?: string; steps: unknown[] }>) => {
+    const scriptPath = path.join(testDir, 'script.json');
+    await fs.writeFile(scriptPath, JSON.stringify({ turns }));
+    process.env.FAKE_GEMINI_SCRIPT = scriptPath;
+  };
+
+  /**
+   * Wait for a run to finish and return it
+   */
+  const settled = async (runId: string): Promise<JobRun> => {
+    const deadline = Date.now() + 5000;
+    for (;;) {
+      const run = (await jobsService.findRuns(testUserId)).find(({ id }) => id === runId);
+      if (run && run.status !== 'running') return run;
+      if (Date.now() > deadline) throw new Error('Run did not finish');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `test-jobs-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    runner = new GeminiRunner(FAKE_CLI);
+    jobsService = new JobsService(new ChatService(runner));
+    sessionsService = new SessionsService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'jobuser', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+
+    const [project] = await db
+      .insert(projects)
+      .values({ userId: testUserId, name: 'App', path: testDir })
+      .returning();
+    testProjectId = project.id;
+  });
+
+  afterEach(async () => {
+    delete process.env.FAKE_GEMINI_SCRIPT;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should validate jobs and schedule them from now', async () => {
+    const job = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'TODO check',
+      prompt: 'Check TODOs in src/',
+      schedule: '0 9 * * 1-5',
+    });
+
+    expect(job.policy).toMatchObject({ readOnly: true, approvalMode: 'default' });
+    expect(job.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(job.nextRunAt!.getHours()).toBe(9);
+
+    await expect(
+      jobsService.create(testUserId, { ...job, schedule: '0 25 * * *' })
+    ).rejects.toThrow("Invalid schedule: '25' is not a valid hour");
+    await expect(
+      jobsService.create(testUserId, { ...job, schedule: '0 0 31 2 *' })
+    ).rejects.toThrow('Invalid schedule: it never runs');
+    await expect(jobsService.create(testUserId, { ...job, model: 'gpt-4' })).rejects.toThrow(
+      'Unknown model: gpt-4'
+    );
+    await expect(
+      jobsService.create(testUserId, { ...job, projectId: 'missing' })
+    ).rejects.toThrow('Project not found');
+
+    const disabled = await jobsService.update(testUserId, job.id, { enabled: false });
+    expect(disabled?.nextRunAt).toBeNull();
+    const hourly = await jobsService.update(testUserId, job.id, {
+      enabled: true,
+      schedule: '@hourly',
+    });
+    expect(hourly?.nextRunAt?.getMinutes()).toBe(0);
+  });
+
+  it('should run due jobs in a new session and move them to their next time', async () => {
+    const due = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'Commit summary',
+      prompt: "Summarize yesterday's commits",
+      schedule: '0 8 * * *',
+    });
+    const later = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'Later',
+      prompt: 'Not yet',
+      schedule: '0 8 * * *',
+    });
+    const now = new Date();
+    await db
+      .update(scheduledJobs)
+      .set({ nextRunAt: new Date(now.getTime() - 60000) })
+      .where(eq(scheduledJobs.id, due.id));
+
+    const started = await jobsService.runDue(now);
+
+    expect(started).toHaveLength(1);
+    expect(started[0]).toMatchObject({ jobId: due.id, jobName: 'Commit summary', manual: false });
+    const run = await settled(started[0].id);
+    expect(run).toMatchObject({
+      status: 'succeeded',
+      output: "echo: Summarize yesterday's commits",
+    });
+    expect(run.finishedAt).toBeInstanceOf(Date);
+
+    const session = await sessionsService.findById(testUserId, run.sessionId!);
+    expect(session).toMatchObject({
+      projectPath: testDir,
+      title: 'Commit summary',
+      tags: ['scheduled'],
+      metadata: { jobId: due.id },
+    });
+    const policy = await new PolicyService().getSessionPolicy(testUserId, run.sessionId!);
+    expect(policy.readOnly).toBe(true);
+
+    const [rescheduled] = await db
+      .select()
+      .from(scheduledJobs)
+      .where(eq(scheduledJobs.id, due.id));
+    expect(rescheduled.nextRunAt!.getTime()).toBeGreaterThan(now.getTime());
+    expect(await jobsService.findRuns(testUserId, { jobId: later.id })).toEqual([]);
+  });
+
+  it('should deny tool calls the policy leaves to a user', async () => {
+    await useScript([{ steps: [WRITE_NOTES, { text: 'Done' }] }]);
+    const readOnly = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'Read only',
+      prompt: 'Update notes',
+      schedule: '@daily',
+    });
+    const writable = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'Writable',
+      prompt: 'Update notes',
+      schedule: '@daily',
+      policy: { readOnly: false },
+    });
+
+    const denied = await settled((await jobsService.run(testUserId, readOnly.id))!.id);
+    const unattended = await settled((await jobsService.run(testUserId, writable.id))!.id);
+
+    expect(denied).toMatchObject({ status: 'succeeded', manual: true, output: 'Done' });
+    const [deniedReply] = (await sessionsService.listMessages(testUserId, denied.sessionId!))
+      .filter((message) => message.role === 'assistant');
+    expect(deniedReply.metadata?.toolCalls).toMatchObject([
+      { approval: 'deny', approvalReason: 'write_file is not allowed in read-only mode' },
+    ]);
+    const [unattendedReply] = (
+      await sessionsService.listMessages(testUserId, unattended.sessionId!)
+    ).filter((message) => message.role === 'assistant');
+    expect(unattendedReply.metadata?.toolCalls).toMatchObject([
+      { approval: 'deny', approvalReason: expect.stringContaining('unattended') },
+    ]);
+  });
+
+  it('should record failed and timed out runs', async () => {
+    await useScript([
+      { match: 'crash', steps: [{ exit: 1, stderr: 'Segmentation fault' }] },
+      { match: 'stall', steps: [{ text: 'Thinking' }, { hang: true }] },
+    ]);
+    jobsService = new JobsService(new ChatService(runner), 200);
+    const crash = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'Crash',
+      prompt: 'crash',
+      schedule: '@daily',
+    });
+    const stall = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'Stall',
+      prompt: 'stall',
+      schedule: '@daily',
+    });
+
+    const failed = await settled((await jobsService.run(testUserId, crash.id))!.id);
+    expect(failed).toMatchObject({ status: 'failed', error: 'Segmentation fault' });
+
+    const running = await jobsService.run(testUserId, stall.id);
+    await expect(jobsService.run(testUserId, stall.id)).rejects.toThrow('Job already running');
+    expect(await settled(running!.id)).toMatchObject({
+      status: 'failed',
+      output: 'Thinking',
+      error: 'Timed out after 0 seconds',
+    });
+  });
+
+  it('should fail runs left going by a stopped server', async () => {
+    await useScript([{ steps: [{ hang: true }] }]);
+    const job = await jobsService.create(testUserId, {
+      projectId: testProjectId,
+      name: 'Hang',
+      prompt: 'Wait',
+      schedule: '@daily',
+    });
+    const run = await jobsService.run(testUserId, job.id);
+
+    expect(await jobsService.failInterrupted()).toBe(1);
+    const [failed] = await jobsService.findRuns(testUserId, { jobId: job.id });
+    expect(failed).toMatchObject({ id: run!.id, error: 'Interrupted by a server restart' });
+
+    // Stop the CLI the test left running
+    runner.getRun(run!.sessionId!)?.interrupt();
+    await runner.getRun(run!.sessionId!)?.result;
+  });
+});
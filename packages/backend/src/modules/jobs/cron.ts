@@ -0,0 +1,177 @@
+/**
+ * Cron expressions for scheduled jobs
+ *
+ * Five fields (minute, hour, day of month, month, day of week) with `*`, lists,
+ * ranges, steps and English month and day names, evaluated in server time.
+ * As in Vixie cron, a day matches when either day field does if both are restricted.
+ */
+
+/**
+ * Allowed values of each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day fields were `*`, which changes how they combine */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { label: 'minute', min: 0, max: 59 },
+  { label: 'hour', min: 0, max: 23 },
+  { label: 'day of month', min: 1, max: 31 },
+  { label: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted for Sunday and folded onto 0
+  { label: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Runs are looked for this far ahead before a schedule counts as never running
+const SEARCH_YEARS = 5;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = named >= 0 ? named + spec.min : /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!(number >= spec.min && number <= spec.max)) {
+    throw new Error(`Invalid schedule: '${value}' is not a valid ${spec.label}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid schedule: '${part}' has an invalid step`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== '*') {
+      const [from, to, rest] = range.split('-');
+      if (rest !== undefined) {
+        throw new Error(`Invalid schedule: '${range}' is not a valid range`);
+      }
+      start = parseValue(from, spec);
+      // `5/15` runs from 5 to the end of the field
+      end = to !== undefined ? parseValue(to, spec) : stepText !== undefined ? spec.max : start;
+      if (start > end) {
+        throw new Error(`Invalid schedule: '${range}' is not a valid range`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws Error if the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Invalid schedule: expected minute, hour, day of month, month and day of week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` that the schedule fires, to the minute
+ * @returns null if the schedule never fires (e.g. February 30th)
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = new Date(next);
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  // Skip whole months, days and hours that cannot match before stepping by minutes
+  while (next < limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+
+  return null;
+}
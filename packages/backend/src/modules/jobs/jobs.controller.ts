@@ -0,0 +1,182 @@
+import type { Response, NextFunction } from 'express';
+import { JobsService } from './jobs.service.js';
+import {
+  CreateScheduledJobSchema,
+  JobRunQuerySchema,
+  UpdateScheduledJobSchema,
+  type ApiResponse,
+} from '@gemini-ui/shared';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * Map job service errors to API errors
+ */
+function toAppError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  if (error.message === 'Project not found') {
+    return new AppError(404, error.message, 'PROJECT_NOT_FOUND');
+  }
+  if (error.message.startsWith('Invalid schedule')) {
+    return new AppError(400, error.message, 'INVALID_SCHEDULE');
+  }
+  if (error.message.startsWith('Unknown model')) {
+    return new AppError(400, error.message, 'UNKNOWN_MODEL');
+  }
+  if (error.message === 'Job already running') {
+    return new AppError(409, error.message, 'JOB_RUNNING');
+  }
+  return error;
+}
+
+/**
+ * Scheduled jobs controller
+ */
+export class JobsController {
+  private jobsService = new JobsService();
+
+  /**
+   * Create new job
+   * POST /api/jobs
+   */
+  create = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = CreateScheduledJobSchema.parse(req.body);
+      const job = await this.jobsService.create(req.user.id, input);
+
+      res.status(201).json({
+        success: true,
+        data: job,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Get all jobs
+   * GET /api/jobs
+   */
+  findAll = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const jobs = await this.jobsService.findAll(req.user.id);
+
+      res.json({
+        success: true,
+        data: jobs,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update job
+   * PUT /api/jobs/:id
+   */
+  update = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = UpdateScheduledJobSchema.parse(req.body);
+      const jobId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const job = await this.jobsService.update(req.user.id, jobId, input);
+
+      if (!job) {
+        throw new AppError(404, 'Job not found', 'JOB_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        data: job,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Delete job
+   * DELETE /api/jobs/:id
+   */
+  delete = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const jobId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const success = await this.jobsService.delete(req.user.id, jobId);
+
+      if (!success) {
+        throw new AppError(404, 'Job not found', 'JOB_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        message: 'Job deleted successfully',
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Start a run now; it finishes in the background
+   * POST /api/jobs/:id/run
+   */
+  run = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const jobId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const run = await this.jobsService.run(req.user.id, jobId);
+
+      if (!run) {
+        throw new AppError(404, 'Job not found', 'JOB_NOT_FOUND');
+      }
+
+      res.status(202).json({
+        success: true,
+        data: run,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Get recent runs, optionally of one job
+   * GET /api/jobs/runs?jobId=&limit=
+   */
+  findRuns = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const query = JobRunQuerySchema.parse(req.query);
+      const runs = await this.jobsService.findRuns(req.user.id, query);
+
+      res.json({
+        success: true,
+        data: runs,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
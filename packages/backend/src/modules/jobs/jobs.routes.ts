@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { JobsController } from './jobs.controller.js';
+import { requireAuth } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+const jobsController = new JobsController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/jobs/runs
+ * Get recent runs of the user's jobs, newest first
+ */
+router.get('/runs', jobsController.findRuns);
+
+/**
+ * POST /api/jobs
+ * Create new job
+ */
+router.post('/', jobsController.create);
+
+/**
+ * GET /api/jobs
+ * Get the user's jobs
+ */
+router.get('/', jobsController.findAll);
+
+/**
+ * PUT /api/jobs/:id
+ * Update job (schedule, prompt, policy, enable/disable)
+ */
+router.put('/:id', jobsController.update);
+
+/**
+ * DELETE /api/jobs/:id
+ * Delete job and its run history
+ */
+router.delete('/:id', jobsController.delete);
+
+/**
+ * POST /api/jobs/:id/run
+ * Run a job now, outside its schedule
+ */
+router.post('/:id/run', jobsController.run);
+
+export default router;
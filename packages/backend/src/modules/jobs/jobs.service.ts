@@ -0,0 +1,369 @@
+import { db } from '../../db/index.js';
+import {
+  jobRuns,
+  projects,
+  scheduledJobs,
+  type JobRunRow,
+  type ScheduledJobRow,
+} from '../../db/schema.js';
+import { and, asc, desc, eq, lte } from 'drizzle-orm';
+import {
+  CreateScheduledJobSchema,
+  JobRunQuerySchema,
+  UpdateScheduledJobSchema,
+  type ChatMessage,
+  type CreateScheduledJobInput,
+  type JobRun,
+  type JobRunQuery,
+  type JobRunStatus,
+  type ScheduledJob,
+  type UpdateScheduledJobInput,
+} from '@gemini-ui/shared';
+import { ChatService } from '../chat/chat.service.js';
+import { SessionsService } from '../sessions/sessions.service.js';
+import { PolicyService } from '../policy/policy.service.js';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+import { nextCronRun, parseCron } from './cron.js';
+
+// Runs still going after this long are interrupted and count as failed
+export const JOB_RUN_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Tag on the sessions runs create, so they can be told apart in the session list
+const JOB_SESSION_TAG = 'scheduled';
+
+interface RunOutcome {
+  status: JobRunStatus;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Convert database job (null fields) to ScheduledJob type (undefined fields)
+ */
+function toScheduledJob(row: ScheduledJobRow): ScheduledJob {
+  return {
+    ...row,
+    model: row.model ?? undefined,
+  };
+}
+
+/**
+ * Convert database run (null fields) to JobRun type (undefined fields)
+ */
+function toJobRun(row: JobRunRow, jobName: string): JobRun {
+  return {
+    ...row,
+    jobName,
+    output: row.output ?? undefined,
+    error: row.error ?? undefined,
+    finishedAt: row.finishedAt ?? undefined,
+  };
+}
+
+/**
+ * Next time a schedule fires after the given time
+ * @throws Error if the schedule is malformed or never fires
+ */
+export function nextRunOf(schedule: string, after: Date): Date {
+  const next = nextCronRun(parseCron(schedule), after);
+  if (!next) {
+    throw new Error('Invalid schedule: it never runs');
+  }
+  return next;
+}
+
+/**
+ * Scheduled jobs service
+ *
+ * A job runs its prompt against a project on a cron schedule, without a browser.
+ * Every run gets its own session with the job's execution policy, goes through the
+ * regular chat turn, and denies tool calls the policy would leave to the user.
+ */
+export class JobsService {
+  private sessionsService = new SessionsService();
+  private policyService = new PolicyService();
+
+  constructor(
+    private chatService: ChatService = new ChatService(),
+    private runTimeoutMs: number = JOB_RUN_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Create a job
+   * @throws Error if the project is missing, the schedule is invalid or the model unknown
+   */
+  async create(userId: string, input: CreateScheduledJobInput): Promise<ScheduledJob> {
+    const { projectId, ...fields } = CreateScheduledJobSchema.parse(input);
+    await this.assertProject(userId, projectId);
+    this.assertModel(fields.model);
+    const nextRunAt = nextRunOf(fields.schedule, new Date());
+
+    const [row] = await db
+      .insert(scheduledJobs)
+      .values({ userId, projectId, ...fields, nextRunAt: fields.enabled ? nextRunAt : null })
+      .returning();
+
+    return toScheduledJob(row);
+  }
+
+  /**
+   * Get the user's jobs, by name
+   */
+  async findAll(userId: string): Promise<ScheduledJob[]> {
+    const rows = await db.query.scheduledJobs.findMany({
+      where: eq(scheduledJobs.userId, userId),
+      orderBy: [asc(scheduledJobs.name)],
+    });
+    return rows.map(toScheduledJob);
+  }
+
+  /**
+   * Get a single job
+   */
+  async findById(userId: string, jobId: string): Promise<ScheduledJob | null> {
+    const row = await this.findRow(userId, jobId);
+    return row ? toScheduledJob(row) : null;
+  }
+
+  /**
+   * Update a job; a new schedule or re-enabling it starts counting from now
+   * @throws Error if the schedule is invalid or the model unknown
+   */
+  async update(
+    userId: string,
+    jobId: string,
+    input: UpdateScheduledJobInput
+  ): Promise<ScheduledJob | null> {
+    const existing = await this.findRow(userId, jobId);
+    if (!existing) {
+      return null;
+    }
+
+    const fields = UpdateScheduledJobSchema.parse(input);
+    this.assertModel(fields.model);
+    const schedule = fields.schedule ?? existing.schedule;
+    const enabled = fields.enabled ?? existing.enabled;
+    const nextRunAt = enabled
+      ? schedule !== existing.schedule || !existing.nextRunAt
+        ? nextRunOf(schedule, new Date())
+        : existing.nextRunAt
+      : null;
+
+    const [updated] = await db
+      .update(scheduledJobs)
+      .set({ ...fields, nextRunAt, updatedAt: new Date() })
+      .where(and(eq(scheduledJobs.id, jobId), eq(scheduledJobs.userId, userId)))
+      .returning();
+
+    return updated ? toScheduledJob(updated) : null;
+  }
+
+  /**
+   * Delete a job with its run history; the sessions of its runs are kept
+   */
+  async delete(userId: string, jobId: string): Promise<boolean> {
+    const result = await db
+      .delete(scheduledJobs)
+      .where(and(eq(scheduledJobs.id, jobId), eq(scheduledJobs.userId, userId)))
+      .returning();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Get the user's runs, newest first
+   */
+  async findRuns(userId: string, query: JobRunQuery = {}): Promise<JobRun[]> {
+    const { jobId, limit } = JobRunQuerySchema.parse(query);
+
+    const rows = await db
+      .select({ run: jobRuns, jobName: scheduledJobs.name })
+      .from(jobRuns)
+      .innerJoin(scheduledJobs, eq(jobRuns.jobId, scheduledJobs.id))
+      .where(
+        and(eq(scheduledJobs.userId, userId), jobId ? eq(jobRuns.jobId, jobId) : undefined)
+      )
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+
+    return rows.map(({ run, jobName }) => toJobRun(run, jobName));
+  }
+
+  /**
+   * Run a job now, outside its schedule
+   * @returns The started run, or null if the job is missing
+   * @throws Error if a run of the job is still going
+   */
+  async run(userId: string, jobId: string): Promise<JobRun | null> {
+    const job = await this.findRow(userId, jobId);
+    if (!job) {
+      return null;
+    }
+
+    if (await this.isRunning(jobId)) {
+      throw new Error('Job already running');
+    }
+
+    return this.start(job, true);
+  }
+
+  /**
+   * Start every enabled job that is due and move it to its next time
+   * A job whose previous run is still going skips this time
+   * @returns The started runs
+   */
+  async runDue(now: Date = new Date()): Promise<JobRun[]> {
+    const due = await db
+      .select()
+      .from(scheduledJobs)
+      .where(and(eq(scheduledJobs.enabled, true), lte(scheduledJobs.nextRunAt, now)));
+
+    const started: JobRun[] = [];
+    for (const job of due) {
+      await db
+        .update(scheduledJobs)
+        .set({ nextRunAt: nextCronRun(parseCron(job.schedule), now) })
+        .where(eq(scheduledJobs.id, job.id));
+
+      if (await this.isRunning(job.id)) {
+        console.warn(`Skipping job ${job.id}: its previous run is still going`);
+        continue;
+      }
+
+      try {
+        started.push(await this.start(job, false));
+      } catch (error) {
+        console.error(`Job ${job.id} could not start:`, error);
+      }
+    }
+
+    return started;
+  }
+
+  /**
+   * Mark runs left going by a stopped server as failed
+   * @returns The number of runs marked
+   */
+  async failInterrupted(): Promise<number> {
+    const result = await db
+      .update(jobRuns)
+      .set({ status: 'failed', error: 'Interrupted by a server restart', finishedAt: new Date() })
+      .where(eq(jobRuns.status, 'running'))
+      .returning();
+
+    return result.length;
+  }
+
+  /**
+   * Create the run's session and start the turn; the run is updated when the turn ends
+   */
+  private async start(job: ScheduledJobRow, manual: boolean): Promise<JobRun> {
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, job.projectId),
+    });
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const session = await this.sessionsService.create(job.userId, {
+      projectPath: project.path,
+      ...(job.model && { model: job.model }),
+      metadata: { jobId: job.id },
+    });
+    await this.sessionsService.update(job.userId, session.id, {
+      title: job.name,
+      tags: [JOB_SESSION_TAG],
+    });
+    await this.policyService.setSessionPolicy(job.userId, session.id, job.policy);
+
+    const [row] = await db
+      .insert(jobRuns)
+      .values({ jobId: job.id, sessionId: session.id, manual })
+      .returning();
+
+    try {
+      const turn = await this.chatService.startTurn(
+        job.userId,
+        session.id,
+        { content: job.prompt },
+        undefined,
+        { unattended: true }
+      );
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.chatService
+          .interrupt(job.userId, session.id)
+          .catch((error) => console.error(`Could not stop job run ${row.id}:`, error));
+      }, this.runTimeoutMs);
+      timer.unref();
+
+      turn.completion
+        .then((message) => this.finish(row.id, this.outcomeOf(message, timedOut)))
+        .catch((error: Error) => this.finish(row.id, { status: 'failed', error: error.message }))
+        .catch((error) => console.error(`Could not record job run ${row.id}:`, error))
+        .finally(() => clearTimeout(timer));
+    } catch (error) {
+      // E.g. the budget is spent; the run still shows up as failed
+      const message = error instanceof Error ? error.message : String(error);
+      return toJobRun(await this.finish(row.id, { status: 'failed', error: message }), job.name);
+    }
+
+    return toJobRun(row, job.name);
+  }
+
+  private outcomeOf(message: ChatMessage, timedOut: boolean): RunOutcome {
+    const error = message.metadata?.error;
+    if (typeof error === 'string') {
+      return { status: 'failed', output: message.content, error };
+    }
+    if (message.metadata?.interrupted) {
+      const seconds = Math.round(this.runTimeoutMs / 1000);
+      const limit = seconds < 60 ? `${seconds} seconds` : `${Math.round(seconds / 60)} minutes`;
+      return {
+        status: 'failed',
+        output: message.content,
+        error: timedOut ? `Timed out after ${limit}` : 'Interrupted',
+      };
+    }
+    return { status: 'succeeded', output: message.content };
+  }
+
+  private async finish(runId: string, outcome: RunOutcome): Promise<JobRunRow> {
+    const [row] = await db
+      .update(jobRuns)
+      .set({ ...outcome, finishedAt: new Date() })
+      .where(eq(jobRuns.id, runId))
+      .returning();
+    return row;
+  }
+
+  private async isRunning(jobId: string): Promise<boolean> {
+    const running = await db.query.jobRuns.findFirst({
+      where: and(eq(jobRuns.jobId, jobId), eq(jobRuns.status, 'running')),
+    });
+    return Boolean(running);
+  }
+
+  private async findRow(userId: string, jobId: string): Promise<ScheduledJobRow | undefined> {
+    return db.query.scheduledJobs.findFirst({
+      where: and(eq(scheduledJobs.id, jobId), eq(scheduledJobs.userId, userId)),
+    });
+  }
+
+  private assertModel(model: string | undefined): void {
+    if (model && !modelRegistry.get(model)) {
+      throw new Error(`Unknown model: ${model}`);
+    }
+  }
+
+  private async assertProject(userId: string, projectId: string): Promise<void> {
+    const project = await db.query.projects.findFirst({
+      where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+    });
+    if (!project) {
+      throw new Error('Project not found');
+    }
+  }
+}
@@ -8,6 +8,7 @@ import type {
   MCPServerWithStatus,
   MCPServerStatus,
 } from '@gemini-ui/shared';
+import { eventBus } from '../../websocket/event-bus.js';
 
 /**
  * MCP Service handles MCP server configuration and process management
@@ -196,17 +197,24 @@ export function startServer(name: string, server: MCPServer): void {
 
   // Store the process
   runningProcesses.set(name, childProcess);
+  publishStatus(name, 'running');
 
   // Handle process exit
   childProcess.on('exit', (code: number | null) => {
     console.log(`MCP server '${name}' exited with code ${code}`);
-    runningProcesses.delete(name);
+    if (runningProcesses.get(name) === childProcess) {
+      runningProcesses.delete(name);
+      publishStatus(name, 'stopped');
+    }
   });
 
   // Handle errors
   childProcess.on('error', (error: Error) => {
     console.error(`MCP server '${name}' error:`, error);
-    runningProcesses.delete(name);
+    if (runningProcesses.get(name) === childProcess) {
+      runningProcesses.delete(name);
+      publishStatus(name, 'error');
+    }
   });
 }
 
@@ -222,6 +230,14 @@ export function stopServer(name: string): void {
 
   process.kill('SIGTERM');
   runningProcesses.delete(name);
+  publishStatus(name, 'stopped');
+}
+
+/**
+ * Notify realtime subscribers of a server status change
+ */
+function publishStatus(name: string, status: MCPServerStatus): void {
+  eventBus.publish('mcp', { type: 'mcp-status', name, status });
 }
 
 /**
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateToolCall,
+  globsOverlap,
+  launchApprovalMode,
+  launchToolSettings,
+  matchesGlob,
+  requiresApproval,
+  splitShellCommand,
+} from '../policy-engine.js';
+import { DEFAULT_EXECUTION_POLICY, type GeminiToolCall } from '@gemini-ui/shared';
+
+const projectPath = '/work/app';
+
+function toolCall(name: string, args: Record<string, unknown>): GeminiToolCall {
+  return { id: 't1', name, args, status: 'pending' };
+}
+
+describe('policy engine', () => {
+  it('should ask by default', () => {
+    const verdict = evaluateToolCall(
+      [DEFAULT_EXECUTION_POLICY],
+      toolCall('run_shell_command', { command: 'npm test' }),
+      projectPath
+    );
+
+    expect(verdict.decision).toBe('ask');
+  });
+
+  it('should auto-approve edits in auto_edit mode but still ask for commands', () => {
+    const policies = [{ ...DEFAULT_EXECUTION_POLICY, approvalMode: 'auto_edit' as const }];
+
+    expect(
+      evaluateToolCall(policies, toolCall('replace', { file_path: 'src/a.ts' }), projectPath).decision
+    ).toBe('allow');
+    expect(
+      evaluateToolCall(policies, toolCall('run_shell_command', { command: 'ls' }), projectPath)
+        .decision
+    ).toBe('ask');
+  });
+
+  it('should deny writes and commands in read-only mode', () => {
+    const policies = [{ ...DEFAULT_EXECUTION_POLICY, approvalMode: 'yolo' as const, readOnly: true }];
+
+    const verdict = evaluateToolCall(
+      policies,
+      toolCall('write_file', { file_path: 'a.txt', content: '' }),
+      projectPath
+    );
+
+    expect(verdict).toEqual({
+      decision: 'deny',
+      reason: 'write_file is not allowed in read-only mode',
+    });
+  });
+
+  it('should check every command of a compound shell line', () => {
+    const policies = [
+      { ...DEFAULT_EXECUTION_POLICY, approvalMode: 'yolo' as const, allowedCommands: ['git status', 'ls'] },
+    ];
+
+    expect(
+      evaluateToolCall(policies, toolCall('run_shell_command', { command: 'ls -la && git status' }), projectPath)
+        .decision
+    ).toBe('allow');
+    expect(
+      evaluateToolCall(policies, toolCall('run_shell_command', { command: 'ls; rm -rf /' }), projectPath)
+    ).toEqual({ decision: 'deny', reason: "Command 'rm -rf /' is not in the allowlist" });
+    expect(
+      evaluateToolCall(policies, toolCall('run_shell_command', { command: 'ls $(rm x)' }), projectPath)
+        .decision
+    ).toBe('deny');
+  });
+
+  it('should let denied commands win over yolo mode', () => {
+    const policies = [
+      { ...DEFAULT_EXECUTION_POLICY, approvalMode: 'yolo' as const, deniedCommands: ['git push'] },
+    ];
+
+    const verdict = evaluateToolCall(
+      policies,
+      toolCall('run_shell_command', { command: 'git push --force origin main' }),
+      projectPath
+    );
+
+    expect(verdict.decision).toBe('deny');
+  });
+
+  it('should enforce path globs relative to the project', () => {
+    const policies = [
+      {
+        ...DEFAULT_EXECUTION_POLICY,
+        approvalMode: 'yolo' as const,
+        allowedPaths: ['src/**'],
+        deniedPaths: ['*.env'],
+      },
+    ];
+
+    const check = (filePath: string) =>
+      evaluateToolCall(policies, toolCall('write_file', { file_path: filePath }), projectPath).decision;
+
+    expect(check('/work/app/src/index.ts')).toBe('allow');
+    expect(check('src/config/.env')).toBe('deny');
+    expect(check('package.json')).toBe('deny');
+    expect(check('/etc/passwd')).toBe('deny');
+  });
+
+  it('should check every path and glob of multi-file tools', () => {
+    const policies = [
+      {
+        ...DEFAULT_EXECUTION_POLICY,
+        approvalMode: 'yolo' as const,
+        deniedPaths: ['.env', 'secrets/**'],
+      },
+    ];
+    const check = (name: string, args: Record<string, unknown>) =>
+      evaluateToolCall(policies, toolCall(name, args), projectPath).decision;
+
+    expect(check('read_many_files', { paths: ['README.md', '.env'] })).toBe('deny');
+    expect(check('read_many_files', { paths: ['README.md'], include: ['docs/*.md'] })).toBe('allow');
+    expect(check('read_many_files', { include: ['config/{app,.env}'] })).toBe('deny');
+    expect(check('read_many_files', { include: ['config/[.]env'] })).toBe('deny');
+
+    expect(check('glob', { pattern: '*.ts', dir_path: 'src' })).toBe('allow');
+    expect(check('glob', { pattern: '**/*.ts' })).toBe('deny');
+    expect(check('glob', { pattern: '*', dir_path: 'secrets' })).toBe('deny');
+
+    // The search pattern is matched against file contents, not paths
+    expect(check('search_file_content', { pattern: '.env', include: '*.ts' })).toBe('allow');
+    expect(check('search_file_content', { pattern: 'KEY', include: '*.env*' })).toBe('deny');
+  });
+
+  it('should never let a session policy loosen the project policy', () => {
+    const project = { ...DEFAULT_EXECUTION_POLICY, readOnly: true };
+    const session = { ...DEFAULT_EXECUTION_POLICY, approvalMode: 'yolo' as const };
+
+    const verdict = evaluateToolCall(
+      [project, session],
+      toolCall('run_shell_command', { command: 'ls' }),
+      projectPath
+    );
+
+    expect(verdict.decision).toBe('deny');
+    expect(launchApprovalMode([project, session])).toBe('default');
+  });
+
+  it('should launch unrestricted policies in their own mode', () => {
+    expect(launchApprovalMode([{ ...DEFAULT_EXECUTION_POLICY, approvalMode: 'yolo' }])).toBe('yolo');
+    expect(
+      launchApprovalMode([
+        { ...DEFAULT_EXECUTION_POLICY, approvalMode: 'yolo' },
+        { ...DEFAULT_EXECUTION_POLICY, approvalMode: 'auto_edit' },
+      ])
+    ).toBe('auto_edit');
+  });
+
+  it('should only pre-approve tools no policy could deny a call of', () => {
+    const yolo = { ...DEFAULT_EXECUTION_POLICY, approvalMode: 'yolo' as const };
+
+    // Path rules leave every tool but the shell to evaluateToolCall
+    expect(launchToolSettings([{ ...yolo, deniedPaths: ['.env'] }], ['my_mcp_tool'])).toEqual({
+      allowed: ['run_shell_command'],
+      exclude: [],
+    });
+    expect(
+      launchToolSettings([{ ...yolo, deniedCommands: ['git push', 'rm *'] }], ['my_mcp_tool'])
+    ).toEqual({
+      allowed: ['write_file', 'replace', 'my_mcp_tool'],
+      exclude: ['run_shell_command(git push)'],
+    });
+    expect(
+      launchToolSettings([{ ...DEFAULT_EXECUTION_POLICY, readOnly: true }], ['write_file'])
+    ).toEqual({
+      allowed: [],
+      exclude: ['write_file', 'replace', 'run_shell_command'],
+    });
+  });
+
+  it('should tell which tool calls the CLI needed approval for', () => {
+    const tools = { allowed: ['write_file', 'run_shell_command(git status)'], exclude: [] };
+    const shell = (command: string) => toolCall('run_shell_command', { command });
+
+    expect(requiresApproval(toolCall('replace', {}), 'default', tools)).toBe(true);
+    expect(requiresApproval(toolCall('replace', {}), 'auto_edit', tools)).toBe(false);
+    expect(requiresApproval(toolCall('write_file', {}), 'default', tools)).toBe(false);
+    expect(requiresApproval(toolCall('read_file', {}), 'default', tools)).toBe(false);
+    expect(requiresApproval(shell('git status -s'), 'default', tools)).toBe(false);
+    expect(requiresApproval(shell('git status && git push'), 'default', tools)).toBe(true);
+    expect(requiresApproval(shell('rm -rf build'), 'yolo', tools)).toBe(false);
+  });
+
+  it('should split shell lines without breaking redirections', () => {
+    expect(splitShellCommand('npm test 2>&1 | tee log && echo done')).toEqual([
+      'npm test 2>&1',
+      'tee log',
+      'echo done',
+    ]);
+  });
+
+  it('should match file name globs at any depth', () => {
+    expect(matchesGlob('a/b/secrets.env', '*.env')).toBe(true);
+    expect(matchesGlob('src/a.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('lib/a.ts', 'src/**')).toBe(false);
+  });
+
+  it('should tell whether a glob can reach a denied path', () => {
+    expect(globsOverlap('src/*', '*.pem')).toBe(true);
+    expect(globsOverlap('**/*.ts', 'secrets/**')).toBe(true);
+    expect(globsOverlap('src/**/*.ts', 'secrets/**')).toBe(false);
+    expect(globsOverlap('src/?.ts', 'src/a*')).toBe(true);
+    expect(globsOverlap('src/*.ts', '*.pem')).toBe(false);
+  });
+});
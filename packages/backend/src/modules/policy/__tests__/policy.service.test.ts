@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PolicyService } from '../policy.service.js';
+import { evaluateToolCall, launchApprovalMode } from '../policy-engine.js';
+import { db } from '../../../db/index.js';
+import { users, projects, sessions } from '../../../db/schema.js';
+import { DEFAULT_EXECUTION_POLICY } from '@gemini-ui/shared';
+
+describe('PolicyService', () => {
+  let policyService: PolicyService;
+  let testUserId: string;
+  let testProjectId: string;
+  let testSessionId: string;
+
+  beforeEach(async () => {
+    policyService = new PolicyService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'policyuser', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+
+    const [project] = await db
+      .insert(projects)
+      .values({ userId: testUserId, name: 'Prod', path: '/srv/prod' })
+      .returning();
+    testProjectId = project.id;
+
+    const [session] = await db
+      .insert(sessions)
+      .values({ userId: testUserId, projectPath: '/srv/prod' })
+      .returning();
+    testSessionId = session.id;
+  });
+
+  it('should return the default policy when none is configured', async () => {
+    const policy = await policyService.getProjectPolicy(testUserId, testProjectId);
+
+    expect(policy).toEqual(DEFAULT_EXECUTION_POLICY);
+  });
+
+  it('should store and replace a project policy', async () => {
+    await policyService.setProjectPolicy(testUserId, testProjectId, { approvalMode: 'yolo' });
+    const policy = await policyService.setProjectPolicy(testUserId, testProjectId, {
+      readOnly: true,
+      deniedCommands: ['rm'],
+    });
+
+    expect(policy).toEqual({ ...DEFAULT_EXECUTION_POLICY, readOnly: true, deniedCommands: ['rm'] });
+    expect(await policyService.getProjectPolicy(testUserId, testProjectId)).toEqual(policy);
+  });
+
+  it('should resolve project and session policies for a chat session', async () => {
+    await policyService.setProjectPolicy(testUserId, testProjectId, { readOnly: true });
+    await policyService.setSessionPolicy(testUserId, testSessionId, { approvalMode: 'auto_edit' });
+
+    const resolved = await policyService.resolveForSession(testUserId, {
+      id: testSessionId,
+      projectPath: '/srv/prod',
+    });
+
+    expect(resolved.map((policy) => policy.readOnly)).toEqual([true, false]);
+    expect(resolved[1].approvalMode).toBe('auto_edit');
+  });
+
+  it('should keep an enforced user policy whatever the user sets themselves', async () => {
+    await policyService.setUserPolicy(testUserId, { readOnly: true, deniedCommands: ['git push'] });
+
+    // The user tries to loosen their project and session
+    await policyService.setProjectPolicy(testUserId, testProjectId, { approvalMode: 'yolo' });
+    await policyService.setSessionPolicy(testUserId, testSessionId, {
+      approvalMode: 'yolo',
+      allowedCommands: ['git push'],
+    });
+
+    const resolved = await policyService.resolveForSession(testUserId, {
+      id: testSessionId,
+      projectPath: '/srv/prod',
+    });
+    expect(resolved[0]).toMatchObject({ readOnly: true, deniedCommands: ['git push'] });
+    expect(launchApprovalMode(resolved)).toBe('default');
+    const push = {
+      id: 'push-1',
+      name: 'run_shell_command',
+      args: { command: 'git push' },
+      status: 'pending' as const,
+    };
+    expect(evaluateToolCall(resolved, push, '/srv/prod').decision).toBe('deny');
+    expect(await policyService.getUserPolicy(testUserId)).toMatchObject({ readOnly: true });
+  });
+
+  it('should stop enforcing a user policy once it is removed', async () => {
+    await policyService.setUserPolicy(testUserId, { readOnly: true });
+    await policyService.setUserPolicy(testUserId, null);
+
+    expect(await policyService.getUserPolicy(testUserId)).toBeNull();
+    const resolved = await policyService.resolveForSession(testUserId, {
+      id: testSessionId,
+      projectPath: '/srv/prod',
+    });
+    expect(resolved).toEqual([DEFAULT_EXECUTION_POLICY]);
+  });
+
+  it('should reject projects of other users', async () => {
+    const [other] = await db
+      .insert(users)
+      .values({ username: 'intruder', passwordHash: 'hashedpassword' })
+      .returning();
+
+    await expect(
+      policyService.setProjectPolicy(other.id, testProjectId, { approvalMode: 'yolo' })
+    ).rejects.toThrow('Project not found');
+  });
+});
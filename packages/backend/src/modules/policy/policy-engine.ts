@@ -0,0 +1,424 @@
+import path from 'path';
+import {
+  APPROVAL_MODES,
+  type ApprovalMode,
+  type ExecutionPolicy,
+  type GeminiToolCall,
+} from '@gemini-ui/shared';
+
+/**
+ * Policy engine decides how Gemini CLI tool calls are handled
+ *
+ * Every applicable policy (project, then session) is checked and the
+ * strictest outcome wins, so a session can tighten but never loosen
+ * its project's policy.
+ *
+ * The headless CLI cannot ask before running a tool: it only runs tools that
+ * need approval when its settings allow them, and refuses the rest. Policies
+ * are turned into those settings before launch (launchToolSettings), and a
+ * refused call is checked here before the user is asked to allow it.
+ * Read-only tools never need approval, so path rules only gate the others.
+ */
+
+/**
+ * Outcome of checking a tool call against the execution policies
+ */
+export interface PolicyVerdict {
+  decision: 'allow' | 'ask' | 'deny';
+  reason?: string;
+}
+
+// Built-in tools that only read from the workspace or the web
+const READ_TOOLS = new Set([
+  'read_file',
+  'read_many_files',
+  'list_directory',
+  'glob',
+  'search_file_content',
+  'google_web_search',
+  'web_fetch',
+]);
+
+/**
+ * Tool settings the CLI is launched with
+ * `allowed` entries are tool names or `run_shell_command(<command prefix>)`
+ */
+export interface ToolSettings {
+  /** Tools that run without approval */
+  allowed: string[];
+  /** Tools that never run */
+  exclude: string[];
+}
+
+// Built-in tools that modify files
+const EDIT_TOOLS = new Set(['write_file', 'replace']);
+
+const SHELL_TOOL = 'run_shell_command';
+
+// Tool arguments that carry a file system path
+const PATH_ARGS = ['file_path', 'absolute_path', 'path', 'dir_path', 'directory'];
+
+// Arguments of the multi-file tools that carry globs or lists of paths and globs
+const GLOB_ARGS: Record<string, string[]> = {
+  read_many_files: ['paths', 'include'],
+  glob: ['pattern'],
+  // Its `pattern` is a regular expression over file contents, not a path
+  search_file_content: ['include'],
+};
+
+// Directory arguments the globs are relative to
+const DIRECTORY_ARGS = ['dir_path', 'path', 'directory'];
+
+/**
+ * Pick the most restrictive approval mode
+ */
+export function strictestApprovalMode(policies: ExecutionPolicy[]): ApprovalMode {
+  const index = Math.min(...policies.map((policy) => APPROVAL_MODES.indexOf(policy.approvalMode)));
+  return APPROVAL_MODES[Number.isFinite(index) ? index : 0];
+}
+
+/**
+ * Approval mode to launch the CLI with
+ * Any restriction forces `default` so the CLI refuses every call that needs approval
+ * unless launchToolSettings allows it
+ */
+export function launchApprovalMode(policies: ExecutionPolicy[]): ApprovalMode {
+  const restricted = policies.some(
+    (policy) =>
+      policy.readOnly ||
+      policy.allowedCommands.length > 0 ||
+      policy.deniedCommands.length > 0 ||
+      policy.allowedPaths.length > 0 ||
+      policy.deniedPaths.length > 0
+  );
+  return restricted ? 'default' : strictestApprovalMode(policies);
+}
+
+/**
+ * Tool settings that keep the CLI within the policies
+ * Tools approved for the session, or by the approval mode, run without approval unless a
+ * policy could deny some of their calls; those are left for evaluateToolCall.
+ */
+export function launchToolSettings(
+  policies: ExecutionPolicy[],
+  approvedTools: string[] = []
+): ToolSettings {
+  const mode = strictestApprovalMode(policies);
+  const byMode =
+    mode === 'yolo' ? [SHELL_TOOL, ...EDIT_TOOLS] : mode === 'auto_edit' ? [...EDIT_TOOLS] : [];
+  const allowed = [...new Set([...byMode, ...approvedTools])].filter(
+    (tool) => !policies.some((policy) => restricts(policy, tool))
+  );
+
+  const exclude = new Set<string>();
+  for (const policy of policies) {
+    if (policy.readOnly) {
+      [...EDIT_TOOLS, SHELL_TOOL].forEach((tool) => exclude.add(tool));
+    }
+    // The CLI matches commands by prefix, which cannot express `*` words
+    policy.deniedCommands
+      .filter((pattern) => !pattern.split(/\s+/).includes('*'))
+      .forEach((pattern) => exclude.add(`${SHELL_TOOL}(${pattern.trim()})`));
+  }
+
+  return { allowed, exclude: [...exclude] };
+}
+
+/**
+ * Check whether a policy could deny some call of a tool
+ */
+function restricts(policy: ExecutionPolicy, tool: string): boolean {
+  if (policy.readOnly && !READ_TOOLS.has(tool)) {
+    return true;
+  }
+  if (tool === SHELL_TOOL) {
+    return policy.allowedCommands.length > 0 || policy.deniedCommands.length > 0;
+  }
+  return policy.allowedPaths.length > 0 || policy.deniedPaths.length > 0;
+}
+
+/**
+ * Check whether the CLI needed approval to run a tool call
+ * A call that needed approval and failed was refused by the CLI.
+ */
+export function requiresApproval(
+  toolCall: GeminiToolCall,
+  approvalMode: ApprovalMode,
+  tools: ToolSettings
+): boolean {
+  if (approvalMode === 'yolo' || READ_TOOLS.has(toolCall.name)) {
+    return false;
+  }
+  if (approvalMode === 'auto_edit' && EDIT_TOOLS.has(toolCall.name)) {
+    return false;
+  }
+  if (tools.allowed.includes(toolCall.name)) {
+    return false;
+  }
+
+  const command = toolCall.args.command;
+  if (toolCall.name === SHELL_TOOL && typeof command === 'string') {
+    const prefixes = tools.allowed
+      .map((entry) => entry.match(/^run_shell_command\((.+)\)$/)?.[1])
+      .filter((prefix): prefix is string => prefix !== undefined);
+    return !splitShellCommand(command).every((segment) =>
+      prefixes.some((prefix) => matchesCommand(segment, prefix))
+    );
+  }
+  return true;
+}
+
+/**
+ * Check a tool call before it is allowed to run
+ */
+export function evaluateToolCall(
+  policies: ExecutionPolicy[],
+  toolCall: GeminiToolCall,
+  projectPath: string
+): PolicyVerdict {
+  for (const policy of policies) {
+    const reason = findViolation(policy, toolCall, projectPath);
+    if (reason) {
+      return { decision: 'deny', reason };
+    }
+  }
+
+  const mode = strictestApprovalMode(policies);
+  if (mode === 'yolo') {
+    return { decision: 'allow', reason: 'Allowed by yolo mode' };
+  }
+  if (mode === 'auto_edit' && EDIT_TOOLS.has(toolCall.name)) {
+    return { decision: 'allow', reason: 'Allowed by auto-edit mode' };
+  }
+  return { decision: 'ask' };
+}
+
+/**
+ * Describe why a tool call breaks a policy, if it does
+ */
+function findViolation(
+  policy: ExecutionPolicy,
+  toolCall: GeminiToolCall,
+  projectPath: string
+): string | undefined {
+  if (policy.readOnly && !READ_TOOLS.has(toolCall.name)) {
+    return `${toolCall.name} is not allowed in read-only mode`;
+  }
+
+  if (toolCall.name === SHELL_TOOL && typeof toolCall.args.command === 'string') {
+    const reason = checkCommand(policy, toolCall.args.command);
+    if (reason) return reason;
+  }
+
+  for (const target of pathTargets(toolCall)) {
+    const reason = checkPath(policy, target, projectPath);
+    if (reason) return reason;
+  }
+
+  return undefined;
+}
+
+/**
+ * Every path and glob a tool call reaches, as the tool resolves them
+ */
+function pathTargets(toolCall: GeminiToolCall): string[] {
+  const isString = (value: unknown): value is string => typeof value === 'string';
+  const targets = PATH_ARGS.map((arg) => toolCall.args[arg]).filter(isString);
+
+  const directory = DIRECTORY_ARGS.map((arg) => toolCall.args[arg]).find(isString) ?? '.';
+  for (const arg of GLOB_ARGS[toolCall.name] ?? []) {
+    const value = toolCall.args[arg];
+    for (const glob of (Array.isArray(value) ? value : [value]).filter(isString)) {
+      for (const expanded of expandBraces(glob)) {
+        // Character classes are checked as if they could match any character
+        const normalized = expanded.replace(/\[[^\]]*\]/g, '?');
+        targets.push(path.isAbsolute(normalized) ? normalized : path.join(directory, normalized));
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Expand `{a,b}` alternatives, innermost first, as the CLI's glob matching does
+ */
+function expandBraces(glob: string): string[] {
+  const match = /\{([^{}]*)\}/.exec(glob);
+  if (!match) {
+    return [glob];
+  }
+  const before = glob.slice(0, match.index);
+  const after = glob.slice(match.index + match[0].length);
+  return match[1].split(',').flatMap((option) => expandBraces(before + option + after));
+}
+
+/**
+ * Check every command in a shell line against the command lists
+ */
+function checkCommand(policy: ExecutionPolicy, command: string): string | undefined {
+  const segments = splitShellCommand(command);
+
+  for (const segment of segments) {
+    const denied = policy.deniedCommands.find((pattern) => matchesCommand(segment, pattern));
+    if (denied) {
+      return `Command '${segment}' matches denied pattern '${denied}'`;
+    }
+  }
+
+  if (policy.allowedCommands.length > 0) {
+    // Substitutions could run anything, so they cannot be checked against an allowlist
+    if (/\$\(|`/.test(command)) {
+      return 'Command substitution is not allowed with a command allowlist';
+    }
+    const unlisted = segments.find(
+      (segment) => !policy.allowedCommands.some((pattern) => matchesCommand(segment, pattern))
+    );
+    if (unlisted) {
+      return `Command '${unlisted}' is not in the allowlist`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a tool path or glob against the path globs
+ * A glob is denied if any path it could match is.
+ */
+function checkPath(policy: ExecutionPolicy, target: string, projectPath: string): string | undefined {
+  const relative = path.relative(projectPath, path.resolve(projectPath, target)) || '.';
+  const outside = relative.startsWith('..') || path.isAbsolute(relative);
+  const reaches = /[*?]/.test(relative) ? globsOverlap : matchesGlob;
+
+  const denied = policy.deniedPaths.find((pattern) => reaches(relative, pattern));
+  if (denied) {
+    return `Path '${relative}' matches denied pattern '${denied}'`;
+  }
+
+  if (policy.allowedPaths.length > 0) {
+    if (outside || !policy.allowedPaths.some((pattern) => matchesGlob(relative, pattern))) {
+      return `Path '${relative}' is not in the allowlist`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Split a shell line into the individual commands it runs
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    // `&` is a separator except in redirections such as `2>&1` and `&>`
+    .split(/&&|\|\||[;|\n]|(?<![<>])&(?!>)/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Match a command by its leading words (`git status` matches `git status -s`)
+ */
+export function matchesCommand(command: string, pattern: string): boolean {
+  const words = command.split(/\s+/);
+  const patternWords = pattern.trim().split(/\s+/);
+  return patternWords.every((word, index) => word === '*' || words[index] === word);
+}
+
+/**
+ * Match a project-relative path against a glob
+ * Patterns without a slash match the file name at any depth, like .gitignore
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  const target = pattern.includes('/') ? normalized : path.posix.basename(normalized);
+  return globToRegExp(pattern.replace(/^\.\//, '')).test(target);
+}
+
+/**
+ * Check whether a project-relative glob can match a path that a policy glob matches
+ */
+export function globsOverlap(glob: string, pattern: string): boolean {
+  const normalized = pattern.replace(/^\.\//, '');
+  // As in matchesGlob, patterns without a slash match the file name at any depth
+  const full = normalized.includes('/') ? normalized : `**/${normalized}`;
+  const segments = (value: string) => value.split('/');
+
+  return sequencesOverlap(
+    segments(glob.split(path.sep).join('/')),
+    segments(full),
+    (segment) => segment === '**',
+    (a, b) =>
+      sequencesOverlap(
+        [...a],
+        [...b],
+        (char) => char === '*',
+        (x, y) => x === y || x === '?' || y === '?'
+      )
+  );
+}
+
+/**
+ * Check whether two wildcard sequences can match a common sequence
+ * Used for path segments (with `**`) and for the characters of a segment (with `*`).
+ */
+function sequencesOverlap<T>(
+  a: T[],
+  b: T[],
+  isStar: (item: T) => boolean,
+  itemsOverlap: (x: T, y: T) => boolean
+): boolean {
+  const visited = new Set<string>();
+
+  const visit = (i: number, j: number): boolean => {
+    if (i === a.length && j === b.length) return true;
+    const key = `${i},${j}`;
+    if (visited.has(key)) return false;
+    visited.add(key);
+
+    // A star matches nothing, or takes over the other side's next item
+    if (i < a.length && isStar(a[i])) {
+      if (visit(i + 1, j) || (j < b.length && visit(i, j + 1))) return true;
+    }
+    if (j < b.length && isStar(b[j])) {
+      if (visit(i, j + 1) || (i < a.length && visit(i + 1, j))) return true;
+    }
+    return (
+      i < a.length &&
+      j < b.length &&
+      !isStar(a[i]) &&
+      !isStar(b[j]) &&
+      itemsOverlap(a[i], b[j]) &&
+      visit(i + 1, j + 1)
+    );
+  };
+
+  return visit(0, 0);
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`) to an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
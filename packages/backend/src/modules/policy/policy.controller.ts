@@ -0,0 +1,98 @@
+import type { Response, NextFunction } from 'express';
+import { PolicyService } from './policy.service.js';
+import { ExecutionPolicySchema, type ApiResponse } from '@gemini-ui/shared';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * Policy controller for the policies admins enforce on users
+ * Project and session policies are served by their own modules
+ */
+export class PolicyController {
+  private policyService = new PolicyService();
+
+  /**
+   * Get the policy enforced on the current user (null if none)
+   * GET /api/policies/me
+   */
+  getOwnPolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const policy = await this.policyService.getUserPolicy(req.user.id);
+
+      res.json({
+        success: true,
+        data: policy,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get the policy enforced on a user (null if none)
+   * GET /api/policies/users/:id
+   */
+  getUserPolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const policy = await this.policyService.getUserPolicy(userId);
+
+      res.json({
+        success: true,
+        data: policy,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        return next(new AppError(404, error.message, 'USER_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Enforce a policy on a user
+   * PUT /api/policies/users/:id
+   */
+  updateUserPolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = ExecutionPolicySchema.parse(req.body);
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const policy = await this.policyService.setUserPolicy(userId, input);
+
+      res.json({
+        success: true,
+        data: policy,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        return next(new AppError(404, error.message, 'USER_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Stop enforcing a policy on a user
+   * DELETE /api/policies/users/:id
+   */
+  deleteUserPolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      await this.policyService.setUserPolicy(userId, null);
+
+      res.json({
+        success: true,
+        data: null,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        return next(new AppError(404, error.message, 'USER_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { PolicyController } from './policy.controller.js';
+import { requireAdmin, requireAuth } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+const policyController = new PolicyController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/policies/me
+ * Get the policy enforced on the current user
+ */
+router.get('/me', policyController.getOwnPolicy);
+
+/**
+ * GET /api/policies/users/:id
+ * Get the policy enforced on a user (admin only)
+ */
+router.get('/users/:id', requireAdmin, policyController.getUserPolicy);
+
+/**
+ * PUT /api/policies/users/:id
+ * Enforce a policy on a user (admin only)
+ */
+router.put('/users/:id', requireAdmin, policyController.updateUserPolicy);
+
+/**
+ * DELETE /api/policies/users/:id
+ * Stop enforcing a policy on a user (admin only)
+ */
+router.delete('/users/:id', requireAdmin, policyController.deleteUserPolicy);
+
+export default router;
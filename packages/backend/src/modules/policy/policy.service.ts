@@ -0,0 +1,194 @@
+import { db } from '../../db/index.js';
+import {
+  executionPolicies,
+  projects,
+  sessions,
+  users,
+  type ExecutionPolicyRow,
+} from '../../db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import {
+  DEFAULT_EXECUTION_POLICY,
+  type ExecutionPolicy,
+  type ExecutionPolicyInput,
+  ExecutionPolicySchema,
+} from '@gemini-ui/shared';
+
+/**
+ * Convert a database row to an ExecutionPolicy
+ */
+function toPolicy(row: ExecutionPolicyRow): ExecutionPolicy {
+  return {
+    approvalMode: row.approvalMode,
+    readOnly: row.readOnly,
+    allowedCommands: row.allowedCommands,
+    deniedCommands: row.deniedCommands,
+    allowedPaths: row.allowedPaths,
+    deniedPaths: row.deniedPaths,
+  };
+}
+
+/**
+ * Execution policy service layer
+ */
+export class PolicyService {
+  /**
+   * Get a project's policy (the default policy if none is configured)
+   * @throws Error if the project does not belong to the user
+   */
+  async getProjectPolicy(userId: string, projectId: string): Promise<ExecutionPolicy> {
+    await this.assertProject(userId, projectId);
+
+    const row = await db.query.executionPolicies.findFirst({
+      where: eq(executionPolicies.projectId, projectId),
+    });
+    return row ? toPolicy(row) : DEFAULT_EXECUTION_POLICY;
+  }
+
+  /**
+   * Replace a project's policy
+   * @throws Error if the project does not belong to the user
+   */
+  async setProjectPolicy(
+    userId: string,
+    projectId: string,
+    input: ExecutionPolicyInput
+  ): Promise<ExecutionPolicy> {
+    await this.assertProject(userId, projectId);
+
+    const policy = ExecutionPolicySchema.parse(input);
+    const [row] = await db
+      .insert(executionPolicies)
+      .values({ userId, projectId, ...policy })
+      .onConflictDoUpdate({
+        target: executionPolicies.projectId,
+        set: { ...policy, updatedAt: new Date() },
+      })
+      .returning();
+
+    return toPolicy(row);
+  }
+
+  /**
+   * Get a session's own policy (the default policy if none is configured)
+   * @throws Error if the session does not belong to the user
+   */
+  async getSessionPolicy(userId: string, sessionId: string): Promise<ExecutionPolicy> {
+    await this.assertSession(userId, sessionId);
+
+    const row = await db.query.executionPolicies.findFirst({
+      where: eq(executionPolicies.sessionId, sessionId),
+    });
+    return row ? toPolicy(row) : DEFAULT_EXECUTION_POLICY;
+  }
+
+  /**
+   * Replace a session's policy
+   * @throws Error if the session does not belong to the user
+   */
+  async setSessionPolicy(
+    userId: string,
+    sessionId: string,
+    input: ExecutionPolicyInput
+  ): Promise<ExecutionPolicy> {
+    await this.assertSession(userId, sessionId);
+
+    const policy = ExecutionPolicySchema.parse(input);
+    const [row] = await db
+      .insert(executionPolicies)
+      .values({ userId, sessionId, ...policy })
+      .onConflictDoUpdate({
+        target: executionPolicies.sessionId,
+        set: { ...policy, updatedAt: new Date() },
+      })
+      .returning();
+
+    return toPolicy(row);
+  }
+
+  /**
+   * Get the policy an admin enforces on a user
+   * @returns null if none is enforced
+   * @throws Error if the user does not exist
+   */
+  async getUserPolicy(userId: string): Promise<ExecutionPolicy | null> {
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user.executionPolicy ?? null;
+  }
+
+  /**
+   * Enforce a policy on every session of a user, or stop enforcing one (admin only)
+   * The user cannot change it, and their own policies can only add restrictions to it.
+   * @throws Error if the user does not exist
+   */
+  async setUserPolicy(
+    userId: string,
+    input: ExecutionPolicyInput | null
+  ): Promise<ExecutionPolicy | null> {
+    const policy = input && ExecutionPolicySchema.parse(input);
+    const [user] = await db
+      .update(users)
+      .set({ executionPolicy: policy, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user.executionPolicy ?? null;
+  }
+
+  /**
+   * All policies that apply to a chat session: the one enforced on its user, its project's,
+   * then its own
+   * Falls back to the default policy when none is configured
+   */
+  async resolveForSession(
+    userId: string,
+    session: { id: string; projectPath: string }
+  ): Promise<ExecutionPolicy[]> {
+    const project = await db.query.projects.findFirst({
+      where: and(eq(projects.userId, userId), eq(projects.path, session.projectPath)),
+    });
+
+    const resolved: ExecutionPolicy[] = [];
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+    if (user?.executionPolicy) resolved.push(user.executionPolicy);
+
+    if (project) {
+      const row = await db.query.executionPolicies.findFirst({
+        where: eq(executionPolicies.projectId, project.id),
+      });
+      if (row) resolved.push(toPolicy(row));
+    }
+
+    const sessionRow = await db.query.executionPolicies.findFirst({
+      where: eq(executionPolicies.sessionId, session.id),
+    });
+    if (sessionRow) resolved.push(toPolicy(sessionRow));
+
+    return resolved.length > 0 ? resolved : [DEFAULT_EXECUTION_POLICY];
+  }
+
+  private async assertProject(userId: string, projectId: string): Promise<void> {
+    const project = await db.query.projects.findFirst({
+      where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+    });
+    if (!project) {
+      throw new Error('Project not found');
+    }
+  }
+
+  private async assertSession(userId: string, sessionId: string): Promise<void> {
+    const session = await db.query.sessions.findFirst({
+      where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
+    });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+  }
+}
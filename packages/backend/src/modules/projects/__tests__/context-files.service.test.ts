@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ContextFilesService } from '../context-files.service.js';
+import { db } from '../../../db/index.js';
+import { users, projects } from '../../../db/schema.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+describe('ContextFilesService', () => {
+  let contextFilesService: ContextFilesService;
+  let tmpDir: string;
+  let repoRoot: string;
+  let projectRoot: string;
+  let testUserId: string;
+  let testProjectId: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-context-'));
+    const geminiHome = path.join(tmpDir, '.gemini');
+    repoRoot = path.join(tmpDir, 'repo');
+    projectRoot = path.join(repoRoot, 'packages', 'app');
+    await fs.mkdir(geminiHome);
+    await fs.mkdir(path.join(repoRoot, '.git'), { recursive: true });
+    await fs.mkdir(path.join(projectRoot, 'src', 'api'), { recursive: true });
+    await fs.mkdir(path.join(projectRoot, 'node_modules', 'lib'), { recursive: true });
+
+    await fs.writeFile(path.join(geminiHome, 'GEMINI.md'), 'Answer briefly.');
+    await fs.writeFile(path.join(repoRoot, 'GEMINI.md'), 'Monorepo rules.');
+    await fs.writeFile(path.join(projectRoot, 'src', 'api', 'GEMINI.md'), 'Use zod.\n');
+    await fs.writeFile(path.join(projectRoot, 'node_modules', 'lib', 'GEMINI.md'), 'Ignored');
+
+    contextFilesService = new ContextFilesService(geminiHome);
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'contextuser', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+
+    const [project] = await db
+      .insert(projects)
+      .values({ userId: testUserId, name: 'App', path: projectRoot })
+      .returning();
+    testProjectId = project.id;
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should list context files in load order', async () => {
+    const context = await contextFilesService.getContext(testUserId, testProjectId);
+
+    const globalPath = path.join(tmpDir, '.gemini', 'GEMINI.md');
+    expect(context.files).toMatchObject([
+      { displayPath: globalPath, scope: 'global', exists: true },
+      { displayPath: '../../GEMINI.md', scope: 'ancestor', exists: true },
+      { displayPath: 'GEMINI.md', scope: 'project', exists: false },
+      { displayPath: 'src/api/GEMINI.md', scope: 'subdirectory', exists: true },
+    ]);
+    expect(context.files[3]).toMatchObject({ content: 'Use zod.\n', tokens: 3 });
+  });
+
+  it('should merge the files the way the CLI sends them', async () => {
+    const context = await contextFilesService.getContext(testUserId, testProjectId);
+
+    const globalPath = path.join(tmpDir, '.gemini', 'GEMINI.md');
+    const block = (source: string, text: string) =>
+      `--- Context from: ${source} ---\n${text}\n--- End of Context from: ${source} ---`;
+    expect(context.merged).toBe(
+      [
+        block(globalPath, 'Answer briefly.'),
+        block('../../GEMINI.md', 'Monorepo rules.'),
+        block('src/api/GEMINI.md', 'Use zod.'),
+      ].join('\n\n')
+    );
+    expect(context.tokens).toBe(Math.ceil(context.merged.length / 4));
+  });
+
+  it('should create and edit context files', async () => {
+    const rootFile = path.join(projectRoot, 'GEMINI.md');
+    const context = await contextFilesService.write(testUserId, testProjectId, {
+      path: rootFile,
+      content: 'Run npm test before committing.',
+    });
+
+    expect(await fs.readFile(rootFile, 'utf8')).toBe('Run npm test before committing.');
+    expect(context.files.find((file) => file.scope === 'project')).toMatchObject({
+      exists: true,
+      content: 'Run npm test before committing.',
+    });
+    expect(context.merged).toContain('--- Context from: GEMINI.md ---');
+
+    await contextFilesService.write(testUserId, testProjectId, {
+      path: path.join(repoRoot, 'GEMINI.md'),
+      content: 'Updated rules.',
+    });
+    expect(await fs.readFile(path.join(repoRoot, 'GEMINI.md'), 'utf8')).toBe('Updated rules.');
+  });
+
+  it('should only write context files of the project', async () => {
+    await expect(
+      contextFilesService.write(testUserId, testProjectId, {
+        path: path.join(projectRoot, 'src', 'index.ts'),
+        content: 'hacked',
+      })
+    ).rejects.toThrow('Not a context file');
+    await expect(
+      contextFilesService.write(testUserId, testProjectId, {
+        path: path.join(tmpDir, 'elsewhere', 'GEMINI.md'),
+        content: 'hacked',
+      })
+    ).rejects.toThrow('Not a context file');
+    await expect(contextFilesService.getContext('someone-else', testProjectId)).rejects.toThrow(
+      'Project not found'
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { db } from '../../db/index.js';
+import { projects, type Project as ProjectRow } from '../../db/schema.js';
+import { and, eq } from 'drizzle-orm';
+import type {
+  ContextFile,
+  ContextFileScope,
+  ProjectContext,
+  WriteContextFileInput,
+} from '@gemini-ui/shared';
+import { config } from '../../config/index.js';
+import { FilesService, IGNORED_DIRECTORIES } from '../files/files.service.js';
+
+/**
+ * Name of the context files the CLI reads
+ */
+export const CONTEXT_FILE_NAME = 'GEMINI.md';
+
+/**
+ * The CLI stops looking for context files below the project after this many directories
+ */
+const MAX_SCANNED_DIRECTORIES = 200;
+
+/**
+ * Rough token estimate (about four characters per token for English text and code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Context in the form the CLI sends it, each file wrapped in source markers
+ */
+export function mergeContextFiles(files: ContextFile[]): string {
+  return files
+    .filter((file) => file.exists && file.content.trim())
+    .map(
+      (file) =>
+        `--- Context from: ${file.displayPath} ---\n${file.content.trim()}\n` +
+        `--- End of Context from: ${file.displayPath} ---`
+    )
+    .join('\n\n');
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Directories from the repository root down to the project root
+ * Without a repository only the project root itself is searched.
+ */
+async function ancestorDirectories(projectRoot: string): Promise<string[]> {
+  const directories = [projectRoot];
+  for (let dir = projectRoot; ; dir = path.dirname(dir)) {
+    try {
+      await fs.access(path.join(dir, '.git'));
+      return directories;
+    } catch {
+      const parent = path.dirname(dir);
+      if (parent === dir || parent === os.homedir()) return [projectRoot];
+      directories.unshift(parent);
+    }
+  }
+}
+
+/**
+ * Directories below the project root that contain a context file, breadth first
+ */
+async function subdirectoriesWithContext(projectRoot: string): Promise<string[]> {
+  const found: string[] = [];
+  const queue = [projectRoot];
+  let scanned = 0;
+
+  while (queue.length > 0 && scanned < MAX_SCANNED_DIRECTORIES) {
+    const dir = queue.shift()!;
+    scanned++;
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    if (dir !== projectRoot && entries.some((e) => e.isFile() && e.name === CONTEXT_FILE_NAME)) {
+      found.push(dir);
+    }
+    queue.push(
+      ...entries
+        .filter(
+          (e) => e.isDirectory() && !e.name.startsWith('.') && !IGNORED_DIRECTORIES.has(e.name)
+        )
+        .map((e) => e.name)
+        .sort()
+        .map((name) => path.join(dir, name))
+    );
+  }
+
+  return found;
+}
+
+/**
+ * Project context files service
+ *
+ * Mirrors how the Gemini CLI discovers hierarchical GEMINI.md files: the global file,
+ * then every directory from the repository root down to the project, then the
+ * project's subdirectories. `@file` imports inside context files are not expanded.
+ */
+export class ContextFilesService {
+  constructor(
+    private geminiHome: string = config.GEMINI_HOME || path.join(os.homedir(), '.gemini')
+  ) {}
+
+  /**
+   * Get a project's context files in load order and the merged context
+   * @throws Error if the project is missing
+   */
+  async getContext(userId: string, projectId: string): Promise<ProjectContext> {
+    const project = await this.findProject(userId, projectId);
+    const files = await this.discover(project.path);
+    const merged = mergeContextFiles(files);
+
+    return { files, merged, tokens: estimateTokens(merged) };
+  }
+
+  /**
+   * Create or replace one of the project's context files
+   * Only discovered files and new GEMINI.md files inside the project can be written.
+   * @throws Error if the project is missing or the path is not a context file
+   */
+  async write(
+    userId: string,
+    projectId: string,
+    input: WriteContextFileInput
+  ): Promise<ProjectContext> {
+    const project = await this.findProject(userId, projectId);
+    const target = path.resolve(input.path);
+    const known = (await this.discover(project.path)).some((file) => file.path === target);
+    const relative = path.relative(project.path, target);
+    const inProject = !relative.startsWith('..') && !path.isAbsolute(relative);
+    if (!known && !(inProject && path.basename(target) === CONTEXT_FILE_NAME)) {
+      throw new Error('Not a context file');
+    }
+
+    const filesService = new FilesService([path.dirname(target)]);
+    await filesService.writeFile({ path: target, content: input.content, encoding: 'utf8' });
+
+    return this.getContext(userId, projectId);
+  }
+
+  private async discover(projectRoot: string): Promise<ContextFile[]> {
+    const candidates: Array<{ path: string; scope: ContextFileScope }> = [
+      { path: path.join(this.geminiHome, CONTEXT_FILE_NAME), scope: 'global' },
+      ...(await ancestorDirectories(projectRoot)).map((dir) => ({
+        path: path.join(dir, CONTEXT_FILE_NAME),
+        scope: (dir === projectRoot ? 'project' : 'ancestor') as ContextFileScope,
+      })),
+      ...(await subdirectoriesWithContext(projectRoot)).map((dir) => ({
+        path: path.join(dir, CONTEXT_FILE_NAME),
+        scope: 'subdirectory' as ContextFileScope,
+      })),
+    ];
+
+    const files: ContextFile[] = [];
+    for (const candidate of candidates) {
+      const exists = await isFile(candidate.path);
+      // Missing ancestor files are not worth listing; the global and root ones can be created
+      if (!exists && candidate.scope === 'ancestor') continue;
+
+      const content = exists ? await fs.readFile(candidate.path, 'utf8') : '';
+      files.push({
+        ...candidate,
+        displayPath:
+          candidate.scope === 'global'
+            ? candidate.path
+            : path.relative(projectRoot, candidate.path) || CONTEXT_FILE_NAME,
+        exists,
+        content,
+        tokens: estimateTokens(content),
+      });
+    }
+    return files;
+  }
+
+  private async findProject(userId: string, projectId: string): Promise<ProjectRow> {
+    const project = await db.query.projects.findFirst({
+      where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+    });
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    return project;
+  }
+}
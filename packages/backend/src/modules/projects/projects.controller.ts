@@ -1,18 +1,25 @@
 import type { Response, NextFunction } from 'express';
 import { ProjectsService } from './projects.service.js';
+import { PolicyService } from '../policy/policy.service.js';
+import { ContextFilesService } from './context-files.service.js';
 import {
   CreateProjectSchema,
   UpdateProjectSchema,
+  ExecutionPolicySchema,
+  WriteContextFileSchema,
   type ApiResponse,
 } from '@gemini-ui/shared';
 import { AppError } from '../../middleware/error-handler.js';
 import type { AuthRequest } from '../../middleware/auth.middleware.js';
+import { eventBus } from '../../websocket/event-bus.js';
 
 /**
  * Projects controller
  */
 export class ProjectsController {
   private projectsService = new ProjectsService();
+  private policyService = new PolicyService();
+  private contextFilesService = new ContextFilesService();
 
   /**
    * Create new project
@@ -219,4 +226,114 @@ export class ProjectsController {
       next(error);
     }
   };
+
+  /**
+   * Get project execution policy
+   * GET /api/projects/:id/policy
+   */
+  getPolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const projectId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const policy = await this.policyService.getProjectPolicy(req.user.id, projectId);
+
+      res.json({
+        success: true,
+        data: policy,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Project not found') {
+        return next(new AppError(404, error.message, 'PROJECT_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Replace project execution policy
+   * PUT /api/projects/:id/policy
+   */
+  updatePolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = ExecutionPolicySchema.parse(req.body);
+      const projectId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const policy = await this.policyService.setProjectPolicy(req.user.id, projectId, input);
+
+      res.json({
+        success: true,
+        data: policy,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Project not found') {
+        return next(new AppError(404, error.message, 'PROJECT_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Get project context files (GEMINI.md) and the merged context
+   * GET /api/projects/:id/context
+   */
+  getContext = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const projectId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const context = await this.contextFilesService.getContext(req.user.id, projectId);
+
+      res.json({
+        success: true,
+        data: context,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Project not found') {
+        return next(new AppError(404, error.message, 'PROJECT_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Create or replace a project context file
+   * PUT /api/projects/:id/context
+   */
+  writeContext = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = WriteContextFileSchema.parse(req.body);
+      const projectId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const context = await this.contextFilesService.write(req.user.id, projectId, input);
+      eventBus.publish(`files:${req.user.id}`, {
+        type: 'file-changed',
+        path: input.path,
+        change: 'write',
+      });
+
+      res.json({
+        success: true,
+        data: context,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Project not found') {
+        return next(new AppError(404, error.message, 'PROJECT_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Not a context file') {
+        return next(new AppError(400, error.message, 'INVALID_PATH'));
+      }
+      next(error);
+    }
+  };
 }
@@ -44,6 +44,30 @@ router.get('/:id', projectsController.findOne);
  */
 router.put('/:id', projectsController.update);
 
+/**
+ * GET /api/projects/:id/policy
+ * Get project execution policy
+ */
+router.get('/:id/policy', projectsController.getPolicy);
+
+/**
+ * PUT /api/projects/:id/policy
+ * Replace project execution policy
+ */
+router.put('/:id/policy', projectsController.updatePolicy);
+
+/**
+ * GET /api/projects/:id/context
+ * Get the GEMINI.md context files that apply to a project and the merged context
+ */
+router.get('/:id/context', projectsController.getContext);
+
+/**
+ * PUT /api/projects/:id/context
+ * Create or replace a project context file
+ */
+router.put('/:id/context', projectsController.writeContext);
+
 /**
  * DELETE /api/projects/:id
  * Delete project
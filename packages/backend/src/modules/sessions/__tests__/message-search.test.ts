@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MessageSearchQuerySchema } from '@gemini-ui/shared';
+import { MessageSearchService, toFtsQuery } from '../message-search.service.js';
+import { SessionsService } from '../sessions.service.js';
+import { db } from '../../../db/index.js';
+import { users, chatMessages } from '../../../db/schema.js';
+import { eq } from 'drizzle-orm';
+
+describe('toFtsQuery', () => {
+  it('should quote terms and prefix-match the last one', () => {
+    expect(toFtsQuery('migration  bug')).toBe('"migration" "bug"*');
+    expect(toFtsQuery('say "hi" OR -x')).toBe('"say" """hi""" "OR" "-x"*');
+  });
+});
+
+describe('MessageSearchService', () => {
+  let searchService: MessageSearchService;
+  let sessionsService: SessionsService;
+  let testUserId: string;
+  let apiSessionId: string;
+  let webSessionId: string;
+
+  const search = (params: Record<string, unknown>) =>
+    searchService.search(testUserId, MessageSearchQuerySchema.parse(params));
+
+  beforeEach(async () => {
+    searchService = new MessageSearchService();
+    sessionsService = new SessionsService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'searcher', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+
+    apiSessionId = (
+      await sessionsService.create(testUserId, {
+        projectPath: '/work/api',
+        model: 'gemini-2.5-pro',
+      })
+    ).id;
+    webSessionId = (await sessionsService.create(testUserId, { projectPath: '/work/web' })).id;
+
+    await sessionsService.addMessage(testUserId, apiSessionId, {
+      role: 'user',
+      content: 'The users migration fails with a <constraint> error',
+    });
+    await sessionsService.addMessage(testUserId, apiSessionId, {
+      role: 'assistant',
+      content: 'Fixed the migration by dropping the index first.',
+    });
+    await sessionsService.addMessage(testUserId, webSessionId, {
+      role: 'user',
+      content: 'Style the login button',
+    });
+  });
+
+  it('should rank matches and highlight them in escaped snippets', async () => {
+    const result = await search({ q: 'migration constraint' });
+
+    expect(result.total).toBe(1);
+    expect(result.items[0]).toMatchObject({
+      sessionId: apiSessionId,
+      projectPath: '/work/api',
+      model: 'gemini-2.5-pro',
+      role: 'user',
+    });
+    expect(result.items[0].snippet).toBe(
+      'The users <mark>migration</mark> fails with a &lt;<mark>constraint</mark>&gt; error'
+    );
+    expect(result.items[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should match word stems and prefixes', async () => {
+    expect((await search({ q: 'fixing migrations' })).total).toBe(1);
+    expect((await search({ q: 'butt' })).items[0].sessionId).toBe(webSessionId);
+  });
+
+  it('should filter by project, model, role and date', async () => {
+    expect((await search({ q: 'migration', role: 'assistant' })).total).toBe(1);
+    expect((await search({ q: 'migration', projectPath: '/work/web' })).total).toBe(0);
+    expect((await search({ q: 'migration', model: 'gemini-2.5-pro' })).total).toBe(2);
+    expect((await search({ q: 'migration', from: '2000-01-01', to: '2001-01-01' })).total).toBe(0);
+  });
+
+  it('should paginate results', async () => {
+    const first = await search({ q: 'migration', pageSize: 1 });
+    const second = await search({ q: 'migration', pageSize: 1, page: 2 });
+
+    expect(first).toMatchObject({ total: 2, page: 1, pageSize: 1, hasMore: true });
+    expect(second.hasMore).toBe(false);
+    expect(second.items[0].messageId).not.toBe(first.items[0].messageId);
+  });
+
+  it('should keep the index in sync with edits and deletes', async () => {
+    await db
+      .update(chatMessages)
+      .set({ content: 'Nothing to see' })
+      .where(eq(chatMessages.sessionId, webSessionId));
+    expect((await search({ q: 'button' })).total).toBe(0);
+    expect((await search({ q: 'nothing' })).total).toBe(1);
+
+    await sessionsService.delete(testUserId, apiSessionId);
+    expect((await search({ q: 'migration' })).total).toBe(0);
+  });
+
+  it('should not return other users messages', async () => {
+    const result = await searchService.search(
+      'someone-else',
+      MessageSearchQuerySchema.parse({ q: 'migration' })
+    );
+
+    expect(result.items).toHaveLength(0);
+  });
+});
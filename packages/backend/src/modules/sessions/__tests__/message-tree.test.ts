@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { latestLeaf, pathTo, resumableCliSession, siblingIds } from '../message-tree.js';
+
+const node = (id: string, parentId: string | null, geminiSessionId?: string) => ({
+  id,
+  parentId,
+  metadata: geminiSessionId ? { geminiSessionId } : null,
+});
+
+// u1 -> a1 -> u2 -> a2, with u2' (edit of u2) -> a2' on a second CLI session
+const messages = [
+  node('u1', null),
+  node('a1', 'u1', 'cli-1'),
+  node('u2', 'a1'),
+  node('a2', 'u2', 'cli-1'),
+  node('u2b', 'a1'),
+  node('a2b', 'u2b', 'cli-2'),
+];
+
+describe('pathTo', () => {
+  it('should walk from the root to the message', () => {
+    expect(pathTo(messages, 'a2').map((m) => m.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('should return an empty path for no message', () => {
+    expect(pathTo(messages, null)).toEqual([]);
+  });
+});
+
+describe('latestLeaf', () => {
+  it('should follow the newest child', () => {
+    expect(latestLeaf(messages, 'u1')).toBe('a2b');
+    expect(latestLeaf(messages, 'u2')).toBe('a2');
+  });
+});
+
+describe('siblingIds', () => {
+  it('should list alternatives in creation order', () => {
+    expect(siblingIds(messages, messages[2])).toEqual(['u2', 'u2b']);
+  });
+});
+
+describe('resumableCliSession', () => {
+  it('should resume the CLI session that ended at the parent', () => {
+    expect(resumableCliSession(messages, 'a2')).toBe('cli-1');
+    expect(resumableCliSession(messages, 'a2b')).toBe('cli-2');
+  });
+
+  it('should not resume a CLI session that later turns continued', () => {
+    expect(resumableCliSession(messages, 'a1')).toBeUndefined();
+  });
+
+  it('should fall back to the session id only from the newest message', () => {
+    const legacy = [node('u1', null), node('a1', 'u1'), node('u2', 'a1')];
+
+    expect(resumableCliSession(legacy, 'u2', 'cli-old')).toBe('cli-old');
+    expect(resumableCliSession(legacy, 'a1', 'cli-old')).toBeUndefined();
+    expect(resumableCliSession(legacy, null, 'cli-old')).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreateComparisonSchema } from '@gemini-ui/shared';
+import { SessionComparisonService } from '../session-comparison.service.js';
+import { SessionsService } from '../sessions.service.js';
+import { db } from '../../../db/index.js';
+import { users } from '../../../db/schema.js';
+
+const MODELS = ['gemini-2.5-flash', 'gemini-3-pro-preview', 'gemini-2.5-pro'];
+
+describe('SessionComparisonService', () => {
+  let comparisonService: SessionComparisonService;
+  let sessionsService: SessionsService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    sessionsService = new SessionsService();
+    comparisonService = new SessionComparisonService(sessionsService);
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'comparer', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+  });
+
+  it('should create one sandboxed session per model', async () => {
+    const comparison = await comparisonService.create(testUserId, {
+      projectPath: '/work/app',
+      models: MODELS,
+    });
+
+    expect(comparison.sessions.map((session) => session.model)).toEqual(MODELS);
+    expect(comparison.sessions[0].metadata).toEqual({
+      sandbox: true,
+      comparison: { id: comparison.id, models: MODELS },
+    });
+
+    const found = await comparisonService.get(testUserId, comparison.id);
+    expect(found.sessions.map((session) => session.model)).toEqual(MODELS);
+  });
+
+  it('should archive the losers and take the winner out of the sandbox', async () => {
+    const comparison = await comparisonService.create(testUserId, {
+      projectPath: '/work/app',
+      models: MODELS.slice(0, 2),
+    });
+    const [loser, winner] = comparison.sessions;
+
+    const result = await comparisonService.pickWinner(testUserId, comparison.id, winner.id);
+
+    expect(result.archived).toBe(false);
+    expect(result.metadata).toEqual({
+      comparison: { id: comparison.id, models: MODELS.slice(0, 2), winnerId: winner.id },
+    });
+    const archived = await sessionsService.findById(testUserId, loser.id);
+    expect(archived?.archived).toBe(true);
+    expect(archived?.metadata).toMatchObject({
+      sandbox: true,
+      comparison: { winnerId: winner.id },
+    });
+  });
+
+  it('should reject comparisons and sessions of other users', async () => {
+    const comparison = await comparisonService.create(testUserId, {
+      projectPath: '/work/app',
+      models: MODELS.slice(0, 2),
+    });
+    const other = await sessionsService.create(testUserId, { projectPath: '/work/app' });
+
+    await expect(comparisonService.get('someone-else', comparison.id)).rejects.toThrow(
+      'Comparison not found'
+    );
+    await expect(
+      comparisonService.pickWinner(testUserId, comparison.id, other.id)
+    ).rejects.toThrow('Session not found');
+  });
+
+  it('should only compare two or three different known models', async () => {
+    const parse = (models: string[]) =>
+      CreateComparisonSchema.safeParse({ projectPath: '/work/app', models }).success;
+
+    expect(parse(MODELS)).toBe(true);
+    expect(parse(MODELS.slice(0, 1))).toBe(false);
+    expect(parse([...MODELS, 'gemini-2.5-flash-lite'])).toBe(false);
+    expect(parse(['gemini-2.5-flash', 'gemini-2.5-flash'])).toBe(false);
+    await expect(
+      comparisonService.create(testUserId, {
+        projectPath: '/work/app',
+        models: ['gemini-2.5-flash', 'gpt-4'],
+      })
+    ).rejects.toThrow('Unknown model: gpt-4');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SessionExportSchema } from '@gemini-ui/shared';
+import { SessionExportService, escapeHtml } from '../session-export.service.js';
+import { SessionsService } from '../sessions.service.js';
+import { AttachmentsService } from '../../attachments/attachments.service.js';
+import { db } from '../../../db/index.js';
+import { users } from '../../../db/schema.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x01]);
+
+describe('SessionExportService', () => {
+  let exportService: SessionExportService;
+  let sessionsService: SessionsService;
+  let attachmentsService: AttachmentsService;
+  let uploadDir: string;
+  let testUserId: string;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    uploadDir = path.join(os.tmpdir(), `test-export-uploads-${Date.now()}`);
+    sessionsService = new SessionsService();
+    attachmentsService = new AttachmentsService(uploadDir);
+    exportService = new SessionExportService(sessionsService, attachmentsService);
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'exporter', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+    sessionId = (
+      await sessionsService.create(testUserId, {
+        projectPath: '/work/app',
+        model: 'gemini-2.5-pro',
+      })
+    ).id;
+
+    const attachment = await attachmentsService.create(testUserId, sessionId, {
+      filename: 'screen.png',
+      mimeType: 'image/png',
+      data: PNG,
+    });
+    const question = await sessionsService.addMessage(testUserId, sessionId, {
+      role: 'user',
+      content: 'Why does <App> crash?',
+      metadata: { attachments: [attachment] },
+    });
+    await sessionsService.addMessage(testUserId, sessionId, {
+      role: 'assistant',
+      content: 'First answer',
+    });
+    await sessionsService.addMessage(testUserId, sessionId, {
+      role: 'assistant',
+      content: 'Use ```code``` blocks',
+      parentId: question.id,
+      metadata: {
+        toolCalls: [
+          {
+            id: 't1',
+            name: 'run_shell_command',
+            args: { command: 'npm test' },
+            status: 'success',
+            output: 'ok',
+            approval: 'approve-once',
+          },
+        ],
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should render the active branch as Markdown', async () => {
+    const file = await exportService.export(testUserId, sessionId, 'md');
+
+    expect(file.filename).toBe(`gemini-session-${sessionId}.md`);
+    expect(file.contentType).toContain('text/markdown');
+    expect(file.body).toContain('- **Model:** gemini-2.5-pro');
+    expect(file.body).toContain('- **Project:** `/work/app`');
+    expect(file.body).toContain('- screen.png (image/png, 10 B)');
+    expect(file.body).toContain('**Tool call:** `run_shell_command` (success)');
+    expect(file.body).toContain('Output:\n\n```\nok\n```');
+    expect(file.body).toContain('Use ```code``` blocks');
+    expect(file.body).not.toContain('First answer');
+  });
+
+  it('should render a standalone HTML page with embedded images', async () => {
+    const file = await exportService.export(testUserId, sessionId, 'html');
+
+    expect(file.contentType).toContain('text/html');
+    expect(file.body).toContain('Why does &lt;App&gt; crash?');
+    expect(file.body).toContain(`<img src="data:image/png;base64,${PNG.toString('base64')}"`);
+    expect(file.body).toContain('<code>run_shell_command</code>');
+    expect(file.body).not.toContain('<App>');
+  });
+
+  it('should export every branch and attachment as versioned JSON', async () => {
+    const file = await exportService.export(testUserId, sessionId, 'json');
+    const archive = SessionExportSchema.parse(JSON.parse(file.body));
+
+    expect(archive.version).toBe(1);
+    expect(archive.session).toMatchObject({ id: sessionId, model: 'gemini-2.5-pro' });
+    expect(archive.messages.map((message) => message.content)).toEqual([
+      'Why does <App> crash?',
+      'First answer',
+      'Use ```code``` blocks',
+    ]);
+    expect(archive.messages[2].parentId).toBe(archive.messages[0].id);
+    expect(archive.session.activeLeafId).toBe(archive.messages[2].id);
+    expect(archive.messages[2].metadata?.toolCalls).toHaveLength(1);
+    expect(Buffer.from(archive.attachments[0].data, 'base64').equals(PNG)).toBe(true);
+  });
+
+  it('should reject sessions of other users', async () => {
+    await expect(exportService.export('someone-else', sessionId, 'md')).rejects.toThrow(
+      'Session not found'
+    );
+  });
+});
+
+describe('escapeHtml', () => {
+  it('should escape markup and quotes', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+    );
+  });
+});
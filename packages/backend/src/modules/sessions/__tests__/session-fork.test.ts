@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Attachment } from '@gemini-ui/shared';
+import { SessionForkService } from '../session-fork.service.js';
+import { SessionsService } from '../sessions.service.js';
+import { AttachmentsService } from '../../attachments/attachments.service.js';
+import { modelRegistry } from '../../gemini/model-registry.service.js';
+import { db } from '../../../db/index.js';
+import { users, projects } from '../../../db/schema.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x01]);
+
+describe('SessionForkService', () => {
+  let forkService: SessionForkService;
+  let sessionsService: SessionsService;
+  let attachmentsService: AttachmentsService;
+  let uploadDir: string;
+  let testUserId: string;
+  let sessionId: string;
+  let question: { id?: string };
+  let answer: { id?: string };
+
+  beforeEach(async () => {
+    uploadDir = path.join(os.tmpdir(), `test-fork-uploads-${Date.now()}`);
+    sessionsService = new SessionsService();
+    attachmentsService = new AttachmentsService(uploadDir);
+    forkService = new SessionForkService(sessionsService, attachmentsService);
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'forker', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+    await db.insert(projects).values([
+      { userId: testUserId, name: 'App', path: '/work/app' },
+      { userId: testUserId, name: 'Sibling', path: '/work/sibling' },
+    ]);
+
+    sessionId = (
+      await sessionsService.create(testUserId, {
+        projectPath: '/work/app',
+        model: 'gemini-2.5-flash',
+      })
+    ).id;
+    await sessionsService.update(testUserId, sessionId, { tags: ['refactor'] });
+
+    const attachment = await attachmentsService.create(testUserId, sessionId, {
+      filename: 'screen.png',
+      mimeType: 'image/png',
+      data: PNG,
+    });
+    question = await sessionsService.addMessage(testUserId, sessionId, {
+      role: 'user',
+      content: 'Fix the login form',
+      metadata: { attachments: [attachment] },
+    });
+    answer = await sessionsService.addMessage(testUserId, sessionId, {
+      role: 'assistant',
+      content: 'Done',
+      metadata: { geminiSessionId: 'cli-1', model: 'gemini-2.5-flash' },
+    });
+    await sessionsService.addMessage(testUserId, sessionId, {
+      role: 'user',
+      content: 'Now add tests',
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should copy the branch up to a message into another project and model', async () => {
+    const fork = await forkService.fork(testUserId, sessionId, {
+      messageId: answer.id,
+      projectPath: '/work/sibling',
+      model: 'gemini-3-pro-preview',
+    });
+
+    expect(fork.id).not.toBe(sessionId);
+    expect(fork).toMatchObject({
+      projectPath: '/work/sibling',
+      model: 'gemini-3-pro-preview',
+      title: 'Fix the login form (fork)',
+      tags: ['refactor'],
+      metadata: {
+        forkedFrom: {
+          sessionId,
+          messageId: answer.id,
+          projectPath: '/work/app',
+          model: 'gemini-2.5-flash',
+        },
+      },
+    });
+    expect(fork.geminiSessionId).toBeUndefined();
+
+    const copy = await sessionsService.findWithMessages(testUserId, fork.id);
+    expect(copy!.messages.map((m) => m.content)).toEqual(['Fix the login form', 'Done']);
+    expect(copy!.messages[0].id).not.toBe(question.id);
+    expect(copy!.messages[1].parentId).toBe(copy!.messages[0].id);
+    expect(copy!.messages[1].metadata).toEqual({ model: 'gemini-2.5-flash' });
+  });
+
+  it('should give the fork its own copies of attachments', async () => {
+    const fork = await forkService.fork(testUserId, sessionId, {});
+
+    const copy = await sessionsService.findWithMessages(testUserId, fork.id);
+    expect(copy!.messages).toHaveLength(3);
+    const [attachment] = copy!.messages[0].metadata!.attachments as Attachment[];
+    expect(attachment.sessionId).toBe(fork.id);
+
+    await sessionsService.delete(testUserId, sessionId);
+    await attachmentsService.removeSessionFiles(sessionId);
+    const { filePath } = await attachmentsService.getFile(testUserId, fork.id, attachment.id);
+    expect((await fs.readFile(filePath)).equals(PNG)).toBe(true);
+  });
+
+  it('should reject projects the user does not have', async () => {
+    await expect(
+      forkService.fork(testUserId, sessionId, { projectPath: '/work/unknown' })
+    ).rejects.toThrow('Project not found');
+    const { total } = await sessionsService.findAll(testUserId);
+    expect(total).toBe(1);
+  });
+
+  it('should check the target model against the registry', async () => {
+    await sessionsService.update(testUserId, sessionId, { model: 'gemini-2.5-pro' });
+    await sessionsService.update(testUserId, sessionId, {
+      generationSettings: { temperature: 0.2, thinkingBudget: 2048 },
+    });
+    await modelRegistry.setOverride('gemini-tuned', {
+      name: 'Gemini Tuned',
+      family: 'gemini-2.5',
+      variant: 'flash',
+      capabilities: ['vision', 'thinking'],
+      contextWindow: 500000,
+      pricing: { inputPerMillion: 0.4, outputPerMillion: 3, cachedPerMillion: 0.04 },
+    });
+
+    const fork = await forkService.fork(testUserId, sessionId, { model: 'gemini-tuned' });
+
+    expect(fork.generationSettings).toEqual({ temperature: 0.2, thinkingBudget: 2048 });
+    await expect(forkService.fork(testUserId, sessionId, { model: 'gpt-4' })).rejects.toThrow(
+      'Unknown model: gpt-4'
+    );
+    // Past its deprecation date
+    await expect(
+      forkService.fork(testUserId, sessionId, { model: 'gemini-2.0-flash' })
+    ).rejects.toThrow('Model not available: gemini-2.0-flash');
+    // The registry is shared; drop the added model for the other tests
+    await modelRegistry.load();
+  });
+
+  it('should reject unknown messages and sessions of other users', async () => {
+    await expect(forkService.fork(testUserId, sessionId, { messageId: 'missing' })).rejects.toThrow(
+      'Message not found'
+    );
+    await expect(forkService.fork('someone-else', sessionId, {})).rejects.toThrow(
+      'Session not found'
+    );
+  });
+});
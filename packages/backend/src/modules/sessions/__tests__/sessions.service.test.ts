@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { SessionsService } from '../sessions.service.js';
+import { SessionsService, titleFromPrompt } from '../sessions.service.js';
+import { MessagePageQuerySchema, SessionListQuerySchema } from '@gemini-ui/shared';
 import { db } from '../../../db/index.js';
 import { users, projects, sessions, chatMessages } from '../../../db/schema.js';
 import path from 'path';
@@ -61,7 +62,11 @@ describe('SessionsService', () => {
       expect(result.userId).toBe(testUserId);
       expect(result.projectPath).toBe(testProjectPath);
       expect(result.id).toBeDefined();
-      expect(result.geminiSessionId).toBeNull();
+      expect(result.geminiSessionId).toBeUndefined();
+      // Same shape as sessions read back later
+      expect(result).toMatchObject({ tags: [], pinned: false, archived: false, approvedTools: [] });
+      expect(result.title).toBeUndefined();
+      expect(result).toEqual(await sessionsService.findById(testUserId, result.id));
     });
 
     it('should create session with Gemini session ID', async () => {
@@ -75,6 +80,17 @@ describe('SessionsService', () => {
       expect(result.geminiSessionId).toBe('gemini-session-123');
     });
 
+    it('should reject models that are not in the registry', async () => {
+      const input = { projectPath: testProjectPath, model: 'gemini-9-ultra' };
+
+      await expect(sessionsService.create(testUserId, input)).rejects.toThrow(
+        'Unknown model: gemini-9-ultra'
+      );
+
+      const { total } = await sessionsService.findByProject(testUserId, testProjectPath);
+      expect(total).toBe(0);
+    });
+
     it('should create session with metadata', async () => {
       const input = {
         projectPath: testProjectPath,
@@ -100,15 +116,16 @@ describe('SessionsService', () => {
     it('should return all sessions for user', async () => {
       const result = await sessionsService.findAll(testUserId);
 
-      expect(result).toHaveLength(2);
-      expect(result[0].userId).toBe(testUserId);
-      expect(result[1].userId).toBe(testUserId);
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0].userId).toBe(testUserId);
+      expect(result.items[1].userId).toBe(testUserId);
+      expect(result).toMatchObject({ total: 2, page: 1, hasMore: false });
     });
 
     it('should order sessions by last accessed descending', async () => {
       const result = await sessionsService.findAll(testUserId);
 
-      const timestamps = result.map((s) => s.lastAccessedAt.getTime());
+      const timestamps = result.items.map((s) => s.lastAccessedAt.getTime());
       expect(timestamps[0]).toBeGreaterThanOrEqual(timestamps[1]);
     });
 
@@ -123,7 +140,7 @@ describe('SessionsService', () => {
 
       const result = await sessionsService.findAll(otherUser.id);
 
-      expect(result).toHaveLength(0);
+      expect(result.items).toHaveLength(0);
     });
   });
 
@@ -175,13 +192,17 @@ describe('SessionsService', () => {
       sessionId = session.id;
 
       // Add test messages
+      const [question] = await db
+        .insert(chatMessages)
+        .values({
+          sessionId,
+          role: 'user',
+          content: 'Hello',
+        })
+        .returning();
       await db.insert(chatMessages).values({
         sessionId,
-        role: 'user',
-        content: 'Hello',
-      });
-      await db.insert(chatMessages).values({
-        sessionId,
+        parentId: question.id,
         role: 'assistant',
         content: 'Hi there',
       });
@@ -346,15 +367,315 @@ describe('SessionsService', () => {
     it('should return sessions for specific project path', async () => {
       const result = await sessionsService.findByProject(testUserId, testProjectPath);
 
-      expect(result).toHaveLength(2);
-      expect(result[0].projectPath).toBe(testProjectPath);
-      expect(result[1].projectPath).toBe(testProjectPath);
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0].projectPath).toBe(testProjectPath);
+      expect(result.items[1].projectPath).toBe(testProjectPath);
     });
 
     it('should return empty array for path with no sessions', async () => {
       const result = await sessionsService.findByProject(testUserId, '/non/existent/path');
 
-      expect(result).toHaveLength(0);
+      expect(result.items).toHaveLength(0);
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should total the usage recorded on assistant messages', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      const usage = (promptTokens: number, responseTokens: number) => ({
+        usage: {
+          promptTokens,
+          responseTokens,
+          cachedTokens: 10,
+          totalTokens: promptTokens + responseTokens,
+        },
+        costUsd: promptTokens / 1000,
+      });
+
+      await sessionsService.addMessage(testUserId, session.id, { role: 'user', content: 'Hi' });
+      await sessionsService.addMessage(testUserId, session.id, {
+        role: 'assistant',
+        content: 'Hello',
+        metadata: usage(100, 20),
+      });
+      await sessionsService.addMessage(testUserId, session.id, {
+        role: 'assistant',
+        content: 'Again',
+        metadata: usage(150, 30),
+      });
+
+      const result = await sessionsService.getUsage(testUserId, session.id);
+
+      expect(result).toEqual({
+        promptTokens: 250,
+        responseTokens: 50,
+        cachedTokens: 20,
+        totalTokens: 300,
+        turns: 2,
+        contextTokens: 180,
+        costUsd: 0.25,
+      });
+    });
+
+    it('should return null for sessions of other users', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+
+      const result = await sessionsService.getUsage('other-user', session.id);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('branches', () => {
+    it('should keep edits as siblings and show the active branch', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      const first = await sessionsService.addMessage(testUserId, session.id, {
+        role: 'user',
+        content: 'Original',
+      });
+      await sessionsService.addMessage(testUserId, session.id, { role: 'assistant', content: 'A' });
+      const edited = await sessionsService.addMessage(testUserId, session.id, {
+        role: 'user',
+        content: 'Edited',
+        parentId: null,
+      });
+      await sessionsService.addMessage(testUserId, session.id, { role: 'assistant', content: 'B' });
+
+      const result = await sessionsService.findWithMessages(testUserId, session.id);
+
+      expect(result?.messages.map((m) => m.content)).toEqual(['Edited', 'B']);
+      expect(result?.messages[0].siblingIds).toEqual([first.id, edited.id]);
+      expect(result?.messages[1].siblingIds).toHaveLength(1);
+    });
+
+    it('should switch to the newest leaf under a sibling', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      const first = await sessionsService.addMessage(testUserId, session.id, {
+        role: 'user',
+        content: 'Original',
+      });
+      await sessionsService.addMessage(testUserId, session.id, { role: 'assistant', content: 'A' });
+      await sessionsService.addMessage(testUserId, session.id, {
+        role: 'user',
+        content: 'Edited',
+        parentId: null,
+      });
+
+      const result = await sessionsService.selectBranch(testUserId, session.id, first.id!);
+
+      expect(result.messages.map((m) => m.content)).toEqual(['Original', 'A']);
+      const updated = await sessionsService.findById(testUserId, session.id);
+      expect(updated?.activeLeafId).toBe(result.messages[1].id);
+    });
+
+    it('should reject parents from another session', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      const other = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      const foreign = await sessionsService.addMessage(testUserId, other.id, {
+        role: 'user',
+        content: 'Elsewhere',
+      });
+
+      await expect(
+        sessionsService.addMessage(testUserId, session.id, {
+          role: 'user',
+          content: 'Hi',
+          parentId: foreign.id,
+        })
+      ).rejects.toThrow('Message not found');
+      await expect(
+        sessionsService.selectBranch(testUserId, session.id, foreign.id!)
+      ).rejects.toThrow('Message not found');
+    });
+  });
+
+  describe('organization', () => {
+    it('should title a session after its first prompt until renamed', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      await sessionsService.addMessage(testUserId, session.id, {
+        role: 'user',
+        content: 'Fix the migration bug\nDetails follow',
+      });
+      await sessionsService.addMessage(testUserId, session.id, { role: 'user', content: 'More' });
+
+      expect((await sessionsService.findById(testUserId, session.id))?.title).toBe(
+        'Fix the migration bug'
+      );
+
+      await sessionsService.update(testUserId, session.id, { title: 'Renamed' });
+      await sessionsService.addMessage(testUserId, session.id, { role: 'user', content: 'Again' });
+      expect((await sessionsService.findById(testUserId, session.id))?.title).toBe('Renamed');
+    });
+
+    it('should shorten long prompts at a word break', () => {
+      const title = titleFromPrompt(`Please ${'refactor '.repeat(20)}`);
+
+      expect(title.length).toBeLessThanOrEqual(61);
+      expect(title).toMatch(/refactor…$/);
+    });
+
+    it('should update flags and tags', async () => {
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+
+      const updated = await sessionsService.update(testUserId, session.id, {
+        pinned: true,
+        tags: ['db', 'review'],
+      });
+
+      expect(updated).toMatchObject({ pinned: true, archived: false, tags: ['db', 'review'] });
+      expect(await sessionsService.update('someone-else', session.id, { pinned: true })).toBeNull();
+    });
+
+    it('should store generation settings the model supports', async () => {
+      const session = await sessionsService.create(testUserId, {
+        projectPath: testProjectPath,
+        model: 'gemini-2.5-pro',
+        generationSettings: { temperature: 0.3, thinkingBudget: 2048 },
+      });
+      expect(session.generationSettings).toEqual({ temperature: 0.3, thinkingBudget: 2048 });
+
+      const updated = await sessionsService.update(testUserId, session.id, {
+        generationSettings: { systemInstruction: 'Be terse.' },
+      });
+      expect(updated?.generationSettings).toEqual({ systemInstruction: 'Be terse.' });
+    });
+
+    it('should reject generation settings the model does not support', async () => {
+      await expect(
+        sessionsService.create(testUserId, {
+          projectPath: testProjectPath,
+          model: 'gemini-2.5-flash',
+          generationSettings: { thinkingBudget: 1024 },
+        })
+      ).rejects.toThrow('Generation settings not supported by gemini-2.5-flash: thinkingBudget');
+
+      const session = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      await expect(
+        sessionsService.update(testUserId, session.id, {
+          generationSettings: { temperature: 1, thinkingBudget: 0 },
+        })
+      ).rejects.toThrow('thinkingBudget');
+    });
+
+    it('should list pinned sessions first and hide archived ones', async () => {
+      const older = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      const archived = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      const newer = await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      await sessionsService.update(testUserId, older.id, { pinned: true, tags: ['db'] });
+      await sessionsService.update(testUserId, archived.id, { archived: true });
+
+      const active = await sessionsService.findAll(testUserId);
+      const archivedOnly = await sessionsService.findAll(
+        testUserId,
+        SessionListQuerySchema.parse({ archived: 'true' })
+      );
+      const tagged = await sessionsService.findAll(
+        testUserId,
+        SessionListQuerySchema.parse({ tag: 'db' })
+      );
+
+      expect(active.items.map((s) => s.id)).toEqual([older.id, newer.id]);
+      expect(archivedOnly.items.map((s) => s.id)).toEqual([archived.id]);
+      expect(tagged.items.map((s) => s.id)).toEqual([older.id]);
+    });
+
+    it('should paginate session lists', async () => {
+      for (let i = 0; i < 3; i++) {
+        await sessionsService.create(testUserId, { projectPath: testProjectPath });
+      }
+
+      const first = await sessionsService.findByProject(
+        testUserId,
+        testProjectPath,
+        SessionListQuerySchema.parse({ pageSize: '2' })
+      );
+      const second = await sessionsService.findByProject(
+        testUserId,
+        testProjectPath,
+        SessionListQuerySchema.parse({ pageSize: '2', page: '2' })
+      );
+
+      expect(first).toMatchObject({ total: 3, pageSize: 2, hasMore: true });
+      expect(first.items).toHaveLength(2);
+      expect(second.items).toHaveLength(1);
+      expect(second.hasMore).toBe(false);
+    });
+  });
+
+  describe('findMessages', () => {
+    let sessionId: string;
+    let messageIds: string[];
+
+    beforeEach(async () => {
+      sessionId = (await sessionsService.create(testUserId, { projectPath: testProjectPath })).id;
+      messageIds = [];
+      for (let i = 0; i < 5; i++) {
+        const message = await sessionsService.addMessage(testUserId, sessionId, {
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Message ${i}`,
+        });
+        messageIds.push(message.id!);
+      }
+    });
+
+    const page = (query: Record<string, string>) =>
+      sessionsService.findMessages(testUserId, sessionId, MessagePageQuerySchema.parse(query));
+
+    it('should return the newest messages without a cursor', async () => {
+      const result = await page({ limit: '2' });
+
+      expect(result.items.map((m) => m.content)).toEqual(['Message 3', 'Message 4']);
+      expect(result).toMatchObject({ hasMoreBefore: true, hasMoreAfter: false });
+    });
+
+    it('should page backwards and forwards from a message', async () => {
+      const older = await page({ before: messageIds[3], limit: '2' });
+      const newer = await page({ after: messageIds[0], limit: '2' });
+      const first = await page({ before: messageIds[1], limit: '2' });
+
+      expect(older.items.map((m) => m.id)).toEqual([messageIds[1], messageIds[2]]);
+      expect(older).toMatchObject({ hasMoreBefore: true, hasMoreAfter: true });
+      expect(newer.items.map((m) => m.id)).toEqual([messageIds[1], messageIds[2]]);
+      expect(first.items.map((m) => m.id)).toEqual([messageIds[0]]);
+      expect(first.hasMoreBefore).toBe(false);
+    });
+
+    it('should only page through the active branch', async () => {
+      await sessionsService.addMessage(testUserId, sessionId, {
+        role: 'assistant',
+        content: 'Alternative',
+        parentId: messageIds[2],
+      });
+
+      const result = await page({});
+
+      expect(result.items.map((m) => m.content)).toEqual([
+        'Message 0',
+        'Message 1',
+        'Message 2',
+        'Alternative',
+      ]);
+      expect(result.items[3].siblingIds).toEqual([messageIds[3], result.items[3].id]);
+    });
+
+    it('should limit the messages of a session detail', async () => {
+      const result = await sessionsService.findWithMessages(testUserId, sessionId, 1);
+
+      expect(result?.messages.map((m) => m.id)).toEqual([messageIds[4]]);
+      expect(result?.hasMoreBefore).toBe(true);
+    });
+
+    it('should reject cursors outside the active branch', async () => {
+      await expect(page({ before: 'missing' })).rejects.toThrow('Message not found');
+      await expect(
+        sessionsService.findMessages('someone-else', sessionId, MessagePageQuerySchema.parse({}))
+      ).rejects.toThrow('Session not found');
+    });
+
+    it('should not accept both cursors', () => {
+      expect(
+        MessagePageQuerySchema.safeParse({ before: messageIds[1], after: messageIds[0] }).success
+      ).toBe(false);
     });
   });
 });
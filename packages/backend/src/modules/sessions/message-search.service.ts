@@ -0,0 +1,104 @@
+import { db } from '../../db/index.js';
+import { chatMessages, sessions } from '../../db/schema.js';
+import { and, eq, gte, lte, sql, type SQL } from 'drizzle-orm';
+import type {
+  ChatMessage,
+  MessageSearchHit,
+  MessageSearchQuery,
+  PaginatedResponse,
+} from '@gemini-ui/shared';
+import { escapeHtml } from './session-export.service.js';
+
+// Control characters mark matches in FTS5 snippets until the text has been HTML-escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// Approximate number of words in a snippet
+const SNIPPET_TOKENS = 16;
+
+interface SearchRow {
+  messageId: string;
+  sessionId: string;
+  projectPath: string;
+  model: string;
+  role: ChatMessage['role'];
+  snippet: string;
+  createdAt: number;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, the last one as a prefix
+ * Quoting each word keeps FTS5 operators and punctuation in user input literal
+ */
+export function toFtsQuery(text: string): string {
+  const terms = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"`);
+  return terms.map((term, index) => (index === terms.length - 1 ? `${term}*` : term)).join(' ');
+}
+
+/**
+ * HTML-escape a snippet and turn the match markers into <mark> tags
+ */
+function highlight(snippet: string): string {
+  return escapeHtml(snippet).split(MATCH_START).join('<mark>').split(MATCH_END).join('</mark>');
+}
+
+/**
+ * Chat history search service
+ * Queries the chat_messages_fts index (see migration 0008), best matches first
+ */
+export class MessageSearchService {
+  /**
+   * Search the user's messages across all sessions
+   */
+  async search(
+    userId: string,
+    query: MessageSearchQuery
+  ): Promise<PaginatedResponse<MessageSearchHit>> {
+    const conditions: SQL[] = [
+      sql`chat_messages_fts MATCH ${toFtsQuery(query.q)}`,
+      eq(sessions.userId, userId),
+    ];
+    if (query.projectPath) conditions.push(eq(sessions.projectPath, query.projectPath));
+    if (query.model) conditions.push(eq(sessions.model, query.model));
+    if (query.role) conditions.push(eq(chatMessages.role, query.role));
+    if (query.from) conditions.push(gte(chatMessages.createdAt, query.from));
+    if (query.to) conditions.push(lte(chatMessages.createdAt, query.to));
+
+    const source = sql`chat_messages_fts
+      JOIN ${chatMessages} ON ${chatMessages}.rowid = chat_messages_fts.rowid
+      JOIN ${sessions} ON ${sessions.id} = ${chatMessages.sessionId}
+      WHERE ${and(...conditions)}`;
+
+    const [{ total }] = await db.all<{ total: number }>(
+      sql`SELECT count(*) AS total FROM ${source}`
+    );
+    const rows = await db.all<SearchRow>(sql`
+      SELECT
+        ${chatMessages.id} AS messageId,
+        ${chatMessages.sessionId} AS sessionId,
+        ${sessions.projectPath} AS projectPath,
+        ${sessions.model} AS model,
+        ${chatMessages.role} AS role,
+        snippet(chat_messages_fts, 0, ${MATCH_START}, ${MATCH_END}, '…', ${SNIPPET_TOKENS}) AS snippet,
+        ${chatMessages.createdAt} AS createdAt
+      FROM ${source}
+      ORDER BY chat_messages_fts.rank, ${chatMessages.createdAt} DESC
+      LIMIT ${query.pageSize} OFFSET ${(query.page - 1) * query.pageSize}
+    `);
+
+    return {
+      items: rows.map((row) => ({
+        ...row,
+        snippet: highlight(row.snippet),
+        createdAt: new Date(row.createdAt * 1000),
+      })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: query.page * query.pageSize < total,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Chat messages form a tree: each message points at the message it follows,
+ * and editing or regenerating adds a sibling instead of changing history.
+ * A session shows one branch at a time, the path from a root to its active leaf.
+ *
+ * All helpers expect messages in creation order.
+ */
+
+/**
+ * The fields of a stored message the tree helpers need
+ */
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+/**
+ * Messages from the root down to (and including) the given message
+ */
+export function pathTo<T extends MessageNode>(messages: T[], messageId: string | null): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: T[] = [];
+  const seen = new Set<string>();
+
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Follow the newest child from a message down to a leaf
+ */
+export function latestLeaf<T extends MessageNode>(messages: T[], messageId: string): string {
+  let leafId = messageId;
+  const seen = new Set<string>();
+
+  while (!seen.has(leafId)) {
+    seen.add(leafId);
+    const children = messages.filter((message) => message.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+
+  return leafId;
+}
+
+/**
+ * Ids of a message and its alternatives (messages with the same parent)
+ */
+export function siblingIds<T extends MessageNode>(messages: T[], message: T): string[] {
+  return messages
+    .filter((candidate) => candidate.parentId === message.parentId)
+    .map((candidate) => candidate.id);
+}
+
+/**
+ * Gemini CLI session that can be resumed to continue after the given message
+ *
+ * A CLI session holds the linear history of the turns that used it, so it only
+ * matches the branch if no later turn continued it. Messages without a recorded
+ * CLI session (older or imported ones) fall back to the session-level id, but
+ * only when continuing from the newest message.
+ */
+export function resumableCliSession<T extends MessageNode>(
+  messages: T[],
+  parentId: string | null,
+  sessionCliId?: string
+): string | undefined {
+  if (!parentId) {
+    return undefined;
+  }
+
+  const index = messages.findIndex((message) => message.id === parentId);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const cliId = messages[index].metadata?.geminiSessionId;
+  if (typeof cliId === 'string') {
+    const continued = messages
+      .slice(index + 1)
+      .some((message) => message.metadata?.geminiSessionId === cliId);
+    return continued ? undefined : cliId;
+  }
+
+  return index === messages.length - 1 ? sessionCliId : undefined;
+}
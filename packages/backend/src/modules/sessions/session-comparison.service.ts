@@ -0,0 +1,105 @@
+import { createId } from '@paralleldrive/cuid2';
+import { db } from '../../db/index.js';
+import { sessions } from '../../db/schema.js';
+import { and, eq, sql } from 'drizzle-orm';
+import type {
+  CreateComparisonInput,
+  Session,
+  SessionComparison,
+  SessionComparisonInfo,
+} from '@gemini-ui/shared';
+import { SessionsService } from './sessions.service.js';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+
+/**
+ * Comparison a session takes part in
+ */
+function comparisonOf(session: Session): SessionComparisonInfo | undefined {
+  return session.metadata?.comparison as SessionComparisonInfo | undefined;
+}
+
+/**
+ * Model comparison service
+ *
+ * A comparison is a group of sessions, one per model, that receive the same prompts.
+ * They run in the CLI sandbox because their turns run at the same time in one project.
+ * Once the user picks a winner, the other sessions are archived and the winner
+ * continues as a regular session.
+ */
+export class SessionComparisonService {
+  constructor(private sessionsService = new SessionsService()) {}
+
+  /**
+   * Create one sandboxed session per model
+   * @throws Error if a model is not in the registry
+   */
+  async create(userId: string, input: CreateComparisonInput): Promise<SessionComparison> {
+    const unknown = input.models.find((model) => !modelRegistry.get(model));
+    if (unknown) {
+      throw new Error(`Unknown model: ${unknown}`);
+    }
+
+    const comparison: SessionComparisonInfo = { id: createId(), models: input.models };
+
+    const created: Session[] = [];
+    for (const model of input.models) {
+      created.push(
+        await this.sessionsService.create(userId, {
+          projectPath: input.projectPath,
+          model,
+          metadata: { sandbox: true, comparison },
+        })
+      );
+    }
+
+    return { id: comparison.id, sessions: created };
+  }
+
+  /**
+   * Get the sessions of a comparison in column order
+   * @throws Error if the comparison does not belong to the user
+   */
+  async get(userId: string, comparisonId: string): Promise<SessionComparison> {
+    const rows = await db.query.sessions.findMany({
+      where: and(
+        eq(sessions.userId, userId),
+        sql`json_extract(${sessions.metadata}, '$.comparison.id') = ${comparisonId}`
+      ),
+    });
+    if (rows.length === 0) {
+      throw new Error('Comparison not found');
+    }
+
+    const found = await Promise.all(
+      rows.map(async (row) => (await this.sessionsService.findById(userId, row.id))!)
+    );
+    const models = comparisonOf(found[0])?.models ?? [];
+    found.sort((a, b) => models.indexOf(a.model) - models.indexOf(b.model));
+
+    return { id: comparisonId, sessions: found };
+  }
+
+  /**
+   * Continue with one session of the comparison and archive the others
+   * @throws Error if the comparison or session is missing
+   */
+  async pickWinner(userId: string, comparisonId: string, sessionId: string): Promise<Session> {
+    const comparison = await this.get(userId, comparisonId);
+    const winner = comparison.sessions.find((session) => session.id === sessionId);
+    if (!winner) {
+      throw new Error('Session not found');
+    }
+
+    for (const session of comparison.sessions) {
+      const isWinner = session.id === winner.id;
+      const { sandbox: _sandbox, ...metadata } = session.metadata ?? {};
+      await this.sessionsService.updateMetadata(userId, session.id, {
+        ...(isWinner ? metadata : session.metadata),
+        comparison: { ...comparisonOf(session), winnerId: winner.id },
+      });
+      await this.sessionsService.update(userId, session.id, { archived: !isWinner });
+    }
+
+    return (await this.sessionsService.findById(userId, winner.id))!;
+  }
+}
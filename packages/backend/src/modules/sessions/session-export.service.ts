@@ -0,0 +1,294 @@
+import {
+  SESSION_EXPORT_VERSION,
+  type Attachment,
+  type ChatMessage,
+  type GeminiToolCall,
+  type SessionExport,
+  type SessionExportFormat,
+  type SessionWithMessages,
+} from '@gemini-ui/shared';
+import { SessionsService } from './sessions.service.js';
+import { AttachmentsService } from '../attachments/attachments.service.js';
+
+/**
+ * A rendered export, ready to be sent as a download
+ */
+export interface SessionExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+type AttachmentWithData = Attachment & { data: Buffer };
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Gemini',
+  system: 'System',
+};
+
+/**
+ * Wrap text in a Markdown code fence longer than any backtick run inside it
+ */
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toolCallsOf(message: ChatMessage): GeminiToolCall[] {
+  return (message.metadata?.toolCalls as GeminiToolCall[] | undefined) ?? [];
+}
+
+function attachmentsOf(message: ChatMessage): Attachment[] {
+  return (message.metadata?.attachments as Attachment[] | undefined) ?? [];
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function formatDate(date: Date | undefined): string {
+  return date ? new Date(date).toISOString() : '';
+}
+
+/**
+ * Render the active branch of a session as Markdown
+ */
+export function renderMarkdown(session: SessionWithMessages, exportedAt = new Date()): string {
+  const lines = [
+    `# Gemini session ${session.id}`,
+    '',
+    `- **Model:** ${session.model}`,
+    `- **Project:** \`${session.projectPath}\``,
+    `- **Created:** ${formatDate(session.createdAt)}`,
+    `- **Last active:** ${formatDate(session.lastAccessedAt)}`,
+    `- **Exported:** ${formatDate(exportedAt)}`,
+  ];
+
+  for (const message of session.messages) {
+    lines.push('', '---', '', `## ${ROLE_LABELS[message.role]} · ${formatDate(message.timestamp)}`);
+    if (message.content) {
+      lines.push('', message.content);
+    }
+
+    const attachments = attachmentsOf(message);
+    if (attachments.length > 0) {
+      lines.push('', '**Attachments:**', '');
+      for (const attachment of attachments) {
+        lines.push(
+          `- ${attachment.filename} (${attachment.mimeType}, ${formatSize(attachment.size)})`
+        );
+      }
+    }
+
+    for (const toolCall of toolCallsOf(message)) {
+      lines.push('', `**Tool call:** \`${toolCall.name}\` (${toolCall.status})`);
+      if (toolCall.approval) {
+        lines.push('', `Approval: ${toolCall.approval}`);
+      }
+      lines.push('', fence(JSON.stringify(toolCall.args, null, 2), 'json'));
+      if (toolCall.output) {
+        lines.push('', 'Output:', '', fence(toolCall.output));
+      }
+    }
+
+    if (message.metadata?.interrupted === true) {
+      lines.push('', '_Stopped before the reply finished._');
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.9rem; }
+header dt { font-weight: 600; color: #4b5563; }
+.message { border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #eff6ff; }
+.message.assistant { background: #f3f4f6; }
+.message.system { background: #fefce8; }
+.message h2 { font-size: 0.85rem; margin: 0 0 0.5rem; color: #4b5563; }
+.content { white-space: pre-wrap; }
+pre { background: #111827; color: #f9fafb; padding: 0.5rem; border-radius: 4px; overflow-x: auto; }
+img { max-width: 100%; border-radius: 4px; }
+.note { color: #b45309; font-size: 0.85rem; }
+`;
+
+/**
+ * Render the active branch of a session as a standalone HTML page
+ * Attached images and PDFs are embedded as data URIs so the file works offline
+ */
+export function renderHtml(
+  session: SessionWithMessages,
+  files: AttachmentWithData[],
+  exportedAt = new Date()
+): string {
+  const filesById = new Map(files.map((file) => [file.id, file]));
+
+  const renderAttachment = (attachment: Attachment): string => {
+    const file = filesById.get(attachment.id);
+    const name = escapeHtml(attachment.filename);
+    if (!file) {
+      return `<li>${name}</li>`;
+    }
+    const uri = `data:${file.mimeType};base64,${file.data.toString('base64')}`;
+    return file.mimeType.startsWith('image/')
+      ? `<li><img src="${uri}" alt="${name}"></li>`
+      : `<li><a href="${uri}" download="${name}">${name}</a></li>`;
+  };
+
+  const renderToolCall = (toolCall: GeminiToolCall): string =>
+    [
+      `<details><summary>Tool call: <code>${escapeHtml(toolCall.name)}</code> (${escapeHtml(toolCall.status)})</summary>`,
+      toolCall.approval ? `<p>Approval: ${escapeHtml(toolCall.approval)}</p>` : '',
+      `<pre>${escapeHtml(JSON.stringify(toolCall.args, null, 2))}</pre>`,
+      toolCall.output ? `<p>Output:</p><pre>${escapeHtml(toolCall.output)}</pre>` : '',
+      '</details>',
+    ].join('');
+
+  const messages = session.messages.map((message) => {
+    const attachments = attachmentsOf(message);
+    return [
+      `<section class="message ${message.role}">`,
+      `<h2>${ROLE_LABELS[message.role]} · <time>${formatDate(message.timestamp)}</time></h2>`,
+      `<div class="content">${escapeHtml(message.content)}</div>`,
+      attachments.length > 0 ? `<ul>${attachments.map(renderAttachment).join('')}</ul>` : '',
+      toolCallsOf(message).map(renderToolCall).join(''),
+      message.metadata?.interrupted === true
+        ? '<p class="note">Stopped before the reply finished.</p>'
+        : '',
+      '</section>',
+    ].join('');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Gemini session ${escapeHtml(session.id)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>Gemini session ${escapeHtml(session.id)}</h1>
+<dl>
+<dt>Model</dt><dd>${escapeHtml(session.model)}</dd>
+<dt>Project</dt><dd><code>${escapeHtml(session.projectPath)}</code></dd>
+<dt>Created</dt><dd>${formatDate(session.createdAt)}</dd>
+<dt>Last active</dt><dd>${formatDate(session.lastAccessedAt)}</dd>
+<dt>Exported</dt><dd>${formatDate(exportedAt)}</dd>
+</dl>
+</header>
+<main>
+${messages.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Session export service
+ * Renders transcripts for sharing (Markdown, HTML) and a versioned JSON archive for re-import
+ */
+export class SessionExportService {
+  constructor(
+    private sessionsService = new SessionsService(),
+    private attachmentsService = new AttachmentsService()
+  ) {}
+
+  /**
+   * Export a session in the given format
+   * @throws Error if the session does not belong to the user
+   */
+  async export(
+    userId: string,
+    sessionId: string,
+    format: SessionExportFormat
+  ): Promise<SessionExportFile> {
+    const session = await this.sessionsService.findWithMessages(userId, sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    const filename = `gemini-session-${session.id}.${format}`;
+
+    switch (format) {
+      case 'md':
+        return {
+          filename,
+          contentType: 'text/markdown; charset=utf-8',
+          body: renderMarkdown(session),
+        };
+
+      case 'html': {
+        const files = await this.attachmentsService.listWithData(userId, sessionId);
+        return {
+          filename,
+          contentType: 'text/html; charset=utf-8',
+          body: renderHtml(session, files),
+        };
+      }
+
+      case 'json': {
+        const archive = await this.buildArchive(userId, session);
+        return {
+          filename,
+          contentType: 'application/json; charset=utf-8',
+          body: JSON.stringify(archive, null, 2),
+        };
+      }
+    }
+  }
+
+  /**
+   * Build the JSON archive: every branch plus attachment contents
+   */
+  private async buildArchive(userId: string, session: SessionWithMessages): Promise<SessionExport> {
+    const [messages, files] = await Promise.all([
+      this.sessionsService.listMessages(userId, session.id),
+      this.attachmentsService.listWithData(userId, session.id),
+    ]);
+
+    return {
+      kind: 'gemini-ui.session',
+      version: SESSION_EXPORT_VERSION,
+      exportedAt: new Date(),
+      session: {
+        id: session.id,
+        projectPath: session.projectPath,
+        model: session.model,
+        geminiSessionId: session.geminiSessionId,
+        metadata: session.metadata,
+        activeLeafId: session.activeLeafId,
+        createdAt: session.createdAt,
+        lastAccessedAt: session.lastAccessedAt,
+      },
+      messages: messages.map((message) => ({
+        id: message.id,
+        parentId: message.parentId,
+        role: message.role,
+        content: message.content,
+        metadata: message.metadata ?? undefined,
+        createdAt: message.createdAt,
+      })),
+      attachments: files.map(({ data, sessionId: _sessionId, ...attachment }) => ({
+        ...attachment,
+        data: data.toString('base64'),
+      })),
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { db } from '../../db/index.js';
+import { chatMessages, projects, sessions } from '../../db/schema.js';
+import { and, eq } from 'drizzle-orm';
+import { pruneGenerationSettings } from '@gemini-ui/shared';
+import type { Attachment, ForkSessionInput, Session, SessionForkOrigin } from '@gemini-ui/shared';
+import { SessionsService } from './sessions.service.js';
+import { AttachmentsService } from '../attachments/attachments.service.js';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+import { pathTo } from './message-tree.js';
+
+/**
+ * Attachments stored with a message
+ */
+function attachmentsOf(metadata: Record<string, unknown> | null): Attachment[] {
+  return Array.isArray(metadata?.attachments) ? (metadata.attachments as Attachment[]) : [];
+}
+
+/**
+ * Session fork service
+ * Copies a conversation up to a message into a new session, optionally in another
+ * project or with another model
+ */
+export class SessionForkService {
+  constructor(
+    private sessionsService = new SessionsService(),
+    private attachmentsService = new AttachmentsService()
+  ) {}
+
+  /**
+   * Fork a session
+   * Only the branch leading to the chosen message is copied, together with its
+   * attachments. The fork starts a fresh Gemini CLI conversation (the transcript is
+   * replayed on its first turn) and does not inherit session approvals or policy.
+   * @throws Error if the session, message or target project is missing, or the target
+   * model is unknown or no longer offered
+   */
+  async fork(userId: string, sessionId: string, input: ForkSessionInput): Promise<Session> {
+    const source = await this.sessionsService.findById(userId, sessionId);
+    if (!source) {
+      throw new Error('Session not found');
+    }
+
+    const messages = await this.sessionsService.listMessages(userId, sessionId);
+    const lastId = input.messageId ?? source.activeLeafId ?? messages[messages.length - 1]?.id;
+    const branch = pathTo(messages, lastId ?? null);
+    if (input.messageId && branch.length === 0) {
+      throw new Error('Message not found');
+    }
+
+    const projectPath = input.projectPath ?? source.projectPath;
+    if (projectPath !== source.projectPath) {
+      const project = await db.query.projects.findFirst({
+        where: and(eq(projects.userId, userId), eq(projects.path, projectPath)),
+      });
+      if (!project) {
+        throw new Error('Project not found');
+      }
+    }
+
+    if (input.model) {
+      const target = modelRegistry.get(input.model);
+      if (!target) {
+        throw new Error(`Unknown model: ${input.model}`);
+      }
+      if (!modelRegistry.available().includes(target)) {
+        throw new Error(`Model not available: ${input.model}`);
+      }
+    }
+
+    const forkedFrom: SessionForkOrigin = {
+      sessionId: source.id,
+      messageId: branch[branch.length - 1]?.id ?? null,
+      projectPath: source.projectPath,
+      model: source.model,
+    };
+    const model = input.model ?? source.model;
+    const fork = await this.sessionsService.create(userId, {
+      projectPath,
+      model,
+      metadata: { forkedFrom },
+      // Settings the new model does not accept are dropped rather than failing the fork
+      ...(source.generationSettings && {
+        generationSettings: pruneGenerationSettings(
+          source.generationSettings,
+          model,
+          modelRegistry.list()
+        ),
+      }),
+    });
+
+    try {
+      const copies = await this.attachmentsService.copyToSession(
+        userId,
+        source.id,
+        fork.id,
+        branch.flatMap((message) => attachmentsOf(message.metadata).map(({ id }) => id))
+      );
+
+      let parentId: string | null = null;
+      for (const message of branch) {
+        // The CLI session ids belong to the original conversation and must not be resumed
+        const { geminiSessionId: _geminiSessionId, ...metadata } = message.metadata ?? {};
+        const attachments = attachmentsOf(message.metadata).map(
+          (attachment) => copies.get(attachment.id) ?? attachment
+        );
+
+        const [row]: Array<{ id: string }> = await db
+          .insert(chatMessages)
+          .values({
+            sessionId: fork.id,
+            parentId,
+            role: message.role,
+            content: message.content,
+            metadata: { ...metadata, ...(attachments.length > 0 && { attachments }) },
+            createdAt: message.createdAt,
+          })
+          .returning({ id: chatMessages.id });
+        parentId = row.id;
+      }
+
+      await db
+        .update(sessions)
+        .set({
+          activeLeafId: parentId,
+          title: source.title ? `${source.title} (fork)` : null,
+          tags: source.tags,
+        })
+        .where(eq(sessions.id, fork.id));
+    } catch (error) {
+      await this.sessionsService.delete(userId, fork.id);
+      await this.attachmentsService.removeSessionFiles(fork.id);
+      throw error;
+    }
+
+    return (await this.sessionsService.findById(userId, fork.id))!;
+  }
+}
@@ -1,14 +1,48 @@
 import type { Response, NextFunction } from 'express';
 import { SessionsService } from './sessions.service.js';
-import { CreateSessionSchema, ChatMessageSchema, type ApiResponse } from '@gemini-ui/shared';
+import { PolicyService } from '../policy/policy.service.js';
+import { AttachmentsService } from '../attachments/attachments.service.js';
+import { SessionExportService } from './session-export.service.js';
+import { SessionForkService } from './session-fork.service.js';
+import { SessionComparisonService } from './session-comparison.service.js';
+import { MessageSearchService } from './message-search.service.js';
+import {
+  CreateSessionSchema,
+  ChatMessageSchema,
+  ExecutionPolicySchema,
+  SelectBranchSchema,
+  ForkSessionSchema,
+  CreateComparisonSchema,
+  PickComparisonWinnerSchema,
+  SessionExportQuerySchema,
+  MessageSearchQuerySchema,
+  MessagePageQuerySchema,
+  SessionDetailQuerySchema,
+  SessionListQuerySchema,
+  UpdateSessionSchema,
+  type ApiResponse,
+} from '@gemini-ui/shared';
 import { AppError } from '../../middleware/error-handler.js';
 import type { AuthRequest } from '../../middleware/auth.middleware.js';
 
+/**
+ * The session's model does not accept some of the requested generation settings
+ */
+function isUnsupportedSettingsError(error: unknown): error is Error {
+  return error instanceof Error && error.message.startsWith('Generation settings not supported');
+}
+
 /**
  * Sessions controller
  */
 export class SessionsController {
   private sessionsService = new SessionsService();
+  private policyService = new PolicyService();
+  private attachmentsService = new AttachmentsService();
+  private exportService = new SessionExportService(this.sessionsService, this.attachmentsService);
+  private searchService = new MessageSearchService();
+  private forkService = new SessionForkService(this.sessionsService, this.attachmentsService);
+  private comparisonService = new SessionComparisonService(this.sessionsService);
 
   /**
    * Create new session
@@ -28,13 +62,19 @@ export class SessionsController {
         data: session,
       } as ApiResponse);
     } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Unknown model')) {
+        return next(new AppError(400, error.message, 'UNKNOWN_MODEL'));
+      }
+      if (isUnsupportedSettingsError(error)) {
+        return next(new AppError(400, error.message, 'UNSUPPORTED_GENERATION_SETTINGS'));
+      }
       next(error);
     }
   };
 
   /**
-   * Get all sessions
-   * GET /api/sessions
+   * Get a page of sessions
+   * GET /api/sessions?page=&pageSize=&sortBy=&sortOrder=&archived=&tag=
    */
   findAll = async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
@@ -42,7 +82,8 @@ export class SessionsController {
         throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
       }
 
-      const sessions = await this.sessionsService.findAll(req.user.id);
+      const query = SessionListQuerySchema.parse(req.query);
+      const sessions = await this.sessionsService.findAll(req.user.id, query);
 
       res.json({
         success: true,
@@ -54,21 +95,128 @@ export class SessionsController {
   };
 
   /**
-   * Get single session with messages
-   * GET /api/sessions/:id
+   * Full-text search across the user's chat history
+   * GET /api/sessions/search?q=...&projectPath=&model=&role=&from=&to=&page=&pageSize=
    */
-  findOne = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  search = async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
         throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
       }
 
-      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-      const session = await this.sessionsService.findWithMessages(
+      const query = MessageSearchQuerySchema.parse(req.query);
+      const results = await this.searchService.search(req.user.id, query);
+
+      res.json({
+        success: true,
+        data: results,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create one sandboxed session per model to compare
+   * POST /api/sessions/comparisons
+   */
+  createComparison = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = CreateComparisonSchema.parse(req.body);
+      const comparison = await this.comparisonService.create(req.user.id, input);
+
+      res.status(201).json({
+        success: true,
+        data: comparison,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Unknown model')) {
+        return next(new AppError(400, error.message, 'UNKNOWN_MODEL'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Get the sessions of a comparison
+   * GET /api/sessions/comparisons/:comparisonId
+   */
+  findComparison = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const comparisonId = Array.isArray(req.params.comparisonId)
+        ? req.params.comparisonId[0]
+        : req.params.comparisonId;
+      const comparison = await this.comparisonService.get(req.user.id, comparisonId);
+
+      res.json({
+        success: true,
+        data: comparison,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Comparison not found') {
+        return next(new AppError(404, error.message, 'COMPARISON_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Continue with one session of a comparison and archive the others
+   * PUT /api/sessions/comparisons/:comparisonId/winner
+   */
+  pickComparisonWinner = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const { sessionId } = PickComparisonWinnerSchema.parse(req.body);
+      const comparisonId = Array.isArray(req.params.comparisonId)
+        ? req.params.comparisonId[0]
+        : req.params.comparisonId;
+      const session = await this.comparisonService.pickWinner(
         req.user.id,
+        comparisonId,
         sessionId
       );
 
+      res.json({
+        success: true,
+        data: session,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Comparison not found') {
+        return next(new AppError(404, error.message, 'COMPARISON_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Get single session with messages
+   * GET /api/sessions/:id?limit=
+   */
+  findOne = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const { limit } = SessionDetailQuerySchema.parse(req.query);
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const session = await this.sessionsService.findWithMessages(req.user.id, sessionId, limit);
+
       if (!session) {
         throw new AppError(404, 'Session not found', 'SESSION_NOT_FOUND');
       }
@@ -82,6 +230,87 @@ export class SessionsController {
     }
   };
 
+  /**
+   * Page through the active branch of a session
+   * GET /api/sessions/:id/messages?before=|after=&limit=
+   */
+  findMessages = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const query = MessagePageQuerySchema.parse(req.query);
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const page = await this.sessionsService.findMessages(req.user.id, sessionId, query);
+
+      res.json({
+        success: true,
+        data: page,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Message not found') {
+        return next(new AppError(404, error.message, 'MESSAGE_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Get token usage totals for a session
+   * GET /api/sessions/:id/usage
+   */
+  usage = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const usage = await this.sessionsService.getUsage(req.user.id, sessionId);
+
+      if (!usage) {
+        throw new AppError(404, 'Session not found', 'SESSION_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        data: usage,
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Download a session transcript or archive
+   * GET /api/sessions/:id/export?format=md|json|html
+   */
+  exportSession = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const { format } = SessionExportQuerySchema.parse(req.query);
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const file = await this.exportService.export(req.user.id, sessionId, format);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.attachment(file.filename);
+      res.send(file.body);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
   /**
    * Add message to session
    * POST /api/sessions/:id/messages
@@ -92,22 +321,129 @@ export class SessionsController {
         throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
       }
 
-      const messageData = ChatMessageSchema.parse(req.body);
+      const { role, content, metadata, parentId } = ChatMessageSchema.parse(req.body);
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const message = await this.sessionsService.addMessage(req.user.id, sessionId, {
+        role,
+        content,
+        metadata,
+        parentId,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: message,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Message not found') {
+        return next(new AppError(404, error.message, 'MESSAGE_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Switch the branch the session shows
+   * PUT /api/sessions/:id/branch?limit=
+   */
+  selectBranch = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const { messageId } = SelectBranchSchema.parse(req.body);
+      const { limit } = SessionDetailQuerySchema.parse(req.query);
       const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-      const message = await this.sessionsService.addMessage(
+      const session = await this.sessionsService.selectBranch(
         req.user.id,
         sessionId,
-        messageData
+        messageId,
+        limit
       );
 
+      res.json({
+        success: true,
+        data: session,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Message not found') {
+        return next(new AppError(404, error.message, 'MESSAGE_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Copy a session up to a message into a new session
+   * POST /api/sessions/:id/fork
+   */
+  fork = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = ForkSessionSchema.parse(req.body);
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const session = await this.forkService.fork(req.user.id, sessionId, input);
+
       res.status(201).json({
         success: true,
-        data: message,
+        data: session,
       } as ApiResponse);
     } catch (error) {
       if (error instanceof Error && error.message === 'Session not found') {
         return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
       }
+      if (error instanceof Error && error.message === 'Message not found') {
+        return next(new AppError(404, error.message, 'MESSAGE_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message === 'Project not found') {
+        return next(new AppError(404, error.message, 'PROJECT_NOT_FOUND'));
+      }
+      if (error instanceof Error && error.message.startsWith('Unknown model')) {
+        return next(new AppError(400, error.message, 'UNKNOWN_MODEL'));
+      }
+      if (error instanceof Error && error.message.startsWith('Model not available')) {
+        return next(new AppError(400, error.message, 'MODEL_NOT_AVAILABLE'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Rename, pin, archive, tag or tune a session
+   * PUT /api/sessions/:id
+   */
+  update = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = UpdateSessionSchema.parse(req.body);
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const session = await this.sessionsService.update(req.user.id, sessionId, input);
+
+      if (!session) {
+        throw new AppError(404, 'Session not found', 'SESSION_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        data: session,
+      } as ApiResponse);
+    } catch (error) {
+      if (isUnsupportedSettingsError(error)) {
+        return next(new AppError(400, error.message, 'UNSUPPORTED_GENERATION_SETTINGS'));
+      }
       next(error);
     }
   };
@@ -128,6 +464,7 @@ export class SessionsController {
       if (!success) {
         throw new AppError(404, 'Session not found', 'SESSION_NOT_FOUND');
       }
+      await this.attachmentsService.removeSessionFiles(sessionId);
 
       res.json({
         success: true,
@@ -153,9 +490,11 @@ export class SessionsController {
         throw new AppError(400, 'Project path required', 'MISSING_PATH');
       }
 
+      const query = SessionListQuerySchema.parse(req.query);
       const sessions = await this.sessionsService.findByProject(
         req.user.id,
-        projectPath
+        projectPath,
+        query
       );
 
       res.json({
@@ -166,4 +505,55 @@ export class SessionsController {
       next(error);
     }
   };
+
+  /**
+   * Get session execution policy
+   * GET /api/sessions/:id/policy
+   */
+  getPolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const policy = await this.policyService.getSessionPolicy(req.user.id, sessionId);
+
+      res.json({
+        success: true,
+        data: policy,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Replace session execution policy
+   * PUT /api/sessions/:id/policy
+   */
+  updatePolicy = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = ExecutionPolicySchema.parse(req.body);
+      const sessionId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const policy = await this.policyService.setSessionPolicy(req.user.id, sessionId, input);
+
+      res.json({
+        success: true,
+        data: policy,
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        return next(new AppError(404, error.message, 'SESSION_NOT_FOUND'));
+      }
+      next(error);
+    }
+  };
 }
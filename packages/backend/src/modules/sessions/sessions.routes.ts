@@ -14,6 +14,30 @@ router.use(requireAuth);
  */
 router.get('/project', sessionsController.findByProject);
 
+/**
+ * GET /api/sessions/search
+ * Full-text search across chat history
+ */
+router.get('/search', sessionsController.search);
+
+/**
+ * POST /api/sessions/comparisons
+ * Create one sandboxed session per model to compare
+ */
+router.post('/comparisons', sessionsController.createComparison);
+
+/**
+ * GET /api/sessions/comparisons/:comparisonId
+ * Get the sessions of a comparison
+ */
+router.get('/comparisons/:comparisonId', sessionsController.findComparison);
+
+/**
+ * PUT /api/sessions/comparisons/:comparisonId/winner
+ * Continue with one session and archive the others
+ */
+router.put('/comparisons/:comparisonId/winner', sessionsController.pickComparisonWinner);
+
 /**
  * POST /api/sessions
  * Create new session
@@ -22,7 +46,7 @@ router.post('/', sessionsController.create);
 
 /**
  * GET /api/sessions
- * Get all sessions
+ * Get a page of sessions
  */
 router.get('/', sessionsController.findAll);
 
@@ -32,12 +56,60 @@ router.get('/', sessionsController.findAll);
  */
 router.get('/:id', sessionsController.findOne);
 
+/**
+ * PUT /api/sessions/:id
+ * Update title, pinned/archived flags, tags or generation settings
+ */
+router.put('/:id', sessionsController.update);
+
+/**
+ * GET /api/sessions/:id/usage
+ * Get token usage totals
+ */
+router.get('/:id/usage', sessionsController.usage);
+
+/**
+ * GET /api/sessions/:id/export
+ * Export session as Markdown, JSON or HTML
+ */
+router.get('/:id/export', sessionsController.exportSession);
+
+/**
+ * GET /api/sessions/:id/messages
+ * Get a page of the active branch before or after a message
+ */
+router.get('/:id/messages', sessionsController.findMessages);
+
 /**
  * POST /api/sessions/:id/messages
  * Add message to session
  */
 router.post('/:id/messages', sessionsController.addMessage);
 
+/**
+ * PUT /api/sessions/:id/branch
+ * Switch the conversation branch shown
+ */
+router.put('/:id/branch', sessionsController.selectBranch);
+
+/**
+ * POST /api/sessions/:id/fork
+ * Copy the conversation up to a message into a new session
+ */
+router.post('/:id/fork', sessionsController.fork);
+
+/**
+ * GET /api/sessions/:id/policy
+ * Get session execution policy
+ */
+router.get('/:id/policy', sessionsController.getPolicy);
+
+/**
+ * PUT /api/sessions/:id/policy
+ * Replace session execution policy
+ */
+router.put('/:id/policy', sessionsController.updatePolicy);
+
 /**
  * DELETE /api/sessions/:id
  * Delete session
@@ -1,48 +1,147 @@
 import { db } from '../../db/index.js';
-import { sessions, chatMessages } from '../../db/schema.js';
-import { eq, and, desc } from 'drizzle-orm';
+import {
+  sessions,
+  chatMessages,
+  type ChatMessage as ChatMessageRow,
+  type Session as SessionRow,
+} from '../../db/schema.js';
+import { eq, and, asc, desc, inArray, sql, type SQL } from 'drizzle-orm';
+import { SessionListQuerySchema, unsupportedGenerationSettings } from '@gemini-ui/shared';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+import { latestLeaf, pathTo, siblingIds, type MessageNode } from './message-tree.js';
 import type {
   CreateSessionInput,
+  GenerationSettings,
   Session,
   ChatMessage,
   SessionWithMessages,
+  SessionUsage,
+  MessagePage,
+  MessagePageQuery,
+  TokenUsage,
+  PaginatedResponse,
+  SessionListQuery,
+  UpdateSessionInput,
 } from '@gemini-ui/shared';
 
+// Generated titles are cut at a word break near this length
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Title for a new conversation: the first line of its opening prompt
+ */
+export function titleFromPrompt(prompt: string): string {
+  const line = prompt.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (line.length <= TITLE_MAX_LENGTH) {
+    return line;
+  }
+
+  const cut = line.slice(0, TITLE_MAX_LENGTH);
+  const wordBreak = cut.lastIndexOf(' ');
+  return `${wordBreak > TITLE_MAX_LENGTH / 2 ? cut.slice(0, wordBreak) : cut}…`;
+}
+
+/**
+ * Convert a session row (nullable columns) to the API shape
+ */
+function toSession(row: SessionRow): Session {
+  return {
+    ...row,
+    geminiSessionId: row.geminiSessionId ?? undefined,
+    metadata: row.metadata ?? undefined,
+    activeLeafId: row.activeLeafId ?? undefined,
+    title: row.title ?? undefined,
+    tags: row.tags ?? [],
+    generationSettings: row.generationSettings ?? undefined,
+    approvedTools: row.approvedTools ?? [],
+  };
+}
+
+/**
+ * Check generation settings against the capabilities of a session's model
+ * @throws Error naming the settings the model does not accept
+ */
+function assertGenerationSettings(settings: GenerationSettings, model: string): void {
+  const unsupported = unsupportedGenerationSettings(settings, model, modelRegistry.list());
+  if (unsupported.length > 0) {
+    throw new Error(`Generation settings not supported by ${model}: ${unsupported.join(', ')}`);
+  }
+}
+
+/**
+ * Sum the token usage recorded on assistant messages
+ */
+function summarizeUsage(messages: Array<{ metadata: Record<string, unknown> | null }>): SessionUsage {
+  const summary: SessionUsage = {
+    promptTokens: 0,
+    responseTokens: 0,
+    cachedTokens: 0,
+    totalTokens: 0,
+    turns: 0,
+    contextTokens: 0,
+    costUsd: 0,
+  };
+
+  for (const message of messages) {
+    const usage = message.metadata?.usage as TokenUsage | undefined;
+    if (!usage) continue;
+
+    summary.promptTokens += usage.promptTokens;
+    summary.responseTokens += usage.responseTokens;
+    summary.cachedTokens += usage.cachedTokens;
+    summary.totalTokens += usage.totalTokens;
+    summary.turns += 1;
+    if (typeof message.metadata?.costUsd === 'number') {
+      summary.costUsd += message.metadata.costUsd;
+    }
+    // Each prompt carries the whole conversation, so the latest turn shows how full the context is
+    summary.contextTokens = usage.promptTokens + usage.responseTokens;
+  }
+
+  return summary;
+}
+
 /**
  * Sessions service layer
  */
 export class SessionsService {
   /**
    * Create a new session
+   * @throws Error if the model is not in the registry or does not accept the generation settings
    */
   async create(userId: string, input: CreateSessionInput): Promise<Session> {
+    // The runner would silently swap an unknown model for the default one
+    if (input.model && !modelRegistry.get(input.model)) {
+      throw new Error(`Unknown model: ${input.model}`);
+    }
+    const model = input.model ?? modelRegistry.defaultModel();
+    if (input.generationSettings) {
+      assertGenerationSettings(input.generationSettings, model);
+    }
+
     const [newSession] = await db
       .insert(sessions)
       .values({
         userId,
         projectPath: input.projectPath,
+        model,
         geminiSessionId: input.geminiSessionId || null,
         metadata: input.metadata || null,
+        generationSettings: input.generationSettings ?? null,
       })
       .returning();
 
-    return newSession as Session;
+    return toSession(newSession);
   }
 
   /**
-   * Get all sessions for a user
+   * Get a page of the user's sessions, pinned first
    */
-  async findAll(userId: string): Promise<Session[]> {
-    const results = await db.query.sessions.findMany({
-      where: eq(sessions.userId, userId),
-      orderBy: [desc(sessions.lastAccessedAt)],
-    });
-
-    return results.map(session => ({
-      ...session,
-      geminiSessionId: session.geminiSessionId ?? undefined,
-      metadata: session.metadata ?? undefined,
-    }));
+  async findAll(
+    userId: string,
+    query: SessionListQuery = SessionListQuerySchema.parse({})
+  ): Promise<PaginatedResponse<Session>> {
+    return this.list(eq(sessions.userId, userId), query);
   }
 
   /**
@@ -63,49 +162,79 @@ export class SessionsService {
       .set({ lastAccessedAt: new Date() })
       .where(eq(sessions.id, sessionId));
 
-    // Convert null to undefined for TypeScript compatibility
-    return {
-      ...session,
-      geminiSessionId: session.geminiSessionId ?? undefined,
-      metadata: session.metadata ?? undefined,
-    };
+    return toSession(session);
   }
 
   /**
-   * Get session with all messages
+   * Get session with the messages of its active branch
+   * Each message lists its siblings so clients can switch branches
+   * @param limit Only return this many of the newest messages
    */
   async findWithMessages(
     userId: string,
-    sessionId: string
+    sessionId: string,
+    limit?: number
   ): Promise<SessionWithMessages | null> {
     const session = await this.findById(userId, sessionId);
     if (!session) {
       return null;
     }
 
-    const messages = await db.query.chatMessages.findMany({
-      where: eq(chatMessages.sessionId, sessionId),
-      orderBy: [chatMessages.createdAt],
+    const { items, hasMoreBefore } = await this.messagePage(session, {
+      limit: limit ?? Infinity,
     });
+    return { ...session, messages: items, hasMoreBefore };
+  }
 
-    return {
-      ...session,
-      messages: messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-        timestamp: msg.createdAt,
-        metadata: msg.metadata ?? undefined,
-      })),
-    };
+  /**
+   * Get a window of the active branch: messages before or after a cursor message,
+   * or the newest ones without a cursor
+   * @throws Error if the session or cursor message is missing
+   */
+  async findMessages(
+    userId: string,
+    sessionId: string,
+    query: MessagePageQuery
+  ): Promise<MessagePage> {
+    const session = await db.query.sessions.findFirst({
+      where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
+    });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    return this.messagePage(toSession(session), query);
+  }
+
+  /**
+   * Get every message of a session (all branches) in creation order
+   * @throws Error if the session does not belong to the user
+   */
+  async listMessages(userId: string, sessionId: string): Promise<ChatMessageRow[]> {
+    const session = await db.query.sessions.findFirst({
+      where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
+    });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    return this.loadMessages(sessionId);
   }
 
   /**
-   * Add message to session
+   * Add message to session and make it the active leaf
+   * Without a parentId the message continues the active branch
+   * @throws Error if the session or parent message is missing
    */
   async addMessage(
     userId: string,
     sessionId: string,
-    message: { role: 'user' | 'assistant' | 'system'; content: string; metadata?: Record<string, unknown> }
+    message: {
+      role: 'user' | 'assistant' | 'system';
+      content: string;
+      metadata?: Record<string, unknown>;
+      parentId?: string | null;
+    }
   ): Promise<ChatMessage> {
     // Verify session ownership
     const session = await this.findById(userId, sessionId);
@@ -113,17 +242,39 @@ export class SessionsService {
       throw new Error('Session not found');
     }
 
+    const parentId =
+      message.parentId === undefined ? await this.activeLeafId(session) : message.parentId;
+    if (parentId) {
+      const parent = await db.query.chatMessages.findFirst({
+        where: and(eq(chatMessages.id, parentId), eq(chatMessages.sessionId, sessionId)),
+      });
+      if (!parent) {
+        throw new Error('Message not found');
+      }
+    }
+
     const [newMessage] = await db
       .insert(chatMessages)
       .values({
         sessionId,
+        parentId,
         role: message.role,
         content: message.content,
         metadata: message.metadata,
       })
       .returning();
 
+    // The opening prompt names the session until the user renames it
+    const title =
+      !session.title && message.role === 'user' ? titleFromPrompt(message.content) : undefined;
+    await db
+      .update(sessions)
+      .set({ activeLeafId: newMessage.id, ...(title && { title }) })
+      .where(eq(sessions.id, sessionId));
+
     return {
+      id: newMessage.id,
+      parentId: newMessage.parentId,
       sessionId: newMessage.sessionId,
       role: newMessage.role,
       content: newMessage.content,
@@ -132,6 +283,29 @@ export class SessionsService {
     } as any;
   }
 
+  /**
+   * Show the branch through a message, continuing to its newest reply
+   * @throws Error if the session or message is missing
+   */
+  async selectBranch(
+    userId: string,
+    sessionId: string,
+    messageId: string,
+    limit?: number
+  ): Promise<SessionWithMessages> {
+    const messages = await this.listMessages(userId, sessionId);
+    if (!messages.some((message) => message.id === messageId)) {
+      throw new Error('Message not found');
+    }
+
+    await db
+      .update(sessions)
+      .set({ activeLeafId: latestLeaf(messages, messageId) })
+      .where(eq(sessions.id, sessionId));
+
+    return (await this.findWithMessages(userId, sessionId, limit))!;
+  }
+
   /**
    * Delete session and all messages
    */
@@ -147,17 +321,97 @@ export class SessionsService {
   /**
    * Get sessions by project path
    */
-  async findByProject(userId: string, projectPath: string): Promise<Session[]> {
-    const results = await db.query.sessions.findMany({
-      where: and(eq(sessions.userId, userId), eq(sessions.projectPath, projectPath)),
-      orderBy: [desc(sessions.lastAccessedAt)],
+  async findByProject(
+    userId: string,
+    projectPath: string,
+    query: SessionListQuery = SessionListQuerySchema.parse({})
+  ): Promise<PaginatedResponse<Session>> {
+    return this.list(
+      and(eq(sessions.userId, userId), eq(sessions.projectPath, projectPath))!,
+      query
+    );
+  }
+
+  /**
+   * Rename, pin, archive, tag or tune a session
+   * @throws Error if the session's model does not accept the generation settings
+   */
+  async update(
+    userId: string,
+    sessionId: string,
+    input: UpdateSessionInput
+  ): Promise<Session | null> {
+    if (input.generationSettings) {
+      const session = await db.query.sessions.findFirst({
+        where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
+      });
+      if (!session) {
+        return null;
+      }
+      assertGenerationSettings(input.generationSettings, session.model);
+    }
+
+    const [updated] = await db
+      .update(sessions)
+      .set(input)
+      .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
+      .returning();
+
+    return updated ? toSession(updated) : null;
+  }
+
+  /**
+   * Record the Gemini CLI session id used to resume the conversation
+   */
+  async updateGeminiSessionId(
+    userId: string,
+    sessionId: string,
+    geminiSessionId: string | null
+  ): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ geminiSessionId })
+      .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)));
+  }
+
+  /**
+   * Get token usage totals for a session
+   */
+  async getUsage(userId: string, sessionId: string): Promise<SessionUsage | null> {
+    const session = await db.query.sessions.findFirst({
+      where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
     });
+    if (!session) {
+      return null;
+    }
+
+    const messages = await this.loadMessages(sessionId);
+    const summary = summarizeUsage(messages);
+
+    // Spend covers every branch, but only the active branch occupies the context window
+    const leafId = session.activeLeafId ?? messages[messages.length - 1]?.id ?? null;
+    const latest = pathTo(messages, leafId)
+      .map((message) => message.metadata?.usage as TokenUsage | undefined)
+      .filter((usage): usage is TokenUsage => Boolean(usage))
+      .pop();
+    summary.contextTokens = latest ? latest.promptTokens + latest.responseTokens : 0;
+
+    return summary;
+  }
 
-    return results.map(session => ({
-      ...session,
-      geminiSessionId: session.geminiSessionId ?? undefined,
-      metadata: session.metadata ?? undefined,
-    }));
+  /**
+   * Always approve a tool in the session from now on
+   */
+  async addApprovedTool(userId: string, sessionId: string, tool: string): Promise<void> {
+    const session = await this.findById(userId, sessionId);
+    if (!session || session.approvedTools.includes(tool)) {
+      return;
+    }
+
+    await db
+      .update(sessions)
+      .set({ approvedTools: [...session.approvedTools, tool] })
+      .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)));
   }
 
   /**
@@ -174,14 +428,132 @@ export class SessionsService {
       .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
       .returning();
 
-    if (!updated) {
-      return null;
+    return updated ? toSession(updated) : null;
+  }
+
+  /**
+   * Page through sessions matching a condition
+   */
+  private async list(
+    condition: SQL,
+    query: SessionListQuery
+  ): Promise<PaginatedResponse<Session>> {
+    const conditions = [condition, eq(sessions.archived, query.archived)];
+    if (query.tag) {
+      conditions.push(
+        sql`exists (select 1 from json_each(${sessions.tags}) where value = ${query.tag})`
+      );
+    }
+    const where = and(...conditions);
+
+    const sortColumn = {
+      lastAccessedAt: sessions.lastAccessedAt,
+      createdAt: sessions.createdAt,
+      title: sql`coalesce(${sessions.title}, '')`,
+    }[query.sortBy];
+    const direction = query.sortOrder === 'asc' ? asc : desc;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(sessions)
+      .where(where);
+    const rows = await db.query.sessions.findMany({
+      where,
+      orderBy: [desc(sessions.pinned), direction(sortColumn), desc(sessions.id)],
+      limit: query.pageSize,
+      offset: (query.page - 1) * query.pageSize,
+    });
+
+    return {
+      items: rows.map(toSession),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: query.page * query.pageSize < total,
+    };
+  }
+
+  /**
+   * Slice the active branch around a cursor
+   * The tree is walked on ids alone; only the messages returned are loaded in full,
+   * so long sessions with large tool outputs stay cheap to page through
+   */
+  private async messagePage(session: Session, query: MessagePageQuery): Promise<MessagePage> {
+    const nodes: MessageNode[] = await db
+      .select({ id: chatMessages.id, parentId: chatMessages.parentId })
+      .from(chatMessages)
+      .where(eq(chatMessages.sessionId, session.id))
+      .orderBy(chatMessages.createdAt, sql`rowid`);
+    const leafId = session.activeLeafId ?? nodes[nodes.length - 1]?.id ?? null;
+    const branch = pathTo(nodes, leafId);
+
+    let start = Math.max(0, branch.length - query.limit);
+    let end = branch.length;
+    const cursor = query.before ?? query.after;
+    if (cursor) {
+      const index = branch.findIndex((node) => node.id === cursor);
+      if (index === -1) {
+        throw new Error('Message not found');
+      }
+      if (query.before) {
+        start = Math.max(0, index - query.limit);
+        end = index;
+      } else {
+        start = index + 1;
+        end = Math.min(branch.length, start + query.limit);
+      }
     }
 
+    const window = branch.slice(start, end);
+    const rows =
+      window.length > 0
+        ? await db.query.chatMessages.findMany({
+            where: inArray(chatMessages.id, window.map((node) => node.id)),
+          })
+        : [];
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+
     return {
-      ...updated,
-      geminiSessionId: updated.geminiSessionId ?? undefined,
-      metadata: updated.metadata ?? undefined,
+      items: window.map((node) => {
+        const msg = rowsById.get(node.id)!;
+        return {
+          id: msg.id,
+          parentId: msg.parentId,
+          siblingIds: siblingIds(nodes, node),
+          role: msg.role,
+          content: msg.content,
+          timestamp: msg.createdAt,
+          metadata: msg.metadata ?? undefined,
+        };
+      }),
+      hasMoreBefore: start > 0,
+      hasMoreAfter: end < branch.length,
     };
   }
+
+  /**
+   * Load a session's messages in creation order (rowid breaks same-second ties)
+   */
+  private loadMessages(sessionId: string): Promise<ChatMessageRow[]> {
+    return db.query.chatMessages.findMany({
+      where: eq(chatMessages.sessionId, sessionId),
+      orderBy: [chatMessages.createdAt, sql`rowid`],
+    });
+  }
+
+  /**
+   * Leaf of the active branch, falling back to the newest message
+   */
+  private async activeLeafId(session: Session): Promise<string | null> {
+    if (session.activeLeafId) {
+      return session.activeLeafId;
+    }
+
+    const [latest] = await db.query.chatMessages.findMany({
+      where: eq(chatMessages.sessionId, session.id),
+      orderBy: [desc(chatMessages.createdAt), desc(sql`rowid`)],
+      limit: 1,
+    });
+    return latest?.id ?? null;
+  }
 }
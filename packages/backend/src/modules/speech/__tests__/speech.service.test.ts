@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { SpeechService, pcmToWav } from '../speech.service.js';
+import { AttachmentsService } from '../../attachments/attachments.service.js';
+import { SessionsService } from '../../sessions/sessions.service.js';
+import { db } from '../../../db/index.js';
+import { users } from '../../../db/schema.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+// A tenth of a second of silence
+const CANNED_WAV = pcmToWav(Buffer.alloc(4800), 24000);
+
+/**
+ * Request received by the stand-in
+ */
+interface StandInRequest {
+  url: string;
+  body: {
+    contents: Array<{ parts: Array<{ text: string }> }>;
+    generationConfig: Record<string, unknown>;
+  };
+}
+
+/**
+ * Local stand-in for the Gemini API that answers every request with the canned WAV
+ */
+async function startStandIn(requests: StandInRequest[]) {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ url: req.url!, body: JSON.parse(body) });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          candidates: [
+            {
+              content: {
+                parts: [
+                  { inlineData: { mimeType: 'audio/wav', data: CANNED_WAV.toString('base64') } },
+                ],
+              },
+            },
+          ],
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}/v1beta` };
+}
+
+describe('pcmToWav', () => {
+  it('should describe the samples in a WAV header', () => {
+    const wav = pcmToWav(Buffer.alloc(100), 24000);
+
+    expect(wav.subarray(0, 4).toString()).toBe('RIFF');
+    expect(wav.subarray(8, 12).toString()).toBe('WAVE');
+    expect(wav.readUInt32LE(24)).toBe(24000);
+    expect(wav.readUInt32LE(40)).toBe(100);
+    expect(wav.length).toBe(144);
+  });
+});
+
+describe('SpeechService', () => {
+  let server: http.Server;
+  let requests: StandInRequest[];
+  let speechService: SpeechService;
+  let attachmentsService: AttachmentsService;
+  let sessionsService: SessionsService;
+  let uploadDir: string;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    requests = [];
+    const standIn = await startStandIn(requests);
+    server = standIn.server;
+    uploadDir = path.join(os.tmpdir(), `test-speech-${Date.now()}`);
+    attachmentsService = new AttachmentsService(uploadDir);
+    sessionsService = new SessionsService();
+    speechService = new SpeechService(attachmentsService, 'test-key', standIn.baseUrl);
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'listener', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  async function reply(model: string) {
+    const session = await sessionsService.create(testUserId, { projectPath: '/tmp', model });
+    const message = await sessionsService.addMessage(testUserId, session.id, {
+      role: 'assistant',
+      content: 'Hello there',
+    });
+    return { sessionId: session.id, messageId: message.id! };
+  }
+
+  it('should store speech as a session attachment', async () => {
+    const { sessionId, messageId } = await reply('gemini-2.5-flash-tts');
+
+    const attachment = await speechService.synthesize(testUserId, sessionId, messageId, {
+      voice: 'Puck',
+    });
+
+    expect(attachment).toMatchObject({ mimeType: 'audio/wav', size: CANNED_WAV.length });
+    const { filePath } = await attachmentsService.getFile(testUserId, sessionId, attachment.id);
+    expect((await fs.readFile(filePath)).equals(CANNED_WAV)).toBe(true);
+    expect(requests[0].url).toBe('/v1beta/models/gemini-2.5-flash-preview-tts:generateContent');
+    expect(requests[0].body.contents[0].parts[0].text).toBe('Hello there');
+    expect(requests[0].body.generationConfig).toMatchObject({
+      responseModalities: ['AUDIO'],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
+    });
+
+    const [message] = (await sessionsService.findWithMessages(testUserId, sessionId))!.messages;
+    expect(message.metadata?.speech).toMatchObject({ voice: 'Puck' });
+  });
+
+  it('should reuse speech generated in the same voice', async () => {
+    const { sessionId, messageId } = await reply('gemini-2.5-pro-tts');
+
+    const first = await speechService.synthesize(testUserId, sessionId, messageId);
+    const again = await speechService.synthesize(testUserId, sessionId, messageId);
+    const otherVoice = await speechService.synthesize(testUserId, sessionId, messageId, {
+      voice: 'Zephyr',
+    });
+
+    expect(again.id).toBe(first.id);
+    expect(otherVoice.id).not.toBe(first.id);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].url).toBe('/v1beta/models/gemini-2.5-pro-preview-tts:generateContent');
+  });
+
+  it('should only speak with TTS models and a configured key', async () => {
+    const plain = await reply('gemini-2.5-flash');
+    await expect(
+      speechService.synthesize(testUserId, plain.sessionId, plain.messageId)
+    ).rejects.toThrow('Model does not support speech');
+
+    const tts = await reply('gemini-2.5-flash-tts');
+    await expect(
+      speechService.synthesize(testUserId, tts.sessionId, 'missing')
+    ).rejects.toThrow('Message not found');
+    const unconfigured = new SpeechService(attachmentsService, undefined);
+    await expect(
+      unconfigured.synthesize(testUserId, tts.sessionId, tts.messageId)
+    ).rejects.toThrow('Speech is not configured');
+    expect(requests).toHaveLength(0);
+  });
+});
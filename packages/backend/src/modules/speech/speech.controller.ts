@@ -0,0 +1,67 @@
+import type { Response, NextFunction } from 'express';
+import { SpeechService } from './speech.service.js';
+import { SynthesizeSpeechSchema, type ApiResponse } from '@gemini-ui/shared';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * Map speech service errors to API errors
+ */
+function toAppError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  switch (error.message) {
+    case 'Session not found':
+      return new AppError(404, error.message, 'SESSION_NOT_FOUND');
+    case 'Message not found':
+      return new AppError(404, error.message, 'MESSAGE_NOT_FOUND');
+    case 'Model does not support speech':
+      return new AppError(400, error.message, 'TTS_NOT_SUPPORTED');
+    case 'Speech is not configured':
+      return new AppError(503, 'Set GEMINI_API_KEY to enable speech', 'TTS_NOT_CONFIGURED');
+    case 'Speech synthesis failed':
+      return new AppError(502, error.message, 'TTS_FAILED');
+    default:
+      return error;
+  }
+}
+
+/**
+ * Speech controller
+ */
+export class SpeechController {
+  private speechService = new SpeechService();
+
+  /**
+   * Read an assistant message aloud
+   * POST /api/sessions/:sessionId/messages/:messageId/speech
+   */
+  synthesize = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const sessionId = Array.isArray(req.params.sessionId)
+        ? req.params.sessionId[0]
+        : req.params.sessionId;
+      const messageId = Array.isArray(req.params.messageId)
+        ? req.params.messageId[0]
+        : req.params.messageId;
+      const input = SynthesizeSpeechSchema.parse(req.body ?? {});
+      const attachment = await this.speechService.synthesize(
+        req.user.id,
+        sessionId,
+        messageId,
+        input
+      );
+
+      res.status(201).json({
+        success: true,
+        data: attachment,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+}
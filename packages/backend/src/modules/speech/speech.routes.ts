@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { SpeechController } from './speech.controller.js';
+import { requireAuth } from '../../middleware/auth.middleware.js';
+
+// Mounted under /api/sessions/:sessionId/messages/:messageId/speech
+const router = Router({ mergeParams: true });
+const speechController = new SpeechController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * POST /api/sessions/:sessionId/messages/:messageId/speech
+ * Generate (or reuse) speech for an assistant message with the session's TTS model
+ */
+router.post('/', speechController.synthesize);
+
+export default router;
@@ -0,0 +1,177 @@
+import { db } from '../../db/index.js';
+import { chatMessages, sessions } from '../../db/schema.js';
+import { and, eq } from 'drizzle-orm';
+import {
+  SPEECH_MIME_TYPE,
+  SynthesizeSpeechSchema,
+  type Attachment,
+  type MessageSpeech,
+  type SynthesizeSpeechInput,
+} from '@gemini-ui/shared';
+import { config } from '../../config/index.js';
+import { AttachmentsService } from '../attachments/attachments.service.js';
+import { modelRegistry } from '../gemini/model-registry.service.js';
+
+// Sample rate of the raw PCM the API returns when its MIME type does not name one
+const DEFAULT_SAMPLE_RATE = 24000;
+
+// How long a synthesis request may take before it is abandoned
+const SPEECH_TIMEOUT_MS = 60_000;
+
+/**
+ * Shape of the generateContent response parts we read
+ */
+interface GenerateContentResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ inlineData?: { mimeType?: string; data?: string } }> };
+  }>;
+}
+
+/**
+ * Whether a model can answer with speech
+ */
+export function supportsSpeech(modelId: string): boolean {
+  return modelRegistry.get(modelId)?.capabilities.includes('tts') ?? false;
+}
+
+/**
+ * Wrap raw 16-bit little-endian PCM in a WAV container
+ */
+export function pcmToWav(pcm: Buffer, sampleRate: number, channels = 1): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // Uncompressed PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Audio of a generateContent response as WAV
+ * The API answers with raw PCM (`audio/L16;codec=pcm;rate=24000`); WAV data is kept as is
+ */
+export function audioFromResponse(body: unknown): Buffer | undefined {
+  const parts = (body as GenerateContentResponse | undefined)?.candidates?.[0]?.content?.parts;
+  const audio = parts?.find((part) => part.inlineData?.mimeType?.startsWith('audio/'))
+    ?.inlineData;
+  if (!audio?.mimeType || !audio.data) {
+    return undefined;
+  }
+
+  const data = Buffer.from(audio.data, 'base64');
+  if (/^audio\/(x-)?wav/.test(audio.mimeType)) {
+    return data;
+  }
+  const rate = Number(/rate=(\d+)/.exec(audio.mimeType)?.[1] ?? DEFAULT_SAMPLE_RATE);
+  return pcmToWav(data, rate);
+}
+
+/**
+ * Speech service
+ *
+ * The CLI only returns text, so TTS models are asked for audio through the Gemini API.
+ * The audio is stored as a session attachment and recorded on the message it reads.
+ */
+export class SpeechService {
+  constructor(
+    private attachmentsService = new AttachmentsService(),
+    private apiKey: string | undefined = config.GEMINI_API_KEY,
+    private baseUrl: string = config.GEMINI_API_BASE_URL
+  ) {}
+
+  /**
+   * Read an assistant message aloud with the session's model
+   * Speech already generated for the message in the same voice is reused.
+   * @throws Error if the session or message is missing, the model cannot speak,
+   * no API key is configured or the API fails
+   */
+  async synthesize(
+    userId: string,
+    sessionId: string,
+    messageId: string,
+    input: SynthesizeSpeechInput = {}
+  ): Promise<Attachment> {
+    const { voice } = SynthesizeSpeechSchema.parse(input);
+
+    const session = await db.query.sessions.findFirst({
+      where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
+    });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    if (!supportsSpeech(session.model)) {
+      throw new Error('Model does not support speech');
+    }
+
+    const message = await db.query.chatMessages.findFirst({
+      where: and(eq(chatMessages.id, messageId), eq(chatMessages.sessionId, sessionId)),
+    });
+    if (!message || message.role !== 'assistant' || !message.content.trim()) {
+      throw new Error('Message not found');
+    }
+
+    const existing = message.metadata?.speech as MessageSpeech | undefined;
+    if (existing?.voice === voice) {
+      return existing.attachment;
+    }
+    if (!this.apiKey) {
+      throw new Error('Speech is not configured');
+    }
+
+    // The chat model ids are not the ones the API serves speech from
+    const model = modelRegistry.get(session.model)!;
+    const audio = await this.request(model.speechModel ?? model.id, message.content, voice);
+    const attachment = await this.attachmentsService.createGenerated(userId, sessionId, {
+      filename: `speech-${messageId}.wav`,
+      mimeType: SPEECH_MIME_TYPE,
+      data: audio,
+    });
+
+    const speech: MessageSpeech = { attachment, voice };
+    await db
+      .update(chatMessages)
+      .set({ metadata: { ...message.metadata, speech } })
+      .where(eq(chatMessages.id, messageId));
+
+    return attachment;
+  }
+
+  private async request(model: string, text: string, voice: string): Promise<Buffer> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/models/${model}:generateContent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.apiKey! },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text }] }],
+          generationConfig: {
+            responseModalities: ['AUDIO'],
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+          },
+        }),
+        signal: AbortSignal.timeout(SPEECH_TIMEOUT_MS),
+      });
+    } catch (error) {
+      console.error('Speech synthesis request failed:', error);
+      throw new Error('Speech synthesis failed');
+    }
+
+    const audio = response.ok
+      ? audioFromResponse(await response.json().catch(() => undefined))
+      : undefined;
+    if (!audio) {
+      console.error(`Speech synthesis returned no audio (status ${response.status})`);
+      throw new Error('Speech synthesis failed');
+    }
+    return audio;
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TemplatesService, templateVariables } from '../templates.service.js';
+import { db } from '../../../db/index.js';
+import { users, projects } from '../../../db/schema.js';
+
+describe('TemplatesService', () => {
+  let templatesService: TemplatesService;
+  let testUserId: string;
+  let testProjectId: string;
+
+  beforeEach(async () => {
+    templatesService = new TemplatesService();
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'templateuser', passwordHash: 'hashedpassword' })
+      .returning();
+    testUserId = user.id;
+
+    const [project] = await db
+      .insert(projects)
+      .values({ userId: testUserId, name: 'App', path: '/work/app' })
+      .returning();
+    testProjectId = project.id;
+  });
+
+  it('should list variables in order of first appearance', () => {
+    expect(templateVariables('Review {{ file }} for {{focus}}, then {{file}} again')).toEqual([
+      'file',
+      'focus',
+    ]);
+  });
+
+  it('should create templates and list them with the project ones', async () => {
+    await templatesService.create(testUserId, {
+      name: 'code-review',
+      body: 'Review {{file}} for {{focus}}',
+    });
+    await templatesService.create(testUserId, {
+      name: 'write-tests',
+      body: 'Write tests for {{file}}',
+      files: ['vitest.config.ts'],
+      projectId: testProjectId,
+    });
+
+    const everywhere = await templatesService.findAll(testUserId);
+    expect(everywhere.map((t) => t.name)).toEqual(['code-review']);
+    expect(everywhere[0]).toMatchObject({
+      projectId: null,
+      files: [],
+      variables: ['file', 'focus'],
+    });
+
+    const inProject = await templatesService.findAll(testUserId, testProjectId);
+    expect(inProject.map((t) => t.name)).toEqual(['code-review', 'write-tests']);
+    expect(inProject[1].files).toEqual(['vitest.config.ts']);
+  });
+
+  it('should let project templates hide user templates of the same name', async () => {
+    await templatesService.create(testUserId, { name: 'review', body: 'Generic' });
+    await templatesService.create(testUserId, {
+      name: 'review',
+      body: 'Project specific',
+      projectId: testProjectId,
+    });
+
+    const templates = await templatesService.findAll(testUserId, testProjectId);
+    expect(templates).toHaveLength(1);
+    expect(templates[0].body).toBe('Project specific');
+  });
+
+  it('should reject duplicate names and unknown projects', async () => {
+    await templatesService.create(testUserId, { name: 'review', body: 'One' });
+
+    await expect(
+      templatesService.create(testUserId, { name: 'review', body: 'Two' })
+    ).rejects.toThrow('Template "review" already exists');
+    await expect(
+      templatesService.create(testUserId, { name: 'other', body: 'Two', projectId: 'missing' })
+    ).rejects.toThrow('Project not found');
+  });
+
+  it('should update and delete only the owner templates', async () => {
+    const template = await templatesService.create(testUserId, { name: 'review', body: 'Old' });
+
+    expect(await templatesService.update('someone-else', template.id, { body: 'New' })).toBeNull();
+    const updated = await templatesService.update(testUserId, template.id, {
+      body: 'Check {{file}}',
+    });
+    expect(updated).toMatchObject({ body: 'Check {{file}}', variables: ['file'] });
+
+    expect(await templatesService.delete('someone-else', template.id)).toBe(false);
+    expect(await templatesService.delete(testUserId, template.id)).toBe(true);
+    expect(await templatesService.findById(testUserId, template.id)).toBeNull();
+  });
+
+  it('should round-trip templates through export and import', async () => {
+    await templatesService.create(testUserId, {
+      name: 'code-review',
+      description: 'From the wiki',
+      body: 'Review {{file}}',
+      files: ['CONTRIBUTING.md'],
+    });
+    const file = await templatesService.export(testUserId);
+    expect(file).toEqual({
+      version: 1,
+      templates: [
+        {
+          name: 'code-review',
+          description: 'From the wiki',
+          body: 'Review {{file}}',
+          files: ['CONTRIBUTING.md'],
+        },
+      ],
+    });
+
+    const imported = await templatesService.import(testUserId, {
+      ...file,
+      projectId: testProjectId,
+    });
+    expect(imported[0]).toMatchObject({ name: 'code-review', projectId: testProjectId });
+
+    // Importing again replaces the template instead of duplicating it
+    await templatesService.import(testUserId, {
+      version: 1,
+      templates: [{ name: 'code-review', body: 'Review {{file}} carefully' }],
+      projectId: testProjectId,
+    });
+    const templates = await templatesService.findAll(testUserId, testProjectId);
+    expect(templates).toHaveLength(1);
+    expect(templates[0]).toMatchObject({ body: 'Review {{file}} carefully', files: [] });
+    expect(templates[0].description).toBeUndefined();
+  });
+});
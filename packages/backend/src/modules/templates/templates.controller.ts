@@ -0,0 +1,172 @@
+import type { Response, NextFunction } from 'express';
+import { TemplatesService } from './templates.service.js';
+import {
+  CreatePromptTemplateSchema,
+  ImportPromptTemplatesSchema,
+  PromptTemplateQuerySchema,
+  UpdatePromptTemplateSchema,
+  type ApiResponse,
+} from '@gemini-ui/shared';
+import { AppError } from '../../middleware/error-handler.js';
+import type { AuthRequest } from '../../middleware/auth.middleware.js';
+
+/**
+ * Map template service errors to API errors
+ */
+function toAppError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  if (error.message === 'Project not found') {
+    return new AppError(404, error.message, 'PROJECT_NOT_FOUND');
+  }
+  if (error.message.endsWith('already exists')) {
+    return new AppError(409, error.message, 'TEMPLATE_EXISTS');
+  }
+  return error;
+}
+
+/**
+ * Prompt templates controller
+ */
+export class TemplatesController {
+  private templatesService = new TemplatesService();
+
+  /**
+   * Create new template
+   * POST /api/templates
+   */
+  create = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = CreatePromptTemplateSchema.parse(req.body);
+      const template = await this.templatesService.create(req.user.id, input);
+
+      res.status(201).json({
+        success: true,
+        data: template,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Get the templates available in a project
+   * GET /api/templates?projectId=
+   */
+  findAll = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const { projectId } = PromptTemplateQuerySchema.parse(req.query);
+      const templates = await this.templatesService.findAll(req.user.id, projectId);
+
+      res.json({
+        success: true,
+        data: templates,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Update template
+   * PUT /api/templates/:id
+   */
+  update = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = UpdatePromptTemplateSchema.parse(req.body);
+      const templateId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const template = await this.templatesService.update(req.user.id, templateId, input);
+
+      if (!template) {
+        throw new AppError(404, 'Template not found', 'TEMPLATE_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        data: template,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Delete template
+   * DELETE /api/templates/:id
+   */
+  delete = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const templateId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const success = await this.templatesService.delete(req.user.id, templateId);
+
+      if (!success) {
+        throw new AppError(404, 'Template not found', 'TEMPLATE_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        message: 'Template deleted successfully',
+      } as ApiResponse);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Download the templates available in a project as JSON
+   * GET /api/templates/export?projectId=
+   */
+  export = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const { projectId } = PromptTemplateQuerySchema.parse(req.query);
+      const file = await this.templatesService.export(req.user.id, projectId);
+
+      res.setHeader('Content-Disposition', 'attachment; filename="prompt-templates.json"');
+      res.json(file);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+
+  /**
+   * Import templates from an exported file
+   * POST /api/templates/import
+   */
+  import = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError(401, 'Unauthorized', 'UNAUTHORIZED');
+      }
+
+      const input = ImportPromptTemplatesSchema.parse(req.body);
+      const templates = await this.templatesService.import(req.user.id, input);
+
+      res.json({
+        success: true,
+        data: templates,
+      } as ApiResponse);
+    } catch (error) {
+      next(toAppError(error));
+    }
+  };
+}
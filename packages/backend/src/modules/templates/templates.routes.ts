@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { TemplatesController } from './templates.controller.js';
+import { requireAuth } from '../../middleware/auth.middleware.js';
+
+const router = Router();
+const templatesController = new TemplatesController();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/templates/export
+ * Download templates as a shareable JSON file
+ */
+router.get('/export', templatesController.export);
+
+/**
+ * POST /api/templates/import
+ * Import templates from a shared JSON file
+ */
+router.post('/import', templatesController.import);
+
+/**
+ * POST /api/templates
+ * Create new template
+ */
+router.post('/', templatesController.create);
+
+/**
+ * GET /api/templates
+ * Get the user's templates, plus a project's when projectId is given
+ */
+router.get('/', templatesController.findAll);
+
+/**
+ * PUT /api/templates/:id
+ * Update template
+ */
+router.put('/:id', templatesController.update);
+
+/**
+ * DELETE /api/templates/:id
+ * Delete template
+ */
+router.delete('/:id', templatesController.delete);
+
+export default router;
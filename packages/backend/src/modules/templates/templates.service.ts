@@ -0,0 +1,215 @@
+import { db } from '../../db/index.js';
+import { projects, promptTemplates, type PromptTemplateRow } from '../../db/schema.js';
+import { and, asc, eq, isNull, or } from 'drizzle-orm';
+import {
+  TEMPLATE_VARIABLE_PATTERN,
+  CreatePromptTemplateSchema,
+  ImportPromptTemplatesSchema,
+  UpdatePromptTemplateSchema,
+  type CreatePromptTemplateInput,
+  type ImportPromptTemplatesInput,
+  type PromptTemplate,
+  type PromptTemplateExport,
+  type UpdatePromptTemplateInput,
+} from '@gemini-ui/shared';
+
+/**
+ * Variable names in a template body, in order of first appearance
+ */
+export function templateVariables(body: string): string[] {
+  return [...new Set(Array.from(body.matchAll(TEMPLATE_VARIABLE_PATTERN), (match) => match[1]))];
+}
+
+/**
+ * Convert database template (null fields) to PromptTemplate type (undefined fields)
+ */
+function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  return {
+    ...row,
+    description: row.description ?? undefined,
+    variables: templateVariables(row.body),
+  };
+}
+
+/**
+ * Prompt templates service
+ *
+ * Templates belong to a user, optionally scoped to one of their projects. Names are
+ * unique within a scope; a project template hides a user template of the same name.
+ */
+export class TemplatesService {
+  /**
+   * Create a template
+   * @throws Error if the project is missing or the name is taken
+   */
+  async create(userId: string, input: CreatePromptTemplateInput): Promise<PromptTemplate> {
+    const { projectId = null, ...fields } = CreatePromptTemplateSchema.parse(input);
+    if (projectId) {
+      await this.assertProject(userId, projectId);
+    }
+    await this.assertNameFree(userId, projectId, fields.name);
+
+    const [row] = await db
+      .insert(promptTemplates)
+      .values({ userId, projectId, ...fields })
+      .returning();
+
+    return toPromptTemplate(row);
+  }
+
+  /**
+   * Get the templates available in a project (or the user's own without one), by name
+   * @throws Error if the project is missing
+   */
+  async findAll(userId: string, projectId?: string): Promise<PromptTemplate[]> {
+    if (projectId) {
+      await this.assertProject(userId, projectId);
+    }
+
+    const rows = await db.query.promptTemplates.findMany({
+      where: and(
+        eq(promptTemplates.userId, userId),
+        projectId
+          ? or(isNull(promptTemplates.projectId), eq(promptTemplates.projectId, projectId))
+          : isNull(promptTemplates.projectId)
+      ),
+      orderBy: [asc(promptTemplates.name)],
+    });
+
+    const byName = new Map<string, PromptTemplateRow>();
+    for (const row of rows) {
+      if (!byName.has(row.name) || row.projectId) {
+        byName.set(row.name, row);
+      }
+    }
+    return Array.from(byName.values(), toPromptTemplate);
+  }
+
+  /**
+   * Get a single template
+   */
+  async findById(userId: string, templateId: string): Promise<PromptTemplate | null> {
+    const row = await db.query.promptTemplates.findFirst({
+      where: and(eq(promptTemplates.id, templateId), eq(promptTemplates.userId, userId)),
+    });
+    return row ? toPromptTemplate(row) : null;
+  }
+
+  /**
+   * Update a template
+   * @throws Error if the new name is taken
+   */
+  async update(
+    userId: string,
+    templateId: string,
+    input: UpdatePromptTemplateInput
+  ): Promise<PromptTemplate | null> {
+    const existing = await this.findById(userId, templateId);
+    if (!existing) {
+      return null;
+    }
+
+    const fields = UpdatePromptTemplateSchema.parse(input);
+    if (fields.name && fields.name !== existing.name) {
+      await this.assertNameFree(userId, existing.projectId, fields.name);
+    }
+
+    const [updated] = await db
+      .update(promptTemplates)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(and(eq(promptTemplates.id, templateId), eq(promptTemplates.userId, userId)))
+      .returning();
+
+    return updated ? toPromptTemplate(updated) : null;
+  }
+
+  /**
+   * Delete a template
+   */
+  async delete(userId: string, templateId: string): Promise<boolean> {
+    const result = await db
+      .delete(promptTemplates)
+      .where(and(eq(promptTemplates.id, templateId), eq(promptTemplates.userId, userId)))
+      .returning();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Export the templates available in a project as a shareable file
+   * @throws Error if the project is missing
+   */
+  async export(userId: string, projectId?: string): Promise<PromptTemplateExport> {
+    const templates = await this.findAll(userId, projectId);
+    return {
+      version: 1,
+      templates: templates.map(({ name, description, body, files }) => ({
+        name,
+        ...(description && { description }),
+        body,
+        files,
+      })),
+    };
+  }
+
+  /**
+   * Import a template file into a scope, replacing templates with the same name
+   * @throws Error if the project is missing
+   */
+  async import(userId: string, input: ImportPromptTemplatesInput): Promise<PromptTemplate[]> {
+    const { projectId = null, templates } = ImportPromptTemplatesSchema.parse(input);
+    if (projectId) {
+      await this.assertProject(userId, projectId);
+    }
+
+    const imported: PromptTemplate[] = [];
+    for (const fields of templates) {
+      const existing = await this.findByName(userId, projectId, fields.name);
+      const [row] = existing
+        ? await db
+            .update(promptTemplates)
+            .set({ description: null, ...fields, updatedAt: new Date() })
+            .where(eq(promptTemplates.id, existing.id))
+            .returning()
+        : await db
+            .insert(promptTemplates)
+            .values({ userId, projectId, ...fields })
+            .returning();
+      imported.push(toPromptTemplate(row));
+    }
+    return imported;
+  }
+
+  private async findByName(
+    userId: string,
+    projectId: string | null,
+    name: string
+  ): Promise<PromptTemplateRow | undefined> {
+    return db.query.promptTemplates.findFirst({
+      where: and(
+        eq(promptTemplates.userId, userId),
+        projectId ? eq(promptTemplates.projectId, projectId) : isNull(promptTemplates.projectId),
+        eq(promptTemplates.name, name)
+      ),
+    });
+  }
+
+  private async assertNameFree(
+    userId: string,
+    projectId: string | null,
+    name: string
+  ): Promise<void> {
+    if (await this.findByName(userId, projectId, name)) {
+      throw new Error(`Template "${name}" already exists`);
+    }
+  }
+
+  private async assertProject(userId: string, projectId: string): Promise<void> {
+    const project = await db.query.projects.findFirst({
+      where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+    });
+    if (!project) {
+      throw new Error('Project not found');
+    }
+  }
+}
@@ -1,10 +1,20 @@
 import express from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
-import { config, allowedOrigins, isDevelopment } from './config/index.js';
+import { config, allowedOrigins, isDevelopment, isTest } from './config/index.js';
 import { apiLimiter } from './middleware/rate-limiter.js';
 import { errorHandler, notFoundHandler } from './middleware/error-handler.js';
 import { runMigrations } from './db/index.js';
+import { attachWebSocketGateway } from './websocket/gateway.js';
+import { modelRegistry } from './modules/gemini/model-registry.service.js';
+import { JobsService } from './modules/jobs/jobs.service.js';
+import { AuthService } from './modules/auth/auth.service.js';
+
+// How often sessions on models past their deprecation date are moved to successors
+const MODEL_MIGRATION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// How often scheduled jobs are checked; cron schedules resolve to the minute
+const JOB_SCHEDULER_INTERVAL_MS = 60 * 1000;
 
 /**
  * Initialize Express application
@@ -85,14 +95,30 @@ import filesRoutes from './modules/files/files.routes.js';
 import gitRoutes from './modules/git/git.routes.js';
 import geminiRoutes from './modules/gemini/gemini.routes.js';
 import mcpRoutes from './modules/mcp/mcp.routes.js';
+import chatRoutes from './modules/chat/chat.routes.js';
+import costsRoutes from './modules/costs/costs.routes.js';
+import attachmentsRoutes from './modules/attachments/attachments.routes.js';
+import cliHistoryRoutes from './modules/cli-history/cli-history.routes.js';
+import templatesRoutes from './modules/templates/templates.routes.js';
+import speechRoutes from './modules/speech/speech.routes.js';
+import jobsRoutes from './modules/jobs/jobs.routes.js';
+import policyRoutes from './modules/policy/policy.routes.js';
 
 app.use('/api/auth', authRoutes);
 app.use('/api/projects', projectsRoutes);
+app.use('/api/sessions/:sessionId/attachments', attachmentsRoutes);
+app.use('/api/sessions/:sessionId/messages/:messageId/speech', speechRoutes);
 app.use('/api/sessions', sessionsRoutes);
 app.use('/api/files', filesRoutes);
 app.use('/api/git', gitRoutes);
 app.use('/api/gemini', geminiRoutes);
 app.use('/api/mcp', mcpRoutes);
+app.use('/api/chat', chatRoutes);
+app.use('/api/costs', costsRoutes);
+app.use('/api/cli-history', cliHistoryRoutes);
+app.use('/api/templates', templatesRoutes);
+app.use('/api/jobs', jobsRoutes);
+app.use('/api/policies', policyRoutes);
 
 /**
  * Error handling
@@ -110,6 +136,34 @@ async function startServer() {
     runMigrations();
     console.log('✅ Database ready');
 
+    // Admin roles follow ADMIN_USERNAMES, which may have changed since the last start
+    const roleChanges = await new AuthService().syncAdminRoles();
+    if (roleChanges > 0) {
+      console.log(`👤 Updated the role of ${roleChanges} user(s) from ADMIN_USERNAMES`);
+    }
+
+    // Merge admin model overrides, then move sessions off retired models
+    const migrateRetiredModels = async () => {
+      for (const { from, to, sessions } of await modelRegistry.migrateRetired()) {
+        console.log(`🔀 Moved ${sessions} session(s) from retired ${from} to ${to}`);
+      }
+    };
+    await modelRegistry.load();
+    await migrateRetiredModels();
+    const modelMigrations = setInterval(() => {
+      migrateRetiredModels().catch((error) => console.error('Model migration failed:', error));
+    }, MODEL_MIGRATION_INTERVAL_MS);
+
+    // Run scheduled jobs; runs cut off by the last shutdown count as failed
+    const jobsService = new JobsService();
+    const interrupted = await jobsService.failInterrupted();
+    if (interrupted > 0) {
+      console.log(`⏰ Marked ${interrupted} interrupted job run(s) as failed`);
+    }
+    const jobScheduler = setInterval(() => {
+      jobsService.runDue().catch((error) => console.error('Job scheduler failed:', error));
+    }, JOB_SCHEDULER_INTERVAL_MS);
+
     // Start HTTP server
     const server = app.listen(config.PORT, config.HOST, () => {
       console.log(`
@@ -125,9 +179,18 @@ async function startServer() {
       `);
     });
 
+    // Realtime gateway shares the HTTP server
+    const wss = attachWebSocketGateway(server);
+
     // Graceful shutdown
     const shutdown = () => {
       console.log('\n🛑 Shutting down gracefully...');
+      clearInterval(modelMigrations);
+      clearInterval(jobScheduler);
+      for (const client of wss.clients) {
+        client.terminate();
+      }
+      wss.close();
       server.close(() => {
         console.log('✅ Server closed');
         process.exit(0);
@@ -148,5 +211,7 @@ async function startServer() {
   }
 }
 
-// Start server
-startServer();
+// Start server (tests drive the app in-process instead)
+if (!isTest) {
+  startServer();
+}
@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import type { IncomingMessage } from 'http';
+import type { ChatMessage, GeminiStreamEvent } from '@gemini-ui/shared';
+import { app } from '../../server.js';
+import { db } from '../../db/index.js';
+import { users, projects } from '../../db/schema.js';
+import { generateAccessToken } from '../../security/jwt.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+/**
+ * A step the fake CLI replays (see src/test/fake-gemini-cli.mjs)
+ */
+type ScriptStep =
+  | { text: string; chunkSize?: number; repeat?: number }
+  | {
+      toolCall: { name: string; id?: string; parameters?: Record<string, unknown> };
+      output?: string;
+    }
+  | { error: string; severity?: 'error' | 'warning' }
+  | { sleepMs: number }
+  | { hang: true; ignoreInterrupt?: boolean }
+  | { exit: number; stderr?: string };
+
+/**
+ * Poll until the check passes
+ */
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('Chat API end to end', () => {
+  let testDir: string;
+  let token: string;
+
+  const auth = () => ({ Authorization: `Bearer ${token}` });
+
+  /**
+   * Replace the script the fake CLI replays for every following turn
+   */
+  const useScript = async (turns: Array<{ match?: string; steps: ScriptStep[] }>) => {
+    const scriptPath = path.join(testDir, 'script.json');
+    await fs.writeFile(scriptPath, JSON.stringify({ turns }));
+    process.env.FAKE_GEMINI_SCRIPT = scriptPath;
+  };
+
+  const createSession = async (): Promise<string> => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set(auth())
+      .send({ projectPath: testDir })
+      .expect(201);
+    return res.body.data.id;
+  };
+
+  /**
+   * Send a message over SSE; events are collected as they arrive so the test
+   * can act on them while the turn is still running
+   */
+  const stream = (sessionId: string, content: string) => {
+    const events: GeminiStreamEvent[] = [];
+    const response = request(app)
+      .post(`/api/chat/${sessionId}/messages`)
+      .set(auth())
+      .set('Accept', 'text/event-stream')
+      .send({ content })
+      .buffer(true)
+      .parse((res, callback) => {
+        let buffered = '';
+        (res as unknown as IncomingMessage).on('data', (chunk: Buffer) => {
+          buffered += chunk.toString();
+          const frames = buffered.split('\n\n');
+          buffered = frames.pop()!;
+          for (const frame of frames) {
+            events.push(JSON.parse(frame.replace(/^data: /, '')));
+          }
+        });
+        (res as unknown as IncomingMessage).on('end', () => callback(null, events));
+      })
+      .then((res) => res);
+    const reply = async (): Promise<ChatMessage> => {
+      await response;
+      const done = events.find((event) => event.type === 'done');
+      if (!done || done.type !== 'done') {
+        throw new Error('Turn ended without a reply');
+      }
+      return done.message;
+    };
+    return { events, response, reply };
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `test-e2e-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    delete process.env.FAKE_GEMINI_SCRIPT;
+
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'e2euser', passwordHash: 'hashedpassword' })
+      .returning();
+    token = generateAccessToken({ userId: user.id, username: user.username });
+    await db.insert(projects).values({ userId: user.id, name: 'E2E', path: testDir });
+  });
+
+  afterEach(async () => {
+    delete process.env.FAKE_GEMINI_SCRIPT;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('turns', () => {
+    it('should stream a scripted reply and store both sides of the turn', async () => {
+      await useScript([{ match: 'Hello', steps: [{ text: 'Hi there, friend', chunkSize: 4 }] }]);
+      const sessionId = await createSession();
+
+      const turn = stream(sessionId, 'Hello');
+      const reply = await turn.reply();
+
+      expect((await turn.response).status).toBe(200);
+      const deltas = turn.events.filter((event) => event.type === 'delta');
+      expect(deltas).toHaveLength(4);
+      expect(reply.content).toBe('Hi there, friend');
+      expect(reply.metadata?.usage).toMatchObject({ responseTokens: 4 });
+
+      const res = await request(app)
+        .get(`/api/sessions/${sessionId}/messages`)
+        .set(auth())
+        .expect(200);
+      expect(res.body.data.items.map((message: ChatMessage) => message.content)).toEqual([
+        'Hello',
+        'Hi there, friend',
+      ]);
+    });
+
+    it('should resume the CLI session on the next turn', async () => {
+      const sessionId = await createSession();
+      const logPath = path.join(testDir, 'calls.log');
+      process.env.FAKE_GEMINI_LOG = logPath;
+
+      try {
+        await stream(sessionId, 'First').reply();
+        const second = await stream(sessionId, 'Second').reply();
+
+        expect(second.content).toBe('echo: Second');
+        const calls = (await fs.readFile(logPath, 'utf-8'))
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line) as string[]);
+        expect(calls[1][calls[1].indexOf('--resume') + 1]).toMatch(/^fake-/);
+      } finally {
+        delete process.env.FAKE_GEMINI_LOG;
+      }
+    });
+
+    it('should carry long outputs through intact', async () => {
+      await useScript([{ steps: [{ text: 'lorem ipsum ', repeat: 5000, chunkSize: 512 }] }]);
+      const sessionId = await createSession();
+
+      const reply = await stream(sessionId, 'Write a lot').reply();
+
+      expect(reply.content).toHaveLength(60000);
+      expect(reply.content).toBe('lorem ipsum '.repeat(5000));
+    });
+
+    it('should surface CLI errors and failed runs', async () => {
+      await useScript([
+        { match: 'quota', steps: [{ text: 'Partial' }, { error: 'Quota exceeded' }] },
+        { match: 'crash', steps: [{ exit: 1, stderr: 'Segmentation fault' }] },
+        {
+          match: 'warn',
+          steps: [{ error: 'Slow network', severity: 'warning' }, { text: 'Fine' }],
+        },
+      ]);
+      // A failed turn is replayed into the next prompt, so each scenario gets its own session
+      const quota = stream(await createSession(), 'quota');
+      const quotaReply = await quota.reply();
+      expect(quota.events).toContainEqual({ type: 'error', error: 'Quota exceeded' });
+      expect(quotaReply.content).toBe('Partial');
+      expect(quotaReply.metadata?.error).toBe('Quota exceeded');
+
+      const crash = stream(await createSession(), 'crash');
+      expect((await crash.reply()).metadata?.error).toBe('Segmentation fault');
+      expect(crash.events).toContainEqual({ type: 'status', status: 'failed' });
+
+      const warn = stream(await createSession(), 'warn');
+      const warnReply = await warn.reply();
+      expect(warn.events.some((event) => event.type === 'error')).toBe(false);
+      expect(warnReply.metadata?.error).toBeUndefined();
+    });
+
+    it('should reject a second turn while one is running', async () => {
+      await useScript([{ steps: [{ hang: true }] }]);
+      const sessionId = await createSession();
+      const running = stream(sessionId, 'Wait');
+      await waitFor(() => running.events.length > 0);
+
+      const res = await request(app)
+        .post(`/api/chat/${sessionId}/messages`)
+        .set(auth())
+        .send({ content: 'Another' });
+
+      expect(res.status).toBe(409);
+      await request(app).post(`/api/chat/${sessionId}/interrupt`).set(auth()).expect(202);
+      await running.response;
+    });
+  });
+
+  describe('approvals', () => {
+    const writeNotes = {
+      toolCall: {
+        name: 'write_file',
+        id: 'write-1',
+        parameters: { file_path: 'notes.txt', content: 'new' },
+      },
+      output: 'Wrote notes.txt',
+    };
+
+    beforeEach(async () => {
+      await fs.writeFile(path.join(testDir, 'notes.txt'), 'old');
+      await useScript([
+        // The run that retries approved calls
+        { match: 'reviewed the tool calls', steps: [writeNotes, { text: 'Done.' }] },
+        {
+          steps: [
+            { text: 'Updating notes. ' },
+            writeNotes,
+            { text: 'I need approval first.' },
+          ],
+        },
+      ]);
+    });
+
+    it('should ask about a refused tool call and retry it once approved', async () => {
+      const sessionId = await createSession();
+      const turn = stream(sessionId, 'Update my notes');
+      await waitFor(() => turn.events.some((event) => event.type === 'approval-request'));
+
+      expect(turn.events.find((event) => event.type === 'approval-request')).toMatchObject({
+        toolCall: { id: 'write-1', name: 'write_file', status: 'error' },
+        preview: { kind: 'diff', path: 'notes.txt', before: 'old', after: 'new' },
+      });
+      const res = await request(app)
+        .post(`/api/chat/${sessionId}/approvals`)
+        .set(auth())
+        .send({ toolCallId: 'write-1', decision: 'approve-once' })
+        .expect(200);
+      expect(res.body.data).toMatchObject({ id: 'write-1', approval: 'approve-once' });
+
+      const reply = await turn.reply();
+      expect(reply.content).toBe('Updating notes. I need approval first.\n\nDone.');
+      expect(reply.metadata?.toolCalls).toMatchObject([
+        { id: 'write-1', status: 'success', output: 'Wrote notes.txt', approval: 'approve-once' },
+      ]);
+    });
+
+    it('should not retry a denied tool call', async () => {
+      const sessionId = await createSession();
+      const turn = stream(sessionId, 'Update my notes');
+      await waitFor(() => turn.events.some((event) => event.type === 'approval-request'));
+
+      await request(app)
+        .post(`/api/chat/${sessionId}/approvals`)
+        .set(auth())
+        .send({ toolCallId: 'write-1', decision: 'deny' })
+        .expect(200);
+
+      const reply = await turn.reply();
+      expect(turn.events).toContainEqual(
+        expect.objectContaining({ type: 'approval-decision' })
+      );
+      expect(reply.content).toBe('Updating notes. I need approval first.');
+      expect(reply.metadata?.toolCalls).toMatchObject([
+        { id: 'write-1', status: 'error', approval: 'deny' },
+      ]);
+    });
+
+    it('should reject decisions for tool calls that are not pending', async () => {
+      const sessionId = await createSession();
+
+      const res = await request(app)
+        .post(`/api/chat/${sessionId}/approvals`)
+        .set(auth())
+        .send({ toolCallId: 'write-1', decision: 'approve-once' })
+        .expect(404);
+
+      expect(res.body.code).toBe('APPROVAL_NOT_FOUND');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should interrupt a hanging turn and keep the partial reply', async () => {
+      await useScript([
+        { match: 'Think', steps: [{ text: 'Let me think' }, { hang: true }] },
+      ]);
+      const sessionId = await createSession();
+      const turn = stream(sessionId, 'Think hard');
+      await waitFor(() => turn.events.some((event) => event.type === 'delta'));
+
+      await request(app).post(`/api/chat/${sessionId}/interrupt`).set(auth()).expect(202);
+
+      const reply = await turn.reply();
+      expect(reply.content).toBe('Let me think');
+      expect(reply.metadata?.interrupted).toBe(true);
+      expect(reply.metadata?.error).toBeUndefined();
+      expect(turn.events).toContainEqual({ type: 'status', status: 'interrupted' });
+
+      // Nothing is left running and the session takes new turns
+      const res = await request(app)
+        .post(`/api/chat/${sessionId}/interrupt`)
+        .set(auth())
+        .expect(409);
+      expect(res.body.code).toBe('TURN_NOT_RUNNING');
+      expect((await stream(sessionId, 'Next').reply()).content).toBe('echo: Next');
+    });
+
+    it('should interrupt a turn that is waiting for an approval', async () => {
+      await useScript([
+        { steps: [{ toolCall: { name: 'run_shell_command', parameters: { command: 'ls' } } }] },
+      ]);
+      const sessionId = await createSession();
+      const turn = stream(sessionId, 'List files');
+      await waitFor(() => turn.events.some((event) => event.type === 'approval-request'));
+
+      await request(app).post(`/api/chat/${sessionId}/interrupt`).set(auth()).expect(202);
+
+      const reply = await turn.reply();
+      expect(reply.metadata?.interrupted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+/**
+ * Scriptable stand-in for the Gemini CLI
+ *
+ * Point GEMINI_CLI_PATH at this file and FAKE_GEMINI_SCRIPT at a JSON script:
+ *
+ *   {
+ *     "turns": [
+ *       { "match": "weather", "steps": [{ "text": "Sunny", "chunkSize": 2 }] },
+ *       { "steps": [{ "hang": true }] }
+ *     ]
+ *   }
+ *
+ * The first turn whose `match` occurs in the prompt is replayed (a turn without
+ * `match` matches every prompt). Without a script, or when no turn matches, the
+ * prompt is echoed back. Steps:
+ *
+ *   { "text": "...", "chunkSize"?: 16, "repeat"?: 1 }   streamed assistant text
+ *   { "toolCall": { "name", "parameters"?, "id"? }, "output"?: "..." }
+ *                                                       tool run; refused, like the headless
+ *                                                       CLI does, if it needs approval that
+ *                                                       the approval mode and the settings
+ *                                                       file (tools.allowed) do not give
+ *   { "error": "...", "severity"?: "error" }            error event
+ *   { "sleepMs": 100 }                                  pause
+ *   { "hang": true, "ignoreInterrupt"?: false }         never finish
+ *   { "exit": 1, "stderr"?: "..." }                     exit without a result
+ *
+ * Every turn starts with an `init` event and, unless it exits or hangs, ends
+ * with a `result` event carrying rough token counts. With FAKE_GEMINI_LOG set,
+ * each invocation appends its arguments to that file as a JSON line.
+ */
+import fs from 'fs';
+
+const args = process.argv.slice(2);
+const option = (name) => (args.includes(name) ? args[args.indexOf(name) + 1] : undefined);
+const prompt = option('--prompt') ?? '';
+const startedAt = Date.now();
+
+if (process.env.FAKE_GEMINI_LOG) {
+  fs.appendFileSync(process.env.FAKE_GEMINI_LOG, JSON.stringify(args) + '\n');
+}
+
+const script = process.env.FAKE_GEMINI_SCRIPT
+  ? JSON.parse(fs.readFileSync(process.env.FAKE_GEMINI_SCRIPT, 'utf-8'))
+  : { turns: [] };
+const turn = script.turns.find((candidate) => !candidate.match || prompt.includes(candidate.match));
+const steps = turn?.steps ?? [{ text: `echo: ${prompt}` }];
+
+const settings = process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH
+  ? JSON.parse(fs.readFileSync(process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH, 'utf-8'))
+  : {};
+const allowed = settings.tools?.allowed ?? [];
+const excluded = settings.tools?.exclude ?? [];
+const approvalMode = option('--approval-mode') ?? 'default';
+const READ_TOOLS = [
+  'read_file',
+  'read_many_files',
+  'list_directory',
+  'glob',
+  'search_file_content',
+];
+
+// Shell entries name a command prefix, e.g. run_shell_command(git status)
+const commandPrefixes = (entries) =>
+  entries.map((entry) => entry.match(/^run_shell_command\((.+)\)$/)?.[1]).filter(Boolean);
+const commandsOf = (parameters) =>
+  typeof parameters.command === 'string'
+    ? parameters.command.split(/&&|\|\||[;|\n]/).map((command) => command.trim())
+    : [];
+const listed = (prefixes, command) => prefixes.some((prefix) => command.startsWith(prefix));
+
+const mayRun = (name, parameters) => {
+  const shell = name === 'run_shell_command';
+  const denied = commandPrefixes(excluded);
+  if (excluded.includes(name) || (shell && commandsOf(parameters).some((c) => listed(denied, c)))) {
+    return false;
+  }
+  if (approvalMode === 'yolo' || READ_TOOLS.includes(name) || allowed.includes(name)) return true;
+  if (approvalMode === 'auto_edit' && ['write_file', 'replace'].includes(name)) return true;
+  const prefixes = commandPrefixes(allowed);
+  return shell && commandsOf(parameters).every((command) => listed(prefixes, command));
+};
+
+const emit = (event) =>
+  process.stdout.write(JSON.stringify({ ...event, timestamp: new Date().toISOString() }) + '\n');
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+let outputLength = 0;
+let toolCount = 0;
+
+async function run(step) {
+  if (step.text !== undefined) {
+    const text = step.text.repeat(step.repeat ?? 1);
+    const size = step.chunkSize ?? 16;
+    for (let i = 0; i < text.length; i += size) {
+      emit({ type: 'message', role: 'assistant', content: text.slice(i, i + size), delta: true });
+    }
+    outputLength += text.length;
+  } else if (step.toolCall) {
+    const call = {
+      tool_name: step.toolCall.name,
+      tool_id: step.toolCall.id ?? `fake-tool-${toolCount + 1}`,
+      parameters: step.toolCall.parameters ?? {},
+    };
+    toolCount++;
+    emit({ type: 'tool_use', ...call });
+    if (mayRun(call.tool_name, call.parameters)) {
+      const output = step.output ?? 'ok';
+      emit({ type: 'tool_result', tool_id: call.tool_id, status: 'success', output });
+    } else {
+      emit({
+        type: 'tool_result',
+        tool_id: call.tool_id,
+        status: 'error',
+        error: { type: 'execution_denied', message: `${call.tool_name} needs approval` },
+      });
+    }
+  } else if (step.error !== undefined) {
+    emit({ type: 'error', message: step.error, severity: step.severity ?? 'error' });
+  } else if (step.sleepMs !== undefined) {
+    await sleep(step.sleepMs);
+  } else if (step.hang) {
+    if (step.ignoreInterrupt) {
+      process.on('SIGINT', () => {});
+    }
+    await new Promise(() => setInterval(() => {}, 1000));
+  } else if (step.exit !== undefined) {
+    if (step.stderr) process.stderr.write(step.stderr + '\n');
+    process.exit(step.exit);
+  }
+}
+
+emit({
+  type: 'init',
+  session_id: option('--resume') ?? `fake-${process.pid}`,
+  model: option('--model') ?? 'gemini-2.5-flash',
+});
+for (const step of steps) {
+  await run(step);
+}
+emit({
+  type: 'result',
+  status: 'success',
+  stats: {
+    total_tokens: Math.ceil(prompt.length / 4) + Math.ceil(outputLength / 4),
+    input_tokens: Math.ceil(prompt.length / 4),
+    output_tokens: Math.ceil(outputLength / 4),
+    cached: 0,
+    duration_ms: Date.now() - startedAt,
+    tool_calls: toolCount,
+  },
+});
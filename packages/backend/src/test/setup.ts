@@ -1,7 +1,20 @@
 import { beforeAll, afterAll, afterEach } from 'vitest';
 import { db } from '../db/index.js';
 import { sql } from 'drizzle-orm';
-import { users, projects, sessions, chatMessages, refreshTokens } from '../db/schema.js';
+import {
+  users,
+  projects,
+  sessions,
+  chatMessages,
+  refreshTokens,
+  executionPolicies,
+  usageRecords,
+  attachments,
+  promptTemplates,
+  modelOverrides,
+  scheduledJobs,
+  jobRuns,
+} from '../db/schema.js';
 
 // Create all tables before running tests
 beforeAll(async () => {
@@ -11,6 +24,9 @@ beforeAll(async () => {
       id TEXT PRIMARY KEY,
       username TEXT NOT NULL UNIQUE,
       password_hash TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'user',
+      monthly_budget_usd REAL,
+      execution_policy TEXT,
       is_active INTEGER NOT NULL DEFAULT 1,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
@@ -40,18 +56,82 @@ beforeAll(async () => {
       user_id TEXT NOT NULL,
       project_path TEXT NOT NULL,
       gemini_session_id TEXT,
+      model TEXT NOT NULL DEFAULT 'gemini-2.5-flash',
       metadata TEXT,
+      active_leaf_id TEXT,
+      title TEXT,
+      pinned INTEGER NOT NULL DEFAULT 0,
+      archived INTEGER NOT NULL DEFAULT 0,
+      tags TEXT,
+      generation_settings TEXT,
+      approved_tools TEXT,
       created_at INTEGER NOT NULL,
       last_accessed_at INTEGER NOT NULL,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     )
   `);
 
+  // Execution policies table
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS execution_policies (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      project_id TEXT UNIQUE,
+      session_id TEXT UNIQUE,
+      approval_mode TEXT NOT NULL DEFAULT 'default',
+      read_only INTEGER NOT NULL DEFAULT 0,
+      allowed_commands TEXT NOT NULL,
+      denied_commands TEXT NOT NULL,
+      allowed_paths TEXT NOT NULL,
+      denied_paths TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Usage records table
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS usage_records (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      session_id TEXT,
+      project_path TEXT NOT NULL,
+      model TEXT NOT NULL,
+      prompt_tokens INTEGER NOT NULL DEFAULT 0,
+      response_tokens INTEGER NOT NULL DEFAULT 0,
+      cached_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+    )
+  `);
+
+  // Attachments table
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS attachments (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      storage_path TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
   // Chat messages table
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS chat_messages (
       id TEXT PRIMARY KEY,
       session_id TEXT NOT NULL,
+      parent_id TEXT,
       role TEXT NOT NULL,
       content TEXT NOT NULL,
       metadata TEXT,
@@ -60,6 +140,98 @@ beforeAll(async () => {
     )
   `);
 
+  // Full-text index over chat message content, kept in sync by triggers
+  await db.run(sql`
+    CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+      content,
+      content = 'chat_messages',
+      content_rowid = 'rowid',
+      tokenize = 'porter unicode61'
+    )
+  `);
+  await db.run(sql`
+    CREATE TRIGGER IF NOT EXISTS chat_messages_fts_insert AFTER INSERT ON chat_messages BEGIN
+      INSERT INTO chat_messages_fts(rowid, content) VALUES (new.rowid, new.content);
+    END
+  `);
+  await db.run(sql`
+    CREATE TRIGGER IF NOT EXISTS chat_messages_fts_delete AFTER DELETE ON chat_messages BEGIN
+      INSERT INTO chat_messages_fts(chat_messages_fts, rowid, content)
+        VALUES ('delete', old.rowid, old.content);
+    END
+  `);
+  await db.run(sql`
+    CREATE TRIGGER IF NOT EXISTS chat_messages_fts_update AFTER UPDATE OF content ON chat_messages BEGIN
+      INSERT INTO chat_messages_fts(chat_messages_fts, rowid, content)
+        VALUES ('delete', old.rowid, old.content);
+      INSERT INTO chat_messages_fts(rowid, content) VALUES (new.rowid, new.content);
+    END
+  `);
+
+  // Prompt templates table
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      project_id TEXT,
+      name TEXT NOT NULL,
+      description TEXT,
+      body TEXT NOT NULL,
+      files TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Model overrides table
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS model_overrides (
+      model_id TEXT PRIMARY KEY,
+      override TEXT NOT NULL,
+      is_default INTEGER NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  // Scheduled jobs table
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      schedule TEXT NOT NULL,
+      model TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      policy TEXT NOT NULL,
+      next_run_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Job runs table
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id TEXT PRIMARY KEY,
+      job_id TEXT NOT NULL,
+      session_id TEXT,
+      status TEXT NOT NULL DEFAULT 'running',
+      manual INTEGER NOT NULL DEFAULT 0,
+      output TEXT,
+      error TEXT,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER,
+      FOREIGN KEY (job_id) REFERENCES scheduled_jobs(id) ON DELETE CASCADE,
+      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+    )
+  `);
+
   // Refresh tokens table
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS refresh_tokens (
@@ -78,6 +250,13 @@ beforeAll(async () => {
 afterEach(async () => {
   try {
     // Delete in order to respect foreign key constraints
+    await db.delete(jobRuns);
+    await db.delete(scheduledJobs);
+    await db.delete(promptTemplates);
+    await db.delete(modelOverrides);
+    await db.delete(attachments);
+    await db.delete(usageRecords);
+    await db.delete(executionPolicies);
     await db.delete(chatMessages);
     await db.delete(sessions);
     await db.delete(refreshTokens);
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket, type WebSocketServer } from 'ws';
+import type { RealtimeServerMessage } from '@gemini-ui/shared';
+import { attachWebSocketGateway } from '../gateway.js';
+import { eventBus } from '../event-bus.js';
+import { generateAccessToken, generateRefreshToken } from '../../security/jwt.js';
+import { db } from '../../db/index.js';
+import { users, sessions } from '../../db/schema.js';
+
+/**
+ * Open a socket and collect every server message
+ */
+function connect(url: string): Promise<{ ws: WebSocket; messages: RealtimeServerMessage[] }> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    const messages: RealtimeServerMessage[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    ws.on('open', () => resolve({ ws, messages }));
+    ws.on('error', reject);
+  });
+}
+
+/**
+ * Wait until a message matching the predicate arrives
+ */
+async function waitFor(
+  messages: RealtimeServerMessage[],
+  predicate: (message: RealtimeServerMessage) => boolean
+): Promise<RealtimeServerMessage> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const match = messages.find(predicate);
+    if (match) return match;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error('Timed out waiting for message');
+}
+
+describe('WebSocket gateway', () => {
+  let server: http.Server;
+  let wss: WebSocketServer;
+  let baseUrl: string;
+  let token: string;
+  let userId: string;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    const [user] = await db
+      .insert(users)
+      .values({ username: 'wsuser', passwordHash: 'hashedpassword' })
+      .returning();
+    userId = user.id;
+    token = generateAccessToken({ userId: user.id, username: user.username });
+
+    const [session] = await db
+      .insert(sessions)
+      .values({ userId, projectPath: '/tmp/project' })
+      .returning();
+    sessionId = session.id;
+
+    server = http.createServer();
+    wss = attachWebSocketGateway(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `ws://127.0.0.1:${port}/ws`;
+  });
+
+  afterEach(async () => {
+    for (const client of wss.clients) {
+      client.terminate();
+    }
+    wss.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should reject connections without a token', async () => {
+    await expect(connect(baseUrl)).rejects.toThrow('401');
+  });
+
+  it('should reject refresh tokens', async () => {
+    const refreshToken = generateRefreshToken({ userId, username: 'wsuser' });
+
+    await expect(connect(`${baseUrl}?token=${refreshToken}`)).rejects.toThrow('401');
+  });
+
+  it('should deliver events on a subscribed session channel', async () => {
+    const { ws, messages } = await connect(`${baseUrl}?token=${token}`);
+
+    ws.send(JSON.stringify({ type: 'subscribe', channel: `session:${sessionId}` }));
+    await waitFor(messages, (m) => m.type === 'subscribed');
+
+    eventBus.publish(`session:${sessionId}`, { type: 'delta', text: 'Hello' });
+
+    const message = await waitFor(messages, (m) => m.type === 'event');
+    expect(message).toEqual({
+      type: 'event',
+      channel: `session:${sessionId}`,
+      event: { type: 'delta', text: 'Hello' },
+    });
+    ws.close();
+  });
+
+  it('should refuse other users sessions', async () => {
+    const [otherUser] = await db
+      .insert(users)
+      .values({ username: 'otheruser', passwordHash: 'hashedpassword' })
+      .returning();
+    const otherToken = generateAccessToken({ userId: otherUser.id, username: 'otheruser' });
+    const { ws, messages } = await connect(`${baseUrl}?token=${otherToken}`);
+
+    ws.send(JSON.stringify({ type: 'subscribe', channel: `session:${sessionId}` }));
+
+    const message = await waitFor(messages, (m) => m.type === 'error');
+    expect(message).toMatchObject({ code: 'CHANNEL_FORBIDDEN' });
+    ws.close();
+  });
+
+  it('should scope the files channel to the current user', async () => {
+    const { ws, messages } = await connect(`${baseUrl}?token=${token}`);
+
+    ws.send(JSON.stringify({ type: 'subscribe', channel: 'files' }));
+    await waitFor(messages, (m) => m.type === 'subscribed');
+
+    eventBus.publish('files:someone-else', { type: 'file-changed', path: '/a', change: 'write' });
+    eventBus.publish(`files:${userId}`, { type: 'file-changed', path: '/b', change: 'delete' });
+
+    const message = await waitFor(messages, (m) => m.type === 'event');
+    expect(message).toMatchObject({ channel: 'files', event: { path: '/b' } });
+    ws.close();
+  });
+
+  it('should release subscriptions when the socket closes', async () => {
+    const { ws, messages } = await connect(`${baseUrl}?token=${token}`);
+
+    ws.send(JSON.stringify({ type: 'subscribe', channel: 'mcp' }));
+    await waitFor(messages, (m) => m.type === 'subscribed');
+    expect(eventBus.listenerCount('mcp')).toBe(1);
+
+    ws.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(eventBus.listenerCount('mcp')).toBe(0);
+  });
+
+  it('should add one listener for overlapping subscribes and none after a close', async () => {
+    const channel = `session:${sessionId}`;
+    const { ws, messages } = await connect(`${baseUrl}?token=${token}`);
+
+    // Session channels are resolved with a database lookup, so both messages are in flight
+    ws.send(JSON.stringify({ type: 'subscribe', channel }));
+    ws.send(JSON.stringify({ type: 'subscribe', channel }));
+    await waitFor(messages, (m) => m.type === 'subscribed');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(eventBus.listenerCount(channel)).toBe(1);
+    ws.close();
+
+    const closing = await connect(`${baseUrl}?token=${token}`);
+    closing.ws.send(JSON.stringify({ type: 'subscribe', channel }));
+    closing.ws.terminate();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(eventBus.listenerCount(channel)).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import type { RealtimeEvent } from '@gemini-ui/shared';
+
+/**
+ * In-process publish/subscribe bus feeding the WebSocket gateway
+ *
+ * Internal channel names:
+ * - `session:<sessionId>`
+ * - `files:<userId>`
+ * - `mcp`
+ */
+
+type EventBusListener = (event: RealtimeEvent) => void;
+
+export class EventBus {
+  private listeners = new Map<string, Set<EventBusListener>>();
+
+  /**
+   * Subscribe to a channel, returns an unsubscribe function
+   */
+  subscribe(channel: string, listener: EventBusListener): () => void {
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+    }
+    channelListeners.add(listener);
+
+    return () => {
+      channelListeners.delete(listener);
+      if (channelListeners.size === 0) {
+        this.listeners.delete(channel);
+      }
+    };
+  }
+
+  /**
+   * Publish an event to every subscriber of a channel
+   */
+  publish(channel: string, event: RealtimeEvent): void {
+    const channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      return;
+    }
+
+    for (const listener of channelListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Event bus listener failed on '${channel}':`, error);
+      }
+    }
+  }
+
+  /**
+   * Number of listeners on a channel
+   */
+  listenerCount(channel: string): number {
+    return this.listeners.get(channel)?.size ?? 0;
+  }
+}
+
+/**
+ * Shared event bus instance
+ */
+export const eventBus = new EventBus();
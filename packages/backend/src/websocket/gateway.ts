@@ -0,0 +1,229 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { and, eq } from 'drizzle-orm';
+import type { RealtimeClientMessage, RealtimeServerMessage } from '@gemini-ui/shared';
+import { verifyToken } from '../security/jwt.js';
+import { allowedOrigins } from '../config/index.js';
+import { db } from '../db/index.js';
+import { sessions } from '../db/schema.js';
+import { eventBus } from './event-bus.js';
+
+/**
+ * Authenticated WebSocket gateway
+ * Multiplexes realtime channels over a single socket per browser tab
+ */
+
+const WS_PATH = '/ws';
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Close codes sent to the browser
+ */
+export const WS_CLOSE_TOKEN_EXPIRED = 4001;
+
+interface SocketUser {
+  id: string;
+  username: string;
+  expiresAt?: number;
+}
+
+interface SocketState {
+  user: SocketUser;
+  isAlive: boolean;
+  subscriptions: Map<string, () => void>;
+}
+
+/**
+ * Verify the access token passed as `?token=` (browsers cannot set headers on WebSockets)
+ */
+function authenticate(token: string | null): SocketUser | null {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const payload = verifyToken(token);
+    if (payload.type !== 'access') {
+      return null;
+    }
+    return {
+      id: payload.userId,
+      username: payload.username,
+      expiresAt: payload.exp ? payload.exp * 1000 : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a client channel name to an internal event bus channel
+ * @returns null if the channel is unknown or not accessible to the user
+ */
+async function resolveChannel(userId: string, channel: string): Promise<string | null> {
+  if (channel === 'mcp') {
+    return 'mcp';
+  }
+
+  if (channel === 'files') {
+    return `files:${userId}`;
+  }
+
+  if (channel.startsWith('session:')) {
+    const sessionId = channel.slice('session:'.length);
+    const session = await db.query.sessions.findFirst({
+      where: and(eq(sessions.id, sessionId), eq(sessions.userId, userId)),
+    });
+    return session ? channel : null;
+  }
+
+  return null;
+}
+
+function send(ws: WebSocket, message: RealtimeServerMessage): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Handle a message from the browser
+ */
+async function handleMessage(ws: WebSocket, state: SocketState, data: RawData): Promise<void> {
+  let message: RealtimeClientMessage;
+  try {
+    message = JSON.parse(data.toString());
+  } catch {
+    send(ws, { type: 'error', code: 'INVALID_MESSAGE', message: 'Messages must be JSON' });
+    return;
+  }
+
+  switch (message.type) {
+    case 'ping':
+      send(ws, { type: 'pong' });
+      return;
+
+    case 'subscribe': {
+      if (state.subscriptions.has(message.channel)) {
+        send(ws, { type: 'subscribed', channel: message.channel });
+        return;
+      }
+
+      const internalChannel = await resolveChannel(state.user.id, message.channel);
+      if (!internalChannel) {
+        send(ws, {
+          type: 'error',
+          channel: message.channel,
+          code: 'CHANNEL_FORBIDDEN',
+          message: `Cannot subscribe to '${message.channel}'`,
+        });
+        return;
+      }
+
+      // The socket may have closed, or subscribed again, while the channel was resolved;
+      // a listener added now would never be removed, or would deliver every event twice
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      if (state.subscriptions.has(message.channel)) {
+        send(ws, { type: 'subscribed', channel: message.channel });
+        return;
+      }
+
+      const unsubscribe = eventBus.subscribe(internalChannel, (event) =>
+        send(ws, { type: 'event', channel: message.channel, event })
+      );
+      state.subscriptions.set(message.channel, unsubscribe);
+      send(ws, { type: 'subscribed', channel: message.channel });
+      return;
+    }
+
+    case 'unsubscribe':
+      state.subscriptions.get(message.channel)?.();
+      state.subscriptions.delete(message.channel);
+      send(ws, { type: 'unsubscribed', channel: message.channel });
+      return;
+
+    default:
+      send(ws, { type: 'error', code: 'UNKNOWN_MESSAGE', message: 'Unknown message type' });
+  }
+}
+
+/**
+ * Attach the gateway to an HTTP server on /ws
+ */
+export function attachWebSocketGateway(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const states = new Map<WebSocket, SocketState>();
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== WS_PATH) {
+      return rejectUpgrade(socket, '404 Not Found');
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !allowedOrigins.includes(origin)) {
+      return rejectUpgrade(socket, '403 Forbidden');
+    }
+
+    const user = authenticate(url.searchParams.get('token'));
+    if (!user) {
+      return rejectUpgrade(socket, '401 Unauthorized');
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const state: SocketState = { user, isAlive: true, subscriptions: new Map() };
+      states.set(ws, state);
+
+      // Close the socket when the access token expires; the client reconnects with a fresh one
+      const expiryTimer = user.expiresAt
+        ? setTimeout(
+            () => ws.close(WS_CLOSE_TOKEN_EXPIRED, 'Token expired'),
+            Math.max(0, user.expiresAt - Date.now())
+          )
+        : undefined;
+
+      ws.on('pong', () => {
+        state.isAlive = true;
+      });
+
+      ws.on('message', (data) => {
+        handleMessage(ws, state, data).catch((error) => {
+          console.error('WebSocket message error:', error);
+          send(ws, { type: 'error', code: 'INTERNAL_ERROR', message: 'Internal server error' });
+        });
+      });
+
+      ws.on('close', () => {
+        clearTimeout(expiryTimer);
+        for (const unsubscribe of state.subscriptions.values()) {
+          unsubscribe();
+        }
+        states.delete(ws);
+      });
+    });
+  });
+
+  // Drop connections that stop answering pings
+  const heartbeat = setInterval(() => {
+    for (const [ws, state] of states) {
+      if (!state.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      state.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
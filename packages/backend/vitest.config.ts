@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 
 export default defineConfig({
   css: {
@@ -8,6 +8,8 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     setupFiles: ['./src/test/setup.ts'],
+    // End-to-end suites run separately with `npm run test:e2e`
+    exclude: [...configDefaults.exclude, 'src/test/e2e/**'],
     pool: 'forks', // Run tests sequentially to avoid database conflicts
     poolOptions: {
       forks: {
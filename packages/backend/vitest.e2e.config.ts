@@ -0,0 +1,27 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+  css: {
+    postcss: false,
+  },
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['src/test/e2e/**/*.e2e.test.ts'],
+    setupFiles: ['./src/test/setup.ts'],
+    env: {
+      NODE_ENV: 'test',
+      // Every chat turn runs the scriptable stand-in instead of the real CLI
+      GEMINI_CLI_PATH: fileURLToPath(new URL('./src/test/fake-gemini-cli.mjs', import.meta.url)),
+      RATE_LIMIT_MAX_REQUESTS: '10000',
+    },
+    testTimeout: 20000,
+    pool: 'forks', // Run tests sequentially to avoid database conflicts
+    poolOptions: {
+      forks: {
+        singleFork: true, // Use single fork for sequential execution
+      },
+    },
+  },
+});
@@ -0,0 +1,41 @@
+import type { Attachment } from '@gemini-ui/shared';
+import { cn } from '../../../lib/utils';
+
+interface AttachmentChipsProps {
+  attachments: Attachment[];
+  /** Show a remove button on each chip */
+  onRemove?: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * Compact list of files attached to a message or waiting to be sent
+ */
+export function AttachmentChips({ attachments, onRemove, className }: AttachmentChipsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {attachments.map((attachment) => (
+        <span
+          key={attachment.id}
+          title={`${attachment.mimeType} · ${Math.ceil(attachment.size / 1024)} KB`}
+          className="inline-flex items-center gap-1 max-w-[200px] px-2 py-0.5 rounded-full bg-gray-200 text-gray-800 text-xs"
+        >
+          <span>{attachment.mimeType === 'application/pdf' ? '📄' : '🖼️'}</span>
+          <span className="truncate">{attachment.filename}</span>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              aria-label={`Remove ${attachment.filename}`}
+              className="ml-1 text-gray-500 hover:text-gray-900"
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { cn } from '../../../lib/utils';
+
+interface BranchSwitcherProps {
+  messageId: string;
+  siblingIds: string[];
+  onSelect: (messageId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * "< 2/3 >" control for moving between alternative versions of a message
+ */
+export function BranchSwitcher({
+  messageId,
+  siblingIds,
+  onSelect,
+  disabled,
+  className,
+}: BranchSwitcherProps) {
+  const index = siblingIds.indexOf(messageId);
+  if (siblingIds.length < 2 || index === -1) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex items-center gap-1 text-xs', className)}>
+      <button
+        type="button"
+        onClick={() => onSelect(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        aria-label="Previous version"
+        className="px-1 rounded hover:bg-black/10 disabled:opacity-40"
+      >
+        &lt;
+      </button>
+      <span>
+        {index + 1}/{siblingIds.length}
+      </span>
+      <button
+        type="button"
+        onClick={() => onSelect(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        aria-label="Next version"
+        className="px-1 rounded hover:bg-black/10 disabled:opacity-40"
+      >
+        &gt;
+      </button>
+    </div>
+  );
+}
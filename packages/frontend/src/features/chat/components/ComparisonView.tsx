@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GeminiModel, Session, TokenUsage } from '@gemini-ui/shared';
+import { useChat } from '../hooks/useChat';
+import { useGeminiModels } from '../hooks/useGeminiModels';
+import {
+  useComparison,
+  useCreateComparison,
+  usePickComparisonWinner,
+  useSessionUsage,
+} from '../../sessions/hooks/useSessions';
+import { MessageBubble } from './MessageBubble';
+import { ToolApprovalCard } from './ToolApprovalCard';
+import { cn, formatUsd } from '../../../lib/utils';
+
+const MAX_MODELS = 3;
+
+/**
+ * A prompt sent to every column; `seq` tells repeated prompts apart
+ */
+interface ComparisonPrompt {
+  seq: number;
+  content: string;
+}
+
+interface ComparisonColumnProps {
+  session: Session;
+  prompt: ComparisonPrompt | null;
+  /** Load the stored conversation (comparisons reopened from the URL) */
+  loadHistory: boolean;
+  onBusyChange: (sessionId: string, busy: boolean) => void;
+  onPick: (session: Session) => void;
+  picking: boolean;
+}
+
+/**
+ * One model's side of the comparison, with latency, tokens and cost of its latest reply
+ */
+function ComparisonColumn({
+  session,
+  prompt,
+  loadHistory,
+  onBusyChange,
+  onPick,
+  picking,
+}: ComparisonColumnProps) {
+  const {
+    messages,
+    isStreaming,
+    error,
+    pendingApprovals,
+    send,
+    edit,
+    regenerate,
+    switchBranch,
+    decide,
+    open,
+  } = useChat({ projectPath: session.projectPath, model: session.model, sessionId: session.id });
+  const { data: usage } = useSessionUsage(session.id);
+  const { data: models } = useGeminiModels();
+  const modelName = models?.models.find((model) => model.id === session.model)?.name;
+  const handledSeq = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (loadHistory) open(session.id);
+  }, [loadHistory, open, session.id]);
+
+  useEffect(() => {
+    if (prompt && handledSeq.current !== prompt.seq) {
+      handledSeq.current = prompt.seq;
+      send(prompt.content);
+    }
+  }, [prompt, send]);
+
+  useEffect(() => {
+    onBusyChange(session.id, isStreaming);
+  }, [onBusyChange, session.id, isStreaming]);
+
+  const latest = [...messages].reverse().find((message) => message.metadata?.usage);
+  const latestUsage = latest?.metadata?.usage as TokenUsage | undefined;
+  const durationMs = latest?.metadata?.durationMs as number | undefined;
+
+  return (
+    <div className="flex flex-col min-w-0 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200">
+        <span className="font-medium truncate">{modelName ?? session.model}</span>
+        <button
+          type="button"
+          onClick={() => onPick(session)}
+          disabled={picking || isStreaming || messages.length === 0}
+          className="px-2 py-1 text-xs bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-300"
+        >
+          Continue with this
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-4 p-3 min-h-[300px] max-h-[600px] overflow-y-auto">
+        {messages.map((msg, idx) => (
+          <MessageBubble
+            key={msg.id ?? idx}
+            message={msg}
+            pending={isStreaming && idx === messages.length - 1}
+            busy={isStreaming}
+            onEdit={edit}
+            onRegenerate={regenerate}
+            onSwitchBranch={switchBranch}
+          />
+        ))}
+        {pendingApprovals.map((approval) => (
+          <ToolApprovalCard key={approval.toolCall.id} approval={approval} onDecide={decide} />
+        ))}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <dl className="grid grid-cols-3 gap-2 px-3 py-2 text-xs text-gray-600 border-t border-gray-200">
+        <div>
+          <dt>Latency</dt>
+          <dd className="font-medium text-gray-900">
+            {durationMs !== undefined ? `${(durationMs / 1000).toFixed(1)} s` : '–'}
+          </dd>
+        </div>
+        <div>
+          <dt>Tokens</dt>
+          <dd className="font-medium text-gray-900">
+            {latestUsage ? latestUsage.totalTokens.toLocaleString() : '–'}
+          </dd>
+        </div>
+        <div>
+          <dt>Cost (session)</dt>
+          <dd className="font-medium text-gray-900">{usage ? formatUsd(usage.costUsd) : '–'}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
+
+interface ComparisonViewProps {
+  projectPath?: string;
+  /** Comparison to show; a new one is created on the first prompt when null */
+  comparisonId: string | null;
+  defaultModel: string;
+  onStarted: (comparisonId: string) => void;
+  onWinner: (session: Session) => void;
+}
+
+/**
+ * Send one prompt to two or three models side by side, then continue with the best
+ */
+export function ComparisonView({
+  projectPath,
+  comparisonId,
+  defaultModel,
+  onStarted,
+  onWinner,
+}: ComparisonViewProps) {
+  const { data: modelList } = useGeminiModels();
+  const { data: comparison } = useComparison(comparisonId);
+  const createComparison = useCreateComparison();
+  const pickWinner = usePickComparisonWinner();
+  const [models, setModels] = useState<string[]>([defaultModel, '']);
+  const [input, setInput] = useState('');
+  const [prompt, setPrompt] = useState<ComparisonPrompt | null>(null);
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+  // Comparisons started here begin empty; reopened ones load their history
+  const [createdId, setCreatedId] = useState<string | null>(null);
+
+  const handleBusyChange = useCallback(
+    (sessionId: string, isBusy: boolean) =>
+      setBusy((current) => ({ ...current, [sessionId]: isBusy })),
+    []
+  );
+  const isBusy = Object.values(busy).some(Boolean) || createComparison.isPending;
+  const chosen = models.filter(Boolean);
+  const canStart = new Set(chosen).size === chosen.length && chosen.length >= 2;
+
+  const handleSend = async () => {
+    const content = input.trim();
+    if (!content || isBusy || !projectPath) return;
+
+    if (!comparison) {
+      if (!canStart) return;
+      const created = await createComparison.mutateAsync({ projectPath, models: chosen });
+      setCreatedId(created.id);
+      onStarted(created.id);
+    }
+    setInput('');
+    setPrompt((current) => ({ seq: (current?.seq ?? 0) + 1, content }));
+  };
+
+  const handlePick = (session: Session) => {
+    if (!comparison) return;
+    pickWinner.mutate(
+      { comparisonId: comparison.id, sessionId: session.id },
+      { onSuccess: onWinner }
+    );
+  };
+
+  const setModelAt = (index: number, model: string) =>
+    setModels((current) => current.map((value, i) => (i === index ? model : value)));
+
+  return (
+    <div className="space-y-4">
+      {!comparison && (
+        <div className="flex flex-wrap items-end gap-3">
+          {models.map((model, index) => (
+            <label key={index} className="text-sm text-gray-700">
+              Model {index + 1}
+              <select
+                value={model}
+                onChange={(e) => setModelAt(index, e.target.value)}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">{index < 2 ? 'Select a model' : 'None'}</option>
+                {modelList?.models.map((option: GeminiModel) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          {models.length < MAX_MODELS && (
+            <button
+              type="button"
+              onClick={() => setModels((current) => [...current, ''])}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              + Add model
+            </button>
+          )}
+          {!canStart && chosen.length > 0 && (
+            <p className="text-sm text-amber-700">Pick two or three different models.</p>
+          )}
+        </div>
+      )}
+
+      {comparison && (
+        <div
+          className={cn(
+            'grid gap-4',
+            comparison.sessions.length === 3 ? 'lg:grid-cols-3' : 'lg:grid-cols-2'
+          )}
+        >
+          {comparison.sessions.map((session) => (
+            <ComparisonColumn
+              key={session.id}
+              session={session}
+              prompt={prompt}
+              loadHistory={comparison.id !== createdId}
+              onBusyChange={handleBusyChange}
+              onPick={handlePick}
+              picking={pickWinner.isPending}
+            />
+          ))}
+        </div>
+      )}
+
+      {(createComparison.error || pickWinner.error) && (
+        <p className="text-sm text-red-600">
+          {(createComparison.error ?? pickWinner.error)?.message}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+          placeholder="Prompt sent to every model..."
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={!input.trim() || !projectPath || isBusy || (!comparison && !canStart)}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Compare
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import type { SessionUsage } from '@gemini-ui/shared';
+import { cn, formatUsd } from '../../../lib/utils';
+
+// Warn once the conversation fills this share of the context window
+const WARNING_RATIO = 0.8;
+const CRITICAL_RATIO = 0.95;
+
+interface ContextMeterProps {
+  usage?: SessionUsage;
+  contextWindow?: number;
+  className?: string;
+}
+
+/**
+ * Format a token count compactly (12.3k, 1.2M)
+ */
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * Bar showing how much of the model's context window the session uses
+ */
+export function ContextMeter({ usage, contextWindow, className }: ContextMeterProps) {
+  if (!usage || !contextWindow) {
+    return null;
+  }
+
+  const ratio = Math.min(usage.contextTokens / contextWindow, 1);
+  const percent = Math.round(ratio * 100);
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>
+          Context: {formatTokens(usage.contextTokens)} / {formatTokens(contextWindow)} tokens ({percent}%)
+        </span>
+        <span>
+          Session: {formatTokens(usage.promptTokens)} in · {formatTokens(usage.responseTokens)} out ·{' '}
+          {formatTokens(usage.cachedTokens)} cached · ~{formatUsd(usage.costUsd)}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={cn(
+            'h-full transition-all',
+            ratio >= CRITICAL_RATIO ? 'bg-red-500' : ratio >= WARNING_RATIO ? 'bg-amber-500' : 'bg-blue-500'
+          )}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {ratio >= WARNING_RATIO && (
+        <p className={cn('text-xs', ratio >= CRITICAL_RATIO ? 'text-red-700' : 'text-amber-700')}>
+          {ratio >= CRITICAL_RATIO
+            ? 'The context window is almost full. Start a new session to keep replies reliable.'
+            : 'This session is using most of the context window. Consider starting a new session soon.'}
+        </p>
+      )}
+    </div>
+  );
+}
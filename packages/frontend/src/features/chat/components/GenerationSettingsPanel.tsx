@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import {
+  GenerationSettingsSchema,
+  supportedGenerationSettings,
+  type GeminiModel,
+  type GenerationSettings,
+} from '@gemini-ui/shared';
+import { cn } from '../../../lib/utils';
+
+type NumericSetting = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget';
+
+const NUMERIC_CONTROLS: Array<{
+  setting: NumericSetting;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}> = [
+  { setting: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.05 },
+  { setting: 'topP', label: 'Top-p', min: 0, max: 1, step: 0.05 },
+  { setting: 'maxOutputTokens', label: 'Max output tokens', min: 1, max: 65536, step: 1 },
+  { setting: 'thinkingBudget', label: 'Thinking budget', min: 0, max: 32768, step: 1 },
+];
+
+interface GenerationSettingsPanelProps {
+  model: GeminiModel;
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  className?: string;
+}
+
+/**
+ * Generation settings editor showing only the controls the model supports
+ * Empty fields keep the CLI defaults; edits are applied together
+ */
+export function GenerationSettingsPanel({
+  model,
+  settings,
+  onChange,
+  className,
+}: GenerationSettingsPanelProps) {
+  const [draft, setDraft] = useState<GenerationSettings>(settings);
+  const supported = supportedGenerationSettings(model);
+  const parsed = GenerationSettingsSchema.safeParse(draft);
+  const savedKey = JSON.stringify(settings);
+  const isDirty = JSON.stringify(draft) !== savedKey;
+
+  // Follow the session's settings when they change elsewhere (session switch, model change)
+  useEffect(() => {
+    setDraft(JSON.parse(savedKey));
+  }, [savedKey]);
+
+  const setNumber = (setting: NumericSetting, value: string) => {
+    const { [setting]: _previous, ...rest } = draft;
+    setDraft(value === '' ? rest : { ...rest, [setting]: Number(value) });
+  };
+
+  return (
+    <details className={cn('text-sm', className)}>
+      <summary className="font-medium text-gray-700 cursor-pointer">Advanced</summary>
+      <div className="mt-3 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          {NUMERIC_CONTROLS.filter((control) => supported.includes(control.setting)).map(
+            (control) => (
+              <label key={control.setting} className="block">
+                <span className="text-gray-600">{control.label}</span>
+                <input
+                  type="number"
+                  min={control.min}
+                  max={control.max}
+                  step={control.step}
+                  value={draft[control.setting] ?? ''}
+                  onChange={(e) => setNumber(control.setting, e.target.value)}
+                  placeholder="Default"
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+            )
+          )}
+        </div>
+        {supported.includes('systemInstruction') && (
+          <label className="block">
+            <span className="text-gray-600">System instruction</span>
+            <textarea
+              value={draft.systemInstruction ?? ''}
+              onChange={(e) => {
+                const { systemInstruction: _previous, ...rest } = draft;
+                setDraft(e.target.value ? { ...rest, systemInstruction: e.target.value } : rest);
+              }}
+              placeholder="Replaces the CLI's default system prompt"
+              rows={3}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+        )}
+        {!parsed.success && (
+          <p className="text-red-600">{parsed.error.issues[0]?.message ?? 'Invalid settings'}</p>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => parsed.success && onChange(parsed.data)}
+            disabled={!isDirty || !parsed.success}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            disabled={Object.keys(settings).length === 0}
+            className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-100 disabled:text-gray-400"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,58 @@
+import type { FileCompletion, MessageMention } from '@gemini-ui/shared';
+import { cn } from '../../../lib/utils';
+
+interface MentionChipsProps {
+  /** Picked completions, or the mentions stored with a sent message */
+  mentions: Array<FileCompletion | MessageMention>;
+  /** Show a remove button on each chip */
+  onRemove?: (path: string) => void;
+  className?: string;
+}
+
+/**
+ * Describe what the model was given for a mention
+ */
+function mentionTitle(mention: FileCompletion | MessageMention): string {
+  if (!('files' in mention)) return mention.path;
+  if (mention.type === 'file' && !mention.truncated) return mention.path;
+
+  const count = `${mention.files.length} file${mention.files.length === 1 ? '' : 's'} sent`;
+  return mention.truncated ? `${count}; the rest exceeded the size budget` : count;
+}
+
+/**
+ * Compact list of @-mentioned files and folders of a message or waiting to be sent
+ */
+export function MentionChips({ mentions, onRemove, className }: MentionChipsProps) {
+  if (mentions.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {mentions.map((mention) => (
+        <span
+          key={mention.path}
+          title={mentionTitle(mention)}
+          className={cn(
+            'inline-flex items-center gap-1 max-w-[240px] px-2 py-0.5 rounded-full text-xs',
+            'files' in mention && mention.truncated
+              ? 'bg-amber-100 text-amber-900'
+              : 'bg-blue-100 text-blue-900'
+          )}
+        >
+          <span>{mention.type === 'directory' ? '📁' : '@'}</span>
+          <span className="truncate font-mono">{mention.path}</span>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(mention.path)}
+              aria-label={`Remove ${mention.path}`}
+              className="ml-1 text-gray-500 hover:text-gray-900"
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import type { FileCompletion } from '@gemini-ui/shared';
+import { cn } from '../../../lib/utils';
+
+interface MentionPickerProps {
+  completions: FileCompletion[];
+  isLoading?: boolean;
+  onSelect: (completion: FileCompletion) => void;
+  className?: string;
+}
+
+/**
+ * Project files and folders offered while an `@mention` is typed in the chat input
+ */
+export function MentionPicker({ completions, isLoading, onSelect, className }: MentionPickerProps) {
+  return (
+    <ul
+      className={cn(
+        'max-h-60 overflow-y-auto border border-gray-200 rounded-md bg-white shadow-sm divide-y',
+        className
+      )}
+    >
+      {completions.length === 0 && (
+        <li className="px-3 py-2 text-sm text-gray-500">
+          {isLoading ? 'Searching…' : 'No matching files'}
+        </li>
+      )}
+      {completions.map((completion) => (
+        <li key={completion.path}>
+          <button
+            type="button"
+            onClick={() => onSelect(completion)}
+            className="w-full px-3 py-1.5 text-left text-sm font-mono hover:bg-gray-50"
+          >
+            {completion.type === 'directory' ? '📁 ' : ''}
+            {completion.path}
+            {completion.type === 'directory' ? '/' : ''}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
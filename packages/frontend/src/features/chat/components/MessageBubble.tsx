@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import type { Attachment, ChatMessage, GeminiToolCall, MessageMention } from '@gemini-ui/shared';
+import { cn } from '../../../lib/utils';
+import { AttachmentChips } from './AttachmentChips';
+import { MentionChips } from './MentionChips';
+import { BranchSwitcher } from './BranchSwitcher';
+import { ToolCallList } from './ToolCallList';
+import { SpeechPlayer } from './SpeechPlayer';
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  /** The reply is still streaming into this message */
+  pending?: boolean;
+  /** Editing and branching are disabled while a turn runs */
+  busy?: boolean;
+  onEdit: (message: ChatMessage, content: string) => void;
+  onRegenerate: (message: ChatMessage) => void;
+  onSwitchBranch: (messageId: string) => void;
+  /** Copy the conversation up to this message into a new session */
+  onFork?: (message: ChatMessage) => void;
+  /** Session whose TTS model can read replies aloud */
+  speechSessionId?: string;
+}
+
+/**
+ * One chat message with its tool calls, edit/regenerate/fork actions and branch switcher
+ */
+export function MessageBubble({
+  message,
+  pending,
+  busy,
+  onEdit,
+  onRegenerate,
+  onSwitchBranch,
+  onFork,
+  speechSessionId,
+}: MessageBubbleProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isUser = message.role === 'user';
+  const canBranch = Boolean(message.id) && !busy;
+
+  const submitEdit = () => {
+    if (draft?.trim() && draft !== message.content) {
+      onEdit(message, draft);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className={cn('flex', isUser ? 'justify-end' : 'justify-start')}>
+      <div
+        className={cn(
+          'max-w-[70%] rounded-lg px-4 py-2',
+          isUser ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+        )}
+      >
+        {draft !== null ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={3}
+              className="w-full min-w-[300px] px-2 py-1 rounded text-gray-900"
+            />
+            <div className="flex justify-end gap-2 text-sm">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-2 py-0.5 rounded hover:bg-black/10"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={submitEdit}
+                className="px-2 py-0.5 rounded bg-white text-blue-700 hover:bg-blue-50"
+              >
+                Save &amp; send
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="whitespace-pre-wrap">{message.content || (pending ? '…' : '')}</div>
+        )}
+        <AttachmentChips
+          attachments={(message.metadata?.attachments as Attachment[] | undefined) ?? []}
+          className="mt-2"
+        />
+        <MentionChips
+          mentions={(message.metadata?.mentions as MessageMention[] | undefined) ?? []}
+          className="mt-2"
+        />
+        <ToolCallList
+          toolCalls={(message.metadata?.toolCalls as GeminiToolCall[] | undefined) ?? []}
+        />
+        {message.metadata?.interrupted === true && (
+          <div className="mt-1 text-xs text-amber-700">Stopped before the reply finished</div>
+        )}
+        {speechSessionId && !isUser && message.id && message.content && !pending && (
+          <SpeechPlayer sessionId={speechSessionId} message={message} className="mt-1" />
+        )}
+
+        {message.id && draft === null && (
+          <div
+            className={cn(
+              'mt-1 flex items-center gap-3 text-xs',
+              isUser ? 'justify-end text-blue-100' : 'text-gray-500'
+            )}
+          >
+            <BranchSwitcher
+              messageId={message.id}
+              siblingIds={message.siblingIds ?? []}
+              onSelect={onSwitchBranch}
+              disabled={busy}
+            />
+            {isUser ? (
+              <button
+                type="button"
+                onClick={() => setDraft(message.content)}
+                disabled={!canBranch}
+                className="hover:underline disabled:opacity-40"
+              >
+                Edit
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onRegenerate(message)}
+                disabled={!canBranch}
+                className="hover:underline disabled:opacity-40"
+              >
+                Regenerate
+              </button>
+            )}
+            {onFork && (
+              <button
+                type="button"
+                onClick={() => onFork(message)}
+                disabled={!canBranch}
+                className="hover:underline disabled:opacity-40"
+              >
+                Fork
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
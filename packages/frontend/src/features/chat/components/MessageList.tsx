@@ -0,0 +1,120 @@
+import { useLayoutEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import type { ChatMessage } from '@gemini-ui/shared';
+import { useVirtualList } from '../../../hooks/useVirtualList';
+import { cn } from '../../../lib/utils';
+
+// Start fetching older messages this close to the top
+const LOAD_OLDER_THRESHOLD = 300;
+// Follow new output while the view is this close to the bottom
+const STICK_TO_BOTTOM_THRESHOLD = 80;
+
+interface MessageListProps {
+  messages: ChatMessage[];
+  renderMessage: (message: ChatMessage, index: number) => ReactNode;
+  /** Older messages of the branch can be loaded */
+  hasMoreBefore: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+  /** Shown when there are no messages */
+  empty?: ReactNode;
+  /** Rendered below the messages, inside the scroll area */
+  footer?: ReactNode;
+  className?: string;
+}
+
+/**
+ * Scrollable conversation that only renders the messages near the viewport
+ * Scrolling to the top loads older messages; new output is followed while at the bottom
+ */
+export function MessageList({
+  messages,
+  renderMessage,
+  hasMoreBefore,
+  isLoadingOlder,
+  onLoadOlder,
+  empty,
+  footer,
+  className,
+}: MessageListProps) {
+  const keys = messages.map((message, index) => message.id ?? `pending-${index}`);
+  const { containerRef, items, totalSize, measure, onScroll } = useVirtualList({
+    keys,
+    estimateSize: 120,
+  });
+  const atBottom = useRef(true);
+  // Distance from the bottom when older messages were requested, restored once they arrive
+  const restoreFromBottom = useRef<number | null>(null);
+  const firstKey = keys[0];
+  const previousFirstKey = useRef(firstKey);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const firstChanged = previousFirstKey.current !== firstKey;
+    previousFirstKey.current = firstKey;
+
+    if (firstChanged && restoreFromBottom.current !== null) {
+      // Older messages were prepended: keep the messages being read in place
+      container.scrollTop = container.scrollHeight - restoreFromBottom.current;
+      restoreFromBottom.current = null;
+      return;
+    }
+    if (!isLoadingOlder) restoreFromBottom.current = null;
+    // Another session or branch starts at the bottom
+    if (firstChanged) atBottom.current = true;
+    if (atBottom.current) container.scrollTop = container.scrollHeight;
+  });
+
+  const loadOlder = () => {
+    const container = containerRef.current;
+    if (!container || isLoadingOlder) return;
+
+    restoreFromBottom.current = container.scrollHeight - container.scrollTop;
+    onLoadOlder();
+  };
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    onScroll();
+    atBottom.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight <
+      STICK_TO_BOTTOM_THRESHOLD;
+    if (hasMoreBefore && container.scrollTop < LOAD_OLDER_THRESHOLD) {
+      loadOlder();
+    }
+  };
+
+  return (
+    <div ref={containerRef} onScroll={handleScroll} className={cn('overflow-y-auto', className)}>
+      {hasMoreBefore && (
+        <button
+          type="button"
+          onClick={loadOlder}
+          disabled={isLoadingOlder}
+          className="block w-full py-2 text-center text-xs text-gray-500 hover:text-blue-600"
+        >
+          {isLoadingOlder ? 'Loading earlier messages…' : 'Load earlier messages'}
+        </button>
+      )}
+      {messages.length === 0 && empty}
+      <div className="relative" style={{ height: totalSize }}>
+        {items.map(({ key, index, offset }) => (
+          <div
+            key={key}
+            ref={measure}
+            data-key={key}
+            className="absolute inset-x-0 pb-4"
+            style={{ top: offset }}
+          >
+            {renderMessage(messages[index], index)}
+          </div>
+        ))}
+      </div>
+      {footer}
+    </div>
+  );
+}
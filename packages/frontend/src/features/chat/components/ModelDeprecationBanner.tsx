@@ -0,0 +1,70 @@
+import type { GeminiModel, ModelMigration } from '@gemini-ui/shared';
+import { useGeminiModels } from '../hooks/useGeminiModels';
+import { cn } from '../../../lib/utils';
+
+interface ModelDeprecationBannerProps {
+  /** Model of the current chat */
+  model?: GeminiModel;
+  /** Set when the open session was moved off a retired model */
+  migration?: ModelMigration;
+  onDismiss: () => void;
+  className?: string;
+}
+
+/**
+ * Explain that a session was moved off a retired model, or warn before the chat's
+ * model is retired
+ */
+export function ModelDeprecationBanner({
+  model,
+  migration,
+  onDismiss,
+  className,
+}: ModelDeprecationBannerProps) {
+  const { data } = useGeminiModels();
+  // Retired models are no longer listed, so fall back to their id
+  const nameOf = (id: string) => data?.models.find((candidate) => candidate.id === id)?.name ?? id;
+
+  if (migration) {
+    return (
+      <div
+        role="status"
+        className={cn(
+          'flex items-start justify-between gap-3 p-3 text-sm rounded-md',
+          'bg-blue-50 border border-blue-200 text-blue-800',
+          className
+        )}
+      >
+        <p>
+          This session was moved from <strong>{nameOf(migration.from)}</strong> to{' '}
+          <strong>{nameOf(migration.to)}</strong> on{' '}
+          {new Date(migration.migratedAt).toLocaleDateString()} because the original model
+          was retired.
+        </p>
+        <button type="button" onClick={onDismiss} aria-label="Dismiss" className="hover:underline">
+          ✕
+        </button>
+      </div>
+    );
+  }
+
+  if (!model?.deprecated) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'p-3 text-sm rounded-md bg-yellow-50 border border-yellow-200 text-yellow-800',
+        className
+      )}
+    >
+      ⚠️ {model.name} is deprecated
+      {model.deprecationDate && <> and will be retired on {model.deprecationDate}</>}.
+      {model.successor && (
+        <> Sessions using it will then move to {nameOf(model.successor)}.</>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
 import { useState } from 'react';
-import type { GeminiModel } from '@gemini-ui/shared';
+import type { GeminiModel, GenerationSettings } from '@gemini-ui/shared';
 import { useGeminiModels } from '../hooks/useGeminiModels';
+import { GenerationSettingsPanel } from './GenerationSettingsPanel';
 import { cn } from '../../../lib/utils';
 
 interface ModelSelectorProps {
   value: string;
   onChange: (modelId: string) => void;
+  /** Generation settings for the selected model; the Advanced panel shows with a handler */
+  settings?: GenerationSettings;
+  onSettingsChange?: (settings: GenerationSettings) => void;
   className?: string;
 }
 
@@ -47,6 +51,8 @@ function CapabilityBadge({ capability }: { capability: string }) {
 export function ModelSelector({
   value,
   onChange,
+  settings,
+  onSettingsChange,
   className,
 }: ModelSelectorProps) {
   const { data, isLoading, error } = useGeminiModels();
@@ -238,6 +244,15 @@ export function ModelSelector({
           </div>
         </>
       )}
+
+      {selectedModel && onSettingsChange && (
+        <GenerationSettingsPanel
+          model={selectedModel}
+          settings={settings ?? {}}
+          onChange={onSettingsChange}
+          className="mt-3"
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_SPEECH_VOICE,
+  SPEECH_VOICES,
+  type Attachment,
+  type ChatMessage,
+  type MessageSpeech,
+  type SpeechVoice,
+} from '@gemini-ui/shared';
+import { useAttachmentAudio, useSynthesizeSpeech } from '../hooks/useSpeech';
+import { apiClient } from '../../../lib/api-client';
+import { cn } from '../../../lib/utils';
+
+interface SpeechPlayerProps {
+  sessionId: string;
+  message: ChatMessage;
+  className?: string;
+}
+
+/**
+ * Read an assistant reply aloud with a TTS model: play, pause and download the audio
+ */
+export function SpeechPlayer({ sessionId, message, className }: SpeechPlayerProps) {
+  const stored = message.metadata?.speech as MessageSpeech | undefined;
+  const [voice, setVoice] = useState<SpeechVoice>(stored?.voice ?? DEFAULT_SPEECH_VOICE);
+  const [attachment, setAttachment] = useState<Attachment | undefined>(stored?.attachment);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [url, setUrl] = useState<string>();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Freshly generated audio starts playing as soon as it has loaded
+  const playWhenLoaded = useRef(false);
+  const synthesize = useSynthesizeSpeech();
+  const { data: audio, isFetching } = useAttachmentAudio(sessionId, attachment?.id);
+
+  useEffect(() => {
+    if (!audio) return;
+    const objectUrl = URL.createObjectURL(audio);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [audio]);
+
+  useEffect(() => {
+    if (url && playWhenLoaded.current) {
+      playWhenLoaded.current = false;
+      audioRef.current?.play();
+    }
+  }, [url]);
+
+  const listen = () => {
+    synthesize.mutate(
+      { sessionId, messageId: message.id!, voice },
+      {
+        onSuccess: (generated) => {
+          playWhenLoaded.current = true;
+          setAttachment(generated);
+        },
+      }
+    );
+  };
+
+  const togglePlayback = () => {
+    if (!audioRef.current) return;
+    if (isPlaying) {
+      audioRef.current.pause();
+    } else {
+      audioRef.current.play();
+    }
+  };
+
+  const isLoading = synthesize.isPending || isFetching;
+
+  return (
+    <div className={cn('flex items-center gap-2 text-xs text-gray-500', className)}>
+      {url ? (
+        <>
+          <button
+            type="button"
+            onClick={togglePlayback}
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+            className="hover:underline"
+          >
+            {isPlaying ? '⏸ Pause' : '▶ Play'}
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              apiClient.download(
+                `/sessions/${sessionId}/attachments/${attachment!.id}`,
+                attachment!.filename
+              )
+            }
+            className="hover:underline"
+          >
+            Download
+          </button>
+          <audio
+            ref={audioRef}
+            src={url}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={() => setIsPlaying(false)}
+          />
+        </>
+      ) : (
+        <>
+          <button
+            type="button"
+            onClick={listen}
+            disabled={isLoading}
+            className="hover:underline disabled:opacity-40"
+          >
+            {isLoading ? 'Generating audio…' : '🔊 Listen'}
+          </button>
+          <select
+            value={voice}
+            onChange={(e) => setVoice(e.target.value as SpeechVoice)}
+            aria-label="Voice"
+            className="bg-transparent"
+          >
+            {SPEECH_VOICES.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+      {synthesize.error && <span className="text-red-600">{synthesize.error.message}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import type { GeminiToolCall, ToolApprovalDecision, ToolCallPreview } from '@gemini-ui/shared';
+import { diffLines } from '../../../lib/diff';
+import { cn } from '../../../lib/utils';
+
+/**
+ * Tool call the CLI is waiting on, with its preview
+ */
+export interface PendingApproval {
+  toolCall: GeminiToolCall;
+  preview?: ToolCallPreview;
+}
+
+interface ToolApprovalCardProps {
+  approval: PendingApproval;
+  onDecide: (toolCallId: string, decision: ToolApprovalDecision) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Preview of what the tool call will do
+ */
+function PreviewBody({ preview }: { preview: ToolCallPreview }) {
+  if (preview.kind === 'command') {
+    return (
+      <pre className="bg-gray-900 text-gray-100 text-xs rounded p-3 overflow-x-auto">
+        {preview.directory && <span className="text-gray-400">{preview.directory} </span>}$ {preview.command}
+      </pre>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-xs text-gray-600 mb-1 font-mono">{preview.path}</p>
+      <pre className="text-xs rounded border border-gray-200 max-h-64 overflow-auto">
+        {diffLines(preview.before, preview.after).map((line, idx) => (
+          <div
+            key={idx}
+            className={cn(
+              'px-2',
+              line.type === 'added' && 'bg-green-50 text-green-800',
+              line.type === 'removed' && 'bg-red-50 text-red-800'
+            )}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+            {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Card asking the user to approve or deny a tool call
+ */
+export function ToolApprovalCard({ approval, onDecide, disabled }: ToolApprovalCardProps) {
+  const { toolCall, preview } = approval;
+
+  return (
+    <div className="border border-amber-300 bg-amber-50 rounded-lg p-4 space-y-3">
+      <p className="text-sm font-medium text-amber-900">
+        Gemini wants to run <span className="font-mono">{toolCall.name}</span>
+      </p>
+
+      {preview ? (
+        <PreviewBody preview={preview} />
+      ) : (
+        <pre className="text-xs bg-white rounded border border-gray-200 p-3 overflow-x-auto">
+          {JSON.stringify(toolCall.args, null, 2)}
+        </pre>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onDecide(toolCall.id, 'approve-once')}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          Approve once
+        </button>
+        <button
+          onClick={() => onDecide(toolCall.id, 'approve-always')}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-white border border-blue-600 text-blue-700 rounded-md hover:bg-blue-50 disabled:opacity-50"
+        >
+          Approve always for this session
+        </button>
+        <button
+          onClick={() => onDecide(toolCall.id, 'deny')}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-white border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+        >
+          Deny
+        </button>
+      </div>
+    </div>
+  );
+}
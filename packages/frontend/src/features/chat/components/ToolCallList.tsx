@@ -0,0 +1,33 @@
+import type { GeminiToolCall, ToolApprovalDecision } from '@gemini-ui/shared';
+
+const APPROVAL_LABELS: Record<ToolApprovalDecision, string> = {
+  'approve-once': 'approved once',
+  'approve-always': 'approved for session',
+  deny: 'denied',
+};
+
+/**
+ * Compact list of the tool calls made during a turn and how they were approved
+ */
+export function ToolCallList({ toolCalls }: { toolCalls: GeminiToolCall[] }) {
+  if (toolCalls.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-2 space-y-1 text-xs text-gray-600">
+      {toolCalls.map((toolCall) => (
+        <li key={toolCall.id} className="font-mono">
+          {toolCall.status === 'success' ? '✓' : toolCall.status === 'error' ? '✗' : '…'}{' '}
+          {toolCall.name}
+          {toolCall.approval && (
+            <span className="ml-2 font-sans text-gray-500">
+              ({APPROVAL_LABELS[toolCall.approval]}
+              {toolCall.approvalReason && `: ${toolCall.approvalReason}`})
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import type { ChatMessage, RealtimeEvent } from '@gemini-ui/shared';
+import { useChat } from '../useChat';
+import { apiClient } from '../../../../lib/api-client';
+import { socketClient } from '../../../../lib/socket-client';
+
+vi.mock('../../../../lib/api-client', () => ({
+  apiClient: { get: vi.fn(), post: vi.fn(), stream: vi.fn() },
+}));
+
+vi.mock('../../../../lib/socket-client', () => ({
+  socketClient: { subscribe: vi.fn() },
+}));
+
+const STORED: ChatMessage[] = [
+  { id: 'u1', parentId: null, role: 'user', content: 'Hi' },
+  { id: 'a1', parentId: 'u1', role: 'assistant', content: 'Hello there' },
+];
+
+describe('useChat', () => {
+  let emit: (event: RealtimeEvent) => void;
+  let resubscribed: () => void;
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={new QueryClient()}>{children}</QueryClientProvider>
+  );
+
+  const startTurn = async () => {
+    const hook = renderHook(() => useChat({ projectPath: '/work', model: 'gemini-2.5-pro' }), {
+      wrapper,
+    });
+    let sending: Promise<void> = Promise.resolve();
+    act(() => {
+      sending = hook.result.current.send('Hi');
+    });
+    await waitFor(() =>
+      expect(apiClient.post).toHaveBeenCalledWith('/chat/s1/messages', { content: 'Hi' })
+    );
+    return { result: hook.result, sending };
+  };
+
+  beforeEach(() => {
+    vi.mocked(apiClient.post).mockReset();
+    vi.mocked(apiClient.get).mockReset();
+    vi.mocked(apiClient.post).mockImplementation(async (endpoint: string) =>
+      endpoint === '/sessions' ? { success: true, data: { id: 's1' } } : { success: true }
+    );
+    vi.mocked(apiClient.get).mockResolvedValue({
+      success: true,
+      data: { items: STORED, hasMoreBefore: false, hasMoreAfter: false },
+    });
+    vi.mocked(socketClient.subscribe).mockImplementation((_channel, listener, onResubscribe) => {
+      emit = listener;
+      resubscribed = onResubscribe!;
+      return { ready: Promise.resolve(true), unsubscribe: vi.fn() };
+    });
+  });
+
+  it('should settle a turn whose events were lost while the socket was down', async () => {
+    const { result, sending } = await startTurn();
+
+    act(() => emit({ type: 'delta', text: 'Hel' }));
+    expect(result.current.messages[1].content).toBe('Hel');
+
+    // The socket dropped and `done` was published before it came back
+    await act(async () => {
+      resubscribed();
+      await sending;
+    });
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.messages.map((message) => message.content)).toEqual([
+      'Hi',
+      'Hello there',
+    ]);
+  });
+
+  it('should keep waiting after a reconnect while the reply is not stored yet', async () => {
+    vi.mocked(apiClient.get).mockResolvedValueOnce({
+      success: true,
+      data: { items: STORED.slice(0, 1), hasMoreBefore: false, hasMoreAfter: false },
+    });
+    const { result, sending } = await startTurn();
+
+    await act(async () => resubscribed());
+    expect(result.current.isStreaming).toBe(true);
+
+    await act(async () => {
+      emit({ type: 'status', status: 'failed' });
+      await sending;
+    });
+    expect(result.current.isStreaming).toBe(false);
+  });
+
+  it('should end the turn on an error event', async () => {
+    const { result, sending } = await startTurn();
+
+    await act(async () => {
+      emit({ type: 'error', error: 'Could not store the reply' });
+      await sending;
+    });
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.error).toBe('Could not store the reply');
+  });
+});
@@ -0,0 +1,446 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  Attachment,
+  ChatMessage,
+  FileCompletion,
+  GeminiStreamEvent,
+  GeminiToolCall,
+  GenerationSettings,
+  MessagePage,
+  Session,
+  SessionWithMessages,
+  ToolApprovalDecision,
+} from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+import { socketClient } from '../../../lib/socket-client';
+import type { PendingApproval } from '../components/ToolApprovalCard';
+
+// Messages loaded per request; older ones are paged in as the user scrolls up
+const MESSAGE_PAGE_SIZE = 50;
+
+// How long a turn may stay silent on the socket before the stored messages are checked for
+// its reply; events missed while the socket was down (e.g. `done`) are not replayed
+const QUIET_TURN_CHECK_MS = 30000;
+
+interface UseChatOptions {
+  projectPath?: string;
+  model: string;
+  /** Settings a new session starts with */
+  generationSettings?: GenerationSettings;
+  /** Session created elsewhere (e.g. for a comparison) to send to */
+  sessionId?: string;
+}
+
+/**
+ * Apply a stream event to the assistant message being streamed
+ */
+function applyStreamEvent(message: ChatMessage, event: GeminiStreamEvent): ChatMessage {
+  switch (event.type) {
+    case 'delta':
+      return { ...message, content: message.content + event.text };
+    case 'tool-call':
+    case 'tool-result':
+    case 'approval-request':
+    case 'approval-decision': {
+      const toolCalls = (message.metadata?.toolCalls as GeminiToolCall[] | undefined) ?? [];
+      const others = toolCalls.filter((call) => call.id !== event.toolCall.id);
+      return {
+        ...message,
+        metadata: { ...message.metadata, toolCalls: [...others, event.toolCall] },
+      };
+    }
+    case 'done':
+      return event.message;
+    default:
+      return message;
+  }
+}
+
+/**
+ * Whether an event is the last one of a turn sent over the socket
+ */
+function endsTurn(event: GeminiStreamEvent): boolean {
+  return (
+    event.type === 'done' ||
+    event.type === 'error' ||
+    (event.type === 'status' && (event.status === 'failed' || event.status === 'interrupted'))
+  );
+}
+
+/**
+ * Replace the newest part of the loaded branch with a freshly fetched page
+ * Loaded messages above the page are kept when the page still descends from them:
+ * a message's ancestors never change, so the branch above it is the same
+ */
+function withNewest(loaded: ChatMessage[], newest: ChatMessage[]): ChatMessage[] {
+  const index = newest.length > 0 ? loaded.findIndex((m) => m.id === newest[0].id) : -1;
+  return index === -1 ? newest : [...loaded.slice(0, index), ...newest];
+}
+
+/**
+ * Hook managing a chat session and its streamed Gemini turns
+ */
+export function useChat({
+  projectPath,
+  model,
+  generationSettings,
+  sessionId: initialSessionId,
+}: UseChatOptions) {
+  const queryClient = useQueryClient();
+  const [sessionId, setSessionId] = useState<string | null>(initialSessionId ?? null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
+
+  /**
+   * Start a fresh conversation on the next send
+   */
+  const reset = useCallback(() => {
+    setSessionId(null);
+    setMessages([]);
+    setPendingApprovals([]);
+    setError(null);
+  }, []);
+
+  /**
+   * Load a stored session; the next send resumes its Gemini CLI conversation
+   */
+  const open = useCallback(async (id: string): Promise<SessionWithMessages | null> => {
+    setError(null);
+    try {
+      const response = await apiClient.get<ApiResponse<SessionWithMessages>>(
+        `/sessions/${id}?limit=${MESSAGE_PAGE_SIZE}`
+      );
+      const session = response.data!;
+      setSessionId(session.id);
+      setMessages(session.messages);
+      return session;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session');
+      return null;
+    }
+  }, []);
+
+  /**
+   * Prepend the messages before the oldest one loaded
+   */
+  const loadOlder = useCallback(async () => {
+    const oldestId = messages[0]?.id;
+    if (!sessionId || !oldestId || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const response = await apiClient.get<ApiResponse<MessagePage>>(
+        `/sessions/${sessionId}/messages?before=${oldestId}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      const older = response.data!.items;
+      setMessages((prev) => (prev[0]?.id === oldestId ? [...older, ...prev] : prev));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load earlier messages');
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [sessionId, messages, isLoadingOlder]);
+
+  /**
+   * Id of the current session, creating it on first use
+   */
+  const ensureSession = useCallback(async (): Promise<string> => {
+    if (sessionId) return sessionId;
+
+    const response = await apiClient.post<ApiResponse<Session>>('/sessions', {
+      projectPath,
+      model,
+      generationSettings,
+    });
+    const id = response.data!.id;
+    setSessionId(id);
+    queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    return id;
+  }, [sessionId, projectPath, model, generationSettings, queryClient]);
+
+  /**
+   * Stream one turn into the last message, then reload the newest messages for ids and siblings
+   * `visible` is the conversation shown while the turn runs
+   */
+  const runTurn = useCallback(
+    async (
+      visible: ChatMessage[],
+      start: (id: string) => { endpoint: string; body: unknown }
+    ) => {
+      setError(null);
+      setIsStreaming(true);
+      setMessages(visible);
+
+      let id: string | null = null;
+      try {
+        id = await ensureSession();
+
+        const handleEvent = (event: GeminiStreamEvent) => {
+          if (event.type === 'error') {
+            setError(event.error);
+          } else if (event.type === 'approval-request') {
+            setPendingApprovals((prev) => [
+              ...prev,
+              { toolCall: event.toolCall, preview: event.preview },
+            ]);
+          } else if (event.type === 'approval-decision') {
+            setPendingApprovals((prev) =>
+              prev.filter((approval) => approval.toolCall.id !== event.toolCall.id)
+            );
+          }
+          setMessages((prev) => [
+            ...prev.slice(0, -1),
+            applyStreamEvent(prev[prev.length - 1], event),
+          ]);
+        };
+
+        const { endpoint, body } = start(id);
+
+        // Prefer the shared socket; fall back to an SSE response if it is unavailable
+        let finishTurn = () => {};
+        const turnDone = new Promise<void>((resolve) => {
+          finishTurn = resolve;
+        });
+
+        // A reply stored that was not shown before the turn means the turn has ended
+        const known = new Set(visible.map((message) => message.id));
+        const listUrl = `/sessions/${id}/messages?limit=${MESSAGE_PAGE_SIZE}`;
+        const finishIfStored = async () => {
+          const response = await apiClient.get<ApiResponse<MessagePage>>(listUrl).catch(() => null);
+          const newest = response?.data?.items ?? [];
+          const last = newest[newest.length - 1];
+          if (last?.role === 'assistant' && last.id && !known.has(last.id)) {
+            finishTurn();
+          }
+        };
+
+        let lastEventAt = Date.now();
+        const subscription = socketClient.subscribe(
+          `session:${id}`,
+          (event) => {
+            if (event.type === 'file-changed' || event.type === 'mcp-status') return;
+            lastEventAt = Date.now();
+            handleEvent(event);
+            if (endsTurn(event)) finishTurn();
+          },
+          () => void finishIfStored()
+        );
+        let quietCheck: ReturnType<typeof setInterval> | undefined;
+
+        try {
+          if (await subscription.ready) {
+            quietCheck = setInterval(() => {
+              if (Date.now() - lastEventAt >= QUIET_TURN_CHECK_MS) {
+                void finishIfStored();
+              }
+            }, QUIET_TURN_CHECK_MS);
+            await apiClient.post(endpoint, body);
+            await turnDone;
+          } else {
+            subscription.unsubscribe();
+            await apiClient.stream(endpoint, body, handleEvent);
+          }
+        } finally {
+          clearInterval(quietCheck);
+          subscription.unsubscribe();
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+      } finally {
+        setIsStreaming(false);
+        setPendingApprovals([]);
+      }
+
+      if (id) {
+        queryClient.invalidateQueries({ queryKey: ['sessions', id, 'usage'] });
+        queryClient.invalidateQueries({ queryKey: ['costs'] });
+        const response = await apiClient
+          .get<ApiResponse<MessagePage>>(`/sessions/${id}/messages?limit=${MESSAGE_PAGE_SIZE}`)
+          .catch(() => null);
+        if (response?.data) {
+          const newest = response.data.items;
+          setMessages((prev) => withNewest(prev, newest));
+        }
+      }
+    },
+    [ensureSession, queryClient]
+  );
+
+  /**
+   * Send a message at the end of the active branch
+   */
+  const send = useCallback(
+    async (content: string, attachments: Attachment[] = [], mentions: FileCompletion[] = []) => {
+      if (!projectPath) {
+        setError('Select a project first');
+        return;
+      }
+
+      const attachmentIds = attachments.map((attachment) => attachment.id);
+      const mentionPaths = mentions.map((mention) => mention.path);
+      const metadata = {
+        ...(attachments.length > 0 && { attachments }),
+        ...(mentions.length > 0 && { mentions }),
+      };
+      await runTurn(
+        [
+          ...messages,
+          { role: 'user', content, ...(Object.keys(metadata).length > 0 && { metadata }) },
+          { role: 'assistant', content: '' },
+        ],
+        (id) => ({
+          endpoint: `/chat/${id}/messages`,
+          body: {
+            content,
+            ...(attachmentIds.length > 0 && { attachmentIds }),
+            ...(mentionPaths.length > 0 && { mentions: mentionPaths }),
+          },
+        })
+      );
+    },
+    [projectPath, messages, runTurn]
+  );
+
+  /**
+   * Upload an image or PDF to the session (creating the session if needed)
+   */
+  const uploadAttachment = useCallback(
+    async (file: File): Promise<Attachment | null> => {
+      if (!projectPath) {
+        setError('Select a project first');
+        return null;
+      }
+
+      try {
+        const id = await ensureSession();
+        const form = new FormData();
+        form.append('file', file, file.name);
+        const response = await apiClient.upload<ApiResponse<Attachment>>(
+          `/sessions/${id}/attachments`,
+          form
+        );
+        return response.data!;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to upload file');
+        return null;
+      }
+    },
+    [projectPath, ensureSession]
+  );
+
+  /**
+   * Replace an earlier user message, starting a new branch from its parent
+   */
+  const edit = useCallback(
+    async (message: ChatMessage, content: string) => {
+      const index = messages.indexOf(message);
+      if (index === -1 || message.role !== 'user') return;
+
+      await runTurn(
+        [
+          ...messages.slice(0, index),
+          { role: 'user', content, parentId: message.parentId ?? null },
+          { role: 'assistant', content: '' },
+        ],
+        (id) => ({
+          endpoint: `/chat/${id}/messages`,
+          body: { content, parentId: message.parentId ?? null },
+        })
+      );
+    },
+    [messages, runTurn]
+  );
+
+  /**
+   * Generate another reply in place of an assistant message, keeping the original as a branch
+   */
+  const regenerate = useCallback(
+    async (message: ChatMessage) => {
+      const index = messages.indexOf(message);
+      if (index === -1 || message.role !== 'assistant' || !message.id) return;
+
+      await runTurn([...messages.slice(0, index), { role: 'assistant', content: '' }], (id) => ({
+        endpoint: `/chat/${id}/messages/${message.id}/regenerate`,
+        body: {},
+      }));
+    },
+    [messages, runTurn]
+  );
+
+  /**
+   * Show another branch through the given sibling message
+   */
+  const switchBranch = useCallback(
+    async (messageId: string) => {
+      if (!sessionId) return;
+
+      try {
+        const response = await apiClient.put<ApiResponse<SessionWithMessages>>(
+          `/sessions/${sessionId}/branch?limit=${MESSAGE_PAGE_SIZE}`,
+          { messageId }
+        );
+        const newest = response.data!.messages;
+        setMessages((prev) => withNewest(prev, newest));
+        queryClient.invalidateQueries({ queryKey: ['sessions', sessionId, 'usage'] });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to switch branch');
+      }
+    },
+    [sessionId, queryClient]
+  );
+
+  /**
+   * Interrupt the running turn; the partial reply still arrives as `done`
+   */
+  const stop = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      await apiClient.post(`/chat/${sessionId}/interrupt`, {});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop the turn');
+    }
+  }, [sessionId]);
+
+  /**
+   * Answer a tool call the running turn is waiting on
+   */
+  const decide = useCallback(
+    async (toolCallId: string, decision: ToolApprovalDecision) => {
+      if (!sessionId) return;
+
+      try {
+        await apiClient.post(`/chat/${sessionId}/approvals`, { toolCallId, decision });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to send decision');
+      }
+    },
+    [sessionId]
+  );
+
+  return {
+    sessionId,
+    messages,
+    // The branch continues above the oldest loaded message
+    hasMoreBefore: Boolean(messages[0]?.parentId),
+    isLoadingOlder,
+    isStreaming,
+    error,
+    pendingApprovals,
+    send,
+    uploadAttachment,
+    edit,
+    regenerate,
+    switchBranch,
+    stop,
+    decide,
+    open,
+    loadOlder,
+    reset,
+  };
+}
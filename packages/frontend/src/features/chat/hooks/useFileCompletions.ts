@@ -0,0 +1,25 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type { ApiResponse, FileCompletion } from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Fetch project files and folders that fuzzy-match a query
+ */
+async function fetchCompletions(root: string, query: string): Promise<FileCompletion[]> {
+  const params = new URLSearchParams({ root, q: query });
+  const response = await apiClient.get<ApiResponse<FileCompletion[]>>(`/files/complete?${params}`);
+  return response.data ?? [];
+}
+
+/**
+ * Hook to complete an @-mention; disabled while no mention is being typed
+ */
+export function useFileCompletions(projectPath: string | undefined, query: string | undefined) {
+  return useQuery({
+    queryKey: ['files', 'complete', projectPath, query],
+    queryFn: () => fetchCompletions(projectPath!, query!),
+    enabled: Boolean(projectPath) && query !== undefined,
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 30,
+  });
+}
@@ -0,0 +1,48 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { ApiResponse, Attachment, SpeechVoice } from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Ask the session's TTS model to read a reply aloud
+ */
+async function synthesizeSpeech(
+  sessionId: string,
+  messageId: string,
+  voice: SpeechVoice
+): Promise<Attachment> {
+  const response = await apiClient.post<ApiResponse<Attachment>>(
+    `/sessions/${sessionId}/messages/${messageId}/speech`,
+    { voice }
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to generate speech for an assistant message
+ */
+export function useSynthesizeSpeech() {
+  return useMutation({
+    mutationFn: ({
+      sessionId,
+      messageId,
+      voice,
+    }: {
+      sessionId: string;
+      messageId: string;
+      voice: SpeechVoice;
+    }) => synthesizeSpeech(sessionId, messageId, voice),
+  });
+}
+
+/**
+ * Hook to load a stored audio attachment for playback
+ */
+export function useAttachmentAudio(sessionId: string, attachmentId: string | undefined) {
+  return useQuery({
+    queryKey: ['attachments', sessionId, attachmentId],
+    queryFn: () => apiClient.blob(`/sessions/${sessionId}/attachments/${attachmentId}`),
+    enabled: Boolean(attachmentId),
+    // Stored speech never changes
+    staleTime: Infinity,
+  });
+}
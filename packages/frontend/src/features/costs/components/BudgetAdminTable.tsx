@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { UserSpend } from '@gemini-ui/shared';
+import { formatUsd } from '../../../lib/utils';
+import { currentMonth, useSetBudget, useUserSpend } from '../hooks/useCosts';
+
+/**
+ * Editable budget cap for one user
+ */
+function BudgetRow({ spend }: { spend: UserSpend }) {
+  const [draft, setDraft] = useState(spend.monthlyBudgetUsd?.toString() ?? '');
+  const setBudget = useSetBudget();
+
+  const save = () => {
+    const value = draft.trim();
+    const monthlyBudgetUsd = value === '' ? null : Number(value);
+    if (monthlyBudgetUsd !== null && (Number.isNaN(monthlyBudgetUsd) || monthlyBudgetUsd < 0)) {
+      alert('Budget must be a positive amount or empty for no cap');
+      return;
+    }
+    setBudget.mutate({ userId: spend.userId, monthlyBudgetUsd });
+  };
+
+  const overBudget = spend.monthlyBudgetUsd !== null && spend.costUsd >= spend.monthlyBudgetUsd;
+
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-2 font-medium">{spend.username}</td>
+      <td className="py-2 text-right">{spend.turns}</td>
+      <td className={overBudget ? 'py-2 text-right text-red-700' : 'py-2 text-right'}>
+        {formatUsd(spend.costUsd)}
+      </td>
+      <td className="py-2 text-right">
+        <div className="flex justify-end gap-2">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="No cap"
+            className="w-28 px-2 py-1 border border-gray-300 rounded-md text-right"
+          />
+          <button
+            onClick={save}
+            disabled={setBudget.isPending}
+            className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Spend of every user for a month with their budget caps (admin only)
+ */
+export function BudgetAdminTable() {
+  const [month, setMonth] = useState(currentMonth());
+  const { data: report, isLoading } = useUserSpend(month);
+
+  const total = report?.reduce((sum, row) => sum + row.costUsd, 0) ?? 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Team Spend</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {formatUsd(total)} estimated across all users. Leave a cap empty for no limit.
+          </p>
+        </div>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+
+      {isLoading || !report ? (
+        <div className="text-center py-8 text-gray-500">Loading report...</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">User</th>
+              <th className="py-2 text-right">Turns</th>
+              <th className="py-2 text-right">Cost</th>
+              <th className="py-2 text-right">Monthly cap (USD)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.map((spend) => (
+              <BudgetRow key={`${spend.userId}-${spend.monthlyBudgetUsd}`} spend={spend} />
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
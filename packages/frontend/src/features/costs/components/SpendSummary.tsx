@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { cn, formatUsd } from '../../../lib/utils';
+import { currentMonth, useCostSummary } from '../hooks/useCosts';
+
+/**
+ * The current user's estimated spend for a month, against their budget cap
+ */
+export function SpendSummary() {
+  const [month, setMonth] = useState(currentMonth());
+  const { data: summary, isLoading } = useCostSummary(month);
+
+  const budget = summary?.monthlyBudgetUsd ?? null;
+  const ratio = summary && budget ? Math.min(summary.costUsd / budget, 1) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Usage &amp; Cost</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Estimated from token counts and published per-model rates
+          </p>
+        </div>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+
+      {isLoading || !summary ? (
+        <div className="text-center py-8 text-gray-500">Loading spend...</div>
+      ) : (
+        <>
+          <div>
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{formatUsd(summary.costUsd)} spent</span>
+              <span className="text-gray-600">
+                {budget === null ? 'No monthly cap' : `Cap ${formatUsd(budget)}`}
+              </span>
+            </div>
+            {budget !== null && (
+              <div className="mt-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={cn('h-full', ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-500')}
+                  style={{ width: `${Math.round(ratio * 100)}%` }}
+                />
+              </div>
+            )}
+            {budget !== null && ratio >= 1 && (
+              <p className="text-xs text-red-700 mt-1">
+                The monthly budget is spent. New turns are refused until next month or until an admin raises the cap.
+              </p>
+            )}
+          </div>
+
+          {summary.projects.length === 0 ? (
+            <p className="text-sm text-gray-500">No usage recorded this month</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2">Project</th>
+                  <th className="py-2 text-right">Turns</th>
+                  <th className="py-2 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.projects.map((project) => (
+                  <tr key={project.projectPath} className="border-b last:border-0">
+                    <td className="py-2">
+                      <div className="font-medium">{project.projectName ?? project.projectPath}</div>
+                      {project.projectName && (
+                        <div className="text-xs text-gray-500">{project.projectPath}</div>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">{project.turns}</td>
+                    <td className="py-2 text-right">{formatUsd(project.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ApiResponse, UserCostSummary, UserSpend } from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Fetch the current user's spend for a month (YYYY-MM)
+ */
+async function fetchCostSummary(month: string): Promise<UserCostSummary> {
+  const response = await apiClient.get<ApiResponse<UserCostSummary>>(`/costs?month=${month}`);
+  return response.data!;
+}
+
+/**
+ * Fetch every user's spend for a month (admin only)
+ */
+async function fetchUserSpend(month: string): Promise<UserSpend[]> {
+  const response = await apiClient.get<ApiResponse<UserSpend[]>>(`/costs/users?month=${month}`);
+  return response.data!;
+}
+
+/**
+ * Set or clear a user's monthly budget cap (admin only)
+ */
+async function setBudget(userId: string, monthlyBudgetUsd: number | null): Promise<UserSpend> {
+  const response = await apiClient.put<ApiResponse<UserSpend>>(`/costs/users/${userId}/budget`, {
+    monthlyBudgetUsd,
+  });
+  return response.data!;
+}
+
+/**
+ * Current month in YYYY-MM format (UTC, matching the server)
+ */
+export function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+/**
+ * Hook to fetch the current user's spend
+ */
+export function useCostSummary(month: string) {
+  return useQuery({
+    queryKey: ['costs', 'me', month],
+    queryFn: () => fetchCostSummary(month),
+  });
+}
+
+/**
+ * Hook to fetch the spend report for all users
+ */
+export function useUserSpend(month: string, enabled = true) {
+  return useQuery({
+    queryKey: ['costs', 'users', month],
+    queryFn: () => fetchUserSpend(month),
+    enabled,
+  });
+}
+
+/**
+ * Hook to update a user's budget cap
+ */
+export function useSetBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, monthlyBudgetUsd }: { userId: string; monthlyBudgetUsd: number | null }) =>
+      setBudget(userId, monthlyBudgetUsd),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['costs'] });
+    },
+  });
+}
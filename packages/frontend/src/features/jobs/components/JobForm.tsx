@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { APPROVAL_MODES, type ApprovalMode, type ScheduledJob } from '@gemini-ui/shared';
+import { useCreateJob, useUpdateJob } from '../hooks/useJobs';
+import { useProjects } from '../../projects/hooks/useProjects';
+import { useGeminiModels } from '../../chat/hooks/useGeminiModels';
+
+interface JobFormProps {
+  /** Job to edit; omit to create one */
+  job?: ScheduledJob;
+  onDone: () => void;
+}
+
+interface JobDraft {
+  name: string;
+  projectId: string;
+  prompt: string;
+  schedule: string;
+  /** Empty for the default model */
+  model: string;
+  readOnly: boolean;
+  approvalMode: ApprovalMode;
+}
+
+const MODE_LABELS: Record<ApprovalMode, string> = {
+  default: 'Deny tool calls that need approval',
+  auto_edit: 'Auto-approve file edits',
+  yolo: 'Auto-approve everything',
+};
+
+const SCHEDULE_EXAMPLES = [
+  { schedule: '0 9 * * 1-5', label: 'weekdays at 9:00' },
+  { schedule: '0 * * * *', label: 'hourly' },
+  { schedule: '@daily', label: 'daily at midnight' },
+];
+
+function toDraft(job?: ScheduledJob): JobDraft {
+  return {
+    name: job?.name ?? '',
+    projectId: job?.projectId ?? '',
+    prompt: job?.prompt ?? '',
+    schedule: job?.schedule ?? '0 9 * * 1-5',
+    model: job?.model ?? '',
+    readOnly: job?.policy.readOnly ?? true,
+    approvalMode: job?.policy.approvalMode ?? 'default',
+  };
+}
+
+/**
+ * Create or edit a scheduled job
+ */
+export function JobForm({ job, onDone }: JobFormProps) {
+  const { data: projects } = useProjects();
+  const { data: models } = useGeminiModels();
+  const createJob = useCreateJob();
+  const updateJob = useUpdateJob();
+  const [draft, setDraft] = useState<JobDraft>(() => toDraft(job));
+  const [error, setError] = useState<string | null>(null);
+  const isSaving = createJob.isPending || updateJob.isPending;
+
+  const set = <K extends keyof JobDraft>(key: K, value: JobDraft[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const save = async () => {
+    const fields = {
+      name: draft.name.trim(),
+      prompt: draft.prompt,
+      schedule: draft.schedule.trim(),
+      model: draft.model || undefined,
+      // The allow and deny lists are kept; the project's policy applies as well
+      policy: { ...job?.policy, readOnly: draft.readOnly, approvalMode: draft.approvalMode },
+    };
+    setError(null);
+    try {
+      if (job) {
+        await updateJob.mutateAsync({ id: job.id, input: fields });
+      } else {
+        await createJob.mutateAsync({ ...fields, projectId: draft.projectId });
+      }
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save job');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <h3 className="text-lg font-semibold">{job ? `Edit ${job.name}` : 'New Job'}</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => set('name', e.target.value)}
+          placeholder="Name, e.g. Commit summary"
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <select
+          value={draft.projectId}
+          onChange={(e) => set('projectId', e.target.value)}
+          disabled={Boolean(job)}
+          className="px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+        >
+          <option value="">Select a project</option>
+          {projects?.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        value={draft.prompt}
+        onChange={(e) => set('prompt', e.target.value)}
+        rows={4}
+        placeholder="Summarize yesterday's commits"
+        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <input
+            type="text"
+            value={draft.schedule}
+            onChange={(e) => set('schedule', e.target.value)}
+            placeholder="minute hour day month weekday"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Cron, in server time:{' '}
+            {SCHEDULE_EXAMPLES.map(({ schedule, label }, index) => (
+              <span key={schedule}>
+                {index > 0 && ', '}
+                <button
+                  type="button"
+                  onClick={() => set('schedule', schedule)}
+                  className="font-mono text-blue-600 hover:underline"
+                >
+                  {schedule}
+                </button>{' '}
+                {label}
+              </span>
+            ))}
+          </p>
+        </div>
+        <select
+          value={draft.model}
+          onChange={(e) => set('model', e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md self-start"
+        >
+          <option value="">Default model</option>
+          {models?.models.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.readOnly}
+            onChange={(e) => set('readOnly', e.target.checked)}
+          />
+          Read-only (only tools that read files or the web)
+        </label>
+        <select
+          value={draft.approvalMode}
+          onChange={(e) => set('approvalMode', e.target.value as ApprovalMode)}
+          className="px-3 py-1 border border-gray-300 rounded-md"
+        >
+          {APPROVAL_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={save}
+          disabled={isSaving || !draft.name.trim() || !draft.prompt || !draft.projectId}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button onClick={onDone} className="px-4 py-2 text-gray-600 hover:underline">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
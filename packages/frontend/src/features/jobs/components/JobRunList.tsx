@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { JobRun, JobRunStatus } from '@gemini-ui/shared';
+import { useJobRuns } from '../hooks/useJobs';
+import { cn } from '../../../lib/utils';
+
+const STATUS_STYLES: Record<JobRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+/**
+ * One run with its output, collapsed to a few lines until expanded
+ */
+function RunRow({ run }: { run: JobRun }) {
+  const [expanded, setExpanded] = useState(false);
+  const finishedAt = run.finishedAt && new Date(run.finishedAt);
+  const seconds = finishedAt
+    ? Math.round((finishedAt.getTime() - new Date(run.startedAt).getTime()) / 1000)
+    : null;
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex justify-between items-start gap-4">
+        <div className="flex items-center gap-2 text-sm">
+          <span className={cn('px-2 py-0.5 text-xs rounded', STATUS_STYLES[run.status])}>
+            {run.status}
+          </span>
+          <span className="font-medium">{run.jobName}</span>
+          <span className="text-gray-500">
+            {new Date(run.startedAt).toLocaleString()}
+            {seconds !== null && ` · ${seconds}s`}
+            {run.manual && ' · manual'}
+          </span>
+        </div>
+        {run.sessionId && (
+          <Link
+            to={`/?session=${run.sessionId}`}
+            className="text-sm text-blue-600 hover:underline shrink-0"
+          >
+            Open session
+          </Link>
+        )}
+      </div>
+      {run.error && <p className="text-sm text-red-600">{run.error}</p>}
+      {run.output && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          title={expanded ? 'Collapse' : 'Expand'}
+          className="block w-full text-left"
+        >
+          <pre
+            className={cn(
+              'p-3 text-xs bg-gray-50 border border-gray-200 rounded whitespace-pre-wrap',
+              !expanded && 'max-h-24 overflow-hidden'
+            )}
+          >
+            {run.output}
+          </pre>
+        </button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Recent runs, newest first; refreshes while a run is going
+ */
+export function JobRunList({ jobId }: { jobId?: string }) {
+  const { data: runs, isLoading } = useJobRuns(jobId);
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading runs...</div>;
+  }
+
+  if (!runs?.length) {
+    return <div className="text-center py-8 text-gray-500">No runs yet.</div>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {runs.map((run) => (
+        <RunRow key={run.id} run={run} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,137 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  CreateScheduledJobInput,
+  JobRun,
+  ScheduledJob,
+  UpdateScheduledJobInput,
+} from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+// How often the run list refreshes while a run is going
+const RUNNING_POLL_MS = 3000;
+
+/**
+ * Fetch the user's jobs
+ */
+async function fetchJobs(): Promise<ScheduledJob[]> {
+  const response = await apiClient.get<ApiResponse<ScheduledJob[]>>('/jobs');
+  return response.data!;
+}
+
+/**
+ * Fetch recent runs, optionally of one job
+ */
+async function fetchJobRuns(jobId?: string): Promise<JobRun[]> {
+  const query = jobId ? `?jobId=${encodeURIComponent(jobId)}` : '';
+  const response = await apiClient.get<ApiResponse<JobRun[]>>(`/jobs/runs${query}`);
+  return response.data!;
+}
+
+/**
+ * Create a job
+ */
+async function createJob(input: CreateScheduledJobInput): Promise<ScheduledJob> {
+  const response = await apiClient.post<ApiResponse<ScheduledJob>>('/jobs', input);
+  return response.data!;
+}
+
+/**
+ * Update a job
+ */
+async function updateJob({
+  id,
+  input,
+}: {
+  id: string;
+  input: UpdateScheduledJobInput;
+}): Promise<ScheduledJob> {
+  const response = await apiClient.put<ApiResponse<ScheduledJob>>(`/jobs/${id}`, input);
+  return response.data!;
+}
+
+/**
+ * Start a run now
+ */
+async function runJob(id: string): Promise<JobRun> {
+  const response = await apiClient.post<ApiResponse<JobRun>>(`/jobs/${id}/run`);
+  return response.data!;
+}
+
+/**
+ * Hook to fetch the user's jobs
+ */
+export function useJobs() {
+  return useQuery({
+    queryKey: ['jobs'],
+    queryFn: fetchJobs,
+  });
+}
+
+/**
+ * Hook to fetch recent runs; polls while any of them is still going
+ */
+export function useJobRuns(jobId?: string) {
+  return useQuery({
+    queryKey: ['jobs', 'runs', jobId ?? null],
+    queryFn: () => fetchJobRuns(jobId),
+    refetchInterval: (query) =>
+      query.state.data?.some((run) => run.status === 'running') ? RUNNING_POLL_MS : false,
+  });
+}
+
+/**
+ * Hook to create a job
+ */
+export function useCreateJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+  });
+}
+
+/**
+ * Hook to update a job
+ */
+export function useUpdateJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+  });
+}
+
+/**
+ * Hook to delete a job
+ */
+export function useDeleteJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.delete(`/jobs/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+  });
+}
+
+/**
+ * Hook to run a job now
+ */
+export function useRunJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: runJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs', 'runs'] });
+    },
+  });
+}
@@ -4,6 +4,7 @@ import type {
   MCPServerRequest,
   MCPServerListResponse,
 } from '@gemini-ui/shared';
+import { useSocketChannel } from '../../../hooks/useSocketChannel';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:4010';
 
@@ -147,8 +148,17 @@ async function stopMCPServer(name: string): Promise<void> {
 
 /**
  * Hook to fetch all MCP servers
+ * Refetches when the realtime `mcp` channel reports a status change
  */
 export function useListMCPServers(projectPath?: string) {
+  const queryClient = useQueryClient();
+
+  useSocketChannel('mcp', (event) => {
+    if (event.type === 'mcp-status') {
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'servers'] });
+    }
+  });
+
   return useQuery({
     queryKey: ['mcp', 'servers', projectPath],
     queryFn: () => fetchMCPServers(projectPath),
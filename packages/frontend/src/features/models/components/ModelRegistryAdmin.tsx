@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { isModelRetired, type ModelOverride, type ModelRegistryEntry } from '@gemini-ui/shared';
+import {
+  useModelRegistry,
+  useRemoveModelOverride,
+  useSetDefaultModel,
+  useSetModelOverride,
+} from '../hooks/useModelRegistry';
+
+// Starting point for the definition of an added model
+const NEW_MODEL_TEMPLATE: ModelOverride = {
+  name: '',
+  family: 'gemini-2.5',
+  variant: 'flash',
+  capabilities: ['vision'],
+  contextWindow: 1000000,
+  // USD per million tokens; turns on the model count towards budgets at these prices
+  pricing: { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedPerMillion: 0.03 },
+};
+
+/**
+ * Editor for an override as JSON; fields left out keep their built-in value
+ */
+function OverrideEditor({
+  initial,
+  onSave,
+  onCancel,
+  isSaving,
+}: {
+  initial: ModelOverride;
+  onSave: (override: ModelOverride) => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}) {
+  const [draft, setDraft] = useState(JSON.stringify(initial, null, 2));
+
+  const save = () => {
+    try {
+      onSave(JSON.parse(draft));
+    } catch {
+      alert('The override must be valid JSON');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={8}
+        spellCheck={false}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={save}
+          disabled={isSaving}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button onClick={onCancel} className="px-3 py-1 text-sm text-gray-600 hover:underline">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One model with its status and override actions
+ */
+function ModelRow({ entry, isDefault }: { entry: ModelRegistryEntry; isDefault: boolean }) {
+  const { model, builtIn, override } = entry;
+  const [editing, setEditing] = useState(false);
+  const setOverride = useSetModelOverride();
+  const removeOverride = useRemoveModelOverride();
+  const error = setOverride.error ?? removeOverride.error;
+
+  const save = (next: ModelOverride) =>
+    setOverride.mutate(
+      { modelId: model.id, override: next },
+      { onSuccess: () => setEditing(false) }
+    );
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{model.name}</span>
+            {isDefault && (
+              <span className="px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded">
+                default
+              </span>
+            )}
+            {!builtIn && (
+              <span className="px-2 py-0.5 text-xs bg-purple-100 text-purple-700 rounded">
+                added
+              </span>
+            )}
+            {override && builtIn && (
+              <span className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">
+                overridden
+              </span>
+            )}
+            {model.hidden && (
+              <span className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">hidden</span>
+            )}
+            {isModelRetired(model) ? (
+              <span className="px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded">retired</span>
+            ) : (
+              model.deprecated && (
+                <span className="px-2 py-0.5 text-xs bg-yellow-100 text-yellow-700 rounded">
+                  deprecated
+                </span>
+              )
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {model.id}
+            {model.deprecationDate && ` · retires ${model.deprecationDate}`}
+            {model.successor && ` → ${model.successor}`}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => save({ ...override, hidden: !model.hidden })}
+            disabled={setOverride.isPending}
+            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+          >
+            {model.hidden ? 'Show' : 'Hide'}
+          </button>
+          <button
+            onClick={() => setEditing(!editing)}
+            className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+          >
+            Edit
+          </button>
+          {override && (
+            <button
+              onClick={() => {
+                const action = builtIn ? 'Reset' : 'Remove';
+                if (confirm(`${action} ${model.name}?`)) {
+                  removeOverride.mutate(model.id);
+                }
+              }}
+              className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              {builtIn ? 'Reset' : 'Remove'}
+            </button>
+          )}
+        </div>
+      </div>
+      {editing && (
+        <OverrideEditor
+          initial={override ?? {}}
+          onSave={save}
+          onCancel={() => setEditing(false)}
+          isSaving={setOverride.isPending}
+        />
+      )}
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+    </li>
+  );
+}
+
+/**
+ * Form to add a model that is not built in
+ */
+function AddModelForm({ onDone }: { onDone: () => void }) {
+  const [modelId, setModelId] = useState('');
+  const setOverride = useSetModelOverride();
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <input
+        type="text"
+        value={modelId}
+        onChange={(e) => setModelId(e.target.value.trim())}
+        placeholder="Model id, e.g. gemini-2.5-flash-001"
+        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+      />
+      <OverrideEditor
+        initial={NEW_MODEL_TEMPLATE}
+        onSave={(override) => {
+          if (!modelId) {
+            alert('Enter the model id the Gemini CLI expects');
+            return;
+          }
+          setOverride.mutate({ modelId, override }, { onSuccess: onDone });
+        }}
+        onCancel={onDone}
+        isSaving={setOverride.isPending}
+      />
+      {setOverride.error && <p className="text-sm text-red-600">{setOverride.error.message}</p>}
+    </div>
+  );
+}
+
+/**
+ * Team model list: hide, override and add models, and pick the default (admin only)
+ */
+export function ModelRegistryAdmin() {
+  const [adding, setAdding] = useState(false);
+  const { data: registry, isLoading } = useModelRegistry();
+  const setDefault = useSetDefaultModel();
+
+  const selectable = registry?.entries.filter(
+    ({ model }) => !model.hidden && !isModelRetired(model)
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Models</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Sessions on a model past its retirement date move to its successor.
+          </p>
+        </div>
+        <button
+          onClick={() => setAdding(!adding)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          {adding ? 'Cancel' : '+ Add Model'}
+        </button>
+      </div>
+
+      {adding && <AddModelForm onDone={() => setAdding(false)} />}
+
+      {isLoading || !registry ? (
+        <div className="text-center py-8 text-gray-500">Loading models...</div>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="font-medium text-gray-700">Team default</span>
+            <select
+              value={registry.defaultModel}
+              onChange={(e) => setDefault.mutate(e.target.value)}
+              disabled={setDefault.isPending}
+              className="px-3 py-1 border border-gray-300 rounded-md"
+            >
+              {selectable?.map(({ model }) => (
+                <option key={model.id} value={model.id}>
+                  {model.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          {setDefault.error && <p className="text-sm text-red-600">{setDefault.error.message}</p>}
+
+          <ul className="divide-y">
+            {registry.entries.map((entry) => (
+              <ModelRow
+                key={entry.model.id}
+                entry={entry}
+                isDefault={entry.model.id === registry.defaultModel}
+              />
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  ModelOverride,
+  ModelRegistry,
+  ModelRegistryEntry,
+} from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Fetch every model with its override (admin only)
+ */
+async function fetchModelRegistry(): Promise<ModelRegistry> {
+  const response = await apiClient.get<ApiResponse<ModelRegistry>>('/gemini/registry');
+  return response.data!;
+}
+
+/**
+ * Replace a model's override, or add a model (admin only)
+ */
+async function setModelOverride(
+  modelId: string,
+  override: ModelOverride
+): Promise<ModelRegistryEntry> {
+  const response = await apiClient.put<ApiResponse<ModelRegistryEntry>>(
+    `/gemini/registry/${encodeURIComponent(modelId)}`,
+    override
+  );
+  return response.data!;
+}
+
+/**
+ * Restore a built-in model or remove an added one (admin only)
+ */
+async function removeModelOverride(modelId: string): Promise<void> {
+  await apiClient.delete(`/gemini/registry/${encodeURIComponent(modelId)}`);
+}
+
+/**
+ * Set the team default model (admin only)
+ */
+async function setDefaultModel(modelId: string): Promise<void> {
+  await apiClient.put('/gemini/registry/default', { modelId });
+}
+
+/**
+ * Hook to fetch the model registry
+ */
+export function useModelRegistry() {
+  return useQuery({
+    queryKey: ['gemini', 'registry'],
+    queryFn: fetchModelRegistry,
+  });
+}
+
+/**
+ * Registry changes also change the models everyone can pick
+ */
+function useInvalidateModels() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: ['gemini'] });
+}
+
+/**
+ * Hook to override or add a model
+ */
+export function useSetModelOverride() {
+  const invalidate = useInvalidateModels();
+
+  return useMutation({
+    mutationFn: ({ modelId, override }: { modelId: string; override: ModelOverride }) =>
+      setModelOverride(modelId, override),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Hook to remove a model override
+ */
+export function useRemoveModelOverride() {
+  const invalidate = useInvalidateModels();
+
+  return useMutation({
+    mutationFn: removeModelOverride,
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Hook to set the team default model
+ */
+export function useSetDefaultModel() {
+  const invalidate = useInvalidateModels();
+
+  return useMutation({
+    mutationFn: setDefaultModel,
+    onSuccess: invalidate,
+  });
+}
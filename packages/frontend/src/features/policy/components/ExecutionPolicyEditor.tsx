@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { APPROVAL_MODES, type ApprovalMode, type ExecutionPolicy } from '@gemini-ui/shared';
+import {
+  useEnforcedPolicy,
+  useExecutionPolicy,
+  useUpdateExecutionPolicy,
+  type PolicyScope,
+} from '../hooks/useExecutionPolicy';
+
+interface ExecutionPolicyEditorProps {
+  scope: PolicyScope;
+  id: string;
+}
+
+type ListField = 'allowedCommands' | 'deniedCommands' | 'allowedPaths' | 'deniedPaths';
+
+const MODE_LABELS: Record<ApprovalMode, string> = {
+  default: 'Ask for every tool call',
+  auto_edit: 'Auto-approve file edits',
+  yolo: 'Auto-approve everything',
+};
+
+const LIST_FIELDS: Array<{ field: ListField; label: string; placeholder: string }> = [
+  { field: 'allowedCommands', label: 'Allowed commands', placeholder: 'git status\nnpm test' },
+  { field: 'deniedCommands', label: 'Denied commands', placeholder: 'git push\nrm' },
+  { field: 'allowedPaths', label: 'Allowed paths', placeholder: 'src/**\ndocs/**' },
+  { field: 'deniedPaths', label: 'Denied paths', placeholder: '*.env\n.github/**' },
+];
+
+/**
+ * Split a textarea into trimmed, non-empty lines
+ */
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Form editing the approval mode, read-only flag and allow/deny lists
+ * of a project, session or user
+ */
+export function ExecutionPolicyEditor({ scope, id }: ExecutionPolicyEditorProps) {
+  const { data: policy, isLoading } = useExecutionPolicy(scope, id);
+  const updatePolicy = useUpdateExecutionPolicy(scope, id);
+  const { data: enforced } = useEnforcedPolicy();
+  const [draft, setDraft] = useState<ExecutionPolicy | null>(null);
+  const [lists, setLists] = useState<Record<ListField, string>>({
+    allowedCommands: '',
+    deniedCommands: '',
+    allowedPaths: '',
+    deniedPaths: '',
+  });
+
+  useEffect(() => {
+    if (!policy) return;
+    setDraft(policy);
+    setLists({
+      allowedCommands: policy.allowedCommands.join('\n'),
+      deniedCommands: policy.deniedCommands.join('\n'),
+      allowedPaths: policy.allowedPaths.join('\n'),
+      deniedPaths: policy.deniedPaths.join('\n'),
+    });
+  }, [policy]);
+
+  if (isLoading || !draft) {
+    return <p className="text-sm text-gray-500">Loading policy…</p>;
+  }
+
+  const handleSave = () => {
+    updatePolicy.mutate({
+      ...draft,
+      allowedCommands: toLines(lists.allowedCommands),
+      deniedCommands: toLines(lists.deniedCommands),
+      allowedPaths: toLines(lists.allowedPaths),
+      deniedPaths: toLines(lists.deniedPaths),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {scope === 'sessions' && (
+        <p className="text-xs text-gray-500">
+          Session policies can only add restrictions to the project policy.
+        </p>
+      )}
+      {scope === 'users' && (
+        <p className="text-xs text-gray-500">
+          Applies to every session of the user. They cannot change it, and their project and
+          session policies can only add restrictions to it.
+        </p>
+      )}
+      {scope !== 'users' && enforced && (
+        <p className="text-xs text-amber-700">
+          An administrator enforces a policy on your account; this policy can only add
+          restrictions to it.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-6 items-center">
+        <label className="text-sm">
+          <span className="block font-medium text-gray-700 mb-1">Approval mode</span>
+          <select
+            value={draft.approvalMode}
+            onChange={(e) => setDraft({ ...draft, approvalMode: e.target.value as ApprovalMode })}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            {APPROVAL_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.readOnly}
+            onChange={(e) => setDraft({ ...draft, readOnly: e.target.checked })}
+          />
+          Read-only (deny shell commands and file edits)
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {LIST_FIELDS.map(({ field, label, placeholder }) => (
+          <label key={field} className="text-sm">
+            <span className="block font-medium text-gray-700 mb-1">{label}</span>
+            <textarea
+              value={lists[field]}
+              onChange={(e) => setLists({ ...lists, [field]: e.target.value })}
+              placeholder={placeholder}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={updatePolicy.isPending}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {updatePolicy.isPending ? 'Saving…' : 'Save policy'}
+        </button>
+        {updatePolicy.isError && (
+          <span className="text-sm text-red-600">{updatePolicy.error.message}</span>
+        )}
+        {updatePolicy.isSuccess && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
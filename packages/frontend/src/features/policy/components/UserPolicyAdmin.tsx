@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { currentMonth, useUserSpend } from '../../costs/hooks/useCosts';
+import { useRemoveUserPolicy } from '../hooks/useExecutionPolicy';
+import { ExecutionPolicyEditor } from './ExecutionPolicyEditor';
+
+/**
+ * Execution policies enforced on users, e.g. to lock down junior members (admin only)
+ */
+export function UserPolicyAdmin() {
+  const { data: users } = useUserSpend(currentMonth());
+  const [userId, setUserId] = useState('');
+  const removePolicy = useRemoveUserPolicy(userId);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">User Policies</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Restrict what Gemini may run for a user, whatever they configure themselves.
+          </p>
+        </div>
+        <select
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">Select a user…</option>
+          {users?.map((user) => (
+            <option key={user.userId} value={user.userId}>
+              {user.username}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {userId && (
+        <>
+          <ExecutionPolicyEditor key={userId} scope="users" id={userId} />
+          <button
+            onClick={() => removePolicy.mutate()}
+            disabled={removePolicy.isPending}
+            className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 disabled:opacity-50"
+          >
+            Stop enforcing
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
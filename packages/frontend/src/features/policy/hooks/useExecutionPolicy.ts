@@ -0,0 +1,101 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  DEFAULT_EXECUTION_POLICY,
+  type ApiResponse,
+  type ExecutionPolicy,
+} from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Owner of an execution policy; `users` policies are enforced by admins
+ */
+export type PolicyScope = 'projects' | 'sessions' | 'users';
+
+function policyUrl(scope: PolicyScope, id: string): string {
+  return scope === 'users' ? `/policies/users/${id}` : `/${scope}/${id}/policy`;
+}
+
+/**
+ * Fetch the execution policy of a project, session or user
+ * Users without an enforced policy get the default one to start from
+ */
+async function fetchPolicy(scope: PolicyScope, id: string): Promise<ExecutionPolicy> {
+  const response = await apiClient.get<ApiResponse<ExecutionPolicy | null>>(policyUrl(scope, id));
+  return response.data ?? DEFAULT_EXECUTION_POLICY;
+}
+
+/**
+ * Replace the execution policy of a project, session or user
+ */
+async function updatePolicy(
+  scope: PolicyScope,
+  id: string,
+  policy: ExecutionPolicy
+): Promise<ExecutionPolicy> {
+  const response = await apiClient.put<ApiResponse<ExecutionPolicy>>(policyUrl(scope, id), policy);
+  return response.data!;
+}
+
+/**
+ * Fetch the policy an admin enforces on the current user
+ */
+async function fetchEnforcedPolicy(): Promise<ExecutionPolicy | null> {
+  const response = await apiClient.get<ApiResponse<ExecutionPolicy | null>>('/policies/me');
+  return response.data ?? null;
+}
+
+/**
+ * Stop enforcing a policy on a user (admin only)
+ */
+async function removeUserPolicy(userId: string): Promise<void> {
+  await apiClient.delete(`/policies/users/${userId}`);
+}
+
+/**
+ * Hook to fetch an execution policy
+ */
+export function useExecutionPolicy(scope: PolicyScope, id?: string) {
+  return useQuery({
+    queryKey: ['policy', scope, id],
+    queryFn: () => fetchPolicy(scope, id!),
+    enabled: Boolean(id),
+  });
+}
+
+/**
+ * Hook to save an execution policy
+ */
+export function useUpdateExecutionPolicy(scope: PolicyScope, id?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (policy: ExecutionPolicy) => updatePolicy(scope, id!, policy),
+    onSuccess: (policy) => {
+      queryClient.setQueryData(['policy', scope, id], policy);
+    },
+  });
+}
+
+/**
+ * Hook to fetch the policy an admin enforces on the current user
+ */
+export function useEnforcedPolicy() {
+  return useQuery({
+    queryKey: ['policy', 'me'],
+    queryFn: fetchEnforcedPolicy,
+  });
+}
+
+/**
+ * Hook to stop enforcing a policy on a user
+ */
+export function useRemoveUserPolicy(userId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => removeUserPolicy(userId!),
+    onSuccess: () => {
+      queryClient.setQueryData(['policy', 'users', userId], DEFAULT_EXECUTION_POLICY);
+    },
+  });
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import type { ContextFile, ContextFileScope } from '@gemini-ui/shared';
+import { useProjectContext, useWriteContextFile } from '../hooks/useProjects';
+
+const SCOPE_LABELS: Record<ContextFileScope, string> = {
+  global: 'Global',
+  ancestor: 'Parent directory',
+  project: 'Project root',
+  subdirectory: 'Subdirectory',
+};
+
+interface ProjectContextPanelProps {
+  projectId: string;
+}
+
+/**
+ * GEMINI.md context files that apply to a project, in the order the CLI loads them,
+ * with an editor and a preview of the merged context
+ */
+export function ProjectContextPanel({ projectId }: ProjectContextPanelProps) {
+  const { data: context, isLoading, error } = useProjectContext(projectId);
+  const writeFile = useWriteContextFile(projectId);
+  const [editing, setEditing] = useState<ContextFile | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (file: ContextFile) => {
+    setEditing(file);
+    setDraft(file.content);
+    writeFile.reset();
+  };
+
+  const save = () => {
+    if (!editing) return;
+    writeFile.mutate(
+      { path: editing.path, content: draft },
+      { onSuccess: () => setEditing(null) }
+    );
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading context files…</p>;
+  }
+  if (error || !context) {
+    return <p className="text-sm text-red-600">{error?.message ?? 'Failed to load context'}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Gemini CLI reads these files in this order and sends them with every prompt.
+      </p>
+
+      <ol className="space-y-2">
+        {context.files.map((file) => (
+          <li key={file.path} className="p-3 border border-gray-200 rounded-md">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-mono truncate" title={file.path}>
+                  {file.displayPath}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {SCOPE_LABELS[file.scope]} ·{' '}
+                  {file.exists ? `~${file.tokens.toLocaleString()} tokens` : 'not created'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => startEditing(file)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 shrink-0"
+              >
+                {file.exists ? 'Edit' : 'Create'}
+              </button>
+            </div>
+
+            {editing?.path === file.path && (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={12}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                />
+                {writeFile.error && (
+                  <p className="text-sm text-red-600">{writeFile.error.message}</p>
+                )}
+                <div className="flex gap-2 text-sm">
+                  <button
+                    type="button"
+                    onClick={save}
+                    disabled={writeFile.isPending}
+                    className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                  >
+                    {writeFile.isPending ? 'Saving…' : 'Save'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditing(null)}
+                    className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <details>
+        <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+          Effective context (~{context.tokens.toLocaleString()} tokens)
+        </summary>
+        <pre className="mt-2 p-3 max-h-96 overflow-auto bg-gray-50 border border-gray-200 rounded-md text-xs whitespace-pre-wrap">
+          {context.merged || 'No context files yet.'}
+        </pre>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  CreateProjectInput,
+  Project,
+  ProjectContext,
+  WriteContextFileInput,
+} from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Fetch all projects for the current user
+ */
+async function fetchProjects(): Promise<Project[]> {
+  const response = await apiClient.get<ApiResponse<Project[]>>('/projects');
+  return response.data ?? [];
+}
+
+/**
+ * Hook to fetch the current user's projects
+ */
+export function useProjects() {
+  return useQuery({
+    queryKey: ['projects'],
+    queryFn: fetchProjects,
+  });
+}
+
+/**
+ * Create a project
+ */
+async function createProject(input: CreateProjectInput): Promise<Project> {
+  const response = await apiClient.post<ApiResponse<Project>>('/projects', input);
+  return response.data!;
+}
+
+/**
+ * Hook to create a project
+ */
+export function useCreateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createProject,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+  });
+}
+
+/**
+ * Fetch a project's GEMINI.md context files and merged context
+ */
+async function fetchProjectContext(projectId: string): Promise<ProjectContext> {
+  const response = await apiClient.get<ApiResponse<ProjectContext>>(
+    `/projects/${projectId}/context`
+  );
+  return response.data!;
+}
+
+/**
+ * Create or replace a project context file
+ */
+async function writeContextFile(
+  projectId: string,
+  input: WriteContextFileInput
+): Promise<ProjectContext> {
+  const response = await apiClient.put<ApiResponse<ProjectContext>>(
+    `/projects/${projectId}/context`,
+    input
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to fetch a project's context files
+ */
+export function useProjectContext(projectId?: string) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'context'],
+    queryFn: () => fetchProjectContext(projectId!),
+    enabled: Boolean(projectId),
+  });
+}
+
+/**
+ * Hook to save a project context file
+ */
+export function useWriteContextFile(projectId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: WriteContextFileInput) => writeContextFile(projectId!, input),
+    onSuccess: (context) => {
+      queryClient.setQueryData(['projects', projectId, 'context'], context);
+    },
+  });
+}
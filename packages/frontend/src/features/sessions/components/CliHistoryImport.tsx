@@ -0,0 +1,52 @@
+import { useImportCliHistory } from '../hooks/useSessions';
+
+/**
+ * Import conversations run directly in the Gemini CLI as sessions
+ */
+export function CliHistoryImport() {
+  const importHistory = useImportCliHistory();
+  const result = importHistory.data;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Gemini CLI History</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Import terminal conversations from ~/.gemini into the sessions of matching projects.
+            Re-running only adds what is new.
+          </p>
+        </div>
+        <button
+          onClick={() => importHistory.mutate()}
+          disabled={importHistory.isPending}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {importHistory.isPending ? 'Importing…' : 'Import CLI history'}
+        </button>
+      </div>
+
+      {importHistory.error && (
+        <p className="text-sm text-red-600">{importHistory.error.message}</p>
+      )}
+
+      {result && (
+        <ul className="text-sm text-gray-700 list-disc ml-5">
+          <li>
+            {result.sessionsCreated} new sessions, {result.sessionsUpdated} updated,{' '}
+            {result.messagesImported} messages imported
+          </li>
+          {result.unmatchedDirectories > 0 && (
+            <li>
+              {result.unmatchedDirectories} history folders belong to directories that are not
+              projects yet — add them as projects and import again
+            </li>
+          )}
+          {result.filesSkipped > 0 && (
+            <li className="text-amber-700">{result.filesSkipped} files could not be read</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import type { SessionExportFormat } from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+import { cn } from '../../../lib/utils';
+
+const FORMATS: Array<{ format: SessionExportFormat; label: string }> = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+];
+
+interface ExportSessionMenuProps {
+  sessionId: string;
+  className?: string;
+}
+
+/**
+ * Download buttons for a session transcript (Markdown/HTML) or archive (JSON)
+ */
+export function ExportSessionMenu({ sessionId, className }: ExportSessionMenuProps) {
+  const [pending, setPending] = useState<SessionExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportAs = async (format: SessionExportFormat) => {
+    setPending(format);
+    setError(null);
+    try {
+      await apiClient.download(
+        `/sessions/${sessionId}/export?format=${format}`,
+        `gemini-session-${sessionId}.${format}`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2 text-sm', className)}>
+      <span className="font-medium text-gray-700">Export:</span>
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => exportAs(format)}
+          disabled={pending !== null}
+          className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {pending === format ? 'Exporting…' : label}
+        </button>
+      ))}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
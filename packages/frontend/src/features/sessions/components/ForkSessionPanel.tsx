@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import type { Session } from '@gemini-ui/shared';
+import { useForkSession } from '../hooks/useSessions';
+import { useProjects } from '../../projects/hooks/useProjects';
+import { ModelSelector } from '../../chat/components/ModelSelector';
+import { cn } from '../../../lib/utils';
+
+interface ForkSessionPanelProps {
+  session: Pick<Session, 'id' | 'projectPath' | 'model'>;
+  /** Last message to copy; the whole active branch when omitted */
+  messageId?: string;
+  onForked: (session: Session) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Options for copying a conversation into a new session, in another project or with another model
+ */
+export function ForkSessionPanel({
+  session,
+  messageId,
+  onForked,
+  onClose,
+  className,
+}: ForkSessionPanelProps) {
+  const { data: projects } = useProjects();
+  const forkSession = useForkSession();
+  const [projectPath, setProjectPath] = useState(session.projectPath);
+  const [model, setModel] = useState(session.model);
+
+  const submit = () => {
+    forkSession.mutate(
+      { id: session.id, input: { messageId, projectPath, model } },
+      { onSuccess: onForked }
+    );
+  };
+
+  return (
+    <div className={cn('p-4 space-y-3 border border-gray-200 rounded-md bg-gray-50', className)}>
+      <p className="text-sm font-medium text-gray-700">
+        {messageId ? 'Fork the conversation up to this message' : 'Fork this session'}
+      </p>
+
+      <label className="block text-sm text-gray-700">
+        Project
+        <select
+          value={projectPath}
+          onChange={(e) => setProjectPath(e.target.value)}
+          className="mt-1 w-full max-w-md px-3 py-2 border border-gray-300 rounded-md"
+        >
+          {!projects?.some((project) => project.path === session.projectPath) && (
+            <option value={session.projectPath}>{session.projectPath}</option>
+          )}
+          {projects?.map((project) => (
+            <option key={project.id} value={project.path}>
+              {project.name} ({project.path})
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="text-sm text-gray-700">
+        Model
+        <ModelSelector value={model} onChange={setModel} className="mt-1 max-w-md" />
+      </div>
+
+      {forkSession.error && <p className="text-sm text-red-600">{forkSession.error.message}</p>}
+
+      <div className="flex gap-2 text-sm">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={forkSession.isPending}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {forkSession.isPending ? 'Forking…' : 'Fork'}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
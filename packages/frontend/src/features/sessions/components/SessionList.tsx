@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import type { Session, UpdateSessionInput } from '@gemini-ui/shared';
+import { useProjectSessions, useUpdateSession } from '../hooks/useSessions';
+import { cn } from '../../../lib/utils';
+
+interface SessionListProps {
+  projectPath?: string;
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Label for sessions that have no title yet
+ */
+function fallbackTitle(session: Session): string {
+  return `${new Date(session.lastAccessedAt).toLocaleString()} · ${session.model}`;
+}
+
+function parseTags(text: string): string[] {
+  return text
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+interface SessionRowProps {
+  session: Session;
+  active: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+}
+
+function SessionRow({ session, active, disabled, onSelect }: SessionRowProps) {
+  const updateSession = useUpdateSession();
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState('');
+
+  const update = (input: UpdateSessionInput) => updateSession.mutate({ id: session.id, input });
+
+  const startEditing = () => {
+    setTitle(session.title ?? '');
+    setTags(session.tags.join(', '));
+    setEditing(true);
+  };
+
+  // An empty title keeps the current one
+  const save = () => {
+    update({ title: title.trim() || undefined, tags: parseTags(tags) });
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <li className="p-2 space-y-2 bg-gray-50 rounded-md">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="Title"
+          maxLength={200}
+          autoFocus
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+        />
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="Tags, comma separated"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+        />
+        <div className="flex gap-2 text-xs">
+          <button
+            type="button"
+            onClick={save}
+            className="px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(false)}
+            className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li
+      className={cn(
+        'group flex items-start gap-2 p-2 rounded-md',
+        active ? 'bg-blue-50' : 'hover:bg-gray-50'
+      )}
+    >
+      <button
+        type="button"
+        onClick={onSelect}
+        disabled={disabled}
+        className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+      >
+        <span className="block text-sm font-medium text-gray-800 truncate">
+          {session.pinned && '📌 '}
+          {session.title || fallbackTitle(session)}
+        </span>
+        {session.tags.length > 0 && (
+          <span className="flex flex-wrap gap-1 mt-1">
+            {session.tags.map((tag) => (
+              <span key={tag} className="px-1.5 text-xs bg-gray-200 text-gray-700 rounded">
+                {tag}
+              </span>
+            ))}
+          </span>
+        )}
+      </button>
+      <div className="flex gap-1 text-xs opacity-60 group-hover:opacity-100">
+        <button
+          type="button"
+          onClick={() => update({ pinned: !session.pinned })}
+          title={session.pinned ? 'Unpin' : 'Pin'}
+          className="px-1 hover:text-blue-600"
+        >
+          {session.pinned ? 'Unpin' : 'Pin'}
+        </button>
+        <button
+          type="button"
+          onClick={startEditing}
+          title="Rename and tag"
+          className="px-1 hover:text-blue-600"
+        >
+          Edit
+        </button>
+        <button
+          type="button"
+          onClick={() => update({ archived: !session.archived })}
+          title={session.archived ? 'Restore' : 'Archive'}
+          className="px-1 hover:text-blue-600"
+        >
+          {session.archived ? 'Restore' : 'Archive'}
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Sessions of a project, pinned first, loaded a page at a time
+ */
+export function SessionList({
+  projectPath,
+  activeId,
+  onSelect,
+  onNew,
+  disabled,
+  className,
+}: SessionListProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useProjectSessions(
+    projectPath,
+    showArchived
+  );
+  const sessions = data?.pages.flatMap((page) => page.items) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={onNew}
+          disabled={disabled}
+          className={cn(
+            'px-3 py-1 border rounded-md disabled:opacity-50',
+            activeId === null ? 'border-blue-500 text-blue-700' : 'border-gray-300'
+          )}
+        >
+          New session
+        </button>
+        <label className="flex items-center gap-1 text-gray-600">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived
+        </label>
+        {total > 0 && <span className="text-gray-500">{total} sessions</span>}
+      </div>
+
+      {isLoading && projectPath && <p className="text-sm text-gray-500">Loading sessions…</p>}
+      {!isLoading && sessions.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {showArchived ? 'No archived sessions.' : 'No sessions yet.'}
+        </p>
+      )}
+
+      <ul className="max-h-72 overflow-y-auto space-y-1">
+        {sessions.map((session) => (
+          <SessionRow
+            key={session.id}
+            session={session}
+            active={session.id === activeId}
+            disabled={disabled}
+            onSelect={() => onSelect(session.id)}
+          />
+        ))}
+      </ul>
+
+      {hasNextPage && (
+        <button
+          type="button"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+        >
+          {isFetchingNextPage ? 'Loading…' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
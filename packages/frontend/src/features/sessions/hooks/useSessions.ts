@@ -0,0 +1,246 @@
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+} from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  CliHistoryImportResult,
+  CreateComparisonInput,
+  ForkSessionInput,
+  MessageSearchHit,
+  MessageSearchQuery,
+  PaginatedResponse,
+  Session,
+  SessionComparison,
+  SessionUsage,
+  UpdateSessionInput,
+} from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Fetch one page of a project's sessions, pinned first, then most recently used
+ */
+async function fetchProjectSessions(
+  projectPath: string,
+  page: number,
+  archived: boolean
+): Promise<PaginatedResponse<Session>> {
+  const params = new URLSearchParams({
+    path: projectPath,
+    page: String(page),
+    archived: String(archived),
+  });
+  const response = await apiClient.get<ApiResponse<PaginatedResponse<Session>>>(
+    `/sessions/project?${params}`
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to fetch the sessions of a project page by page
+ */
+export function useProjectSessions(projectPath?: string, archived = false) {
+  return useInfiniteQuery({
+    queryKey: ['sessions', 'project', projectPath, { archived }],
+    queryFn: ({ pageParam }) => fetchProjectSessions(projectPath!, pageParam, archived),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+    enabled: Boolean(projectPath),
+  });
+}
+
+/**
+ * Rename, pin, archive or tag a session
+ */
+async function updateSession(id: string, input: UpdateSessionInput): Promise<Session> {
+  const response = await apiClient.put<ApiResponse<Session>>(`/sessions/${id}`, input);
+  return response.data!;
+}
+
+/**
+ * Hook to update a session's title, flags or tags
+ */
+export function useUpdateSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateSessionInput }) =>
+      updateSession(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions', 'project'] });
+    },
+  });
+}
+
+/**
+ * Copy a session up to a message into a new session
+ */
+async function forkSession(id: string, input: ForkSessionInput): Promise<Session> {
+  const response = await apiClient.post<ApiResponse<Session>>(`/sessions/${id}/fork`, input);
+  return response.data!;
+}
+
+/**
+ * Hook to fork a session, optionally into another project or model
+ */
+export function useForkSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ForkSessionInput }) =>
+      forkSession(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions', 'project'] });
+    },
+  });
+}
+
+/**
+ * Fetch the sessions of a model comparison
+ */
+async function fetchComparison(comparisonId: string): Promise<SessionComparison> {
+  const response = await apiClient.get<ApiResponse<SessionComparison>>(
+    `/sessions/comparisons/${comparisonId}`
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to fetch the sessions of a model comparison
+ */
+export function useComparison(comparisonId: string | null) {
+  return useQuery({
+    queryKey: ['comparisons', comparisonId],
+    queryFn: () => fetchComparison(comparisonId!),
+    enabled: Boolean(comparisonId),
+  });
+}
+
+/**
+ * Create one sandboxed session per model to compare
+ */
+async function createComparison(input: CreateComparisonInput): Promise<SessionComparison> {
+  const response = await apiClient.post<ApiResponse<SessionComparison>>(
+    '/sessions/comparisons',
+    input
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to start a model comparison
+ */
+export function useCreateComparison() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createComparison,
+    onSuccess: (comparison) => {
+      queryClient.setQueryData(['comparisons', comparison.id], comparison);
+      queryClient.invalidateQueries({ queryKey: ['sessions', 'project'] });
+    },
+  });
+}
+
+/**
+ * Continue with one session of a comparison
+ */
+async function pickComparisonWinner(comparisonId: string, sessionId: string): Promise<Session> {
+  const response = await apiClient.put<ApiResponse<Session>>(
+    `/sessions/comparisons/${comparisonId}/winner`,
+    { sessionId }
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to pick the winner of a comparison; the other sessions are archived
+ */
+export function usePickComparisonWinner() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ comparisonId, sessionId }: { comparisonId: string; sessionId: string }) =>
+      pickComparisonWinner(comparisonId, sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comparisons'] });
+      queryClient.invalidateQueries({ queryKey: ['sessions', 'project'] });
+    },
+  });
+}
+
+/**
+ * Fetch token usage totals for a session
+ */
+async function fetchSessionUsage(sessionId: string): Promise<SessionUsage> {
+  const response = await apiClient.get<ApiResponse<SessionUsage>>(`/sessions/${sessionId}/usage`);
+  return response.data!;
+}
+
+/**
+ * Hook to fetch token usage totals for a session
+ * Refreshed by useChat after every turn
+ */
+export function useSessionUsage(sessionId: string | null) {
+  return useQuery({
+    queryKey: ['sessions', sessionId, 'usage'],
+    queryFn: () => fetchSessionUsage(sessionId!),
+    enabled: Boolean(sessionId),
+  });
+}
+
+/**
+ * Import Gemini CLI history (~/.gemini on the server) into sessions
+ */
+async function importCliHistory(): Promise<CliHistoryImportResult> {
+  const response = await apiClient.post<ApiResponse<CliHistoryImportResult>>(
+    '/cli-history/import'
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to import Gemini CLI history; safe to run repeatedly
+ */
+export function useImportCliHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importCliHistory,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+  });
+}
+
+/**
+ * Full-text search across the user's chat history
+ */
+async function searchMessages(
+  query: Partial<MessageSearchQuery>
+): Promise<PaginatedResponse<MessageSearchHit>> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === '') continue;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  const response = await apiClient.get<ApiResponse<PaginatedResponse<MessageSearchHit>>>(
+    `/sessions/search?${params}`
+  );
+  return response.data!;
+}
+
+/**
+ * Hook to search chat history; keeps showing the previous page while the next loads
+ */
+export function useMessageSearch(query: Partial<MessageSearchQuery>) {
+  return useQuery({
+    queryKey: ['sessions', 'search', query],
+    queryFn: () => searchMessages(query),
+    enabled: Boolean(query.q?.trim()),
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { PromptTemplate } from '@gemini-ui/shared';
+import {
+  usePromptTemplates,
+  useCreateTemplate,
+  useUpdateTemplate,
+  useDeleteTemplate,
+  useImportTemplates,
+} from '../hooks/useTemplates';
+import { useProjects } from '../../projects/hooks/useProjects';
+import { apiClient } from '../../../lib/api-client';
+
+interface TemplateDraft {
+  name: string;
+  description: string;
+  body: string;
+  /** Comma-separated project-relative paths */
+  files: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = { name: '', description: '', body: '', files: '' };
+
+function toDraft(template: PromptTemplate): TemplateDraft {
+  return {
+    name: template.name,
+    description: template.description ?? '',
+    body: template.body,
+    files: template.files.join(', '),
+  };
+}
+
+/**
+ * Create, edit, share and import prompt templates for all projects or a single one
+ */
+export function PromptTemplateManager() {
+  const { data: projects } = useProjects();
+  const [projectId, setProjectId] = useState<string | undefined>();
+  const { data: templates } = usePromptTemplates(projectId);
+  const createTemplate = useCreateTemplate();
+  const updateTemplate = useUpdateTemplate();
+  const deleteTemplate = useDeleteTemplate();
+  const importTemplates = useImportTemplates();
+  // Template being edited; null for a new one, undefined when the form is closed
+  const [editing, setEditing] = useState<PromptTemplate | null | undefined>();
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+
+  // Templates of this scope only; the list also shows inherited user templates
+  const isInScope = (template: PromptTemplate) => template.projectId === (projectId ?? null);
+
+  const openForm = (template: PromptTemplate | null) => {
+    setEditing(template);
+    setDraft(template ? toDraft(template) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const save = async () => {
+    const fields = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      body: draft.body,
+      files: draft.files
+        .split(',')
+        .map((file) => file.trim())
+        .filter(Boolean),
+    };
+    try {
+      if (editing) {
+        await updateTemplate.mutateAsync({ id: editing.id, input: fields });
+      } else {
+        await createTemplate.mutateAsync({ ...fields, projectId });
+      }
+      setEditing(undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    }
+  };
+
+  const exportTemplates = async () => {
+    setError(null);
+    try {
+      const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+      await apiClient.download(`/templates/export${query}`, 'prompt-templates.json');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const parsed = JSON.parse(await file.text());
+      await importTemplates.mutateAsync({ ...parsed, projectId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Prompt Templates</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Reusable prompts with {'{{variables}}'}. Type / followed by the name in the chat to
+            use one.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm(null)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          + New Template
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(e.target.value || undefined)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">All projects</option>
+          {projects?.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={exportTemplates}
+          className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Export JSON
+        </button>
+        <label className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer">
+          {importTemplates.isPending ? 'Importing…' : 'Import JSON'}
+          <input type="file" accept="application/json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {editing !== undefined && (
+        <div className="p-4 space-y-3 border border-gray-200 rounded-md bg-gray-50">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="code-review"
+            className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-md font-mono"
+          />
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          <textarea
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            placeholder="Review {{file}} for {{focus}}..."
+            rows={6}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+          />
+          <input
+            type="text"
+            value={draft.files}
+            onChange={(e) => setDraft({ ...draft, files: e.target.value })}
+            placeholder="Default files, comma separated (e.g. CONTRIBUTING.md, src/)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          <div className="flex gap-2 text-sm">
+            <button
+              type="button"
+              onClick={save}
+              disabled={!draft.name.trim() || !draft.body.trim()}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(undefined)}
+              className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {templates?.length === 0 && <p className="text-sm text-gray-500">No templates yet.</p>}
+
+      <ul className="divide-y border border-gray-200 rounded-md">
+        {templates?.map((template) => (
+          <li key={template.id} className="flex items-center justify-between gap-4 px-4 py-3">
+            <div className="min-w-0">
+              <p className="font-mono text-sm">
+                /{template.name}
+                {!isInScope(template) && (
+                  <span className="ml-2 font-sans text-xs text-gray-500">(all projects)</span>
+                )}
+              </p>
+              {template.description && (
+                <p className="text-sm text-gray-600 truncate">{template.description}</p>
+              )}
+            </div>
+            <div className="flex gap-2 text-sm shrink-0">
+              <button
+                type="button"
+                onClick={() => openForm(template)}
+                className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteTemplate.mutate(template.id)}
+                className="px-2 py-1 border border-red-300 text-red-700 rounded-md hover:bg-red-50"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
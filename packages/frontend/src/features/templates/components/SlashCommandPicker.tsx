@@ -0,0 +1,45 @@
+import type { PromptTemplate } from '@gemini-ui/shared';
+import { cn } from '../../../lib/utils';
+
+/**
+ * Templates whose name starts with the typed command (without the slash)
+ */
+export function matchTemplates(templates: PromptTemplate[], command: string): PromptTemplate[] {
+  const query = command.toLowerCase();
+  return templates.filter((template) => template.name.toLowerCase().startsWith(query));
+}
+
+interface SlashCommandPickerProps {
+  templates: PromptTemplate[];
+  onSelect: (template: PromptTemplate) => void;
+  className?: string;
+}
+
+/**
+ * Template list shown while a `/command` is typed in the chat input
+ */
+export function SlashCommandPicker({ templates, onSelect, className }: SlashCommandPickerProps) {
+  return (
+    <ul className={cn('border border-gray-200 rounded-md bg-white shadow-sm divide-y', className)}>
+      {templates.length === 0 && (
+        <li className="px-3 py-2 text-sm text-gray-500">
+          No matching templates — add some under Settings
+        </li>
+      )}
+      {templates.map((template) => (
+        <li key={template.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(template)}
+            className="w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+          >
+            <span className="font-mono">/{template.name}</span>
+            {template.description && (
+              <span className="ml-2 text-gray-500">{template.description}</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
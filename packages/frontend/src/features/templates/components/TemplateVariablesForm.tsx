@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { TEMPLATE_VARIABLE_PATTERN, type PromptTemplate } from '@gemini-ui/shared';
+import { cn } from '../../../lib/utils';
+
+/**
+ * Fill a template's variables and reference its files the way the CLI expects (`@path`)
+ */
+function fillTemplate(body: string, values: Record<string, string>, files: string[]): string {
+  const prompt = body.replace(TEMPLATE_VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+  return files.length > 0 ? `${prompt}\n\n${files.map((file) => `@${file}`).join(' ')}` : prompt;
+}
+
+interface TemplateVariablesFormProps {
+  template: PromptTemplate;
+  onSubmit: (prompt: string) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+/**
+ * Small form for a template's variables and default file context
+ */
+export function TemplateVariablesForm({
+  template,
+  onSubmit,
+  onCancel,
+  className,
+}: TemplateVariablesFormProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [files, setFiles] = useState(template.files);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(fillTemplate(template.body, values, files));
+      }}
+      className={cn('p-4 space-y-3 border border-gray-200 rounded-md bg-gray-50', className)}
+    >
+      <p className="text-sm font-medium text-gray-700">
+        /{template.name}
+        {template.description && (
+          <span className="ml-2 font-normal text-gray-500">{template.description}</span>
+        )}
+      </p>
+
+      {template.variables.map((name, index) => (
+        <label key={name} className="block text-sm text-gray-700">
+          {name}
+          <textarea
+            value={values[name] ?? ''}
+            onChange={(e) => setValues((current) => ({ ...current, [name]: e.target.value }))}
+            autoFocus={index === 0}
+            rows={2}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+      ))}
+
+      {files.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-700">Files:</span>
+          {files.map((file) => (
+            <span key={file} className="flex items-center gap-1 px-2 py-0.5 bg-white border rounded">
+              @{file}
+              <button
+                type="button"
+                onClick={() => setFiles((current) => current.filter((f) => f !== file))}
+                className="text-gray-400 hover:text-gray-700"
+                aria-label={`Remove ${file}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 text-sm">
+        <button type="submit" className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Insert prompt
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
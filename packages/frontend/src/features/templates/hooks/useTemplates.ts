@@ -0,0 +1,114 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  CreatePromptTemplateInput,
+  ImportPromptTemplatesInput,
+  PromptTemplate,
+  UpdatePromptTemplateInput,
+} from '@gemini-ui/shared';
+import { apiClient } from '../../../lib/api-client';
+
+/**
+ * Fetch the user's templates, plus a project's when given
+ */
+async function fetchTemplates(projectId?: string): Promise<PromptTemplate[]> {
+  const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+  const response = await apiClient.get<ApiResponse<PromptTemplate[]>>(`/templates${query}`);
+  return response.data!;
+}
+
+/**
+ * Create a template
+ */
+async function createTemplate(input: CreatePromptTemplateInput): Promise<PromptTemplate> {
+  const response = await apiClient.post<ApiResponse<PromptTemplate>>('/templates', input);
+  return response.data!;
+}
+
+/**
+ * Update a template
+ */
+async function updateTemplate({
+  id,
+  input,
+}: {
+  id: string;
+  input: UpdatePromptTemplateInput;
+}): Promise<PromptTemplate> {
+  const response = await apiClient.put<ApiResponse<PromptTemplate>>(`/templates/${id}`, input);
+  return response.data!;
+}
+
+/**
+ * Import templates from an exported file
+ */
+async function importTemplates(input: ImportPromptTemplatesInput): Promise<PromptTemplate[]> {
+  const response = await apiClient.post<ApiResponse<PromptTemplate[]>>('/templates/import', input);
+  return response.data!;
+}
+
+/**
+ * Hook to fetch the templates available in a project
+ */
+export function usePromptTemplates(projectId?: string) {
+  return useQuery({
+    queryKey: ['templates', projectId ?? null],
+    queryFn: () => fetchTemplates(projectId),
+  });
+}
+
+/**
+ * Hook to create a template
+ */
+export function useCreateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+  });
+}
+
+/**
+ * Hook to update a template
+ */
+export function useUpdateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+  });
+}
+
+/**
+ * Hook to delete a template
+ */
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.delete(`/templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+  });
+}
+
+/**
+ * Hook to import templates from an exported file
+ */
+export function useImportTemplates() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importTemplates,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+  });
+}
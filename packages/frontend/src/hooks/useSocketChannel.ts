@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import type { RealtimeEvent } from '@gemini-ui/shared';
+import { socketClient } from '../lib/socket-client';
+
+/**
+ * Hook to receive realtime events on a channel while the component is mounted
+ * Pass null to stay unsubscribed
+ */
+export function useSocketChannel(
+  channel: string | null,
+  listener: (event: RealtimeEvent) => void
+) {
+  // Keep the latest listener without resubscribing on every render
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+
+    const subscription = socketClient.subscribe(channel, (event) =>
+      listenerRef.current(event)
+    );
+    return subscription.unsubscribe;
+  }, [channel]);
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface UseVirtualListOptions {
+  /** Stable keys of the items, in display order */
+  keys: string[];
+  /** Height assumed for items that have not been measured yet */
+  estimateSize: number;
+  /** Pixels rendered beyond each edge of the viewport */
+  overscan?: number;
+}
+
+/**
+ * An item to render, positioned `offset` pixels from the top of the list
+ */
+export interface VirtualItem {
+  key: string;
+  index: number;
+  offset: number;
+}
+
+/**
+ * Hook to render only the items of a scrollable list near its viewport
+ *
+ * Items may have any height: each rendered item passes its element to `measure`
+ * (with a `data-key` attribute) and is re-measured whenever it resizes. When an
+ * item above the viewport changes size, the scroll position is adjusted so the
+ * content being read stays in place.
+ */
+export function useVirtualList({ keys, estimateSize, overscan = 800 }: UseVirtualListOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sizes = useRef(new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [, setMeasured] = useState(0);
+
+  const offsets: number[] = [];
+  let totalSize = 0;
+  for (const key of keys) {
+    offsets.push(totalSize);
+    totalSize += sizes.current.get(key) ?? estimateSize;
+  }
+
+  // The resize observer outlives renders, so it reads the latest layout through a ref
+  const layout = useRef({ keys, offsets });
+  layout.current = { keys, offsets };
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (container) {
+      setViewport({ top: container.scrollTop, height: container.clientHeight });
+    }
+  }, []);
+
+  const [observer] = useState(() =>
+    typeof ResizeObserver === 'undefined'
+      ? null
+      : new ResizeObserver((entries) => {
+          const container = containerRef.current;
+          let changed = false;
+
+          for (const entry of entries) {
+            const key = (entry.target as HTMLElement).dataset.key;
+            if (!key) continue;
+            const size = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+            const previous = sizes.current.get(key) ?? estimateSize;
+            if (size === previous) continue;
+
+            sizes.current.set(key, size);
+            changed = true;
+            const index = layout.current.keys.indexOf(key);
+            if (container && index !== -1 && layout.current.offsets[index] < container.scrollTop) {
+              container.scrollTop += size - previous;
+            }
+          }
+
+          if (changed) setMeasured((count) => count + 1);
+        })
+  );
+
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    updateViewport();
+    if (typeof ResizeObserver === 'undefined') return;
+    const viewportObserver = new ResizeObserver(updateViewport);
+    viewportObserver.observe(container);
+    return () => viewportObserver.disconnect();
+  }, [updateViewport]);
+
+  /**
+   * Ref callback for rendered items
+   */
+  const measure = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element || !observer) return;
+      observer.observe(element);
+      return () => observer.unobserve(element);
+    },
+    [observer]
+  );
+
+  const from = viewport.top - overscan;
+  const to = viewport.top + viewport.height + overscan;
+  const items: VirtualItem[] = [];
+  keys.forEach((key, index) => {
+    const offset = offsets[index];
+    const end = index + 1 < offsets.length ? offsets[index + 1] : totalSize;
+    if (end >= from && offset <= to) {
+      items.push({ key, index, offset });
+    }
+  });
+
+  return { containerRef, items, totalSize, measure, onScroll: updateViewport };
+}
@@ -1,21 +1,49 @@
 import { useAuthStore } from '../stores/auth.store';
-import type { ApiResponse } from '@gemini-ui/shared';
+import type { ApiResponse, GeminiStreamEvent } from '@gemini-ui/shared';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
 class ApiClient {
-  private async request<T>(
+  /**
+   * Exchange the refresh token for a new token pair
+   * @returns The new access token, or null if the session has ended
+   */
+  async refreshSession(): Promise<string | null> {
+    const { refreshToken, updateTokens, logout } = useAuthStore.getState();
+    if (!refreshToken) {
+      return null;
+    }
+
+    const refreshResponse = await fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+    if (!refreshResponse.ok) {
+      logout();
+      return null;
+    }
+
+    const data = await refreshResponse.json();
+    updateTokens(data.accessToken, data.refreshToken);
+    return data.accessToken;
+  }
+
+  private async fetchWithAuth(
     endpoint: string,
     options: RequestInit = {}
-  ): Promise<T> {
-    const { accessToken, refreshToken, updateTokens, logout } =
-      useAuthStore.getState();
+  ): Promise<Response> {
+    const { accessToken, refreshToken } = useAuthStore.getState();
 
     const headers = new Headers(options.headers);
     if (accessToken) {
       headers.set('Authorization', `Bearer ${accessToken}`);
     }
-    headers.set('Content-Type', 'application/json');
+    // Multipart bodies set their own boundary
+    if (!(options.body instanceof FormData)) {
+      headers.set('Content-Type', 'application/json');
+    }
 
     let response = await fetch(`${API_BASE_URL}${endpoint}`, {
       ...options,
@@ -24,26 +52,17 @@ class ApiClient {
 
     // Handle token expiration
     if (response.status === 401 && refreshToken) {
-      const refreshResponse = await fetch(`${API_BASE_URL}/auth/refresh`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ refreshToken }),
-      });
-
-      if (refreshResponse.ok) {
-        const data = await refreshResponse.json();
-        updateTokens(data.accessToken, data.refreshToken);
-
-        // Retry original request
-        headers.set('Authorization', `Bearer ${data.accessToken}`);
-        response = await fetch(`${API_BASE_URL}${endpoint}`, {
-          ...options,
-          headers,
-        });
-      } else {
-        logout();
+      const newAccessToken = await this.refreshSession();
+      if (!newAccessToken) {
         throw new Error('Session expired');
       }
+
+      // Retry original request
+      headers.set('Authorization', `Bearer ${newAccessToken}`);
+      response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        ...options,
+        headers,
+      });
     }
 
     if (!response.ok) {
@@ -51,9 +70,56 @@ class ApiClient {
       throw new Error(error.error || 'Request failed');
     }
 
+    return response;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const response = await this.fetchWithAuth(endpoint, options);
     return response.json();
   }
 
+  /**
+   * POST and read a server-sent event stream until it closes
+   */
+  async stream(
+    endpoint: string,
+    body: unknown,
+    onEvent: (event: GeminiStreamEvent) => void
+  ): Promise<void> {
+    const response = await this.fetchWithAuth(endpoint, {
+      method: 'POST',
+      headers: { Accept: 'text/event-stream' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.body) {
+      throw new Error('Streaming not supported');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() ?? '';
+
+      for (const frame of frames) {
+        const data = frame.replace(/^data: /, '');
+        if (data) {
+          onEvent(JSON.parse(data));
+        }
+      }
+    }
+  }
+
   get<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'GET' });
   }
@@ -72,6 +138,40 @@ class ApiClient {
     });
   }
 
+  /**
+   * POST a multipart form (file uploads)
+   */
+  upload<T>(endpoint: string, form: FormData): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'POST',
+      body: form,
+    });
+  }
+
+  /**
+   * GET a file's contents (e.g. audio to play)
+   */
+  async blob(endpoint: string): Promise<Blob> {
+    const response = await this.fetchWithAuth(endpoint, { method: 'GET' });
+    return response.blob();
+  }
+
+  /**
+   * GET a file and save it in the browser under the name the server suggests
+   */
+  async download(endpoint: string, fallbackName: string): Promise<void> {
+    const response = await this.fetchWithAuth(endpoint, { method: 'GET' });
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? fallbackName;
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   delete<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'DELETE' });
   }
@@ -0,0 +1,230 @@
+import { useAuthStore } from '../stores/auth.store';
+import { apiClient } from './api-client';
+import type {
+  RealtimeClientMessage,
+  RealtimeEvent,
+  RealtimeServerMessage,
+} from '@gemini-ui/shared';
+
+const WS_URL =
+  import.meta.env.VITE_WS_URL ||
+  `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/ws`;
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const SUBSCRIBE_TIMEOUT_MS = 5000;
+
+// Close code sent by the gateway when the access token expires
+const CLOSE_TOKEN_EXPIRED = 4001;
+
+type ChannelListener = (event: RealtimeEvent) => void;
+type ResubscribeListener = () => void;
+
+/**
+ * Handle returned by subscribe()
+ */
+export interface Subscription {
+  /** Resolves true once the server confirms the subscription, false if refused or timed out */
+  ready: Promise<boolean>;
+  unsubscribe: () => void;
+}
+
+/**
+ * Single reconnecting WebSocket shared by the whole app
+ * Channels are resubscribed automatically after a reconnect; events published while the
+ * socket was down are not replayed
+ */
+class SocketClient {
+  private ws: WebSocket | null = null;
+  private listeners = new Map<string, Set<ChannelListener>>();
+  private pendingAcks = new Map<string, Array<(ok: boolean) => void>>();
+  private resubscribeListeners = new Map<string, Set<ResubscribeListener>>();
+  // Channels subscribed again after a reconnect, until the server confirms them
+  private resubscribing = new Set<string>();
+  private connectedBefore = false;
+  private reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Subscribe to a channel (`session:<id>`, `files`, `mcp`)
+   * `onResubscribe` runs once the channel is confirmed again after a reconnect, so callers can
+   * catch up on events they missed
+   */
+  subscribe(
+    channel: string,
+    listener: ChannelListener,
+    onResubscribe?: ResubscribeListener
+  ): Subscription {
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+    }
+    channelListeners.add(listener);
+    if (onResubscribe) {
+      const resubscribed = this.resubscribeListeners.get(channel) ?? new Set();
+      resubscribed.add(onResubscribe);
+      this.resubscribeListeners.set(channel, resubscribed);
+    }
+
+    const ready = new Promise<boolean>((resolve) => {
+      const acks = this.pendingAcks.get(channel) ?? [];
+      acks.push(resolve);
+      this.pendingAcks.set(channel, acks);
+      setTimeout(() => this.settleAck(channel, resolve, false), SUBSCRIBE_TIMEOUT_MS);
+    });
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      // Re-subscribing an existing channel is harmless and yields a fresh ack
+      this.send({ type: 'subscribe', channel });
+    } else {
+      this.connect();
+    }
+
+    let active = true;
+    return {
+      ready,
+      unsubscribe: () => {
+        if (!active) return;
+        active = false;
+        channelListeners.delete(listener);
+        if (onResubscribe) {
+          this.resubscribeListeners.get(channel)?.delete(onResubscribe);
+        }
+        if (channelListeners.size === 0) {
+          this.resubscribeListeners.delete(channel);
+          this.listeners.delete(channel);
+          this.send({ type: 'unsubscribe', channel });
+        }
+      },
+    };
+  }
+
+  /**
+   * Close the socket and stop reconnecting (e.g. on logout)
+   */
+  disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+  }
+
+  private connect(): void {
+    if (this.ws || this.reconnectTimer) {
+      return;
+    }
+
+    const { accessToken } = useAuthStore.getState();
+    if (!accessToken) {
+      return;
+    }
+
+    const ws = new WebSocket(`${WS_URL}?token=${encodeURIComponent(accessToken)}`);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      const reconnected = this.connectedBefore;
+      this.connectedBefore = true;
+      for (const channel of this.listeners.keys()) {
+        if (reconnected) {
+          this.resubscribing.add(channel);
+        }
+        this.send({ type: 'subscribe', channel });
+      }
+    };
+
+    ws.onmessage = (message) => {
+      this.handleMessage(JSON.parse(message.data) as RealtimeServerMessage);
+    };
+
+    ws.onclose = (event) => {
+      if (this.ws !== ws) {
+        return; // Closed deliberately via disconnect()
+      }
+      this.ws = null;
+      this.resubscribing.clear();
+      this.scheduleReconnect(event.code === CLOSE_TOKEN_EXPIRED);
+    };
+  }
+
+  private scheduleReconnect(refreshToken: boolean): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+
+    this.reconnectTimer = setTimeout(async () => {
+      if (refreshToken) {
+        await apiClient.refreshSession().catch(() => null);
+      }
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private handleMessage(message: RealtimeServerMessage): void {
+    switch (message.type) {
+      case 'event':
+        for (const listener of this.listeners.get(message.channel) ?? []) {
+          listener(message.event);
+        }
+        break;
+      case 'subscribed':
+        this.resolveAcks(message.channel, true);
+        if (this.resubscribing.delete(message.channel)) {
+          for (const listener of this.resubscribeListeners.get(message.channel) ?? []) {
+            listener();
+          }
+        }
+        break;
+      case 'error':
+        if (message.channel) {
+          this.resubscribing.delete(message.channel);
+          this.resolveAcks(message.channel, false);
+        }
+        break;
+    }
+  }
+
+  private resolveAcks(channel: string, ok: boolean): void {
+    const acks = this.pendingAcks.get(channel) ?? [];
+    this.pendingAcks.delete(channel);
+    for (const resolve of acks) {
+      resolve(ok);
+    }
+  }
+
+  private settleAck(channel: string, resolve: (ok: boolean) => void, ok: boolean): void {
+    const acks = this.pendingAcks.get(channel);
+    if (!acks?.includes(resolve)) {
+      return;
+    }
+    this.pendingAcks.set(
+      channel,
+      acks.filter((ack) => ack !== resolve)
+    );
+    resolve(ok);
+  }
+
+  private send(message: RealtimeClientMessage): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const socketClient = new SocketClient();
+
+// Drop the socket when the user logs out
+useAuthStore.subscribe((state) => {
+  if (!state.accessToken) {
+    socketClient.disconnect();
+  }
+});
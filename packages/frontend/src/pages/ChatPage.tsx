@@ -1,27 +1,252 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import type { ClipboardEvent, DragEvent } from 'react';
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_MENTIONS_PER_MESSAGE,
+  DEFAULT_MODEL,
+  pruneGenerationSettings,
+  type Attachment,
+  type FileCompletion,
+  type GenerationSettings,
+  type ModelMigration,
+  type PromptTemplate,
+} from '@gemini-ui/shared';
+import { useSearchParams } from 'react-router-dom';
 import { ModelSelector } from '../features/chat/components/ModelSelector';
+import { ToolApprovalCard } from '../features/chat/components/ToolApprovalCard';
+import { MessageBubble } from '../features/chat/components/MessageBubble';
+import { MessageList } from '../features/chat/components/MessageList';
+import { ContextMeter } from '../features/chat/components/ContextMeter';
+import { AttachmentChips } from '../features/chat/components/AttachmentChips';
+import { MentionChips } from '../features/chat/components/MentionChips';
+import { MentionPicker } from '../features/chat/components/MentionPicker';
+import { ModelDeprecationBanner } from '../features/chat/components/ModelDeprecationBanner';
+import { useGeminiModel, useGeminiModels } from '../features/chat/hooks/useGeminiModels';
+import { useChat } from '../features/chat/hooks/useChat';
+import { useFileCompletions } from '../features/chat/hooks/useFileCompletions';
+import { useProjects } from '../features/projects/hooks/useProjects';
+import { useSessionUsage, useUpdateSession } from '../features/sessions/hooks/useSessions';
+import { ExecutionPolicyEditor } from '../features/policy/components/ExecutionPolicyEditor';
+import { ExportSessionMenu } from '../features/sessions/components/ExportSessionMenu';
+import { SessionList } from '../features/sessions/components/SessionList';
+import { ForkSessionPanel } from '../features/sessions/components/ForkSessionPanel';
+import { ComparisonView } from '../features/chat/components/ComparisonView';
+import { usePromptTemplates } from '../features/templates/hooks/useTemplates';
+import {
+  SlashCommandPicker,
+  matchTemplates,
+} from '../features/templates/components/SlashCommandPicker';
+import { TemplateVariablesForm } from '../features/templates/components/TemplateVariablesForm';
 
 export function ChatPage() {
-  const [selectedModel, setSelectedModel] = useState('gemini-2.5-flash');
-  const [messages, setMessages] = useState<Array<{ role: string; content: string }>>([]);
+  // Until a model is picked or a session opened, new chats use the team default
+  const [pickedModel, setPickedModel] = useState<string>();
+  const { data: modelList } = useGeminiModels();
+  const selectedModel = pickedModel ?? modelList?.defaultModel ?? DEFAULT_MODEL;
+  // Set when the open session was moved off a retired model
+  const [modelMigration, setModelMigration] = useState<ModelMigration>();
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({});
+  const [projectPath, setProjectPath] = useState<string | undefined>();
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [mentions, setMentions] = useState<FileCompletion[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  // Fork panel target: the whole session, or the conversation up to a message
+  const [forkFrom, setForkFrom] = useState<{ messageId?: string } | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: projects } = useProjects();
+  const {
+    sessionId,
+    messages,
+    hasMoreBefore,
+    isLoadingOlder,
+    isStreaming,
+    error,
+    pendingApprovals,
+    send,
+    uploadAttachment,
+    edit,
+    regenerate,
+    switchBranch,
+    stop,
+    decide,
+    open,
+    loadOlder,
+    reset,
+  } = useChat({
+    projectPath,
+    model: selectedModel,
+    generationSettings,
+  });
+  const sessionParam = searchParams.get('session');
+  const comparisonParam = searchParams.get('comparison');
+  const isComparing = comparing || Boolean(comparisonParam);
+  const { data: usage } = useSessionUsage(sessionId);
+  const updateSession = useUpdateSession();
+  const model = useGeminiModel(selectedModel);
+  const canAttach = Boolean(model?.capabilities.includes('vision')) && !isStreaming;
+  const canSpeak = Boolean(model?.capabilities.includes('tts'));
+  const projectId = projects?.find((project) => project.path === projectPath)?.id;
+  const { data: templates } = usePromptTemplates(projectId);
+  // A `/command` being typed opens the template picker
+  const slashCommand = /^\/([\w-]*)$/.exec(input)?.[1];
+  const slashMatches =
+    slashCommand !== undefined ? matchTemplates(templates ?? [], slashCommand) : [];
+  // An `@path` being typed at the end of the input opens file completion
+  const mentionQuery = /(?:^|\s)@([^\s@]*)$/.exec(input)?.[1];
+  const completions = useFileCompletions(projectPath, mentionQuery);
+
+  // Default to the most recently used project
+  useEffect(() => {
+    if (!projectPath && projects && projects.length > 0) {
+      setProjectPath(projects[0].path);
+    }
+  }, [projects, projectPath]);
+
+  // Reopen the session named in the URL, e.g. after a reload
+  useEffect(() => {
+    if (!sessionParam || sessionParam === sessionId) return;
+
+    open(sessionParam).then((session) => {
+      if (session) {
+        setProjectPath(session.projectPath);
+        setPickedModel(session.model);
+        setGenerationSettings(session.generationSettings ?? {});
+        setModelMigration(session.metadata?.modelMigration as ModelMigration | undefined);
+      }
+    });
+  }, [sessionParam, sessionId, open]);
+
+  // Keep the URL pointing at the current session once one is created
+  useEffect(() => {
+    if (sessionId && sessionId !== sessionParam) {
+      setSearchParams({ session: sessionId }, { replace: true });
+    }
+  }, [sessionId, sessionParam, setSearchParams]);
+
+  /**
+   * A session is bound to one project and model, so switching starts a new one
+   */
+  const startNewSession = () => {
+    reset();
+    setAttachments([]);
+    setMentions([]);
+    setForkFrom(null);
+    setModelMigration(undefined);
+    setSearchParams({});
+  };
+
+  const handleProjectChange = (path: string | undefined) => {
+    setProjectPath(path);
+    startNewSession();
+  };
+
+  const handleModelChange = (model: string) => {
+    setPickedModel(model);
+    setGenerationSettings((current) =>
+      pruneGenerationSettings(current, model, modelList?.models)
+    );
+    startNewSession();
+  };
+
+  /**
+   * Keep the settings for the next session, and apply them to the current one
+   */
+  const handleSettingsChange = (settings: GenerationSettings) => {
+    setGenerationSettings(settings);
+    if (sessionId) {
+      updateSession.mutate({ id: sessionId, input: { generationSettings: settings } });
+    }
+  };
+
+  const handleSessionChange = (id: string) => {
+    setForkFrom(null);
+    setComparing(false);
+    setSearchParams({ session: id });
+  };
+
+  const toggleComparing = () => {
+    startNewSession();
+    setComparing(!isComparing);
+  };
+
+  /**
+   * Templates without variables or files are inserted as is; others ask for values first
+   */
+  const selectTemplate = (selected: PromptTemplate) => {
+    if (selected.variables.length === 0 && selected.files.length === 0) {
+      setInput(selected.body);
+    } else {
+      setInput('');
+      setTemplate(selected);
+    }
+  };
+
+  /**
+   * Replace the typed `@query` with a chip for the picked file or folder
+   */
+  const selectMention = (completion: FileCompletion) => {
+    setInput((current) => current.replace(/@[^\s@]*$/, ''));
+    setMentions((current) =>
+      current.some((mention) => mention.path === completion.path) ||
+      current.length >= MAX_MENTIONS_PER_MESSAGE
+        ? current
+        : [...current, completion]
+    );
+  };
 
   const handleSend = () => {
-    if (!input.trim()) return;
+    if (slashMatches.length > 0) {
+      selectTemplate(slashMatches[0]);
+      return;
+    }
+    if (mentionQuery !== undefined && completions.data?.length) {
+      selectMention(completions.data[0]);
+      return;
+    }
+    if (!input.trim() || isStreaming || isUploading) return;
 
-    setMessages([...messages, { role: 'user', content: input }]);
+    send(input, attachments, mentions);
     setInput('');
+    setAttachments([]);
+    setMentions([]);
+  };
+
+  /**
+   * Upload dropped or pasted images/PDFs; other files are ignored
+   * (size limits are enforced by the server)
+   */
+  const attachFiles = async (files: File[]) => {
+    const accepted = files
+      .filter((file) => (ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type))
+      .slice(0, MAX_ATTACHMENTS_PER_MESSAGE - attachments.length);
+    if (!canAttach || accepted.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      for (const file of accepted) {
+        const attachment = await uploadAttachment(file);
+        if (attachment) setAttachments((current) => [...current, attachment]);
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    if (!canAttach) return;
+    e.preventDefault();
+    attachFiles(Array.from(e.dataTransfer.files));
+  };
 
-    // TODO: Send to backend Gemini API
-    setTimeout(() => {
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: 'assistant',
-          content: `Response using ${selectedModel} (integration pending)`,
-        },
-      ]);
-    }, 500);
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (!canAttach || files.length === 0) return;
+    e.preventDefault();
+    attachFiles(files);
   };
 
   return (
@@ -30,15 +255,105 @@ export function ChatPage() {
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-2xl font-bold mb-4">Chat with Gemini</h2>
 
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Project
+          </label>
+          <select
+            value={projectPath ?? ''}
+            onChange={(e) => handleProjectChange(e.target.value || undefined)}
+            disabled={isStreaming}
+            className="w-full max-w-md px-4 py-2 border border-gray-300 rounded-md"
+          >
+            {(!projects || projects.length === 0) && (
+              <option value="">No projects yet</option>
+            )}
+            {projects?.map((project) => (
+              <option key={project.id} value={project.path}>
+                {project.name} ({project.path})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Session
+          </label>
+          <SessionList
+            projectPath={projectPath}
+            activeId={sessionId}
+            onSelect={handleSessionChange}
+            onNew={startNewSession}
+            disabled={isStreaming}
+            className="max-w-md"
+          />
+          <button
+            type="button"
+            onClick={toggleComparing}
+            disabled={isStreaming || !projectPath}
+            className="mt-2 px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isComparing ? 'Back to chat' : 'Compare models'}
+          </button>
+        </div>
+
+        {sessionId && (
+          <div className="mb-4 flex flex-wrap items-center gap-4">
+            <ExportSessionMenu sessionId={sessionId} />
+            <button
+              type="button"
+              onClick={() => setForkFrom({})}
+              disabled={isStreaming}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Fork session
+            </button>
+          </div>
+        )}
+
+        {sessionId && projectPath && forkFrom && (
+          <ForkSessionPanel
+            key={forkFrom.messageId ?? sessionId}
+            session={{ id: sessionId, projectPath, model: selectedModel }}
+            messageId={forkFrom.messageId}
+            onForked={(fork) => handleSessionChange(fork.id)}
+            onClose={() => setForkFrom(null)}
+            className="mb-4"
+          />
+        )}
+
+        {sessionId && (
+          <details className="mb-4">
+            <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+              Session execution policy
+            </summary>
+            <div className="mt-3">
+              <ExecutionPolicyEditor scope="sessions" id={sessionId} />
+            </div>
+          </details>
+        )}
+
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Select Model
           </label>
           <ModelSelector
             value={selectedModel}
-            onChange={setSelectedModel}
+            onChange={handleModelChange}
+            settings={generationSettings}
+            onSettingsChange={handleSettingsChange}
             className="max-w-md"
           />
+          {updateSession.error && (
+            <p className="mt-2 text-sm text-red-600">{updateSession.error.message}</p>
+          )}
+          <ModelDeprecationBanner
+            model={model}
+            migration={modelMigration}
+            onDismiss={() => setModelMigration(undefined)}
+            className="mt-3 max-w-md"
+          />
         </div>
 
         <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
@@ -53,51 +368,137 @@ export function ChatPage() {
         </div>
       </div>
 
+      {isComparing && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <ComparisonView
+            projectPath={projectPath}
+            comparisonId={comparisonParam}
+            defaultModel={selectedModel}
+            onStarted={(id) => setSearchParams({ comparison: id })}
+            onWinner={(winner) => handleSessionChange(winner.id)}
+          />
+        </div>
+      )}
+
       {/* Chat Messages */}
-      <div className="bg-white rounded-lg shadow p-6">
-        <div className="space-y-4 min-h-[400px] max-h-[600px] overflow-y-auto mb-4">
-          {messages.length === 0 ? (
+      <div
+        hidden={isComparing}
+        className="bg-white rounded-lg shadow p-6"
+        onDragOver={(e) => canAttach && e.preventDefault()}
+        onDrop={handleDrop}
+      >
+        <MessageList
+          messages={messages}
+          hasMoreBefore={hasMoreBefore}
+          isLoadingOlder={isLoadingOlder}
+          onLoadOlder={loadOlder}
+          className="h-[600px] mb-4"
+          empty={
             <div className="text-center text-gray-500 py-12">
               <p className="text-lg">Start a conversation with Gemini!</p>
               <p className="text-sm mt-2">Select a model above and type your message below.</p>
             </div>
-          ) : (
-            messages.map((msg, idx) => (
-              <div
-                key={idx}
-                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`max-w-[70%] rounded-lg px-4 py-2 ${
-                    msg.role === 'user'
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 text-gray-900'
-                  }`}
-                >
-                  {msg.content}
-                </div>
-              </div>
-            ))
+          }
+          renderMessage={(msg, idx) => (
+            <MessageBubble
+              message={msg}
+              pending={isStreaming && idx === messages.length - 1}
+              busy={isStreaming}
+              onEdit={edit}
+              onRegenerate={regenerate}
+              onSwitchBranch={switchBranch}
+              onFork={(message) => setForkFrom({ messageId: message.id })}
+              speechSessionId={canSpeak ? (sessionId ?? undefined) : undefined}
+            />
           )}
-        </div>
+          footer={
+            pendingApprovals.length > 0 && (
+              <div className="space-y-4">
+                {pendingApprovals.map((approval) => (
+                  <ToolApprovalCard
+                    key={approval.toolCall.id}
+                    approval={approval}
+                    onDecide={decide}
+                  />
+                ))}
+              </div>
+            )
+          }
+        />
+
+        <ContextMeter usage={usage} contextWindow={model?.contextWindow} className="mb-4" />
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
 
         {/* Input */}
+        {template && (
+          <TemplateVariablesForm
+            key={template.id}
+            template={template}
+            onSubmit={(prompt) => {
+              setInput(prompt);
+              setTemplate(null);
+            }}
+            onCancel={() => setTemplate(null)}
+            className="mb-2"
+          />
+        )}
+        {slashCommand !== undefined && (
+          <SlashCommandPicker templates={slashMatches} onSelect={selectTemplate} className="mb-2" />
+        )}
+        {mentionQuery !== undefined && projectPath && (
+          <MentionPicker
+            completions={completions.data ?? []}
+            isLoading={completions.isFetching}
+            onSelect={selectMention}
+            className="mb-2"
+          />
+        )}
+        <AttachmentChips
+          attachments={attachments}
+          onRemove={(id) => setAttachments((current) => current.filter((a) => a.id !== id))}
+          className="mb-2"
+        />
+        <MentionChips
+          mentions={mentions}
+          onRemove={(path) => setMentions((current) => current.filter((m) => m.path !== path))}
+          className="mb-2"
+        />
         <div className="flex gap-2">
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Type your message..."
+            onPaste={handlePaste}
+            placeholder={
+              canAttach
+                ? 'Type your message, / for a template, @ for files, or drop/paste images...'
+                : 'Type your message, / for a template or @ for files...'
+            }
             className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
-          <button
-            onClick={handleSend}
-            disabled={!input.trim()}
-            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
-          >
-            Send
-          </button>
+          {isStreaming ? (
+            <button
+              onClick={stop}
+              disabled={!sessionId}
+              className="px-6 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim() || !projectPath || isUploading}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Send
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import type { ScheduledJob } from '@gemini-ui/shared';
+import { JobForm } from '../features/jobs/components/JobForm';
+import { JobRunList } from '../features/jobs/components/JobRunList';
+import { useDeleteJob, useJobs, useRunJob, useUpdateJob } from '../features/jobs/hooks/useJobs';
+import { useProjects } from '../features/projects/hooks/useProjects';
+
+export function JobsPage() {
+  const { data: jobs = [], isLoading } = useJobs();
+  const { data: projects } = useProjects();
+  const updateJob = useUpdateJob();
+  const deleteJob = useDeleteJob();
+  const runJob = useRunJob();
+  // Job being edited; null for a new one, undefined when the form is closed
+  const [editing, setEditing] = useState<ScheduledJob | null | undefined>();
+  const [runsOf, setRunsOf] = useState<string | undefined>();
+
+  const projectName = (projectId: string) =>
+    projects?.find((project) => project.id === projectId)?.name ?? 'Unknown project';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Scheduled Jobs</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Prompts that run on a schedule, without the browser open. Each run gets its own
+              session.
+            </p>
+          </div>
+          <button
+            onClick={() => setEditing(editing === null ? undefined : null)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            {editing === null ? 'Cancel' : '+ New Job'}
+          </button>
+        </div>
+
+        {editing !== undefined && (
+          <JobForm
+            key={editing?.id ?? 'new'}
+            job={editing ?? undefined}
+            onDone={() => setEditing(undefined)}
+          />
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading jobs...</div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No jobs yet. Create one to run a prompt on a schedule.
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {jobs.map((job) => (
+              <li key={job.id} className="py-3 flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{job.name}</span>
+                    {!job.enabled && (
+                      <span className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">
+                        paused
+                      </span>
+                    )}
+                    {job.policy.readOnly && (
+                      <span className="px-2 py-0.5 text-xs bg-yellow-100 text-yellow-700 rounded">
+                        read-only
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {projectName(job.projectId)} ·{' '}
+                    <span className="font-mono">{job.schedule}</span>
+                    {job.nextRunAt && ` · next ${new Date(job.nextRunAt).toLocaleString()}`}
+                  </p>
+                  <p className="text-sm text-gray-700 mt-1 truncate">{job.prompt}</p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => runJob.mutate(job.id)}
+                    disabled={runJob.isPending}
+                    className="px-3 py-1 text-sm bg-green-100 text-green-700 rounded hover:bg-green-200 disabled:opacity-50"
+                  >
+                    Run now
+                  </button>
+                  <button
+                    onClick={() =>
+                      updateJob.mutate({ id: job.id, input: { enabled: !job.enabled } })
+                    }
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    {job.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => setRunsOf(runsOf === job.id ? undefined : job.id)}
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    {runsOf === job.id ? 'All runs' : 'Runs'}
+                  </button>
+                  <button
+                    onClick={() => setEditing(job)}
+                    className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete ${job.name} and its run history?`)) {
+                        deleteJob.mutate(job.id);
+                      }
+                    }}
+                    className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {runJob.error && <p className="text-sm text-red-600">{runJob.error.message}</p>}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-2">
+        <h2 className="text-2xl font-bold">
+          Runs
+          {runsOf && (
+            <span className="text-base font-normal text-gray-500">
+              {' '}
+              of {jobs.find((job) => job.id === runsOf)?.name}
+            </span>
+          )}
+        </h2>
+        <JobRunList jobId={runsOf} />
+      </div>
+    </div>
+  );
+}
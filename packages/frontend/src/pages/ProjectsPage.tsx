@@ -1,20 +1,22 @@
 import { useState } from 'react';
 import { ProjectFolderPicker } from '../features/projects/components/ProjectFolderPicker';
+import { useCreateProject, useProjects } from '../features/projects/hooks/useProjects';
+import { ExecutionPolicyEditor } from '../features/policy/components/ExecutionPolicyEditor';
+import { ProjectContextPanel } from '../features/projects/components/ProjectContextPanel';
 
 export function ProjectsPage() {
   const [showAddProject, setShowAddProject] = useState(false);
-  const [projects, setProjects] = useState<Array<{ name: string; path: string }>>([
-    { name: 'Example Project', path: '/Users/example/projects/example' },
-  ]);
+  const [policyProjectId, setPolicyProjectId] = useState<string | null>(null);
+  const [contextProjectId, setContextProjectId] = useState<string | null>(null);
+  const { data: projects = [], isLoading } = useProjects();
+  const createProject = useCreateProject();
 
   const handleSelectPath = async (path: string) => {
-    // TODO: Call backend API to validate and create project
-    console.log('Selected path:', path);
-
-    // For demo, just add it to the list
-    const projectName = path.split('/').pop() || 'New Project';
-    setProjects([...projects, { name: projectName, path }]);
-    setShowAddProject(false);
+    const projectName = path.split('/').filter(Boolean).pop() || 'New Project';
+    createProject.mutate(
+      { name: projectName, path },
+      { onSuccess: () => setShowAddProject(false) }
+    );
   };
 
   return (
@@ -41,14 +43,18 @@ export function ProjectsPage() {
             </div>
 
             <ProjectFolderPicker onSelect={handleSelectPath} />
+
+            {createProject.isError && (
+              <p className="mt-3 text-sm text-red-600">{createProject.error.message}</p>
+            )}
           </div>
         )}
 
         {/* Projects List */}
         <div className="space-y-3">
-          {projects.map((project, idx) => (
+          {projects.map((project) => (
             <div
-              key={idx}
+              key={project.id}
               className="p-4 border border-gray-200 rounded-lg hover:border-blue-300 transition-colors"
             >
               <div className="flex justify-between items-start">
@@ -56,15 +62,42 @@ export function ProjectsPage() {
                   <h3 className="font-semibold text-lg">{project.name}</h3>
                   <p className="text-sm text-gray-600 mt-1">{project.path}</p>
                 </div>
-                <button className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded">
-                  Open
-                </button>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      setContextProjectId(contextProjectId === project.id ? null : project.id)
+                    }
+                    className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+                  >
+                    {contextProjectId === project.id ? 'Close context' : 'Context files'}
+                  </button>
+                  <button
+                    onClick={() =>
+                      setPolicyProjectId(policyProjectId === project.id ? null : project.id)
+                    }
+                    className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+                  >
+                    {policyProjectId === project.id ? 'Close policy' : 'Execution policy'}
+                  </button>
+                </div>
               </div>
+
+              {contextProjectId === project.id && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <ProjectContextPanel projectId={project.id} />
+                </div>
+              )}
+
+              {policyProjectId === project.id && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <ExecutionPolicyEditor scope="projects" id={project.id} />
+                </div>
+              )}
             </div>
           ))}
         </div>
 
-        {projects.length === 0 && !showAddProject && (
+        {projects.length === 0 && !showAddProject && !isLoading && (
           <div className="text-center text-gray-500 py-12">
             <p className="text-lg">No projects yet</p>
             <p className="text-sm mt-2">Click "Add Project" to get started</p>
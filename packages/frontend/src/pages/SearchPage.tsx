@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { MessageSearchQuery } from '@gemini-ui/shared';
+import { useMessageSearch } from '../features/sessions/hooks/useSessions';
+import { useProjects } from '../features/projects/hooks/useProjects';
+import { useGeminiModels } from '../features/chat/hooks/useGeminiModels';
+
+const PAGE_SIZE = 20;
+
+type Filters = Pick<MessageSearchQuery, 'projectPath' | 'model' | 'role'> & {
+  from?: string;
+  to?: string;
+};
+
+export function SearchPage() {
+  const [input, setInput] = useState('');
+  const [q, setQ] = useState('');
+  const [filters, setFilters] = useState<Filters>({});
+  const [page, setPage] = useState(1);
+  const { data: projects } = useProjects();
+  const { data: models } = useGeminiModels();
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => setQ(input.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  // A new query or filter starts from the first page
+  useEffect(() => setPage(1), [q, filters]);
+
+  const { data: results, isFetching, error } = useMessageSearch({
+    q,
+    ...filters,
+    // Date inputs give whole days; include all of the end day
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K] | '') =>
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-2xl font-bold">Search History</h2>
+
+        <input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Search all conversations, e.g. migration bug"
+          autoFocus
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        <div className="flex flex-wrap gap-3 text-sm">
+          <select
+            value={filters.projectPath ?? ''}
+            onChange={(e) => setFilter('projectPath', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">All projects</option>
+            {projects?.map((project) => (
+              <option key={project.id} value={project.path}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.model ?? ''}
+            onChange={(e) => setFilter('model', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">All models</option>
+            {models?.models.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.role ?? ''}
+            onChange={(e) => setFilter('role', e.target.value as Filters['role'])}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Any author</option>
+            <option value="user">User</option>
+            <option value="assistant">Gemini</option>
+          </select>
+          <label className="flex items-center gap-1">
+            From
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => setFilter('from', e.target.value)}
+              className="px-2 py-1.5 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            To
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => setFilter('to', e.target.value)}
+              className="px-2 py-1.5 border border-gray-300 rounded-md"
+            />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error.message}
+        </div>
+      )}
+
+      {q && results && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            {results.total} {results.total === 1 ? 'match' : 'matches'}
+            {isFetching && ' · searching…'}
+          </p>
+
+          <ul className="divide-y divide-gray-100">
+            {results.items.map((hit) => (
+              <li key={hit.messageId} className="py-3">
+                <Link
+                  to={`/?session=${hit.sessionId}`}
+                  className="block hover:bg-gray-50 rounded p-2"
+                >
+                  <div className="flex gap-2 text-xs text-gray-500 mb-1">
+                    <span>{hit.role === 'assistant' ? 'Gemini' : 'User'}</span>
+                    <span>·</span>
+                    <span className="font-mono">{hit.projectPath}</span>
+                    <span>·</span>
+                    <span>{hit.model}</span>
+                    <span>·</span>
+                    <span>{new Date(hit.createdAt).toLocaleString()}</span>
+                  </div>
+                  {/* The server escapes snippets and only adds <mark> tags */}
+                  <p
+                    className="text-sm [&_mark]:bg-yellow-200"
+                    dangerouslySetInnerHTML={{ __html: hit.snippet }}
+                  />
+                </Link>
+              </li>
+            ))}
+          </ul>
+
+          {(page > 1 || results.hasMore) && (
+            <div className="flex justify-between text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-40"
+              >
+                Previous
+              </button>
+              <span className="text-gray-500">Page {page}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={!results.hasMore}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-40"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
 import { useState } from 'react';
 import { useListMCPServers, useAddMCPServer, useStartServer, useStopServer, useDeleteMCPServer } from '../features/mcp/hooks/useMCPServers';
+import { SpendSummary } from '../features/costs/components/SpendSummary';
+import { BudgetAdminTable } from '../features/costs/components/BudgetAdminTable';
+import { ModelRegistryAdmin } from '../features/models/components/ModelRegistryAdmin';
+import { UserPolicyAdmin } from '../features/policy/components/UserPolicyAdmin';
+import { CliHistoryImport } from '../features/sessions/components/CliHistoryImport';
+import { PromptTemplateManager } from '../features/templates/components/PromptTemplateManager';
+import { useAuthStore } from '../stores/auth.store';
 import type { MCPServerRequest } from '@gemini-ui/shared';
 
 export function SettingsPage() {
@@ -9,6 +16,7 @@ export function SettingsPage() {
   const startServerMutation = useStartServer();
   const stopServerMutation = useStopServer();
   const deleteServerMutation = useDeleteMCPServer();
+  const isAdmin = useAuthStore((state) => state.user?.role === 'admin');
 
   const [newServer, setNewServer] = useState<MCPServerRequest>({
     name: '',
@@ -43,6 +51,13 @@ export function SettingsPage() {
 
   return (
     <div className="space-y-6">
+      <SpendSummary />
+      {isAdmin && <BudgetAdminTable />}
+      {isAdmin && <ModelRegistryAdmin />}
+      {isAdmin && <UserPolicyAdmin />}
+      <CliHistoryImport />
+      <PromptTemplateManager />
+
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex justify-between items-center mb-6">
           <div>
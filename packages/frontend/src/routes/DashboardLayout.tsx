@@ -9,6 +9,8 @@ export function DashboardLayout() {
   const navigation = [
     { name: 'Chat', href: '/', icon: '💬' },
     { name: 'Projects', href: '/projects', icon: '📁' },
+    { name: 'Search', href: '/search', icon: '🔎' },
+    { name: 'Jobs', href: '/jobs', icon: '⏰' },
     { name: 'Settings', href: '/settings', icon: '⚙️' },
   ];
 
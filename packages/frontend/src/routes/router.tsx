@@ -3,6 +3,8 @@ import { DashboardLayout } from './DashboardLayout';
 import { ChatPage } from '../pages/ChatPage';
 import { ProjectsPage } from '../pages/ProjectsPage';
 import { SettingsPage } from '../pages/SettingsPage';
+import { SearchPage } from '../pages/SearchPage';
+import { JobsPage } from '../pages/JobsPage';
 
 export const router = createBrowserRouter([
   {
@@ -17,6 +19,14 @@ export const router = createBrowserRouter([
         path: 'projects',
         element: <ProjectsPage />,
       },
+      {
+        path: 'search',
+        element: <SearchPage />,
+      },
+      {
+        path: 'jobs',
+        element: <JobsPage />,
+      },
       {
         path: 'settings',
         element: <SettingsPage />,
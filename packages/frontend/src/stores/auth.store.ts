@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { AuthResponse } from '@gemini-ui/shared';
+import type { AuthResponse, UserRole } from '@gemini-ui/shared';
 
 interface AuthState {
   accessToken: string | null;
@@ -8,6 +8,7 @@ interface AuthState {
   user: {
     id: string;
     username: string;
+    role?: UserRole;
   } | null;
   isAuthenticated: boolean;
   login: (response: AuthResponse) => void;
@@ -16,6 +16,10 @@ export default defineConfig({
         target: 'http://localhost:4010',
         changeOrigin: true,
       },
+      '/ws': {
+        target: 'ws://localhost:4010',
+        ws: true,
+      },
     },
   },
 });
@@ -1,8 +1,17 @@
-import type { GeminiModel } from '../types/gemini.types.js';
+import {
+  GENERATION_SETTINGS,
+  type GeminiCapability,
+  type GeminiModel,
+  type GenerationSetting,
+  type GenerationSettings,
+  type ModelOverride,
+  type ModelPricing,
+} from '../types/gemini.types.js';
+import type { TokenUsage } from '../types/session.types.js';
 
 /**
- * Complete list of available Gemini models
- * Updated as of February 2026
+ * Built-in list of Gemini models, updated as of February 2026
+ * Admins can override, hide and add models at runtime (see mergeModels)
  */
 export const GEMINI_MODELS: GeminiModel[] = [
   // Gemini 3 Series (Preview)
@@ -57,6 +66,7 @@ export const GEMINI_MODELS: GeminiModel[] = [
     variant: 'pro',
     capabilities: ['vision', 'audio', 'tts', 'thinking'],
     contextWindow: 2000000,
+    speechModel: 'gemini-2.5-pro-preview-tts',
   },
   {
     id: 'gemini-2.5-flash-tts',
@@ -65,6 +75,7 @@ export const GEMINI_MODELS: GeminiModel[] = [
     variant: 'flash',
     capabilities: ['vision', 'audio', 'tts'],
     contextWindow: 1000000,
+    speechModel: 'gemini-2.5-flash-preview-tts',
   },
 
   // Gemini 2.0 Series (Deprecated)
@@ -77,19 +88,71 @@ export const GEMINI_MODELS: GeminiModel[] = [
     contextWindow: 1000000,
     deprecated: true,
     deprecationDate: '2026-03-31',
+    successor: 'gemini-2.5-flash',
   },
 ];
 
 /**
- * Default model to use when none is specified
+ * Token pricing per model in USD per million tokens (standard tier)
+ * Updated as of February 2026
+ */
+export const GEMINI_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview': { inputPerMillion: 2.0, outputPerMillion: 12.0, cachedPerMillion: 0.2 },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3.0, cachedPerMillion: 0.05 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.0, cachedPerMillion: 0.125 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedPerMillion: 0.03 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4, cachedPerMillion: 0.01 },
+  'gemini-2.5-pro-tts': { inputPerMillion: 1.0, outputPerMillion: 20.0, cachedPerMillion: 0 },
+  'gemini-2.5-flash-tts': { inputPerMillion: 0.5, outputPerMillion: 10.0, cachedPerMillion: 0 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4, cachedPerMillion: 0.025 },
+};
+
+/**
+ * Get pricing for a model: its own (e.g. set by an admin), else the built-in price
+ */
+export function getModelPricing(
+  modelId: string,
+  models: GeminiModel[] = GEMINI_MODELS
+): ModelPricing | undefined {
+  return getModelById(modelId, models)?.pricing ?? GEMINI_MODEL_PRICING[modelId];
+}
+
+/**
+ * Estimate the cost of a turn in USD
+ * Prompt tokens include cached tokens, which are billed at the cached rate
+ */
+export function calculateCost(
+  usage: TokenUsage,
+  modelId: string,
+  models: GeminiModel[] = GEMINI_MODELS
+): number {
+  const pricing = getModelPricing(modelId, models);
+  if (!pricing) {
+    return 0;
+  }
+
+  const cachedTokens = Math.min(usage.cachedTokens, usage.promptTokens);
+  const cost =
+    (usage.promptTokens - cachedTokens) * pricing.inputPerMillion +
+    cachedTokens * pricing.cachedPerMillion +
+    usage.responseTokens * pricing.outputPerMillion;
+
+  return cost / 1_000_000;
+}
+
+/**
+ * Default model to use when none is specified and admins have not picked one
  */
 export const DEFAULT_MODEL = 'gemini-2.5-flash';
 
 /**
  * Get model by ID
  */
-export function getModelById(modelId: string): GeminiModel | undefined {
-  return GEMINI_MODELS.find((model) => model.id === modelId);
+export function getModelById(
+  modelId: string,
+  models: GeminiModel[] = GEMINI_MODELS
+): GeminiModel | undefined {
+  return models.find((model) => model.id === modelId);
 }
 
 /**
@@ -104,8 +167,8 @@ export function getModelsByFamily(
 /**
  * Check if model ID is valid
  */
-export function isValidModel(modelId: string): boolean {
-  return GEMINI_MODELS.some((model) => model.id === modelId);
+export function isValidModel(modelId: string, models: GeminiModel[] = GEMINI_MODELS): boolean {
+  return models.some((model) => model.id === modelId);
 }
 
 /**
@@ -114,3 +177,80 @@ export function isValidModel(modelId: string): boolean {
 export function getActiveModels(): GeminiModel[] {
   return GEMINI_MODELS.filter((model) => !model.deprecated);
 }
+
+/**
+ * Check whether a model is past its deprecation date
+ */
+export function isModelRetired(model: GeminiModel, now = new Date()): boolean {
+  return Boolean(model.deprecationDate && model.deprecationDate <= now.toISOString().slice(0, 10));
+}
+
+/**
+ * Apply admin overrides to the built-in models
+ * Overrides for unknown ids add a model, but only once they define it completely,
+ * pricing included, so its turns count towards budgets.
+ */
+export function mergeModels(
+  overrides: Record<string, ModelOverride>,
+  builtIn: GeminiModel[] = GEMINI_MODELS
+): GeminiModel[] {
+  const merged = builtIn.map((model) => ({ ...model, ...overrides[model.id] }));
+
+  for (const [id, override] of Object.entries(overrides)) {
+    if (builtIn.some((model) => model.id === id)) continue;
+
+    const { name, family, variant, capabilities, contextWindow, pricing } = override;
+    if (name && family && variant && capabilities && contextWindow && pricing) {
+      merged.push({ ...override, id, name, family, variant, capabilities, contextWindow, pricing });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Generation settings that only some models accept, by the capability they need
+ */
+const SETTING_CAPABILITIES: Partial<Record<GenerationSetting, GeminiCapability>> = {
+  thinkingBudget: 'thinking',
+};
+
+/**
+ * Generation settings a model accepts
+ */
+export function supportedGenerationSettings(model: GeminiModel): GenerationSetting[] {
+  return GENERATION_SETTINGS.filter((setting) => {
+    const capability = SETTING_CAPABILITIES[setting];
+    return !capability || model.capabilities.includes(capability);
+  });
+}
+
+/**
+ * Settings that are set but not accepted by a model (all of them for unknown models)
+ */
+export function unsupportedGenerationSettings(
+  settings: GenerationSettings,
+  modelId: string,
+  models: GeminiModel[] = GEMINI_MODELS
+): GenerationSetting[] {
+  const model = getModelById(modelId, models);
+  const supported = model ? supportedGenerationSettings(model) : [];
+  return GENERATION_SETTINGS.filter(
+    (setting) => settings[setting] !== undefined && !supported.includes(setting)
+  );
+}
+
+/**
+ * Drop the settings a model does not accept, e.g. when a session switches models
+ */
+export function pruneGenerationSettings(
+  settings: GenerationSettings,
+  modelId: string,
+  models: GeminiModel[] = GEMINI_MODELS
+): GenerationSettings {
+  const pruned = { ...settings };
+  for (const setting of unsupportedGenerationSettings(settings, modelId, models)) {
+    delete pruned[setting];
+  }
+  return pruned;
+}
@@ -18,14 +18,32 @@ export * from './types/session.types.js';
 // File types
 export * from './types/file.types.js';
 
+// Session export types
+export * from './types/export.types.js';
+
 // Git types
 export * from './types/git.types.js';
 
 // Gemini types
 export * from './types/gemini.types.js';
 
+// Cost and budget types
+export * from './types/cost.types.js';
+
+// Execution policy types
+export * from './types/policy.types.js';
+
 // MCP types
 export * from './types/mcp.types.js';
 
+// Prompt template types
+export * from './types/template.types.js';
+
+// Scheduled job types
+export * from './types/job.types.js';
+
+// Realtime (WebSocket) types
+export * from './types/realtime.types.js';
+
 // Gemini model constants
 export * from './constants/gemini-models.js';
@@ -34,6 +34,11 @@ export type LoginInput = z.infer<typeof LoginSchema>;
 export type RegisterInput = z.infer<typeof RegisterSchema>;
 export type TokenPayload = z.infer<typeof TokenPayloadSchema>;
 
+/**
+ * User roles; admins manage budgets and see everyone's spend
+ */
+export type UserRole = 'user' | 'admin';
+
 /**
  * Authentication response interface
  */
@@ -44,6 +49,7 @@ export interface AuthResponse {
   user: {
     id: string;
     username: string;
+    role: UserRole;
   };
 }
 
@@ -53,6 +59,7 @@ export interface AuthResponse {
 export interface User {
   id: string;
   username: string;
+  role: UserRole;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+/**
+ * Month in YYYY-MM format
+ */
+export const MonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM');
+
+/**
+ * Budget update schema (null removes the cap)
+ */
+export const SetBudgetSchema = z.object({
+  monthlyBudgetUsd: z.number().nonnegative().max(1_000_000).nullable(),
+});
+
+export type SetBudgetInput = z.infer<typeof SetBudgetSchema>;
+
+/**
+ * Spend of one session in a month (sessionId is null once the session is deleted)
+ */
+export interface SessionCost {
+  sessionId: string | null;
+  projectPath: string;
+  costUsd: number;
+  turns: number;
+}
+
+/**
+ * Spend of one project in a month
+ */
+export interface ProjectCost {
+  projectPath: string;
+  projectName?: string;
+  costUsd: number;
+  turns: number;
+}
+
+/**
+ * A user's spend in a month, rolled up per project and session
+ */
+export interface UserCostSummary {
+  month: string;
+  costUsd: number;
+  monthlyBudgetUsd: number | null;
+  projects: ProjectCost[];
+  sessions: SessionCost[];
+}
+
+/**
+ * One row of the admin spend report
+ */
+export interface UserSpend {
+  userId: string;
+  username: string;
+  costUsd: number;
+  turns: number;
+  monthlyBudgetUsd: number | null;
+}
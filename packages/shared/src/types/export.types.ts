@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { STORED_ATTACHMENT_MIME_TYPES } from './file.types.js';
+
+/**
+ * Formats a session can be exported to
+ */
+export const SESSION_EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+
+/**
+ * Version of the JSON export layout; bump when it changes incompatibly
+ */
+export const SESSION_EXPORT_VERSION = 1;
+
+/**
+ * Session export query schema
+ */
+export const SessionExportQuerySchema = z.object({
+  format: z.enum(SESSION_EXPORT_FORMATS).default('md'),
+});
+
+/**
+ * JSON session export schema
+ * Holds every branch and the attachment contents so another instance can re-import it
+ */
+export const SessionExportSchema = z.object({
+  kind: z.literal('gemini-ui.session'),
+  version: z.literal(SESSION_EXPORT_VERSION),
+  exportedAt: z.coerce.date(),
+  session: z.object({
+    id: z.string(),
+    projectPath: z.string(),
+    model: z.string(),
+    geminiSessionId: z.string().optional(),
+    metadata: z.record(z.unknown()).optional(),
+    activeLeafId: z.string().optional(),
+    createdAt: z.coerce.date(),
+    lastAccessedAt: z.coerce.date(),
+  }),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      parentId: z.string().nullable(),
+      role: z.enum(['user', 'assistant', 'system']),
+      content: z.string(),
+      metadata: z.record(z.unknown()).optional(),
+      createdAt: z.coerce.date(),
+    })
+  ),
+  attachments: z.array(
+    z.object({
+      id: z.string(),
+      filename: z.string(),
+      mimeType: z.enum(STORED_ATTACHMENT_MIME_TYPES),
+      size: z.number(),
+      createdAt: z.coerce.date(),
+      /** File contents, base64 encoded */
+      data: z.string(),
+    })
+  ),
+});
+
+/**
+ * Inferred types
+ */
+export type SessionExportFormat = (typeof SESSION_EXPORT_FORMATS)[number];
+export type SessionExportQuery = z.infer<typeof SessionExportQuerySchema>;
+export type SessionExport = z.infer<typeof SessionExportSchema>;
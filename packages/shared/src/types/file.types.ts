@@ -26,12 +26,61 @@ export const FileUploadSchema = z.object({
   size: z.number().max(10 * 1024 * 1024), // 10MB max
 });
 
+/**
+ * MIME types accepted as chat attachments (for vision-capable models)
+ */
+export const ATTACHMENT_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+] as const;
+
+/**
+ * MIME type of speech generated by TTS models, stored as a session attachment
+ */
+export const SPEECH_MIME_TYPE = 'audio/wav';
+
+/**
+ * MIME types a stored attachment can have: uploads and generated speech
+ */
+export const STORED_ATTACHMENT_MIME_TYPES = [...ATTACHMENT_MIME_TYPES, SPEECH_MIME_TYPE] as const;
+
+export type UploadMimeType = (typeof ATTACHMENT_MIME_TYPES)[number];
+export type AttachmentMimeType = (typeof STORED_ATTACHMENT_MIME_TYPES)[number];
+
+/**
+ * Most attachments one message can carry
+ */
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+/**
+ * Most files and folders one message can @-mention
+ */
+export const MAX_MENTIONS_PER_MESSAGE = 20;
+
+/**
+ * Total size of the files @-mentions may pull into one message; folders stop expanding there
+ */
+export const MENTION_SIZE_BUDGET = 512 * 1024;
+
+/**
+ * File completion query (for @-mentions)
+ */
+export const FileCompletionQuerySchema = z.object({
+  root: z.string().min(1),
+  q: z.string().max(500).default(''),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 /**
  * Inferred types
  */
 export type ReadFileInput = z.infer<typeof ReadFileSchema>;
 export type WriteFileInput = z.infer<typeof WriteFileSchema>;
 export type FileUploadInput = z.infer<typeof FileUploadSchema>;
+export type FileCompletionQuery = z.infer<typeof FileCompletionQuerySchema>;
 
 /**
  * File metadata interface
@@ -53,3 +102,37 @@ export interface DirectoryListing {
   path: string;
   files: FileMetadata[];
 }
+
+/**
+ * File or folder offered for an @-mention
+ */
+export interface FileCompletion {
+  /** Relative to the project root */
+  path: string;
+  type: 'file' | 'directory';
+}
+
+/**
+ * File or folder @-mentioned in a message, with the files the model was given
+ */
+export interface MessageMention {
+  /** Relative to the project root */
+  path: string;
+  type: 'file' | 'directory';
+  /** Files passed to the CLI, relative to the project root */
+  files: string[];
+  /** Some files were left out to stay within the size budget */
+  truncated: boolean;
+}
+
+/**
+ * File uploaded to a chat session, or speech generated in it
+ */
+export interface Attachment {
+  id: string;
+  sessionId: string;
+  filename: string;
+  mimeType: AttachmentMimeType;
+  size: number;
+  createdAt: Date;
+}
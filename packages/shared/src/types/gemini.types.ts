@@ -1,15 +1,18 @@
+import { z } from 'zod';
+import type { ChatMessage } from './session.types.js';
+import type { Attachment } from './file.types.js';
+
 /**
  * Gemini model types and interfaces
  */
 
-export type GeminiModelFamily = 'gemini-3' | 'gemini-2.5' | 'gemini-2.0';
-export type GeminiModelVariant = 'pro' | 'flash' | 'flash-lite';
-export type GeminiCapability =
-  | 'vision'
-  | 'audio'
-  | 'tts'
-  | 'computer-use'
-  | 'thinking';
+export const GEMINI_MODEL_FAMILIES = ['gemini-3', 'gemini-2.5', 'gemini-2.0'] as const;
+export const GEMINI_MODEL_VARIANTS = ['pro', 'flash', 'flash-lite'] as const;
+export const GEMINI_CAPABILITIES = ['vision', 'audio', 'tts', 'computer-use', 'thinking'] as const;
+
+export type GeminiModelFamily = (typeof GEMINI_MODEL_FAMILIES)[number];
+export type GeminiModelVariant = (typeof GEMINI_MODEL_VARIANTS)[number];
+export type GeminiCapability = (typeof GEMINI_CAPABILITIES)[number];
 
 export interface GeminiModel {
   /** Unique model identifier */
@@ -26,13 +29,224 @@ export interface GeminiModel {
   contextWindow: number;
   /** Whether this model is deprecated */
   deprecated?: boolean;
-  /** Deprecation date if applicable */
+  /** Deprecation date if applicable (YYYY-MM-DD) */
   deprecationDate?: string;
+  /** Model that sessions move to once the deprecation date has passed */
+  successor?: string;
   /** Whether this is a preview/experimental model */
   preview?: boolean;
+  /** Hidden from the model picker by an admin */
+  hidden?: boolean;
+  /** Token prices; built-in models fall back to GEMINI_MODEL_PRICING */
+  pricing?: ModelPricing;
+  /** Gemini API model that reads replies aloud, if not the model itself (tts models) */
+  speechModel?: string;
+}
+
+/**
+ * Token prices for a model in USD per million tokens
+ */
+export const ModelPricingSchema = z
+  .object({
+    inputPerMillion: z.number().min(0),
+    outputPerMillion: z.number().min(0),
+    cachedPerMillion: z.number().min(0),
+  })
+  .strict();
+
+/**
+ * Admin changes to a built-in model, or the full definition of an added model
+ *
+ * An override replaces the previous one; fields it leaves out keep their built-in value.
+ */
+export const ModelOverrideSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    family: z.enum(GEMINI_MODEL_FAMILIES).optional(),
+    variant: z.enum(GEMINI_MODEL_VARIANTS).optional(),
+    capabilities: z.array(z.enum(GEMINI_CAPABILITIES)).optional(),
+    contextWindow: z.number().int().positive().optional(),
+    deprecated: z.boolean().optional(),
+    deprecationDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+      .optional(),
+    successor: z.string().min(1).optional(),
+    preview: z.boolean().optional(),
+    hidden: z.boolean().optional(),
+    pricing: ModelPricingSchema.optional(),
+    speechModel: z.string().trim().min(1).max(100).optional(),
+  })
+  .strict();
+
+/**
+ * Default model selection for the whole team
+ */
+export const SetDefaultModelSchema = z.object({
+  modelId: z.string().min(1),
+});
+
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+export type ModelOverride = z.infer<typeof ModelOverrideSchema>;
+export type SetDefaultModelInput = z.infer<typeof SetDefaultModelSchema>;
+
+/**
+ * Generation parameters a session can set, in the order the settings panel shows them
+ */
+export const GENERATION_SETTINGS = [
+  'temperature',
+  'topP',
+  'maxOutputTokens',
+  'thinkingBudget',
+  'systemInstruction',
+] as const;
+
+export type GenerationSetting = (typeof GENERATION_SETTINGS)[number];
+
+/**
+ * Per-session generation settings passed to the CLI; unset fields keep the CLI defaults
+ */
+export const GenerationSettingsSchema = z
+  .object({
+    temperature: z.number().min(0).max(2).optional(),
+    topP: z.number().min(0).max(1).optional(),
+    maxOutputTokens: z.number().int().min(1).max(65536).optional(),
+    /** Tokens the model may spend thinking, 0 turns thinking off (thinking models only) */
+    thinkingBudget: z.number().int().min(0).max(32768).optional(),
+    /** Replaces the CLI's system prompt */
+    systemInstruction: z.string().trim().min(1).max(20000).optional(),
+  })
+  .strict();
+
+export type GenerationSettings = z.infer<typeof GenerationSettingsSchema>;
+
+/**
+ * Prebuilt voices TTS models can speak with
+ */
+export const SPEECH_VOICES = [
+  'Kore',
+  'Puck',
+  'Charon',
+  'Fenrir',
+  'Aoede',
+  'Leda',
+  'Orus',
+  'Zephyr',
+] as const;
+
+export const DEFAULT_SPEECH_VOICE = 'Kore';
+
+/**
+ * Speech synthesis request for an assistant message
+ */
+export const SynthesizeSpeechSchema = z.object({
+  voice: z.enum(SPEECH_VOICES).default(DEFAULT_SPEECH_VOICE),
+});
+
+export type SpeechVoice = (typeof SPEECH_VOICES)[number];
+export type SynthesizeSpeechInput = z.input<typeof SynthesizeSpeechSchema>;
+
+/**
+ * Speech generated for an assistant message, stored as `metadata.speech`
+ */
+export interface MessageSpeech {
+  attachment: Attachment;
+  voice: SpeechVoice;
 }
 
 export interface GeminiModelListResponse {
   models: GeminiModel[];
   defaultModel: string;
 }
+
+/**
+ * A model as admins manage it: the merged result and where it came from
+ */
+export interface ModelRegistryEntry {
+  model: GeminiModel;
+  /** Part of the built-in list (added models are not) */
+  builtIn: boolean;
+  override?: ModelOverride;
+}
+
+/**
+ * Every model including hidden ones, for the admin registry editor
+ */
+export interface ModelRegistry {
+  entries: ModelRegistryEntry[];
+  defaultModel: string;
+}
+
+/**
+ * Record of a session moved off a retired model, stored as `metadata.modelMigration`
+ */
+export interface ModelMigration {
+  from: string;
+  to: string;
+  migratedAt: string;
+}
+
+/**
+ * Sessions moved from one retired model to its successor
+ */
+export interface ModelMigrationResult {
+  from: string;
+  to: string;
+  sessions: number;
+}
+
+/**
+ * Lifecycle status of a Gemini CLI run
+ */
+export type GeminiRunStatus = 'running' | 'completed' | 'failed' | 'interrupted';
+
+/**
+ * User decision on a tool call that needs approval
+ * `approve-always` also allows the tool for the rest of the session
+ */
+export type ToolApprovalDecision = 'approve-once' | 'approve-always' | 'deny';
+
+/**
+ * Tool call requested by Gemini CLI during a run
+ */
+export interface GeminiToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'pending' | 'success' | 'error';
+  output?: string;
+  /** Decision taken when the CLI asked for approval */
+  approval?: ToolApprovalDecision;
+  /** Why the decision was taken automatically (execution policy) */
+  approvalReason?: string;
+}
+
+/**
+ * What a tool call is about to do, shown on the approval card
+ */
+export type ToolCallPreview =
+  | { kind: 'diff'; path: string; before: string; after: string }
+  | { kind: 'command'; command: string; directory?: string };
+
+/**
+ * Tool approval decision schema
+ */
+export const ToolDecisionSchema = z.object({
+  toolCallId: z.string().min(1),
+  decision: z.enum(['approve-once', 'approve-always', 'deny']),
+});
+
+export type ToolDecisionInput = z.infer<typeof ToolDecisionSchema>;
+
+/**
+ * Events streamed to the browser while a Gemini CLI run is in progress
+ */
+export type GeminiStreamEvent =
+  | { type: 'status'; status: GeminiRunStatus }
+  | { type: 'delta'; text: string }
+  | { type: 'tool-call'; toolCall: GeminiToolCall }
+  | { type: 'tool-result'; toolCall: GeminiToolCall }
+  | { type: 'approval-request'; toolCall: GeminiToolCall; preview?: ToolCallPreview }
+  | { type: 'approval-decision'; toolCall: GeminiToolCall }
+  | { type: 'error'; error: string }
+  | { type: 'done'; message: ChatMessage };
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { ExecutionPolicySchema, type ExecutionPolicy } from './policy.types.js';
+
+/**
+ * Outcomes of a scheduled run
+ */
+export const JOB_RUN_STATUSES = ['running', 'succeeded', 'failed'] as const;
+
+export type JobRunStatus = (typeof JOB_RUN_STATUSES)[number];
+
+const JobFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  prompt: z.string().min(1, 'Prompt cannot be empty').max(100000, 'Prompt too long'),
+  /** Five-field cron expression in server time (`0 9 * * 1-5`) or a macro such as `@daily` */
+  schedule: z.string().trim().min(1).max(100),
+  /** Omit to use the default model at run time */
+  model: z.string().min(1).optional(),
+  enabled: z.boolean().default(true),
+  /** Applied to every run's session; nobody is there to approve, so jobs start read-only */
+  policy: ExecutionPolicySchema.default({ readOnly: true }),
+});
+
+/**
+ * Scheduled job creation schema
+ */
+export const CreateScheduledJobSchema = JobFieldsSchema.extend({
+  projectId: z.string().min(1),
+});
+
+/**
+ * Scheduled job update schema (the project cannot change)
+ */
+export const UpdateScheduledJobSchema = JobFieldsSchema.partial();
+
+/**
+ * Job run list query
+ */
+export const JobRunQuerySchema = z.object({
+  jobId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * Inferred types
+ */
+export type CreateScheduledJobInput = z.input<typeof CreateScheduledJobSchema>;
+export type UpdateScheduledJobInput = z.input<typeof UpdateScheduledJobSchema>;
+export type JobRunQuery = z.input<typeof JobRunQuerySchema>;
+
+/**
+ * Prompt run on a schedule against a project
+ */
+export interface ScheduledJob {
+  id: string;
+  userId: string;
+  projectId: string;
+  name: string;
+  prompt: string;
+  schedule: string;
+  model?: string;
+  enabled: boolean;
+  policy: ExecutionPolicy;
+  /** Null while the job is disabled */
+  nextRunAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One run of a scheduled job; the conversation is kept in its session
+ */
+export interface JobRun {
+  id: string;
+  jobId: string;
+  jobName: string;
+  /** Null once the session is deleted */
+  sessionId: string | null;
+  status: JobRunStatus;
+  /** Started by a user rather than the schedule */
+  manual: boolean;
+  output?: string;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+/**
+ * Gemini CLI approval modes, from most to least restrictive
+ * - default: every tool call is confirmed
+ * - auto_edit: file edits run without confirmation
+ * - yolo: every tool call runs without confirmation
+ */
+export const APPROVAL_MODES = ['default', 'auto_edit', 'yolo'] as const;
+
+export type ApprovalMode = (typeof APPROVAL_MODES)[number];
+
+/**
+ * Execution policy schema
+ * Command patterns match by leading words (`git status` matches `git status -s`);
+ * path patterns are globs relative to the project root (`src/**`, `*.env`)
+ */
+export const ExecutionPolicySchema = z.object({
+  approvalMode: z.enum(APPROVAL_MODES).default('default'),
+  readOnly: z.boolean().default(false),
+  allowedCommands: z.array(z.string().min(1).max(500)).max(200).default([]),
+  deniedCommands: z.array(z.string().min(1).max(500)).max(200).default([]),
+  allowedPaths: z.array(z.string().min(1).max(500)).max(200).default([]),
+  deniedPaths: z.array(z.string().min(1).max(500)).max(200).default([]),
+});
+
+export type ExecutionPolicyInput = z.input<typeof ExecutionPolicySchema>;
+
+/**
+ * Execution policy for a project or a session
+ */
+export type ExecutionPolicy = z.infer<typeof ExecutionPolicySchema>;
+
+/**
+ * Policy used when a project or session has none configured
+ */
+export const DEFAULT_EXECUTION_POLICY: ExecutionPolicy = {
+  approvalMode: 'default',
+  readOnly: false,
+  allowedCommands: [],
+  deniedCommands: [],
+  allowedPaths: [],
+  deniedPaths: [],
+};
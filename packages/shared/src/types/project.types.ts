@@ -40,3 +40,47 @@ export interface Project {
   updatedAt: Date;
   lastAccessedAt: Date;
 }
+
+/**
+ * Where a context file sits relative to the project, in the order the CLI loads them
+ * - global: ~/.gemini/GEMINI.md
+ * - ancestor: directories above the project, up to the repository root
+ * - project: the project root
+ * - subdirectory: directories below the project root
+ */
+export type ContextFileScope = 'global' | 'ancestor' | 'project' | 'subdirectory';
+
+/**
+ * A GEMINI.md context file that applies to a project
+ */
+export interface ContextFile {
+  path: string;
+  /** Path shown to the model; relative to the project root except for the global file */
+  displayPath: string;
+  scope: ContextFileScope;
+  /** Global and project root files are listed even before they are created */
+  exists: boolean;
+  content: string;
+  /** Approximate token count */
+  tokens: number;
+}
+
+/**
+ * Context files of a project and the merged context the CLI receives
+ */
+export interface ProjectContext {
+  files: ContextFile[];
+  merged: string;
+  /** Approximate token count of the merged context */
+  tokens: number;
+}
+
+/**
+ * Context file write schema
+ */
+export const WriteContextFileSchema = z.object({
+  path: z.string().min(1),
+  content: z.string().max(1000000, 'Context file too long'),
+});
+
+export type WriteContextFileInput = z.infer<typeof WriteContextFileSchema>;
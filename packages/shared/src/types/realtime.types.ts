@@ -0,0 +1,52 @@
+import type { GeminiStreamEvent } from './gemini.types.js';
+import type { MCPServerStatus } from './mcp.types.js';
+
+/**
+ * Realtime (WebSocket) message types for the /ws gateway
+ *
+ * Channels:
+ * - `session:<id>` - live events for one chat session
+ * - `files` - file changes made by the current user
+ * - `mcp` - MCP server status changes
+ */
+
+/**
+ * File change notification
+ */
+export interface FileChangedEvent {
+  type: 'file-changed';
+  path: string;
+  change: 'write' | 'delete';
+}
+
+/**
+ * MCP server status notification
+ */
+export interface MCPStatusEvent {
+  type: 'mcp-status';
+  name: string;
+  status: MCPServerStatus;
+}
+
+/**
+ * Any event delivered on a realtime channel
+ */
+export type RealtimeEvent = GeminiStreamEvent | FileChangedEvent | MCPStatusEvent;
+
+/**
+ * Messages sent by the browser
+ */
+export type RealtimeClientMessage =
+  | { type: 'subscribe'; channel: string }
+  | { type: 'unsubscribe'; channel: string }
+  | { type: 'ping' };
+
+/**
+ * Messages sent by the server
+ */
+export type RealtimeServerMessage =
+  | { type: 'event'; channel: string; event: RealtimeEvent }
+  | { type: 'subscribed'; channel: string }
+  | { type: 'unsubscribed'; channel: string }
+  | { type: 'error'; channel?: string; code: string; message: string }
+  | { type: 'pong' };
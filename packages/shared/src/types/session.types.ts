@@ -1,9 +1,16 @@
 import { z } from 'zod';
+import { MAX_ATTACHMENTS_PER_MESSAGE, MAX_MENTIONS_PER_MESSAGE } from './file.types.js';
+import { GenerationSettingsSchema, type GenerationSettings } from './gemini.types.js';
 
 /**
  * Chat message schema
  */
 export const ChatMessageSchema = z.object({
+  id: z.string().optional(),
+  /** Message this one follows (null for the first message of a branch) */
+  parentId: z.string().nullable().optional(),
+  /** Ids of this message and its alternatives, in creation order */
+  siblingIds: z.array(z.string()).optional(),
   role: z.enum(['user', 'assistant', 'system']),
   content: z.string(),
   timestamp: z.date().optional(),
@@ -15,8 +22,147 @@ export const ChatMessageSchema = z.object({
  */
 export const CreateSessionSchema = z.object({
   projectPath: z.string().min(1),
+  model: z.string().min(1).optional(),
   geminiSessionId: z.string().optional(),
-  metadata: z.record(z.unknown()).optional(),
+  metadata: z
+    .record(z.unknown())
+    .refine((metadata) => !('approvedTools' in metadata), {
+      message: 'Approved tools are granted through tool approvals',
+    })
+    .optional(),
+  generationSettings: GenerationSettingsSchema.optional(),
+});
+
+/**
+ * Send chat message schema (one Gemini turn)
+ */
+export const SendMessageSchema = z.object({
+  content: z.string().min(1, 'Message cannot be empty').max(100000, 'Message too long'),
+  /** Branch from this message instead of the end of the active branch (null: from the start) */
+  parentId: z.string().nullable().optional(),
+  /** Files uploaded to the session to pass along with the message */
+  attachmentIds: z.array(z.string()).max(MAX_ATTACHMENTS_PER_MESSAGE).optional(),
+  /** Project-relative files and folders to give the model as context */
+  mentions: z.array(z.string().min(1).max(1000)).max(MAX_MENTIONS_PER_MESSAGE).optional(),
+});
+
+/**
+ * Session update schema (rename, pin, archive, tag, generation settings)
+ */
+export const UpdateSessionSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).optional(),
+    pinned: z.boolean().optional(),
+    archived: z.boolean().optional(),
+    tags: z
+      .array(z.string().trim().min(1).max(50))
+      .max(20)
+      .transform((tags) => [...new Set(tags)])
+      .optional(),
+    /** Replaces all generation settings; an empty object restores the CLI defaults */
+    generationSettings: GenerationSettingsSchema.optional(),
+  })
+  .refine((input) => Object.keys(input).length > 0, 'Nothing to update');
+
+/**
+ * Fields session lists can be sorted by
+ */
+export const SESSION_SORT_FIELDS = ['lastAccessedAt', 'createdAt', 'title'] as const;
+
+/**
+ * Session list query schema (pagination params plus filters)
+ * Pinned sessions always come first
+ */
+export const SessionListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  sortBy: z.enum(SESSION_SORT_FIELDS).default('lastAccessedAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  /** List archived sessions instead of active ones */
+  archived: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  tag: z.string().min(1).optional(),
+});
+
+/**
+ * Branch switch schema
+ */
+export const SelectBranchSchema = z.object({
+  messageId: z.string().min(1),
+});
+
+/**
+ * Session fork schema
+ */
+export const ForkSessionSchema = z.object({
+  /** Last message to copy (default: the end of the active branch) */
+  messageId: z.string().min(1).optional(),
+  /** Continue in another of the user's projects */
+  projectPath: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+});
+
+// Most messages a single request returns
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+
+/**
+ * Cursor query for a window of a session's active branch
+ * Without a cursor the newest messages are returned
+ */
+export const MessagePageQuerySchema = z
+  .object({
+    /** Older messages, ending just before this one */
+    before: z.string().min(1).optional(),
+    /** Newer messages, starting just after this one */
+    after: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_MESSAGE_PAGE_SIZE).default(50),
+  })
+  .refine((query) => !(query.before && query.after), 'Use either before or after, not both');
+
+/**
+ * Session detail query schema
+ * A limit returns only the newest messages of the branch; the rest can be paged in
+ */
+export const SessionDetailQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_MESSAGE_PAGE_SIZE).optional(),
+});
+
+/**
+ * Comparison creation schema: one sandboxed session per model, same project
+ * Model ids are checked against the model registry when the comparison is created.
+ */
+export const CreateComparisonSchema = z.object({
+  projectPath: z.string().min(1),
+  models: z
+    .array(z.string().min(1))
+    .min(2, 'Compare at least two models')
+    .max(3, 'Compare at most three models')
+    .refine((models) => new Set(models).size === models.length, 'Models must differ'),
+});
+
+/**
+ * Comparison winner schema
+ */
+export const PickComparisonWinnerSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+/**
+ * Chat history search schema
+ */
+export const MessageSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query required').max(500),
+  projectPath: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+  role: z.enum(['user', 'assistant', 'system']).optional(),
+  /** Only messages created at or after this time */
+  from: z.coerce.date().optional(),
+  /** Only messages created at or before this time */
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
 });
 
 /**
@@ -24,6 +170,14 @@ export const CreateSessionSchema = z.object({
  */
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 export type CreateSessionInput = z.infer<typeof CreateSessionSchema>;
+export type SendMessageInput = z.infer<typeof SendMessageSchema>;
+export type SelectBranchInput = z.infer<typeof SelectBranchSchema>;
+export type ForkSessionInput = z.infer<typeof ForkSessionSchema>;
+export type CreateComparisonInput = z.infer<typeof CreateComparisonSchema>;
+export type UpdateSessionInput = z.infer<typeof UpdateSessionSchema>;
+export type SessionListQuery = z.infer<typeof SessionListQuerySchema>;
+export type MessageSearchQuery = z.infer<typeof MessageSearchQuerySchema>;
+export type MessagePageQuery = z.infer<typeof MessagePageQuerySchema>;
 
 /**
  * Session interface
@@ -32,15 +186,120 @@ export interface Session {
   id: string;
   userId: string;
   projectPath: string;
+  model: string;
   geminiSessionId?: string;
   metadata?: Record<string, unknown>;
+  /** Leaf of the conversation branch currently shown */
+  activeLeafId?: string;
+  /** Generated from the first prompt until the user renames the session */
+  title?: string;
+  pinned: boolean;
+  archived: boolean;
+  tags: string[];
+  /** Passed to the CLI on every turn */
+  generationSettings?: GenerationSettings;
+  /** Tools the user chose to always approve in this session */
+  approvedTools: string[];
   createdAt: Date;
   lastAccessedAt: Date;
 }
 
 /**
- * Session with messages
+ * Token counts for one Gemini turn, stored in the assistant message metadata
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Token totals for a session
+ */
+export interface SessionUsage extends TokenUsage {
+  /** Turns that reported usage */
+  turns: number;
+  /** Tokens the latest turn occupied in the model's context window */
+  contextTokens: number;
+  /** Estimated cost in USD */
+  costUsd: number;
+}
+
+/**
+ * Session with the messages of its active branch
  */
 export interface SessionWithMessages extends Session {
   messages: ChatMessage[];
+  /** Older messages of the branch were left out (see MessagePage) */
+  hasMoreBefore: boolean;
+}
+
+/**
+ * A window of a session's active branch, oldest first
+ */
+export interface MessagePage {
+  items: ChatMessage[];
+  /** Older messages exist; page back with `before` set to the first item */
+  hasMoreBefore: boolean;
+  /** Newer messages exist; page forward with `after` set to the last item */
+  hasMoreAfter: boolean;
+}
+
+/**
+ * Origin of a forked session, stored as `metadata.forkedFrom`
+ */
+export interface SessionForkOrigin {
+  sessionId: string;
+  /** Last message copied from the original session */
+  messageId: string | null;
+  projectPath: string;
+  model: string;
+}
+
+/**
+ * Comparison a session takes part in, stored as `metadata.comparison`
+ */
+export interface SessionComparisonInfo {
+  id: string;
+  /** Models compared, in column order */
+  models: string[];
+  /** Session the user chose to continue with */
+  winnerId?: string;
+}
+
+/**
+ * Sessions compared side by side, in the order of their models
+ */
+export interface SessionComparison {
+  id: string;
+  sessions: Session[];
+}
+
+/**
+ * Outcome of importing Gemini CLI history (~/.gemini) into sessions
+ */
+export interface CliHistoryImportResult {
+  sessionsCreated: number;
+  /** Previously imported sessions that received new messages */
+  sessionsUpdated: number;
+  messagesImported: number;
+  /** History files that could not be parsed */
+  filesSkipped: number;
+  /** History directories that match none of the user's projects */
+  unmatchedDirectories: number;
+}
+
+/**
+ * A chat message matching a history search
+ */
+export interface MessageSearchHit {
+  messageId: string;
+  sessionId: string;
+  projectPath: string;
+  model: string;
+  role: ChatMessage['role'];
+  /** Excerpt around the match; HTML-escaped, with matched terms wrapped in <mark> */
+  snippet: string;
+  createdAt: Date;
 }
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+/**
+ * `{{variable}}` placeholders in a template body
+ */
+export const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/**
+ * Template names double as slash commands (`/code-review`)
+ */
+const TemplateNameSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[\w-]+$/, 'Use letters, digits, dashes and underscores only');
+
+const TemplateFieldsSchema = z.object({
+  name: TemplateNameSchema,
+  description: z.string().max(500).optional(),
+  body: z.string().min(1, 'Template cannot be empty').max(100000, 'Template too long'),
+  /** Project-relative paths passed to the CLI as `@path` references */
+  files: z.array(z.string().min(1).max(1000)).max(50).default([]),
+});
+
+/**
+ * Prompt template creation schema
+ */
+export const CreatePromptTemplateSchema = TemplateFieldsSchema.extend({
+  /** Project the template belongs to; omit for a template available everywhere */
+  projectId: z.string().optional(),
+});
+
+/**
+ * Prompt template update schema (the scope cannot change)
+ */
+export const UpdatePromptTemplateSchema = TemplateFieldsSchema.partial();
+
+/**
+ * Prompt template list and export query
+ */
+export const PromptTemplateQuerySchema = z.object({
+  /** Include this project's templates next to the user's own */
+  projectId: z.string().optional(),
+});
+
+/**
+ * Shareable template file
+ */
+export const PromptTemplateExportSchema = z.object({
+  version: z.literal(1),
+  templates: z.array(TemplateFieldsSchema).max(500),
+});
+
+/**
+ * Template import schema; templates replace those with the same name in the scope
+ */
+export const ImportPromptTemplatesSchema = PromptTemplateExportSchema.extend({
+  projectId: z.string().optional(),
+});
+
+/**
+ * Inferred types
+ */
+export type CreatePromptTemplateInput = z.input<typeof CreatePromptTemplateSchema>;
+export type UpdatePromptTemplateInput = z.input<typeof UpdatePromptTemplateSchema>;
+export type PromptTemplateQuery = z.infer<typeof PromptTemplateQuerySchema>;
+export type PromptTemplateExport = z.infer<typeof PromptTemplateExportSchema>;
+export type ImportPromptTemplatesInput = z.input<typeof ImportPromptTemplatesSchema>;
+
+/**
+ * Prompt template
+ */
+export interface PromptTemplate {
+  id: string;
+  userId: string;
+  /** Null for templates available in every project */
+  projectId: string | null;
+  name: string;
+  description?: string;
+  body: string;
+  files: string[];
+  /** Variable names in order of first appearance */
+  variables: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}